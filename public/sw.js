@@ -0,0 +1,72 @@
+// Service worker: serves the precached app shell so a reload works without
+// network, waits for the app to say when to switch to a new version, and
+// wakes the app's sync queue through Background Sync.
+//
+// precache-manifest.js is generated by the build (see vite.config.ts). It
+// changes with every build, which is how browsers notice an update.
+
+/* global self, caches, clients */
+importScripts("/precache-manifest.js");
+
+const { version, urls } = self.__PRECACHE_MANIFEST;
+const CACHE_PREFIX = "wedding-ledger-";
+const CACHE_NAME = CACHE_PREFIX + version;
+const SYNC_TAG = "wedding-sync";
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE_NAME)
+      .then((cache) => cache.addAll(urls.map((url) => new Request(url, { cache: "reload" }))))
+  );
+  // No skipWaiting here: the app activates the update once it is safe to reload
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // Sync traffic and anything cross-origin always goes to the network
+  if (request.method !== "GET" || url.origin !== self.location.origin) return;
+
+  // Every route of the single-page app is served by the cached index.html
+  if (request.mode === "navigate") {
+    event.respondWith(
+      caches.match("/", { cacheName: CACHE_NAME }).then((cached) => cached ?? fetch(request))
+    );
+    return;
+  }
+
+  event.respondWith(
+    caches.match(request, { cacheName: CACHE_NAME }).then((cached) => cached ?? fetch(request))
+  );
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "SKIP_WAITING") self.skipWaiting();
+});
+
+// Connectivity is back: ask any open window to run its sync queue. The queue
+// lives in the page, so with no window open it runs on the next start instead.
+self.addEventListener("sync", (event) => {
+  if (event.tag !== SYNC_TAG) return;
+  event.waitUntil(
+    clients
+      .matchAll({ type: "window" })
+      .then((windows) => windows.forEach((w) => w.postMessage({ type: "SYNC_REQUESTED" })))
+  );
+});
@@ -0,0 +1,239 @@
+// Local stand-in for the sync backend, so the sync engine can be exercised
+// fully offline. No dependencies: run with `npm run sync-server` and point
+// the app's sync endpoint at http://localhost:8787.
+//
+//   POST /sync/push            { deviceId, pulledAt, guests, gifts, events }
+//                                                         -> { accepted, rejected, conflicts, serverTime }
+//   GET  /sync/pull?since=<ms>                             -> { guests, gifts, events, serverTime }
+//
+// Records are merged field by field on their hybrid logical clocks (the same
+// rules as src/lib/merge.ts) and persisted to a JSON file. A gift amount the
+// pusher edited without having pulled the one stored here is reported back
+// as a conflict, whichever side the merge kept.
+
+import { createServer } from "node:http";
+import { readFileSync, writeFileSync, existsSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+
+const PORT = Number(process.env.PORT ?? 8787);
+const DATA_FILE =
+  process.env.SYNC_DATA_FILE ?? fileURLToPath(new URL("./sync-data.json", import.meta.url));
+const MAX_BODY = 10 * 1024 * 1024; // 10 MB
+
+// store name -> id -> { record, serverUpdatedAt, amountUpdatedAt }
+const stores = { guests: new Map(), gifts: new Map(), events: new Map() };
+
+function load() {
+  if (!existsSync(DATA_FILE)) return;
+  const data = JSON.parse(readFileSync(DATA_FILE, "utf8"));
+  for (const name of Object.keys(stores)) {
+    for (const entry of data[name] ?? []) stores[name].set(entry.record.id, entry);
+  }
+  console.log(
+    `[sync-server] Loaded ${stores.guests.size} guests, ${stores.gifts.size} gifts, ${stores.events.size} events`
+  );
+}
+
+function save() {
+  const data = Object.fromEntries(
+    Object.entries(stores).map(([name, map]) => [name, [...map.values()]])
+  );
+  writeFileSync(DATA_FILE, JSON.stringify(data));
+}
+
+// Strictly increasing, so two writes in one millisecond never share a time
+let lastServerTime = 0;
+function serverNow() {
+  lastServerTime = Math.max(Date.now(), lastServerTime + 1);
+  return lastServerTime;
+}
+
+const BOOKKEEPING_FIELDS = ["id", "updatedAt", "syncStatus", "lastSyncedAt", "fieldClocks"];
+const AMOUNT_FIELDS = ["amountRiel", "originalAmount", "currency", "exchangeRate"];
+
+const sameValue = (a, b) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+// Same content, ignoring each device's own sync bookkeeping
+const sameRecord = (a, b) =>
+  sameValue({ ...a, syncStatus: null, lastSyncedAt: null }, { ...b, syncStatus: null, lastSyncedAt: null });
+const latest = (clocks) => clocks.reduce((a, b) => (b > a ? b : a));
+
+// Records from before per-field clocks fall back to their updatedAt
+function clockOf(record, field) {
+  return record.fieldClocks?.[field] ?? `${String(record.updatedAt).padStart(15, "0")}-0000-legacy`;
+}
+
+// Clocks end in the id of the device that wrote the field
+const deviceOf = (clock) => clock.split("-").slice(2).join("-");
+
+const amountOf = (record) => Object.fromEntries(AMOUNT_FIELDS.map((f) => [f, record[f] ?? null]));
+const amountClock = (record) => latest(AMOUNT_FIELDS.map((f) => clockOf(record, f)));
+
+// The pusher changed the amount on its own, while the stored one changed
+// after its last pull: neither device saw the other's amount
+function amountConflict(entry, incoming, merged, deviceId, pulledAt) {
+  const stored = entry.record;
+  if (sameValue(amountOf(stored), amountOf(incoming))) return null;
+  const localClock = amountClock(incoming);
+  const remoteClock = amountClock(stored);
+  if (deviceOf(localClock) !== deviceId || deviceOf(remoteClock) === deviceId) return null;
+  if ((entry.amountUpdatedAt ?? entry.serverUpdatedAt) <= (pulledAt ?? 0)) return null;
+
+  return {
+    store: "gifts",
+    recordId: stored.id,
+    guestId: String(stored.guestId),
+    fields: AMOUNT_FIELDS,
+    local: amountOf(incoming),
+    remote: amountOf(stored),
+    localClock,
+    remoteClock,
+    applied: sameValue(amountOf(merged), amountOf(incoming)) ? "local" : "remote",
+  };
+}
+
+function merge(name, stored, incoming) {
+  const fields = [...new Set([...Object.keys(stored), ...Object.keys(incoming)])].filter(
+    (f) => !BOOKKEEPING_FIELDS.includes(f)
+  );
+  const amount = name === "gifts" ? fields.filter((f) => AMOUNT_FIELDS.includes(f)) : [];
+  const groups = [amount, ...fields.filter((f) => !amount.includes(f)).map((f) => [f])];
+
+  const merged = { ...stored, fieldClocks: { ...stored.fieldClocks } };
+  for (const group of groups.filter((g) => g.length > 0)) {
+    const storedClock = latest(group.map((f) => clockOf(stored, f)));
+    const incomingClock = latest(group.map((f) => clockOf(incoming, f)));
+    const values = (r) => JSON.stringify(group.map((f) => r[f] ?? null));
+    const useIncoming =
+      storedClock === incomingClock ? values(incoming) > values(stored) : incomingClock > storedClock;
+    const winner = useIncoming ? incoming : stored;
+    for (const f of group) {
+      merged[f] = winner[f];
+      merged.fieldClocks[f] = clockOf(winner, f);
+    }
+  }
+  merged.updatedAt = Math.max(stored.updatedAt, incoming.updatedAt);
+  return merged;
+}
+
+function validate(name, record) {
+  if (!record || typeof record.id !== "string") return "missing id";
+  if (typeof record.updatedAt !== "number") return "missing updatedAt";
+  if (name === "gifts") {
+    if (typeof record.guestId !== "string") return "missing guestId";
+    if (typeof record.amountRiel !== "number" || record.amountRiel < 0) return "invalid amountRiel";
+  }
+  if (name === "events" && typeof record.name !== "string") return "missing name";
+  return null;
+}
+
+function push(body) {
+  const accepted = [];
+  const rejected = [];
+  const conflicts = [];
+
+  for (const name of Object.keys(stores)) {
+    for (const record of body[name] ?? []) {
+      const reason = validate(name, record);
+      if (reason) {
+        rejected.push({ id: record?.id ?? "?", reason });
+        continue;
+      }
+
+      const existing = stores[name].get(record.id);
+      if (!existing) {
+        const now = serverNow();
+        stores[name].set(record.id, { record, serverUpdatedAt: now, amountUpdatedAt: now });
+      } else {
+        const merged = merge(name, existing.record, record);
+        if (name === "gifts") {
+          const conflict = amountConflict(existing, record, merged, body.deviceId, body.pulledAt);
+          if (conflict) conflicts.push(conflict);
+        }
+        // Any field where ours is newer makes the merge differ from what was
+        // pushed, so it is handed out again on the pusher's next pull
+        if (!sameRecord(merged, existing.record) || !sameRecord(merged, record)) {
+          const now = serverNow();
+          const amountChanged = !sameValue(amountOf(merged), amountOf(existing.record));
+          stores[name].set(record.id, {
+            record: merged,
+            serverUpdatedAt: now,
+            amountUpdatedAt: amountChanged ? now : existing.amountUpdatedAt,
+          });
+        }
+      }
+      accepted.push(record.id);
+    }
+  }
+
+  save();
+  console.log(
+    `[sync-server] push from ${body.deviceId}: ${accepted.length} accepted, ${rejected.length} rejected, ${conflicts.length} conflicts`
+  );
+  return { accepted, rejected, conflicts, serverTime: lastServerTime };
+}
+
+function pull(since) {
+  const serverTime = serverNow();
+  const changed = (map) =>
+    [...map.values()].filter((e) => e.serverUpdatedAt > since).map((e) => e.record);
+  return {
+    guests: changed(stores.guests),
+    gifts: changed(stores.gifts),
+    events: changed(stores.events),
+    serverTime,
+  };
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on("data", (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY) {
+        reject(new Error("body too large"));
+        req.destroy();
+      } else {
+        chunks.push(chunk);
+      }
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type",
+  });
+  res.end(body === undefined ? "" : JSON.stringify(body));
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? "/", `http://localhost:${PORT}`);
+
+  try {
+    if (req.method === "OPTIONS") return send(res, 204);
+
+    if (req.method === "POST" && url.pathname === "/sync/push") {
+      return send(res, 200, push(JSON.parse(await readBody(req))));
+    }
+
+    if (req.method === "GET" && url.pathname === "/sync/pull") {
+      return send(res, 200, pull(Number(url.searchParams.get("since") ?? 0)));
+    }
+
+    send(res, 404, { error: "not found" });
+  } catch (e) {
+    console.error("[sync-server]", e);
+    send(res, 400, { error: String(e instanceof Error ? e.message : e) });
+  }
+});
+
+load();
+server.listen(PORT, () => {
+  console.log(`[sync-server] Listening on http://localhost:${PORT}`);
+});
@@ -3,7 +3,17 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { LockScreen } from "@/components/LockScreen";
+import { RequirePermission } from "@/components/RequirePermission";
+import { VaultGate } from "@/components/VaultGate";
 import Index from "./pages/Index";
+import Audit from "./pages/Audit";
+import Trash from "./pages/Trash";
+import Conflicts from "./pages/Conflicts";
+import Reciprocity from "./pages/Reciprocity";
+import Contacts from "./pages/Contacts";
+import ContactMerge from "./pages/ContactMerge";
+import ContactDetail from "./pages/ContactDetail";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -13,13 +23,73 @@ const App = () => (
     <TooltipProvider>
       <Toaster />
       <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
+      <VaultGate>
+        <LockScreen>
+          <BrowserRouter>
+            <Routes>
+              <Route path="/" element={<Index />} />
+              <Route
+                path="/audit"
+                element={
+                  <RequirePermission permission="viewAudit">
+                    <Audit />
+                  </RequirePermission>
+                }
+              />
+              <Route
+                path="/trash"
+                element={
+                  <RequirePermission permission="editGuests">
+                    <Trash />
+                  </RequirePermission>
+                }
+              />
+              <Route
+                path="/conflicts"
+                element={
+                  <RequirePermission permission="reviewConflicts">
+                    <Conflicts />
+                  </RequirePermission>
+                }
+              />
+              <Route
+                path="/reciprocity"
+                element={
+                  <RequirePermission permission="viewTotals">
+                    <Reciprocity />
+                  </RequirePermission>
+                }
+              />
+              <Route
+                path="/contacts"
+                element={
+                  <RequirePermission permission="editGuests">
+                    <Contacts />
+                  </RequirePermission>
+                }
+              />
+              <Route
+                path="/contacts/merge"
+                element={
+                  <RequirePermission permission="editGuests">
+                    <ContactMerge />
+                  </RequirePermission>
+                }
+              />
+              <Route
+                path="/contacts/:id"
+                element={
+                  <RequirePermission permission="editGuests">
+                    <ContactDetail />
+                  </RequirePermission>
+                }
+              />
+              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </BrowserRouter>
+        </LockScreen>
+      </VaultGate>
     </TooltipProvider>
   </QueryClientProvider>
 );
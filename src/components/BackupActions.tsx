@@ -1,6 +1,7 @@
 import { memo, useRef, useState } from "react";
 import { Download, Upload, FileJson, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -11,23 +12,40 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import { isEncryptedBackup } from "@/lib/vault";
 import { toast } from "sonner";
 
 interface BackupActionsProps {
+  canExport: boolean;
+  canImport: boolean;
   onExportCSV: () => void;
+  exportCount?: number; // Set when the CSV holds only the guests found by a search
   onExportJSON: () => Promise<void>;
-  onImportJSON: (file: File) => Promise<{ success: boolean; message: string }>;
+  onImportJSON: (
+    file: File,
+    passphrase?: string,
+    acceptAltered?: boolean
+  ) => Promise<{ success: boolean; message: string; alteredIssues?: number }>;
+  undoAction?: { label: string; onClick: () => void };
 }
 
 export const BackupActions = memo(function BackupActions({
+  canExport,
+  canImport,
   onExportCSV,
+  exportCount,
   onExportJSON,
   onImportJSON,
+  undoAction,
 }: BackupActionsProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isImporting, setIsImporting] = useState(false);
   const [showImportConfirm, setShowImportConfirm] = useState(false);
   const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [isEncryptedFile, setIsEncryptedFile] = useState(false);
+  const [passphrase, setPassphrase] = useState("");
+  // Issues found in the backup's ledger; set once the import was refused for them
+  const [alteredIssues, setAlteredIssues] = useState<number | null>(null);
 
   const handleExportJSON = async () => {
     try {
@@ -38,9 +56,19 @@ export const BackupActions = memo(function BackupActions({
     }
   };
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
+      // Encrypted backups need the passphrase they were exported with
+      let encrypted = false;
+      try {
+        encrypted = isEncryptedBackup(JSON.parse(await file.text()));
+      } catch {
+        // Not JSON: the import itself reports the bad file
+      }
+      setIsEncryptedFile(encrypted);
+      setPassphrase("");
+      setAlteredIssues(null);
       setPendingFile(file);
       setShowImportConfirm(true);
     }
@@ -51,13 +79,23 @@ export const BackupActions = memo(function BackupActions({
   };
 
   const handleConfirmImport = async () => {
-    if (!pendingFile) return;
+    if (!pendingFile || !canImport) return;
 
     setIsImporting(true);
     try {
-      const result = await onImportJSON(pendingFile);
+      const result = await onImportJSON(
+        pendingFile,
+        isEncryptedFile ? passphrase : undefined,
+        alteredIssues !== null
+      );
+      if (result.alteredIssues !== undefined) {
+        // Keep the dialog open to ask again, now showing the issues
+        setAlteredIssues(result.alteredIssues);
+        setIsImporting(false);
+        return;
+      }
       if (result.success) {
-        toast.success(result.message);
+        toast.success(result.message, { action: undoAction });
       } else {
         toast.error(result.message);
       }
@@ -66,6 +104,8 @@ export const BackupActions = memo(function BackupActions({
     } finally {
       setIsImporting(false);
       setPendingFile(null);
+      setPassphrase("");
+      setAlteredIssues(null);
       setShowImportConfirm(false);
     }
   };
@@ -80,40 +120,46 @@ export const BackupActions = memo(function BackupActions({
         className="hidden"
       />
 
-      {/* Export CSV */}
-      <Button
-        variant="secondary"
-        onClick={onExportCSV}
-        className="w-full h-12"
-      >
-        <Download className="h-4 w-4 mr-2" />
-        Export CSV
-      </Button>
+      {canExport && (
+        <>
+          {/* Export CSV */}
+          <Button
+            variant="secondary"
+            onClick={onExportCSV}
+            className="w-full h-12"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV{exportCount !== undefined && ` (តាមការស្វែងរក ${exportCount} នាក់)`}
+          </Button>
 
-      {/* Export JSON Backup */}
-      <Button
-        variant="outline"
-        onClick={handleExportJSON}
-        className="w-full h-12"
-      >
-        <FileJson className="h-4 w-4 mr-2" />
-        💾 រក្សាទុក Backup (JSON)
-      </Button>
+          {/* Export JSON Backup */}
+          <Button
+            variant="outline"
+            onClick={handleExportJSON}
+            className="w-full h-12"
+          >
+            <FileJson className="h-4 w-4 mr-2" />
+            💾 រក្សាទុក Backup (JSON)
+          </Button>
+        </>
+      )}
 
       {/* Import JSON Backup */}
-      <Button
-        variant="outline"
-        onClick={() => fileInputRef.current?.click()}
-        className="w-full h-12"
-        disabled={isImporting}
-      >
-        {isImporting ? (
-          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-        ) : (
-          <Upload className="h-4 w-4 mr-2" />
-        )}
-        📥 នាំចូល Backup (JSON)
-      </Button>
+      {canImport && (
+        <Button
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+          className="w-full h-12"
+          disabled={isImporting}
+        >
+          {isImporting ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Upload className="h-4 w-4 mr-2" />
+          )}
+          📥 នាំចូល Backup (JSON)
+        </Button>
+      )}
 
       {/* Import Confirmation Dialog */}
       <AlertDialog open={showImportConfirm} onOpenChange={setShowImportConfirm}>
@@ -128,19 +174,38 @@ export const BackupActions = memo(function BackupActions({
                 ទិន្នន័យថ្មីនឹងបញ្ចូលបន្ថែមលើទិន្នន័យចាស់។
                 ប្រសិនបើមានភ្ញៀវដូចគ្នា ទិន្នន័យថ្មីជាងនឹងជំនួស។
               </p>
+              {alteredIssues !== null && (
+                <p className="text-destructive">
+                  🛡️ បញ្ជីក្នុង Backup នេះត្រូវបានកែប្រែ ({alteredIssues} បញ្ហា)។
+                  ចំនួនទឹកប្រាក់ក្នុងឯកសារនេះប្រហែលជាមិនត្រឹមត្រូវទេ។ នាំចូលតែបើអ្នកទុកចិត្តប្រភពរបស់វា។
+                </p>
+              )}
             </AlertDialogDescription>
           </AlertDialogHeader>
+          {isEncryptedFile && (
+            <Input
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder="🔐 ពាក្យសម្ងាត់របស់ Backup នេះ"
+              className="bg-input border-border"
+              autoFocus
+            />
+          )}
           <AlertDialogFooter>
             <AlertDialogCancel disabled={isImporting}>បោះបង់</AlertDialogCancel>
             <AlertDialogAction
-              onClick={handleConfirmImport}
-              disabled={isImporting}
+              onClick={(e) => {
+                e.preventDefault(); // Closed by the import, which may ask again first
+                handleConfirmImport();
+              }}
+              disabled={isImporting || (isEncryptedFile && !passphrase)}
               className="bg-primary"
             >
               {isImporting ? (
                 <Loader2 className="h-4 w-4 mr-2 animate-spin" />
               ) : null}
-              បញ្ជាក់នាំចូល
+              {alteredIssues !== null ? "នាំចូលទោះបីយ៉ាងណា" : "បញ្ជាក់នាំចូល"}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
@@ -0,0 +1,108 @@
+import { memo, useMemo, useState } from "react";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { eventOf } from "@/lib/events";
+import { isActiveGift } from "@/lib/gifts";
+import { normalizeText } from "@/lib/search";
+import { GiftEntryDB, GuestRecordDB } from "@/types/sync";
+
+const MAX_PICKER_RESULTS = 8;
+
+interface ContactGuestsProps {
+  linked: GuestRecordDB[]; // The contact's guests, across events
+  guests: GuestRecordDB[]; // Every guest, to pick more from
+  giftsByGuest: Map<string, GiftEntryDB[]>;
+  eventNames: Map<string, string>;
+  canEdit: boolean;
+  disabled: boolean;
+  onLink: (guestId: string) => void;
+  onUnlink: (guestId: string) => void;
+}
+
+function guestName(guest: GuestRecordDB): string {
+  return guest.displayName || guest.name;
+}
+
+// A contact's guest records with what each gave, and a name search to link more
+export const ContactGuests = memo(function ContactGuests({
+  linked,
+  guests,
+  giftsByGuest,
+  eventNames,
+  canEdit,
+  disabled,
+  onLink,
+  onUnlink,
+}: ContactGuestsProps) {
+  const [query, setQuery] = useState("");
+
+  const candidates = useMemo(() => {
+    const q = normalizeText(query).trim();
+    if (!q) return [];
+    const linkedIds = new Set(linked.map((g) => g.id));
+    return guests
+      .filter((g) => !g.deleted && !linkedIds.has(g.id))
+      .filter((g) => normalizeText(`${g.name} ${g.displayName}`).includes(q))
+      .slice(0, MAX_PICKER_RESULTS);
+  }, [guests, linked, query]);
+
+  return (
+    <section className="space-y-2">
+      <h3 className="text-sm text-muted-foreground font-medium">ភ្ញៀវក្នុងកម្មវិធីរបស់យើង</h3>
+      {linked.length === 0 && <p className="text-sm text-muted-foreground">មិនទាន់មាន</p>}
+      {linked.map((guest) => {
+        const received = (giftsByGuest.get(guest.id) ?? []).filter(isActiveGift);
+        const riel = received.reduce((sum, g) => sum + g.amountRiel, 0);
+        return (
+          <div key={guest.id} className="flex items-center justify-between gap-2 text-sm">
+            <div>
+              <span className="text-foreground">{guestName(guest)}</span>
+              <span className="text-xs text-muted-foreground block">
+                {eventNames.get(eventOf(guest)) ?? "ព្រឹត្តិការណ៍ពីឧបករណ៍ផ្សេង"}
+                {riel > 0 && ` · ${riel.toLocaleString("km-KH")}៛`}
+              </span>
+            </div>
+            {canEdit && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onUnlink(guest.id)}
+                disabled={disabled}
+                aria-label="ផ្តាច់"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        );
+      })}
+      {canEdit && (
+        <div className="space-y-1">
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="ភ្ជាប់ភ្ញៀវ៖ ស្វែងរកឈ្មោះ..."
+            className="bg-input border-border"
+          />
+          {candidates.map((guest) => (
+            <button
+              key={guest.id}
+              onClick={() => {
+                setQuery("");
+                onLink(guest.id);
+              }}
+              disabled={disabled}
+              className="w-full text-left text-sm px-3 py-2 rounded-md hover:bg-secondary"
+            >
+              {guestName(guest)}
+              <span className="text-xs text-muted-foreground ml-2">
+                {eventNames.get(eventOf(guest)) ?? ""}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+});
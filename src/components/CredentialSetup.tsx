@@ -0,0 +1,82 @@
+import { memo, useState } from "react";
+import { KeyRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { minSecretLength, setRoleSecret } from "@/lib/auth";
+import { toast } from "sonner";
+
+interface CredentialSetupProps {
+  onDone: () => void;
+}
+
+// First run: no secrets exist yet, so the admin password is chosen here
+export const CredentialSetup = memo(function CredentialSetup({ onDone }: CredentialSetupProps) {
+  const [adminSecret, setAdminSecret] = useState("");
+  const [adminConfirm, setAdminConfirm] = useState("");
+  const [treasurerSecret, setTreasurerSecret] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const adminTooShort = adminSecret.length < minSecretLength("admin");
+  const treasurerTooShort =
+    treasurerSecret.length > 0 && treasurerSecret.length < minSecretLength("treasurer");
+  const mismatch = adminConfirm.length > 0 && adminConfirm !== adminSecret;
+  const canSave = !adminTooShort && !treasurerTooShort && adminConfirm === adminSecret && !isSaving;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await setRoleSecret("admin", adminSecret);
+      if (treasurerSecret) await setRoleSecret("treasurer", treasurerSecret);
+      toast.success("បានកំណត់ពាក្យសម្ងាត់ ✓");
+      onDone();
+    } catch (e) {
+      console.error("[Auth] Setup error:", e);
+      toast.error("កំហុសក្នុងការកំណត់ពាក្យសម្ងាត់");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 py-4">
+      <div className="text-center">
+        <KeyRound className="h-12 w-12 text-muted-foreground mx-auto mb-3" />
+        <p className="text-sm text-muted-foreground">
+          ប្រើលើកដំបូង៖ សូមកំណត់ពាក្យសម្ងាត់អ្នកគ្រប់គ្រង
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-sm">ពាក្យសម្ងាត់អ្នកគ្រប់គ្រង</Label>
+        <Input
+          type="password"
+          value={adminSecret}
+          onChange={(e) => setAdminSecret(e.target.value)}
+          placeholder={`យ៉ាងតិច ${minSecretLength("admin")} តួ`}
+        />
+        <Input
+          type="password"
+          value={adminConfirm}
+          onChange={(e) => setAdminConfirm(e.target.value)}
+          placeholder="បញ្ចូលម្ដងទៀត"
+        />
+        {mismatch && <p className="text-destructive text-xs">ពាក្យសម្ងាត់មិនដូចគ្នា</p>}
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-sm">ពាក្យសម្ងាត់ហិរញ្ញិក (ស្រេចចិត្ត)</Label>
+        <Input
+          type="password"
+          value={treasurerSecret}
+          onChange={(e) => setTreasurerSecret(e.target.value)}
+          placeholder={`យ៉ាងតិច ${minSecretLength("treasurer")} តួ`}
+        />
+      </div>
+
+      <Button onClick={handleSave} disabled={!canSave} className="w-full">
+        រក្សាទុក
+      </Button>
+    </div>
+  );
+});
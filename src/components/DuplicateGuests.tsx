@@ -0,0 +1,270 @@
+import { memo, useMemo, useState } from "react";
+import { ArrowLeft, Loader2, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DUPLICATE_REASON_LABELS,
+  GUEST_FIELD_LABELS,
+  MERGEABLE_GUEST_FIELDS,
+  defaultMerge,
+  findDuplicateGuests,
+} from "@/lib/duplicates";
+import { cn } from "@/lib/utils";
+import { GiftEntry, GuestRecord } from "@/types/guest";
+import { DuplicateCluster, GuestMerge, MergeableGuestField } from "@/types/duplicate";
+import { toast } from "sonner";
+
+interface DuplicateGuestsProps {
+  guests: GuestRecord[]; // The active event's guests
+  onMerge: (merge: GuestMerge) => Promise<boolean>;
+  undoAction?: { label: string; onClick: () => void };
+}
+
+function guestName(guest: GuestRecord): string {
+  return guest.displayName || guest.name;
+}
+
+function fieldText(guest: GuestRecord, field: MergeableGuestField): string {
+  if (field === "side") return guest.side === "groom" ? "ប្រុស" : "ស្រី";
+  if (field === "expectedAttendees") return guest.expectedAttendees?.toString() ?? "";
+  return guest[field];
+}
+
+function formatGift(gift: GiftEntry): string {
+  const amount =
+    gift.currency === "USD"
+      ? "$" + gift.originalAmount.toLocaleString("en-US")
+      : gift.originalAmount.toLocaleString("km-KH") + "៛";
+  const bank = gift.bank ? ` · ${gift.bank.type} ${gift.bank.ref}` : " · សាច់ប្រាក់";
+  return amount + bank;
+}
+
+// One cluster side by side: which guest stays, each detail from whom, and
+// which gifts to keep
+function MergeView({
+  cluster,
+  merge,
+  onChange,
+}: {
+  cluster: DuplicateCluster;
+  merge: GuestMerge;
+  onChange: (merge: GuestMerge) => void;
+}) {
+  const keepAs = (guest: GuestRecord) =>
+    onChange({
+      ...merge,
+      keepId: guest.id,
+      mergedIds: cluster.guests.filter((g) => g.id !== guest.id).map((g) => g.id),
+    });
+
+  const pick = (field: MergeableGuestField, guest: GuestRecord) =>
+    onChange({ ...merge, fields: { ...merge.fields, [field]: guest[field] } });
+
+  const toggleGift = (giftId: string) =>
+    onChange({
+      ...merge,
+      keepGiftIds: merge.keepGiftIds.includes(giftId)
+        ? merge.keepGiftIds.filter((id) => id !== giftId)
+        : [...merge.keepGiftIds, giftId],
+    });
+
+  return (
+    <div className="space-y-4">
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm border-separate border-spacing-1">
+          <thead>
+            <tr>
+              <th />
+              {cluster.guests.map((guest) => (
+                <th key={guest.id} className="text-left font-normal align-top">
+                  <button
+                    onClick={() => keepAs(guest)}
+                    className={cn(
+                      "w-full text-left rounded-md border px-3 py-2",
+                      merge.keepId === guest.id
+                        ? "border-primary bg-primary/10 text-primary"
+                        : "border-border text-muted-foreground"
+                    )}
+                  >
+                    <span className="block font-medium">{guest.name}</span>
+                    <span className="text-xs">
+                      {guest.isCustomGuest ? "បង្កើតថ្មី" : "ក្នុងបញ្ជី"} ·{" "}
+                      {merge.keepId === guest.id ? "នៅសល់ ✓" : "ទុកមួយនេះ"}
+                    </span>
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {MERGEABLE_GUEST_FIELDS.map((field) => (
+              <tr key={field}>
+                <td className="text-muted-foreground pr-2 whitespace-nowrap align-top pt-2">
+                  {GUEST_FIELD_LABELS[field]}
+                </td>
+                {cluster.guests.map((guest) => (
+                  <td key={guest.id} className="align-top">
+                    <button
+                      onClick={() => pick(field, guest)}
+                      className={cn(
+                        "w-full min-h-9 text-left rounded-md border px-3 py-2 break-words",
+                        merge.fields[field] === guest[field]
+                          ? "border-primary bg-primary/10"
+                          : "border-border hover:bg-secondary"
+                      )}
+                    >
+                      {fieldText(guest, field) || <span className="text-muted-foreground">—</span>}
+                    </button>
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <section className="space-y-1">
+        <h3 className="text-sm text-muted-foreground font-medium">ចំណងដៃដែលត្រូវរក្សាទុក</h3>
+        {cluster.guests.every((g) => g.gifts.length === 0) && (
+          <p className="text-sm text-muted-foreground">មិនទាន់មាន</p>
+        )}
+        {cluster.guests.flatMap((guest) =>
+          guest.gifts.map((gift) => (
+            <label key={gift.id} className="flex items-center gap-3 text-sm py-1 cursor-pointer">
+              <Checkbox
+                checked={merge.keepGiftIds.includes(gift.id)}
+                onCheckedChange={() => toggleGift(gift.id)}
+              />
+              <span>
+                {formatGift(gift)}
+                <span className="text-xs text-muted-foreground block">
+                  {guest.name} · {new Date(gift.receivedAt).toLocaleString("km-KH")}
+                  {gift.recorder && ` · ${gift.recorder}`}
+                </span>
+              </span>
+            </label>
+          ))
+        )}
+      </section>
+    </div>
+  );
+}
+
+// Duplicate finder: clusters of likely-same guests of the event, each one
+// merged on a side-by-side screen
+export const DuplicateGuests = memo(function DuplicateGuests({
+  guests,
+  onMerge,
+  undoAction,
+}: DuplicateGuestsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [selected, setSelected] = useState<DuplicateCluster | null>(null);
+  const [merge, setMerge] = useState<GuestMerge | null>(null);
+  const [isMerging, setIsMerging] = useState(false);
+
+  const clusters = useMemo(() => (isOpen ? findDuplicateGuests(guests) : []), [isOpen, guests]);
+
+  const open = (cluster: DuplicateCluster) => {
+    setSelected(cluster);
+    setMerge(defaultMerge(cluster));
+  };
+
+  const back = () => {
+    setSelected(null);
+    setMerge(null);
+  };
+
+  const close = () => {
+    back();
+    setIsOpen(false);
+  };
+
+  const handleMerge = async () => {
+    if (!merge) return;
+    setIsMerging(true);
+    try {
+      if (await onMerge(merge)) {
+        toast.success("បានបញ្ចូលភ្ញៀវស្ទួន ✓", { action: undoAction });
+        back();
+      } else {
+        toast.error("កំហុសក្នុងការបញ្ចូលគ្នា");
+      }
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => setIsOpen(true)} className="w-full h-12">
+        <Users className="h-4 w-4 mr-2" />
+        🔎 រកភ្ញៀវស្ទួន
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={(value) => !value && !isMerging && close()}>
+        <DialogContent className="bg-card border-border max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="text-primary flex items-center gap-2">
+              {selected && (
+                <Button variant="ghost" size="icon" onClick={back} disabled={isMerging} aria-label="ត្រឡប់">
+                  <ArrowLeft className="h-4 w-4" />
+                </Button>
+              )}
+              🔎 ភ្ញៀវស្ទួន
+            </DialogTitle>
+            <DialogDescription>
+              {selected
+                ? "ជ្រើសភ្ញៀវដែលនៅសល់ និងព័ត៌មានដែលត្រូវរក្សាទុក។ ភ្ញៀវផ្សេងទៀតនឹងទៅធុងសំរាម។"
+                : "ភ្ញៀវដែលឈ្មោះស្រដៀងគ្នានៅខាងតែមួយ ឬមានលេខប្រតិបត្តិការដូចគ្នា"}
+            </DialogDescription>
+          </DialogHeader>
+
+          {!selected && clusters.length === 0 && (
+            <div className="text-center py-8 text-muted-foreground">រកមិនឃើញភ្ញៀវស្ទួនទេ ✓</div>
+          )}
+
+          {!selected && (
+            <div className="space-y-2">
+              {clusters.map((cluster) => (
+                <button
+                  key={cluster.guests.map((g) => g.id).join("|")}
+                  onClick={() => open(cluster)}
+                  className="w-full text-left px-4 py-3 rounded-lg border border-border hover:bg-secondary"
+                >
+                  <span className="font-medium text-foreground block">
+                    {cluster.guests.map(guestName).join(" · ")}
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    {cluster.reasons.map((r) => DUPLICATE_REASON_LABELS[r]).join(", ")}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {selected && merge && <MergeView cluster={selected} merge={merge} onChange={setMerge} />}
+
+          {selected && merge && (
+            <DialogFooter>
+              <Button variant="outline" onClick={back} disabled={isMerging}>
+                បោះបង់
+              </Button>
+              <Button onClick={handleMerge} disabled={isMerging}>
+                {isMerging && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                បញ្ចូល {selected.guests.length} នាក់ជាមួយគ្នា
+              </Button>
+            </DialogFooter>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+});
@@ -0,0 +1,124 @@
+import { memo, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  changePassphrase,
+  disableEncryption,
+  enableEncryption,
+  isEncryptionEnabled,
+  MIN_PASSPHRASE_LENGTH,
+} from "@/lib/vault";
+import { toast } from "sonner";
+
+// Turn at-rest encryption on or off, or change its passphrase (admin only)
+export const EncryptionSettings = memo(function EncryptionSettings() {
+  const [isEnabled, setIsEnabled] = useState<boolean | null>(null); // null while checking
+  const [current, setCurrent] = useState("");
+  const [next, setNext] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    isEncryptionEnabled()
+      .then(setIsEnabled)
+      .catch((e) => console.error("[Vault] Load error:", e));
+  }, []);
+
+  const nextIsValid = next.length >= MIN_PASSPHRASE_LENGTH && next === confirm;
+
+  const reset = () => {
+    setCurrent("");
+    setNext("");
+    setConfirm("");
+  };
+
+  // Every action re-encrypts the whole ledger, which can take a moment
+  const run = async (action: () => Promise<boolean>, done: string) => {
+    setIsWorking(true);
+    try {
+      if (await action()) {
+        toast.success(done);
+        setIsEnabled(await isEncryptionEnabled());
+      } else {
+        toast.error("ពាក្យសម្ងាត់បច្ចុប្បន្នមិនត្រឹមត្រូវ");
+      }
+      reset();
+    } catch (e) {
+      console.error("[Vault] Update error:", e);
+      toast.error("កំហុសក្នុងការអ៊ិនគ្រីប");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  if (isEnabled === null) return null;
+
+  return (
+    <div className="bg-secondary rounded-lg px-4 py-3 space-y-2">
+      <span className="text-sm text-muted-foreground block font-medium">
+        🔐 អ៊ិនគ្រីបទិន្នន័យ ({isEnabled ? "បើក" : "បិទ"})
+      </span>
+
+      {isEnabled && (
+        <Input
+          type="password"
+          value={current}
+          onChange={(e) => setCurrent(e.target.value)}
+          placeholder="ពាក្យសម្ងាត់បច្ចុប្បន្ន"
+          className="bg-input border-border"
+        />
+      )}
+      <Input
+        type="password"
+        value={next}
+        onChange={(e) => setNext(e.target.value)}
+        placeholder={`ពាក្យសម្ងាត់ថ្មី (យ៉ាងតិច ${MIN_PASSPHRASE_LENGTH} តួ)`}
+        className="bg-input border-border"
+      />
+      <Input
+        type="password"
+        value={confirm}
+        onChange={(e) => setConfirm(e.target.value)}
+        placeholder="បញ្ចូលពាក្យសម្ងាត់ថ្មីម្ដងទៀត"
+        className="bg-input border-border"
+      />
+      <p className="text-xs text-muted-foreground">
+        បើភ្លេចពាក្យសម្ងាត់ ទិន្នន័យមិនអាចបើកវិញបានទេ។ Backup ក៏ត្រូវការពាក្យសម្ងាត់នេះដែរ។
+      </p>
+
+      {isEnabled ? (
+        <div className="grid grid-cols-2 gap-2">
+          <Button
+            size="sm"
+            onClick={() => run(() => changePassphrase(current, next), "បានប្ដូរពាក្យសម្ងាត់ ✓")}
+            disabled={!current || !nextIsValid || isWorking}
+          >
+            ប្ដូរ
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => run(() => disableEncryption(current), "បានបិទការអ៊ិនគ្រីប")}
+            disabled={!current || isWorking}
+          >
+            បិទការអ៊ិនគ្រីប
+          </Button>
+        </div>
+      ) : (
+        <Button
+          size="sm"
+          className="w-full"
+          onClick={() =>
+            run(async () => {
+              await enableEncryption(next);
+              return true;
+            }, "បានបើកការអ៊ិនគ្រីប ✓")
+          }
+          disabled={!nextIsValid || isWorking}
+        >
+          បើកការអ៊ិនគ្រីប
+        </Button>
+      )}
+    </div>
+  );
+});
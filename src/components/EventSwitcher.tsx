@@ -0,0 +1,202 @@
+import { memo, useState } from "react";
+import { Check, ChevronDown, Pencil, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useRole } from "@/hooks/useRole";
+import { EventFormData, WeddingEvent } from "@/types/event";
+import { toast } from "sonner";
+
+interface EventSwitcherProps {
+  events: WeddingEvent[];
+  activeEvent: WeddingEvent | null;
+  onSwitch: (eventId: string) => void;
+  onCreate: (form: EventFormData) => Promise<boolean>;
+  onUpdate: (id: string, form: EventFormData) => Promise<boolean>;
+}
+
+const EMPTY_FORM: EventFormData = { name: "", date: "", venue: "", couple: "", exchangeRate: null };
+
+function eventSummary(event: WeddingEvent): string {
+  return [event.couple, event.date, event.venue].filter(Boolean).join(" · ");
+}
+
+// Shows the event being recorded and switches between events; admins also
+// add events and edit their details
+export const EventSwitcher = memo(function EventSwitcher({
+  events,
+  activeEvent,
+  onSwitch,
+  onCreate,
+  onUpdate,
+}: EventSwitcherProps) {
+  const { can } = useRole();
+  const [editing, setEditing] = useState<"new" | string | null>(null);
+  const [form, setForm] = useState<EventFormData>(EMPTY_FORM);
+  const [rateInput, setRateInput] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const openForm = (event: WeddingEvent | null) => {
+    setForm(event ? { ...event } : EMPTY_FORM);
+    setRateInput(event?.exchangeRate ? String(event.exchangeRate) : "");
+    setEditing(event ? event.id : "new");
+  };
+
+  const handleSave = async () => {
+    const rate = rateInput.trim() ? Number(rateInput) : null;
+    if (!form.name.trim()) {
+      toast.error("សូមបញ្ចូលឈ្មោះព្រឹត្តិការណ៍");
+      return;
+    }
+    if (rate !== null && (!Number.isFinite(rate) || rate <= 0)) {
+      toast.error("អត្រាប្តូរប្រាក់មិនត្រឹមត្រូវ");
+      return;
+    }
+
+    const data: EventFormData = {
+      name: form.name.trim(),
+      date: form.date,
+      venue: form.venue.trim(),
+      couple: form.couple.trim(),
+      exchangeRate: rate,
+    };
+    setIsSaving(true);
+    const saved = editing === "new" ? await onCreate(data) : await onUpdate(editing!, data);
+    setIsSaving(false);
+    if (saved) {
+      toast.success(editing === "new" ? "បានបង្កើតព្រឹត្តិការណ៍ថ្មី ✓" : "បានរក្សាទុក ✓");
+      setEditing(null);
+    } else {
+      toast.error("កំហុសក្នុងការរក្សាទុក");
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button className="flex items-center gap-1 text-sm text-foreground hover:text-primary max-w-[12rem]">
+            <span className="truncate">💍 {activeEvent?.name ?? "—"}</span>
+            <ChevronDown className="h-3 w-3 shrink-0" />
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="max-w-xs">
+          {events.map((event) => (
+            <DropdownMenuItem key={event.id} onSelect={() => onSwitch(event.id)} className="gap-2">
+              <Check
+                className={`h-4 w-4 shrink-0 ${event.id === activeEvent?.id ? "" : "invisible"}`}
+              />
+              <div className="min-w-0">
+                <div className="truncate">{event.name}</div>
+                {eventSummary(event) && (
+                  <div className="text-xs text-muted-foreground truncate">{eventSummary(event)}</div>
+                )}
+              </div>
+            </DropdownMenuItem>
+          ))}
+          {can("settings") && (
+            <>
+              <DropdownMenuSeparator />
+              {activeEvent && (
+                <DropdownMenuItem onSelect={() => openForm(activeEvent)} className="gap-2">
+                  <Pencil className="h-4 w-4" />
+                  កែព័ត៌មានព្រឹត្តិការណ៍
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuItem onSelect={() => openForm(null)} className="gap-2">
+                <Plus className="h-4 w-4" />
+                ព្រឹត្តិការណ៍ថ្មី
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="bg-card border-border max-w-sm">
+          <DialogHeader>
+            <DialogTitle className="text-primary">
+              {editing === "new" ? "💍 ព្រឹត្តិការណ៍ថ្មី" : "💍 កែព័ត៌មានព្រឹត្តិការណ៍"}
+            </DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-3">
+            <div>
+              <Label className="text-sm mb-1 block">ឈ្មោះ</Label>
+              <Input
+                value={form.name}
+                onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+                placeholder="ពិធីភ្ជាប់ពាក្យ, ពិធីមង្គលការ..."
+                className="bg-input border-border"
+              />
+            </div>
+            <div>
+              <Label className="text-sm mb-1 block">កូនកំលោះ និងកូនក្រមុំ</Label>
+              <Input
+                value={form.couple}
+                onChange={(e) => setForm((prev) => ({ ...prev, couple: e.target.value }))}
+                className="bg-input border-border"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label className="text-sm mb-1 block">កាលបរិច្ឆេទ</Label>
+                <Input
+                  type="date"
+                  value={form.date}
+                  onChange={(e) => setForm((prev) => ({ ...prev, date: e.target.value }))}
+                  className="bg-input border-border"
+                />
+              </div>
+              <div>
+                <Label className="text-sm mb-1 block">ទីកន្លែង</Label>
+                <Input
+                  value={form.venue}
+                  onChange={(e) => setForm((prev) => ({ ...prev, venue: e.target.value }))}
+                  className="bg-input border-border"
+                />
+              </div>
+            </div>
+            <div>
+              <Label className="text-sm mb-1 block">អត្រាប្តូរប្រាក់ (៛ ក្នុង $1)</Label>
+              <Input
+                type="number"
+                inputMode="numeric"
+                value={rateInput}
+                onChange={(e) => setRateInput(e.target.value)}
+                placeholder="តាមតារាងអត្រាប្តូរប្រាក់"
+                className="bg-input border-border"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                ទុកទទេ ដើម្បីប្រើអត្រាក្នុងតារាងអត្រាប្តូរប្រាក់
+              </p>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)} disabled={isSaving}>
+              បោះបង់
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              រក្សាទុក
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+});
@@ -0,0 +1,115 @@
+import { memo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ExchangeRate, RateComparison } from "@/types/rate";
+
+interface ExchangeRatePanelProps {
+  exchangeRates: ExchangeRate[];
+  currentRate: number;
+  rateComparison: RateComparison;
+  canSetRate: boolean;
+  onSetExchangeRate: (rate: number, effectiveFrom?: number) => void;
+}
+
+function formatKHR(amount: number): string {
+  return amount.toLocaleString("km-KH") + "៛";
+}
+
+export const ExchangeRatePanel = memo(function ExchangeRatePanel({
+  exchangeRates,
+  currentRate,
+  rateComparison,
+  canSetRate,
+  onSetExchangeRate,
+}: ExchangeRatePanelProps) {
+  const [rateInput, setRateInput] = useState("");
+  const [effectiveInput, setEffectiveInput] = useState("");
+
+  const handleSubmit = () => {
+    const rate = parseFloat(rateInput);
+    if (!rate) return;
+    // Empty date means the rate applies from now
+    const effectiveFrom = effectiveInput ? new Date(effectiveInput).getTime() : undefined;
+    onSetExchangeRate(rate, effectiveFrom);
+    setRateInput("");
+    setEffectiveInput("");
+  };
+
+  const { historicalRiel, todayRiel, difference, buckets } = rateComparison;
+
+  return (
+    <div className="space-y-3">
+      {/* Set Rate */}
+      <div className="bg-secondary rounded-lg px-4 py-3 space-y-2">
+        <span className="text-sm text-muted-foreground block font-medium">
+          អត្រាប្តូរប្រាក់បច្ចុប្បន្ន៖ 1$ = {formatKHR(currentRate)}
+        </span>
+        {canSetRate && (
+          <>
+            <Input
+              type="text"
+              inputMode="decimal"
+              value={rateInput}
+              onChange={(e) => setRateInput(e.target.value.replace(/[^0-9.]/g, ""))}
+              placeholder="អត្រាថ្មី ឧទាហរណ៍: 4050"
+              className="bg-input border-border"
+            />
+            <Input
+              type="datetime-local"
+              value={effectiveInput}
+              onChange={(e) => setEffectiveInput(e.target.value)}
+              className="bg-input border-border"
+            />
+            <Button onClick={handleSubmit} disabled={!parseFloat(rateInput)} className="w-full" size="sm">
+              កំណត់អត្រា
+            </Button>
+          </>
+        )}
+      </div>
+
+      {/* Rate History */}
+      <div className="bg-secondary rounded-lg px-4 py-3 space-y-1">
+        <span className="text-sm text-muted-foreground block font-medium">ប្រវត្តិអត្រា</span>
+        {[...exchangeRates].reverse().map((entry) => (
+          <div key={entry.id} className="flex justify-between text-xs">
+            <span className="text-foreground">1$ = {formatKHR(entry.rate)}</span>
+            <span className="text-muted-foreground">
+              {entry.effectiveFrom > 0
+                ? new Date(entry.effectiveFrom).toLocaleString("km-KH")
+                : "ដំបូង"}{" "}
+              · {entry.setBy}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {/* Historical vs Today's Rate */}
+      <div className="bg-secondary rounded-lg px-4 py-3 space-y-1 text-sm">
+        <span className="text-sm text-muted-foreground block font-medium">
+          សរុបតាមអត្រាពេលកត់ត្រា ធៀបនឹងអត្រាថ្ងៃនេះ
+        </span>
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">អត្រាពេលកត់ត្រា</span>
+          <span className="text-foreground">{formatKHR(historicalRiel)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">អត្រាថ្ងៃនេះ</span>
+          <span className="text-foreground">{formatKHR(todayRiel)}</span>
+        </div>
+        <div className="flex justify-between font-bold">
+          <span className="text-muted-foreground">ភាពខុសគ្នា</span>
+          <span className={difference < 0 ? "text-destructive" : "text-success"}>
+            {difference > 0 ? "+" : ""}
+            {formatKHR(difference)}
+          </span>
+        </div>
+        {buckets.map((bucket) => (
+          <p key={bucket.rate} className="text-xs text-muted-foreground">
+            ${bucket.usdAmount.toLocaleString("en-US")} ({bucket.giftCount}) @ 1$ ={" "}
+            {formatKHR(bucket.rate)}
+          </p>
+        ))}
+      </div>
+    </div>
+  );
+});
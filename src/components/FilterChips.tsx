@@ -0,0 +1,77 @@
+import { memo, useMemo } from "react";
+import { SlidersHorizontal, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { addTerm, parseQuery, QUICK_FILTERS, removeTerm, termLabel } from "@/lib/query";
+import { cn } from "@/lib/utils";
+
+interface FilterChipsProps {
+  query: string;
+  onChange: (query: string) => void;
+  ignoresAmounts?: boolean; // Amount terms are not applied while amounts are masked
+}
+
+// Chips for the structured terms in the search query; they edit the query text
+// itself, so typing a term and picking it from the menu are the same thing
+export const FilterChips = memo(function FilterChips({
+  query,
+  onChange,
+  ignoresAmounts = false,
+}: FilterChipsProps) {
+  const { terms } = useMemo(() => parseQuery(query), [query]);
+  const quickTerms = useMemo(() => QUICK_FILTERS.map((token) => parseQuery(token).terms[0]), []);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-2">
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="h-7 gap-1 rounded-full">
+            <SlidersHorizontal className="h-3 w-3" />
+            តម្រង
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="max-w-xs">
+          {quickTerms.map((term) => (
+            <DropdownMenuItem key={term.token} onSelect={() => onChange(addTerm(query, term.token))}>
+              {termLabel(term)}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel className="text-xs font-normal text-muted-foreground space-y-1">
+            <span className="block">វាយក្នុងប្រអប់ស្វែងរក៖</span>
+            <code className="block">amount:100$ · amount:&gt;=50000</code>
+            <code className="block">amount:50000-100000 · ref:1234</code>
+            <code className="block">note:"..." · from:2025-01-15 · to:21:00</code>
+          </DropdownMenuLabel>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {terms.map((term) => (
+        <span
+          key={term.token}
+          className={cn(
+            "inline-flex items-center gap-1 h-7 pl-3 pr-1 rounded-full bg-primary/15 text-primary text-sm",
+            ignoresAmounts && term.kind === "amount" && "opacity-50 line-through"
+          )}
+          title={ignoresAmounts && term.kind === "amount" ? "ចំនួនប្រាក់ត្រូវបានលាក់" : undefined}
+        >
+          {termLabel(term)}
+          <button
+            onClick={() => onChange(removeTerm(query, term))}
+            className="rounded-full p-1 hover:bg-primary/20"
+            aria-label="ដកតម្រងចេញ"
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </span>
+      ))}
+    </div>
+  );
+});
@@ -1,5 +1,11 @@
 import { useState, useCallback, useEffect } from "react";
-import { GuestRecord, BankInfo, GuestFormData, USD_TO_KHR_RATE } from "@/types/guest";
+import {
+  GuestRecord,
+  GiftEntry,
+  GiftInput,
+  BankInfo,
+  GuestFormData,
+} from "@/types/guest";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -22,67 +28,118 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { Save, X, Pencil } from "lucide-react";
+import { MaskedAmount } from "@/components/MaskedAmount";
+import { toRiel } from "@/lib/gifts";
+import { Link } from "react-router-dom";
+import { Save, X, Pencil, History, Trash2 } from "lucide-react";
 import { toast } from "sonner";
 
 interface GuestFormProps {
-  guest: GuestRecord;
+  guest: GuestRecord; // As it was when the form opened
+  latestGuest: GuestRecord | null; // As stored now; null once deleted
+  onReload: () => void; // Reopen the form on latestGuest
   hasExistingData: boolean;
+  canOverwrite: boolean; // May edit or delete gifts already recorded
+  canEditGuest: boolean; // May rename or delete the guest
+  currentRate: number; // Riel per USD for gifts recorded now
   onSave: (
     guestId: string,
-    amountRiel: number | null,
-    paymentType: "cash" | "bank",
-    bank: BankInfo | null,
+    gift: GiftInput | null,
+    giftId: string | null,
     note: string,
     displayName: string
   ) => void;
+  onDelete: (guestId: string, reason: string, giftId?: string) => void;
   onClose: () => void;
+  onDirtyChange?: (dirty: boolean) => void; // Unsaved input, e.g. to hold back an app reload
 }
 
 function formatKHR(amount: number): string {
   return amount.toLocaleString("km-KH") + "៛";
 }
 
+function formatOriginal(gift: GiftEntry): string {
+  return gift.currency === "USD"
+    ? "$" + gift.originalAmount.toLocaleString("en-US")
+    : formatKHR(gift.originalAmount);
+}
+
+// Form state for adding a new gift (gift omitted) or editing an existing one
+function toFormData(guest: GuestRecord, gift?: GiftEntry): GuestFormData {
+  const isUSD = gift?.currency === "USD";
+  return {
+    amountInput: gift ? String(gift.originalAmount) : "",
+    isUSD,
+    paymentType: gift?.paymentType ?? "cash",
+    bankType: gift?.bank?.type ?? "",
+    bankRef: gift?.bank?.ref ?? "",
+    note: guest.note ?? "",
+    displayName: guest.displayName || guest.name,
+  };
+}
+
 export function GuestForm({
   guest,
+  latestGuest,
+  onReload,
   hasExistingData,
+  canOverwrite,
+  canEditGuest,
+  currentRate,
   onSave,
+  onDelete,
   onClose,
+  onDirtyChange,
 }: GuestFormProps) {
-  const [formData, setFormData] = useState<GuestFormData>({
-    amountInput: guest.amountRiel?.toString() ?? "",
-    isUSD: false,
-    paymentType: guest.paymentType ?? "cash",
-    bankType: guest.bank?.type ?? "",
-    bankRef: guest.bank?.ref ?? "",
-    note: guest.note ?? "",
-    displayName: guest.displayName || guest.name,
-  });
+  const [formData, setFormData] = useState<GuestFormData>(() => toFormData(guest));
+  const [editingGiftId, setEditingGiftId] = useState<string | null>(null);
   const [showConfirm, setShowConfirm] = useState(false);
   const [isEditingName, setIsEditingName] = useState(false);
+  // undefined = closed, null = whole guest, string = one gift
+  const [deleteTarget, setDeleteTarget] = useState<string | null | undefined>(undefined);
+  const [deleteReason, setDeleteReason] = useState("");
 
   // Reset form when guest changes
   useEffect(() => {
-    setFormData({
-      amountInput: guest.amountRiel?.toString() ?? "",
-      isUSD: false,
-      paymentType: guest.paymentType ?? "cash",
-      bankType: guest.bank?.type ?? "",
-      bankRef: guest.bank?.ref ?? "",
-      note: guest.note ?? "",
-      displayName: guest.displayName || guest.name,
-    });
+    setFormData(toFormData(guest));
+    setEditingGiftId(null);
     setIsEditingName(false);
   }, [guest]);
 
+  const startEditingGift = useCallback(
+    (gift: GiftEntry | null) => {
+      setFormData((prev) => ({
+        ...toFormData(guest, gift ?? undefined),
+        note: prev.note,
+        displayName: prev.displayName,
+      }));
+      setEditingGiftId(gift?.id ?? null);
+    },
+    [guest]
+  );
+
+  const isDirty =
+    editingGiftId !== null || JSON.stringify(formData) !== JSON.stringify(toFormData(guest));
+
+  useEffect(() => {
+    onDirtyChange?.(isDirty);
+  }, [isDirty, onDirtyChange]);
+
+  // A closed form holds nothing unsaved
+  useEffect(() => () => onDirtyChange?.(false), [onDirtyChange]);
+
+  // Another tab, window or device saved this guest after the form opened
+  const changedElsewhere = JSON.stringify(latestGuest) !== JSON.stringify(guest);
+
+  // An edited gift keeps the rate it was recorded at
+  const exchangeRate =
+    guest.gifts.find((g) => g.id === editingGiftId)?.exchangeRate ?? currentRate;
+
   // Calculate Riel amount from input
   const calculatedRiel = useCallback(() => {
     const value = parseFloat(formData.amountInput) || 0;
-    if (formData.isUSD) {
-      return Math.round(value * USD_TO_KHR_RATE);
-    }
-    return value;
-  }, [formData.amountInput, formData.isUSD]);
+    return toRiel(value, formData.isUSD ? "USD" : "KHR", exchangeRate);
+  }, [formData.amountInput, formData.isUSD, exchangeRate]);
 
   const handleAmountChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -92,6 +149,33 @@ export function GuestForm({
     []
   );
 
+  const performSave = useCallback(() => {
+    const amountRiel = calculatedRiel();
+
+    const bank: BankInfo | null =
+      formData.paymentType === "bank" && formData.bankType
+        ? {
+            type: formData.bankType as "ABA" | "ACLEDA",
+            ref: formData.bankRef,
+          }
+        : null;
+
+    // An empty amount on a new entry only saves the name and note
+    const gift: GiftInput | null =
+      amountRiel > 0
+        ? {
+            originalAmount: parseFloat(formData.amountInput),
+            currency: formData.isUSD ? "USD" : "KHR",
+            exchangeRate,
+            paymentType: formData.paymentType,
+            bank,
+          }
+        : null;
+
+    onSave(guest.id, gift, editingGiftId, formData.note, formData.displayName);
+    onClose();
+  }, [formData, guest.id, editingGiftId, exchangeRate, onSave, onClose, calculatedRiel]);
+
   const handleSubmit = useCallback(() => {
     const amountRiel = calculatedRiel();
 
@@ -101,30 +185,28 @@ export function GuestForm({
       return;
     }
 
-    // Check if overwriting existing data
-    if (hasExistingData) {
+    // An edited entry cannot be emptied, it has to be deleted
+    if (editingGiftId && amountRiel <= 0) {
+      toast.error("សូមប្រើប៊ូតុងលុប ដើម្បីលុបចំណងដៃនេះ");
+      return;
+    }
+
+    // Confirm before editing an entry, adding another gift for the same guest,
+    // or saving over changes made elsewhere
+    if (editingGiftId || (hasExistingData && amountRiel > 0) || changedElsewhere) {
       setShowConfirm(true);
       return;
     }
 
     performSave();
-  }, [formData, hasExistingData, calculatedRiel]);
-
-  const performSave = useCallback(() => {
-    const amountRiel = calculatedRiel() || null;
-
-    const bank: BankInfo | null =
-      formData.paymentType === "bank" && formData.bankType
-        ? {
-            type: formData.bankType as "ABA" | "ACLEDA",
-            ref: formData.bankRef,
-          }
-        : null;
+  }, [editingGiftId, hasExistingData, changedElsewhere, calculatedRiel, performSave]);
 
-    onSave(guest.id, amountRiel, formData.paymentType, bank, formData.note, formData.displayName);
-    toast.success("បានរក្សាទុកជោគជ័យ ✓");
+  const performDelete = useCallback(() => {
+    onDelete(guest.id, deleteReason, deleteTarget ?? undefined);
+    setDeleteTarget(undefined);
+    setDeleteReason("");
     onClose();
-  }, [formData, guest.id, onSave, onClose, calculatedRiel]);
+  }, [guest.id, deleteReason, deleteTarget, onDelete, onClose]);
 
   const sideLabel = guest.side === "groom" ? "ភ្ញៀវខាងប្រុស" : "ភ្ញៀវខាងស្រី";
 
@@ -157,30 +239,143 @@ export function GuestForm({
               ) : (
                 <div className="flex items-center gap-2">
                   <h2 className="text-xl font-bold text-primary">{formData.displayName}</h2>
-                  <button
-                    onClick={() => setIsEditingName(true)}
-                    className="p-1 hover:bg-secondary rounded"
-                    title="កែប្រែឈ្មោះ"
-                  >
-                    <Pencil className="h-4 w-4 text-muted-foreground" />
-                  </button>
+                  {canEditGuest && (
+                    <button
+                      onClick={() => setIsEditingName(true)}
+                      className="p-1 hover:bg-secondary rounded"
+                      title="កែប្រែឈ្មោះ"
+                    >
+                      <Pencil className="h-4 w-4 text-muted-foreground" />
+                    </button>
+                  )}
                 </div>
               )}
             </div>
-            <span className="inline-block mt-1 px-3 py-1 bg-secondary text-muted-foreground text-sm rounded-full">
-              🏷️ {sideLabel}
-            </span>
+            <div className="flex flex-wrap gap-2 mt-1">
+              <span className="inline-block px-3 py-1 bg-secondary text-muted-foreground text-sm rounded-full">
+                🏷️ {sideLabel}
+              </span>
+              {guest.group && (
+                <span className="inline-block px-3 py-1 bg-secondary text-muted-foreground text-sm rounded-full">
+                  👥 {guest.group}
+                </span>
+              )}
+              {guest.expectedAttendees !== null && (
+                <span className="inline-block px-3 py-1 bg-secondary text-muted-foreground text-sm rounded-full">
+                  🎟️ {guest.expectedAttendees} នាក់
+                </span>
+              )}
+              {guest.phone && (
+                <a
+                  href={`tel:${guest.phone}`}
+                  className="inline-block px-3 py-1 bg-secondary text-muted-foreground text-sm rounded-full"
+                >
+                  📞 {guest.phone}
+                </a>
+              )}
+            </div>
+          </div>
+          <div className="flex items-center">
+            <Button variant="ghost" size="icon" asChild title="ប្រវត្តិកែប្រែ">
+              <Link to={`/audit?guest=${encodeURIComponent(guest.id)}`}>
+                <History className="h-5 w-5" />
+              </Link>
+            </Button>
+            <Button variant="ghost" size="icon" onClick={onClose}>
+              <X className="h-5 w-5" />
+            </Button>
           </div>
-          <Button variant="ghost" size="icon" onClick={onClose}>
-            <X className="h-5 w-5" />
-          </Button>
         </div>
 
+        {changedElsewhere && (
+          <div className="mb-4 px-3 py-2 rounded-lg border border-amber-500 bg-amber-500/10 text-sm space-y-2">
+            <p className="text-amber-500">
+              {latestGuest
+                ? "⚠️ ភ្ញៀវនេះត្រូវបានកែប្រែនៅកន្លែងផ្សេង ក្រោយពេលបើកទម្រង់នេះ"
+                : "⚠️ ភ្ញៀវនេះត្រូវបានលុបនៅកន្លែងផ្សេង"}
+            </p>
+            {latestGuest && (
+              <Button variant="outline" size="sm" onClick={onReload}>
+                ផ្ទុកទិន្នន័យថ្មី
+              </Button>
+            )}
+          </div>
+        )}
+
         <div className="space-y-4">
+          {/* Gifts already recorded for this guest */}
+          {guest.gifts.length > 0 && (
+            <div className="space-y-2">
+              <Label className="text-base block">
+                🎁 ចំណងដៃ ({guest.gifts.length}) · សរុប{" "}
+                <MaskedAmount text={formatKHR(guest.amountRiel ?? 0)} />
+              </Label>
+              {guest.gifts.map((gift) => (
+                <div
+                  key={gift.id}
+                  className={`flex items-center justify-between gap-2 px-3 py-2 rounded-lg border ${
+                    editingGiftId === gift.id ? "border-primary bg-primary/10" : "border-border"
+                  }`}
+                >
+                  <div>
+                    <span className="font-medium text-primary block">
+                      <MaskedAmount text={formatOriginal(gift)} />
+                      {gift.currency === "USD" && (
+                        <span className="text-xs text-muted-foreground ml-1">
+                          ≈ <MaskedAmount text={formatKHR(gift.amountRiel)} /> (1$ ={" "}
+                          {gift.exchangeRate.toLocaleString("km-KH")}៛)
+                        </span>
+                      )}
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                      {gift.paymentType === "cash" ? "សាច់ប្រាក់" : gift.bank?.type ?? "ធនាគារ"} ·{" "}
+                      {new Date(gift.receivedAt).toLocaleString("km-KH")}
+                      {gift.recorder && ` · ${gift.recorder}`}
+                    </span>
+                  </div>
+                  {/* Recorders add gifts but never overwrite one */}
+                  {canOverwrite && (
+                    <div className="flex items-center">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => startEditingGift(gift)}
+                        title="កែប្រែចំណងដៃ"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setDeleteTarget(gift.id)}
+                        className="text-destructive hover:text-destructive"
+                        title="លុបចំណងដៃ"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Money Input */}
-          <div>
-            <Label className="text-base mb-2 flex items-center gap-2">
-              💵 {formData.isUSD ? "សាច់ប្រាក់ ($)" : "សាច់ប្រាក់ (៛)"}
+          <div className={guest.gifts.length > 0 ? "border-t border-border pt-4" : undefined}>
+            <Label className="text-base mb-2 flex items-center justify-between gap-2">
+              <span>
+                {editingGiftId ? "✏️ " : hasExistingData ? "➕ " : "💵 "}
+                {formData.isUSD ? "សាច់ប្រាក់ ($)" : "សាច់ប្រាក់ (៛)"}
+              </span>
+              {editingGiftId && (
+                <button
+                  type="button"
+                  onClick={() => startEditingGift(null)}
+                  className="text-sm text-muted-foreground underline"
+                >
+                  បន្ថែមថ្មីវិញ
+                </button>
+              )}
             </Label>
             <Input
               type="text"
@@ -212,7 +407,7 @@ export function GuestForm({
                   ≈ {formatKHR(calculatedRiel())}
                 </span>
                 <span className="text-xs text-muted-foreground ml-2">
-                  (អត្រា: $1 = {USD_TO_KHR_RATE.toLocaleString()}៛)
+                  (អត្រា: $1 = {exchangeRate.toLocaleString()}៛)
                 </span>
               </div>
             )}
@@ -313,6 +508,17 @@ export function GuestForm({
             <Save className="h-5 w-5 mr-2" />
             💾 រក្សាទុក
           </Button>
+
+          {canEditGuest && (
+            <Button
+              variant="ghost"
+              onClick={() => setDeleteTarget(null)}
+              className="w-full text-destructive hover:text-destructive"
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              លុបភ្ញៀវ
+            </Button>
+          )}
         </div>
       </div>
 
@@ -324,7 +530,16 @@ export function GuestForm({
               ⚠️ កែប្រែទិន្នន័យ?
             </AlertDialogTitle>
             <AlertDialogDescription className="text-foreground">
-              ភ្ញៀវនេះមានទិន្នន័យរួចហើយ តើអ្នកចង់កែប្រែទេ?
+              {changedElsewhere && (
+                <span className="block text-amber-500 mb-2">
+                  ⚠️ ភ្ញៀវនេះត្រូវបានកែប្រែនៅកន្លែងផ្សេង ការរក្សាទុកនឹងសរសេរជាន់ពីលើ
+                </span>
+              )}
+              {editingGiftId
+                ? "តើអ្នកចង់កែប្រែចំណងដៃនេះទេ?"
+                : hasExistingData
+                  ? "ភ្ញៀវនេះមានចំណងដៃរួចហើយ តើអ្នកចង់បន្ថែមមួយទៀតទេ?"
+                  : "តើអ្នកចង់រក្សាទុកទេ?"}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -332,7 +547,44 @@ export function GuestForm({
               បោះបង់
             </AlertDialogCancel>
             <AlertDialogAction onClick={performSave}>
-              ✏️ កែប្រែ
+              {editingGiftId ? "✏️ កែប្រែ" : "➕ បន្ថែម"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Delete Dialog */}
+      <AlertDialog
+        open={deleteTarget !== undefined}
+        onOpenChange={(open) => !open && setDeleteTarget(undefined)}
+      >
+        <AlertDialogContent className="bg-card border-border">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-destructive">
+              🗑️ ដាក់ចូលធុងសំរាម?
+            </AlertDialogTitle>
+            <AlertDialogDescription className="text-foreground">
+              អាចស្ដារវិញបានពីធុងសំរាម។
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div>
+            <Label className="text-sm mb-2 block">មូលហេតុ</Label>
+            <Input
+              value={deleteReason}
+              onChange={(e) => setDeleteReason(e.target.value)}
+              placeholder="ឧទាហរណ៍: ភ្ញៀវស្ទួន, កត់ខុសមនុស្ស"
+              className="bg-input border-border"
+            />
+          </div>
+          <AlertDialogFooter className="gap-2">
+            <AlertDialogCancel className="bg-secondary border-border">
+              បោះបង់
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={performDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {deleteTarget ? "លុបចំណងដៃ" : "លុបភ្ញៀវ"}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
@@ -1,5 +1,6 @@
-import { memo, useState } from "react";
-import { GuestRecord } from "@/types/guest";
+import { memo, RefObject, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { GuestGrouping, GuestRecord, GuestSort, ListView } from "@/types/guest";
+import { SearchHit } from "@/types/search";
 import { Check, UserPlus } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
@@ -14,12 +15,27 @@ import {
 } from "@/components/ui/alert-dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { HighlightedText } from "@/components/HighlightedText";
+import { MaskedAmount } from "@/components/MaskedAmount";
+import { usePrivacy } from "@/hooks/usePrivacy";
+import { useWindowVirtualizer } from "@/hooks/useWindowVirtualizer";
+import { buildListRows, getListView, GROUPING_LABELS, setListView, SORT_LABELS } from "@/lib/listView";
 
 interface GuestListProps {
   guests: GuestRecord[];
   onSelect: (guest: GuestRecord) => void;
   selectedId: string | null;
-  searchQuery: string;
+  searchQuery: string; // Name part of the query
+  isFiltered?: boolean; // The query also has structured terms
+  searchHits?: Map<string, SearchHit<GuestRecord>>; // By guest id; field 0 is the shown name, 1 the original
+  listRef?: RefObject<HTMLDivElement>; // Focusable list, e.g. for arrow down from the search bar
   onCreateGuest: (name: string, side: "groom" | "bride") => Promise<GuestRecord>;
   showRecorded?: boolean;
 }
@@ -28,11 +44,86 @@ function formatKHR(amount: number): string {
   return amount.toLocaleString("km-KH") + "៛";
 }
 
+const HEADER_ROW_HEIGHT = 36;
+const GUEST_ROW_HEIGHT = 76; // Includes the gap below each guest
+const PAGE_HEADER_HEIGHT = 96; // Sticky app header covering the top of the page
+
+interface GuestRowProps {
+  guest: GuestRecord;
+  hit?: SearchHit<GuestRecord>;
+  isSelected: boolean;
+  isActive: boolean; // Keyboard focus
+  onSelect: (guest: GuestRecord) => void;
+}
+
+const GuestRow = memo(function GuestRow({ guest, hit, isSelected, isActive, onSelect }: GuestRowProps) {
+  const hasData = guest.amountRiel !== null && guest.amountRiel > 0;
+  const sideLabel = guest.side === "groom" ? "ប្រុស 👦🏻" : "ស្រី 🌸";
+  const displayName = guest.displayName || guest.name;
+
+  return (
+    <button
+      id={`guest-row-${guest.id}`}
+      role="option"
+      aria-selected={isActive}
+      tabIndex={-1}
+      onClick={() => onSelect(guest)}
+      className={`w-full h-[68px] text-left px-4 rounded-lg border transition-colors ${
+        isActive ? "ring-2 ring-primary" : ""
+      } ${
+        isSelected
+          ? "bg-primary/20 border-primary"
+          : hasData
+          ? "bg-success/10 border-success/30 hover:bg-success/20"
+          : "bg-card border-border hover:bg-secondary"
+      }`}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-3 min-w-0">
+          <span className="text-2xl">👤</span>
+          <div className="min-w-0">
+            <span className="font-medium text-foreground block truncate">
+              <HighlightedText text={displayName} ranges={hit?.field === 0 ? hit.ranges : undefined} />
+            </span>
+            <span className="text-xs text-muted-foreground block truncate">
+              ភ្ញៀវខាង{sideLabel}
+              {hit?.field === 1 && guest.name !== displayName && (
+                <>
+                  {" · "}
+                  <HighlightedText text={guest.name} ranges={hit.ranges} />
+                </>
+              )}
+            </span>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 shrink-0">
+          {hasData && (
+            <>
+              <MaskedAmount
+                text={formatKHR(guest.amountRiel!)}
+                className="text-sm text-primary font-medium"
+              />
+              {guest.gifts.length > 1 && (
+                <span className="text-xs text-muted-foreground">×{guest.gifts.length}</span>
+              )}
+              <Check className="h-5 w-5 text-success" />
+            </>
+          )}
+        </div>
+      </div>
+    </button>
+  );
+});
+
 export const GuestList = memo(function GuestList({
   guests,
   onSelect,
   selectedId,
   searchQuery,
+  isFiltered = false,
+  searchHits,
+  listRef,
   onCreateGuest,
   showRecorded = false,
 }: GuestListProps) {
@@ -40,9 +131,74 @@ export const GuestList = memo(function GuestList({
   const [newGuestName, setNewGuestName] = useState("");
   const [newGuestSide, setNewGuestSide] = useState<"groom" | "bride">("groom");
   const [isCreating, setIsCreating] = useState(false);
+  const [view, setView] = useState(getListView);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const rowsRef = useRef<HTMLDivElement>(null);
+
+  // Sorting by amount would give masked amounts away; the choice comes back
+  // once they are shown
+  const { canUseAmounts } = usePrivacy();
+  const shownView = useMemo(
+    () => (canUseAmounts || view.sort !== "amount" ? view : { ...view, sort: "default" as const }),
+    [view, canUseAmounts]
+  );
+
+  const rows = useMemo(() => buildListRows(guests, shownView), [guests, shownView]);
+  const sizes = useMemo(
+    () => rows.map((row) => (row.kind === "header" ? HEADER_ROW_HEIGHT : GUEST_ROW_HEIGHT)),
+    [rows]
+  );
+  const { start, end, offsets, totalSize, scrollToRow } = useWindowVirtualizer(
+    rowsRef,
+    sizes,
+    PAGE_HEADER_HEIGHT
+  );
+
+  // A new list starts without a keyboard selection
+  useEffect(() => setActiveIndex(-1), [rows]);
+
+  useEffect(() => {
+    if (activeIndex >= 0) scrollToRow(activeIndex);
+  }, [activeIndex, scrollToRow]);
 
   const noResults = guests.length === 0 && searchQuery.trim().length > 0;
 
+  const updateView = useCallback((next: ListView) => {
+    setView(next);
+    setListView(next);
+  }, []);
+
+  // Next guest row in the given direction, skipping group headers
+  const findGuestRow = useCallback(
+    (from: number, step: 1 | -1): number => {
+      for (let i = from + step; i >= 0 && i < rows.length; i += step) {
+        if (rows[i].kind === "guest") return i;
+      }
+      return from;
+    },
+    [rows]
+  );
+
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent) => {
+      const keys: Record<string, () => number> = {
+        ArrowDown: () => findGuestRow(activeIndex, 1),
+        ArrowUp: () => findGuestRow(activeIndex, -1),
+        Home: () => findGuestRow(-1, 1),
+        End: () => findGuestRow(rows.length, -1),
+      };
+      if (e.key in keys) {
+        e.preventDefault();
+        setActiveIndex(keys[e.key]());
+      } else if (e.key === "Enter" && rows[activeIndex]?.kind === "guest") {
+        e.preventDefault();
+        const row = rows[activeIndex];
+        if (row.kind === "guest") onSelect(row.guest);
+      }
+    },
+    [activeIndex, rows, findGuestRow, onSelect]
+  );
+
   const handleCreateGuest = async () => {
     if (!newGuestName.trim() || isCreating) return;
     setIsCreating(true);
@@ -57,6 +213,9 @@ export const GuestList = memo(function GuestList({
   };
 
   if (guests.length === 0 && !searchQuery.trim()) {
+    if (isFiltered) {
+      return <div className="text-center py-8 text-muted-foreground">គ្មានភ្ញៀវត្រូវនឹងតម្រងទេ</div>;
+    }
     return (
       <div className="text-center py-8 text-muted-foreground">
         {showRecorded ? "មិនមានភ្ញៀវកត់រួចរាល់ទេ" : "សូមស្វែងរកឈ្មោះភ្ញៀវ"}
@@ -64,55 +223,92 @@ export const GuestList = memo(function GuestList({
     );
   }
 
+  const activeRow = rows[activeIndex];
+
   return (
     <>
       <div className="space-y-2">
-        {guests.slice(0, 10).map((guest) => {
-          const hasData = guest.amountRiel !== null && guest.amountRiel > 0;
-          const isSelected = selectedId === guest.id;
-          const sideLabel = guest.side === "groom" ? "ប្រុស 👦🏻" : "ស្រី 🌸";
-          const displayName = guest.displayName || guest.name;
-
-          return (
-            <button
-              key={guest.id}
-              onClick={() => onSelect(guest)}
-              className={`w-full text-left px-4 py-3 rounded-lg border transition-colors ${
-                isSelected
-                  ? "bg-primary/20 border-primary"
-                  : hasData
-                  ? "bg-success/10 border-success/30 hover:bg-success/20"
-                  : "bg-card border-border hover:bg-secondary"
-              }`}
+        {guests.length > 1 && (
+          <div className="grid grid-cols-2 gap-2">
+            <Select
+              value={shownView.sort}
+              onValueChange={(sort) => updateView({ ...view, sort: sort as GuestSort })}
+            >
+              <SelectTrigger className="h-9 bg-card border-border">
+                <span className="text-muted-foreground text-xs mr-1">តម្រៀប៖</span>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(SORT_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value} disabled={value === "amount" && !canUseAmounts}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={view.grouping}
+              onValueChange={(grouping) => updateView({ ...view, grouping: grouping as GuestGrouping })}
             >
-              <div className="flex items-center justify-between">
-                <div className="flex items-center gap-3">
-                  <span className="text-2xl">👤</span>
-                  <div>
-                    <span className="font-medium text-foreground block">{displayName}</span>
-                    <span className="text-xs text-muted-foreground">ភ្ញៀវខាង{sideLabel}</span>
+              <SelectTrigger className="h-9 bg-card border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(GROUPING_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {/* Only the rows on screen are rendered; arrow keys move, Enter opens */}
+        {rows.length > 0 && (
+          <div
+            ref={listRef}
+            role="listbox"
+            tabIndex={0}
+            aria-label="បញ្ជីភ្ញៀវ"
+            aria-activedescendant={
+              activeRow?.kind === "guest" ? `guest-row-${activeRow.guest.id}` : undefined
+            }
+            onKeyDown={handleKeyDown}
+            onFocus={(e) => {
+              // Only when focused from the keyboard, not by clicking a row
+              if (e.target === e.currentTarget && activeIndex < 0) setActiveIndex(findGuestRow(-1, 1));
+            }}
+            className="rounded-lg focus:outline-none"
+          >
+            <div ref={rowsRef} className="relative" style={{ height: totalSize }}>
+              {rows.slice(start, end).map((row, i) => {
+                const index = start + i;
+                return (
+                  <div
+                    key={row.kind === "header" ? `header-${row.label}` : row.guest.id}
+                    className="absolute inset-x-0"
+                    style={{ top: offsets[index], height: sizes[index] }}
+                  >
+                    {row.kind === "header" ? (
+                      <div className="flex items-center justify-between h-full px-1 text-sm font-medium text-muted-foreground">
+                        <span>{row.label}</span>
+                        <span className="text-xs">{row.count} នាក់</span>
+                      </div>
+                    ) : (
+                      <GuestRow
+                        guest={row.guest}
+                        hit={searchHits?.get(row.guest.id)}
+                        isSelected={selectedId === row.guest.id}
+                        isActive={index === activeIndex}
+                        onSelect={onSelect}
+                      />
+                    )}
                   </div>
-                </div>
-                
-                <div className="flex items-center gap-2">
-                  {hasData && (
-                    <>
-                      <span className="text-sm text-primary font-medium">
-                        {formatKHR(guest.amountRiel!)}
-                      </span>
-                      <Check className="h-5 w-5 text-success" />
-                    </>
-                  )}
-                </div>
-              </div>
-            </button>
-          );
-        })}
-        
-        {guests.length > 10 && (
-          <p className="text-center text-sm text-muted-foreground py-2">
-            បង្ហាញតែ ១០ នាក់ដំបូង - សូមស្វែងរកឈ្មោះជាក់លាក់
-          </p>
+                );
+              })}
+            </div>
+          </div>
         )}
 
         {/* Show create new guest button when no results */}
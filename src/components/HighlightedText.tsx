@@ -0,0 +1,29 @@
+import { memo, ReactNode } from "react";
+import { HighlightRange } from "@/types/search";
+
+interface HighlightedTextProps {
+  text: string;
+  ranges?: HighlightRange[];
+}
+
+// Text with the parts a search matched marked
+export const HighlightedText = memo(function HighlightedText({ text, ranges = [] }: HighlightedTextProps) {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+
+  for (const [start, end] of sorted) {
+    if (end <= cursor) continue; // Overlaps one already marked
+    const from = Math.max(start, cursor);
+    if (from > cursor) parts.push(text.slice(cursor, from));
+    parts.push(
+      <mark key={from} className="bg-primary/30 text-foreground rounded-sm">
+        {text.slice(from, end)}
+      </mark>
+    );
+    cursor = end;
+  }
+  if (cursor < text.length) parts.push(text.slice(cursor));
+
+  return <>{parts}</>;
+});
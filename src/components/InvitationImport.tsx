@@ -0,0 +1,298 @@
+import { memo, useEffect, useMemo, useRef, useState } from "react";
+import { FileSpreadsheet, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { readSpreadsheet } from "@/lib/spreadsheet";
+import {
+  guessMapping,
+  INVITATION_FIELD_LABELS,
+  INVITATION_FIELDS,
+  validateInvitations,
+} from "@/lib/invitations";
+import { GuestRecord } from "@/types/guest";
+import { ColumnMapping, InvitationGuest, InvitationRow, SpreadsheetData } from "@/types/invitation";
+import { toast } from "sonner";
+
+const NO_COLUMN = "none";
+const PREVIEW_ROWS = 200;
+
+interface InvitationImportProps {
+  eventId: string; // Event the guests are invited to
+  guests: GuestRecord[]; // The event's current list, to find duplicates
+  onImport: (
+    fileName: string,
+    guests: InvitationGuest[],
+    updates: { id: string; details: InvitationGuest }[]
+  ) => Promise<{ created: number; updated: number; skipped: number } | null>;
+  undoAction?: { label: string; onClick: () => void };
+}
+
+function rowStatus({ guest, errors, duplicateOf }: InvitationRow): { text: string; className: string } {
+  if (!guest) return { text: `❌ ${errors.join(", ")}`, className: "text-destructive" };
+  if (duplicateOf?.inFile) return { text: `⚠️ ដូច${duplicateOf.name}`, className: "text-amber-500" };
+  if (duplicateOf) return { text: `⚠️ មានរួច៖ ${duplicateOf.name}`, className: "text-amber-500" };
+  return { text: "✓ ថ្មី", className: "text-success" };
+}
+
+// Invitation list import: pick a CSV or XLSX file, say which column holds
+// what, check the preview, then add the new guests
+export const InvitationImport = memo(function InvitationImport({
+  eventId,
+  guests,
+  onImport,
+  undoAction,
+}: InvitationImportProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [sheet, setSheet] = useState<SpreadsheetData | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [defaultSide, setDefaultSide] = useState<"groom" | "bride">("groom");
+  const [updateExisting, setUpdateExisting] = useState(false);
+  const [rows, setRows] = useState<InvitationRow[]>([]);
+  const [isReading, setIsReading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    if (!sheet || !mapping) return;
+    let cancelled = false;
+    validateInvitations(eventId, sheet, mapping, defaultSide, guests).then((result) => {
+      if (!cancelled) setRows(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [eventId, sheet, mapping, defaultSide, guests]);
+
+  const counts = useMemo(
+    () => ({
+      new: rows.filter((r) => r.guest && !r.duplicateOf).length,
+      existing: rows.filter((r) => r.guest && r.duplicateOf && !r.duplicateOf.inFile).length,
+      repeated: rows.filter((r) => r.duplicateOf?.inFile).length,
+      errors: rows.filter((r) => !r.guest).length,
+    }),
+    [rows]
+  );
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = "";
+    if (!file) return;
+
+    setIsReading(true);
+    try {
+      const data = await readSpreadsheet(file);
+      setRows([]);
+      setMapping(guessMapping(data.headers));
+      setSheet(data);
+    } catch (err) {
+      console.error("[Import] Could not read spreadsheet:", err);
+      toast.error("មិនអាចអានឯកសារនេះបានទេ (CSV ឬ XLSX)");
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const close = () => {
+    setSheet(null);
+    setMapping(null);
+    setRows([]);
+  };
+
+  const handleImport = async () => {
+    if (!sheet) return;
+    const newGuests = rows.filter((r) => r.guest && !r.duplicateOf).map((r) => r.guest!);
+    const updates = updateExisting
+      ? rows
+          .filter((r) => r.guest && r.duplicateOf && !r.duplicateOf.inFile)
+          .map((r) => ({ id: r.duplicateOf!.id, details: r.guest! }))
+      : [];
+
+    setIsImporting(true);
+    try {
+      const result = await onImport(sheet.fileName, newGuests, updates);
+      if (result) {
+        const updated = result.updated > 0 ? `, កែប្រែ ${result.updated} នាក់` : "";
+        toast.success(`បាននាំចូលភ្ញៀវ ${result.created} នាក់${updated}`, { action: undoAction });
+        close();
+      } else {
+        toast.error("កំហុសក្នុងការនាំចូល");
+      }
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const setColumn = (field: keyof ColumnMapping, value: string) => {
+    setMapping((prev) => prev && { ...prev, [field]: value === NO_COLUMN ? null : Number(value) });
+  };
+
+  const importCount = counts.new + (updateExisting ? counts.existing : 0);
+
+  return (
+    <>
+      <input
+        type="file"
+        ref={fileInputRef}
+        onChange={handleFileSelect}
+        accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+        className="hidden"
+      />
+      <Button
+        variant="outline"
+        onClick={() => fileInputRef.current?.click()}
+        className="w-full h-12"
+        disabled={isReading}
+      >
+        {isReading ? (
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        ) : (
+          <FileSpreadsheet className="h-4 w-4 mr-2" />
+        )}
+        📋 នាំចូលបញ្ជីភ្ញៀវ (CSV / XLSX)
+      </Button>
+
+      <Dialog open={sheet !== null} onOpenChange={(open) => !open && !isImporting && close()}>
+        <DialogContent className="bg-card border-border max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="text-primary">📋 នាំចូលបញ្ជីភ្ញៀវ</DialogTitle>
+            <DialogDescription>
+              {sheet?.fileName} · {sheet?.rows.length} ជួរ
+            </DialogDescription>
+          </DialogHeader>
+
+          {sheet && mapping && (
+            <div className="space-y-4">
+              {/* Column mapping */}
+              <div className="grid grid-cols-2 gap-3">
+                {INVITATION_FIELDS.map((field) => (
+                  <div key={field}>
+                    <Label className="text-sm mb-1 block">{INVITATION_FIELD_LABELS[field]}</Label>
+                    <Select
+                      value={mapping[field] === null ? NO_COLUMN : String(mapping[field])}
+                      onValueChange={(value) => setColumn(field, value)}
+                    >
+                      <SelectTrigger className="h-9 bg-input border-border">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_COLUMN}>— គ្មាន —</SelectItem>
+                        {sheet.headers.map((header, index) => (
+                          <SelectItem key={index} value={String(index)}>
+                            {header || `ជួរឈរ ${index + 1}`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+                <div>
+                  <Label className="text-sm mb-1 block">ខាង (បើគ្មាន)</Label>
+                  <Select
+                    value={defaultSide}
+                    onValueChange={(value) => setDefaultSide(value as "groom" | "bride")}
+                  >
+                    <SelectTrigger className="h-9 bg-input border-border">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="groom">ភ្ញៀវខាងប្រុស</SelectItem>
+                      <SelectItem value="bride">ភ្ញៀវខាងស្រី</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {/* Summary */}
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+                <span className="text-success">✓ ថ្មី {counts.new}</span>
+                <span className="text-amber-500">⚠️ មានរួច {counts.existing}</span>
+                {counts.repeated > 0 && (
+                  <span className="text-amber-500">⚠️ ស្ទួនក្នុងឯកសារ {counts.repeated}</span>
+                )}
+                <span className="text-destructive">❌ កំហុស {counts.errors}</span>
+              </div>
+
+              {counts.existing > 0 && (
+                <div className="flex items-center justify-between gap-3">
+                  <Label htmlFor="update-existing" className="text-sm">
+                    បំពេញក្រុម លេខទូរស័ព្ទ និងចំនួនអ្នកចូលរួមរបស់ភ្ញៀវដែលមានរួច
+                  </Label>
+                  <Switch
+                    id="update-existing"
+                    checked={updateExisting}
+                    onCheckedChange={setUpdateExisting}
+                  />
+                </div>
+              )}
+
+              {/* Preview */}
+              <div className="max-h-72 overflow-auto rounded-lg border border-border">
+                <table className="w-full text-sm">
+                  <thead className="bg-secondary text-muted-foreground sticky top-0">
+                    <tr>
+                      <th className="px-2 py-1 text-left">#</th>
+                      <th className="px-2 py-1 text-left">ឈ្មោះ</th>
+                      <th className="px-2 py-1 text-left">ខាង</th>
+                      <th className="px-2 py-1 text-left">ក្រុម</th>
+                      <th className="px-2 py-1 text-left">ទូរស័ព្ទ</th>
+                      <th className="px-2 py-1 text-right">នាក់</th>
+                      <th className="px-2 py-1 text-left">ស្ថានភាព</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.slice(0, PREVIEW_ROWS).map((row) => {
+                      const status = rowStatus(row);
+                      return (
+                        <tr key={row.row} className="border-t border-border align-top">
+                          <td className="px-2 py-1 text-muted-foreground">{row.row}</td>
+                          <td className="px-2 py-1">{row.guest?.name}</td>
+                          <td className="px-2 py-1">
+                            {row.guest && (row.guest.side === "groom" ? "ប្រុស" : "ស្រី")}
+                          </td>
+                          <td className="px-2 py-1">{row.guest?.group}</td>
+                          <td className="px-2 py-1">{row.guest?.phone}</td>
+                          <td className="px-2 py-1 text-right">{row.guest?.expectedAttendees}</td>
+                          <td className={`px-2 py-1 ${status.className}`}>{status.text}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              {rows.length > PREVIEW_ROWS && (
+                <p className="text-xs text-muted-foreground text-center">
+                  បង្ហាញតែ {PREVIEW_ROWS} ជួរដំបូង
+                </p>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={close} disabled={isImporting}>
+              បោះបង់
+            </Button>
+            <Button onClick={handleImport} disabled={isImporting || importCount === 0}>
+              {isImporting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              នាំចូល {importCount} នាក់
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+});
@@ -0,0 +1,132 @@
+import { ReactNode, useCallback, useEffect, useState } from "react";
+import { Loader2, Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { getLockedUntil } from "@/lib/auth";
+import {
+  getLockSettings,
+  isAppLocked,
+  lockOnStart,
+  subscribeToLock,
+  subscribeToLockSettings,
+  unlockApp,
+  watchForLock,
+} from "@/lib/lockScreen";
+
+interface LockScreenProps {
+  children: ReactNode;
+}
+
+// Covers the app while it is locked. The children stay mounted, so nothing
+// typed underneath is lost; the cover is a modal dialog so it also sits above
+// any dialog that was open. Nothing shows until it is known whether the tab
+// starts locked.
+export function LockScreen({ children }: LockScreenProps) {
+  const [isLocked, setIsLocked] = useState<boolean | null>(null);
+  const [settings, setSettings] = useState(getLockSettings);
+  const [pin, setPin] = useState("");
+  const [remainingAttempts, setRemainingAttempts] = useState<number | null>(null);
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  useEffect(() => {
+    lockOnStart()
+      .then(setIsLocked)
+      .catch((e) => {
+        console.error("[Lock] Start error:", e);
+        setIsLocked(isAppLocked());
+      });
+    return subscribeToLock(setIsLocked);
+  }, []);
+  useEffect(() => subscribeToLockSettings(setSettings), []);
+  useEffect(() => watchForLock(settings), [settings]);
+
+  // A lockout from earlier attempts may still be running
+  useEffect(() => {
+    if (!isLocked) return;
+    let cancelled = false;
+    getLockedUntil()
+      .then((until) => !cancelled && setLockedUntil(until))
+      .catch((e) => console.error("[Lock] Load error:", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [isLocked]);
+
+  // Lift the lockout when it runs out
+  useEffect(() => {
+    if (lockedUntil === null) return;
+    const timer = setTimeout(() => {
+      setLockedUntil(null);
+      setRemainingAttempts(null);
+    }, Math.max(0, lockedUntil - Date.now()));
+    return () => clearTimeout(timer);
+  }, [lockedUntil]);
+
+  const handleUnlock = useCallback(async () => {
+    if (!pin || lockedUntil !== null || isChecking) return;
+
+    setIsChecking(true);
+    try {
+      const result = await unlockApp(pin);
+      if (result.status === "unlocked") {
+        setRemainingAttempts(null);
+      } else if (result.status === "locked") {
+        setLockedUntil(result.lockedUntil);
+      } else {
+        setRemainingAttempts(result.remainingAttempts);
+      }
+    } catch (e) {
+      console.error("[Lock] Unlock error:", e);
+    } finally {
+      setPin("");
+      setIsChecking(false);
+    }
+  }, [pin, lockedUntil, isChecking]);
+
+  return (
+    <>
+      {isLocked !== null && children}
+      <Dialog open={isLocked === true}>
+        <DialogContent
+          className="max-w-none h-full flex items-center justify-center bg-background border-0 sm:rounded-none [&>button]:hidden"
+          onEscapeKeyDown={(e) => e.preventDefault()}
+          onInteractOutside={(e) => e.preventDefault()}
+          aria-describedby={undefined}
+        >
+          <div className="w-full max-w-sm space-y-4 text-center">
+            <Lock className="h-10 w-10 text-primary mx-auto" />
+            <DialogTitle className="text-xl font-bold text-primary">🔒 កម្មវិធីត្រូវបានចាក់សោ</DialogTitle>
+            <p className="text-sm text-muted-foreground">បញ្ចូលលេខកូដ ដើម្បីបន្ត</p>
+            <Input
+              type="password"
+              value={pin}
+              onChange={(e) => setPin(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleUnlock()}
+              disabled={lockedUntil !== null}
+              className="text-center text-lg bg-input border-border"
+              autoFocus
+            />
+            {lockedUntil !== null ? (
+              <p className="text-destructive text-sm">
+                ព្យាយាមច្រើនពេក។ សូមរង់ចាំដល់ម៉ោង {new Date(lockedUntil).toLocaleTimeString("km-KH")}។
+              </p>
+            ) : remainingAttempts !== null ? (
+              <p className="text-destructive text-sm">
+                លេខកូដមិនត្រឹមត្រូវ។ នៅសល់ {remainingAttempts} ដង។
+              </p>
+            ) : null}
+            <Button
+              onClick={handleUnlock}
+              disabled={!pin || lockedUntil !== null || isChecking}
+              className="w-full"
+            >
+              {isChecking ? <Loader2 className="h-4 w-4 animate-spin" /> : "បើក"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,56 @@
+import { memo, useEffect, useState } from "react";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getLockSettings, setLockSettings, subscribeToLockSettings } from "@/lib/lockScreen";
+
+const IDLE_OPTIONS = [1, 2, 5, 10, 30, 0]; // Minutes; 0 = never
+
+// When this device locks itself (admin only)
+export const LockSettings = memo(function LockSettings() {
+  const [settings, setSettings] = useState(getLockSettings);
+
+  useEffect(() => subscribeToLockSettings(setSettings), []);
+
+  return (
+    <div className="bg-secondary rounded-lg px-4 py-3 space-y-3">
+      <span className="text-sm text-muted-foreground block font-medium">🔒 ចាក់សោស្វ័យប្រវត្តិ</span>
+
+      <div className="flex items-center justify-between gap-2">
+        <Label className="text-sm">ចាក់សោពេលមិនប្រើ</Label>
+        <Select
+          value={String(settings.idleMinutes)}
+          onValueChange={(v) => setLockSettings({ ...settings, idleMinutes: Number(v) })}
+        >
+          <SelectTrigger className="w-32 bg-input border-border">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {IDLE_OPTIONS.map((minutes) => (
+              <SelectItem key={minutes} value={String(minutes)}>
+                {minutes === 0 ? "មិនចាក់សោ" : `${minutes} នាទី`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor="lock-when-hidden" className="text-sm">
+          ចាក់សោពេលចេញពីកម្មវិធី
+        </Label>
+        <Switch
+          id="lock-when-hidden"
+          checked={settings.lockWhenHidden}
+          onCheckedChange={(checked) => setLockSettings({ ...settings, lockWhenHidden: checked })}
+        />
+      </div>
+    </div>
+  );
+});
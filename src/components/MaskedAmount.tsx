@@ -0,0 +1,66 @@
+import { memo, useCallback, useEffect, useRef, useState } from "react";
+import { usePrivacy } from "@/hooks/usePrivacy";
+import { MASKED_AMOUNT } from "@/lib/privacy";
+import { toast } from "sonner";
+
+const LONG_PRESS_MS = 500;
+const REVEAL_MS = 3000;
+
+interface MaskedAmountProps {
+  text: string; // Formatted amount
+  className?: string;
+}
+
+// An amount that privacy mode hides; a long press shows it for a few seconds
+export const MaskedAmount = memo(function MaskedAmount({ text, className }: MaskedAmountProps) {
+  const { isPrivate, canReveal } = usePrivacy();
+  const [isRevealed, setIsRevealed] = useState(false);
+  const pressTimer = useRef<ReturnType<typeof setTimeout>>();
+  const didLongPress = useRef(false);
+
+  useEffect(() => {
+    if (!isRevealed) return;
+    const timer = setTimeout(() => setIsRevealed(false), REVEAL_MS);
+    return () => clearTimeout(timer);
+  }, [isRevealed]);
+
+  useEffect(() => () => clearTimeout(pressTimer.current), []);
+
+  const startPress = useCallback(() => {
+    if (!isPrivate) return;
+    didLongPress.current = false;
+    pressTimer.current = setTimeout(() => {
+      didLongPress.current = true;
+      if (canReveal) {
+        setIsRevealed(true);
+      } else {
+        toast.error("ត្រូវការសិទ្ធិហិរញ្ញិក ដើម្បីមើលចំនួនទឹកប្រាក់");
+      }
+    }, LONG_PRESS_MS);
+  }, [isPrivate, canReveal]);
+
+  const cancelPress = useCallback(() => clearTimeout(pressTimer.current), []);
+
+  // The click that ends a long press must not also open the guest
+  const handleClick = useCallback((e: React.MouseEvent) => {
+    if (didLongPress.current) {
+      e.preventDefault();
+      e.stopPropagation();
+      didLongPress.current = false;
+    }
+  }, []);
+
+  return (
+    <span
+      className={className}
+      onPointerDown={startPress}
+      onPointerUp={cancelPress}
+      onPointerLeave={cancelPress}
+      onClick={handleClick}
+      onContextMenu={(e) => isPrivate && e.preventDefault()}
+      title={isPrivate ? "ចុចឱ្យយូរ ដើម្បីមើល" : undefined}
+    >
+      {isPrivate && !isRevealed ? MASKED_AMOUNT : text}
+    </span>
+  );
+});
@@ -0,0 +1,143 @@
+import { memo, useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  getMigrationHistory,
+  getSchemaVersion,
+  resumeMigrations,
+  rollbackToSnapshot,
+} from "@/lib/db";
+import { MigrationHistoryEntry, MigrationSnapshot, listSnapshots } from "@/lib/migrations";
+import { toast } from "sonner";
+
+type SnapshotInfo = Omit<MigrationSnapshot, "stores">;
+
+// Schema upgrades applied on this device, and the copies taken before them
+// to roll back to when an upgrade went wrong (admin only)
+export const MigrationSettings = memo(function MigrationSettings() {
+  const [version, setVersion] = useState<{ current: number; latest: number } | null>(null);
+  const [history, setHistory] = useState<MigrationHistoryEntry[]>([]);
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[]>([]);
+  const [rollbackTo, setRollbackTo] = useState<SnapshotInfo | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const load = useCallback(async () => {
+    setVersion(await getSchemaVersion());
+    setHistory((await getMigrationHistory()).sort((a, b) => b.version - a.version));
+    setSnapshots((await listSnapshots()).reverse());
+  }, []);
+
+  useEffect(() => {
+    load().catch((e) => console.error("[DB] Schema load error:", e));
+  }, [load]);
+
+  // Everything this tab holds (lists, undo history) is stale afterwards, so
+  // it starts over
+  const run = async (action: () => Promise<void>) => {
+    setIsWorking(true);
+    try {
+      await action();
+      window.location.reload();
+    } catch (e) {
+      console.error("[DB] Schema error:", e);
+      toast.error("កំហុសក្នុងការផ្លាស់ប្តូរកំណែទិន្នន័យ");
+      setIsWorking(false);
+      setRollbackTo(null);
+    }
+  };
+
+  if (!version) return null;
+
+  return (
+    <div className="bg-secondary rounded-lg px-4 py-3 space-y-3">
+      <span className="text-sm text-muted-foreground block font-medium">
+        🗄️ កំណែទិន្នន័យ v{version.current}
+      </span>
+
+      {version.current < version.latest && (
+        <div className="space-y-2">
+          <p className="text-xs text-yellow-600">
+            បានត្រឡប់ទៅកំណែចាស់ ហើយនៅទីនោះរហូតដល់កម្មវិធីមានការកែប្រែថ្មី។ មុខងារខ្លះអាចមិនដំណើរការ។
+          </p>
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full"
+            disabled={isWorking}
+            onClick={() => run(resumeMigrations)}
+          >
+            ធ្វើបច្ចុប្បន្នភាពទៅ v{version.latest} ម្តងទៀត
+          </Button>
+        </div>
+      )}
+
+      {history.length > 0 && (
+        <ul className="text-xs space-y-1 max-h-32 overflow-y-auto">
+          {history.map((entry) => (
+            <li key={entry.version} className="text-muted-foreground">
+              <span className="text-foreground">v{entry.version}</span> · {entry.description} ·{" "}
+              {new Date(entry.appliedAt).toLocaleDateString("km-KH")}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {snapshots.length > 0 && (
+        <div className="space-y-1 pt-2 border-t border-border/50">
+          <span className="text-xs text-muted-foreground block">ច្បាប់ចម្លងមុនការធ្វើបច្ចុប្បន្នភាព</span>
+          {snapshots.map((snapshot) => (
+            <div key={snapshot.id} className="flex items-center justify-between gap-2 text-sm">
+              <span>
+                v{snapshot.version} · {new Date(snapshot.takenAt).toLocaleString("km-KH")}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={isWorking}
+                onClick={() => setRollbackTo(snapshot)}
+              >
+                ត្រឡប់ទៅវិញ
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <AlertDialog open={rollbackTo !== null} onOpenChange={(open) => !open && setRollbackTo(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>⚠️ ត្រឡប់ទៅ v{rollbackTo?.version}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              ទិន្នន័យទាំងអស់នៅលើឧបករណ៍នេះនឹងត្រឡប់ទៅដូចនៅ{" "}
+              {rollbackTo && new Date(rollbackTo.takenAt).toLocaleString("km-KH")}។
+              អ្វីដែលបានកត់ត្រាក្រោយនោះនឹងបាត់ លុះត្រាតែបានធ្វើសមកាលកម្មរួច។
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isWorking}>បោះបង់</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={isWorking}
+              onClick={(e) => {
+                e.preventDefault(); // Stays open until the page reloads
+                const id = rollbackTo?.id;
+                if (id !== undefined) run(() => rollbackToSnapshot(id));
+              }}
+              className="bg-destructive"
+            >
+              ត្រឡប់ទៅវិញ
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+});
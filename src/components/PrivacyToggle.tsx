@@ -0,0 +1,30 @@
+import { memo, useEffect } from "react";
+import { EyeOff, Eye } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { usePrivacy } from "@/hooks/usePrivacy";
+import { watchIdle } from "@/lib/privacy";
+import { toast } from "sonner";
+
+// Header button for privacy mode; also turns it back on when the device idles
+export const PrivacyToggle = memo(function PrivacyToggle() {
+  const { isPrivate, setPrivate } = usePrivacy();
+
+  useEffect(() => watchIdle(), []);
+
+  const handleToggle = () => {
+    if (!setPrivate(!isPrivate)) {
+      toast.error("ត្រូវការសិទ្ធិហិរញ្ញិក ដើម្បីបង្ហាញចំនួនទឹកប្រាក់");
+    }
+  };
+
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      onClick={handleToggle}
+      title={isPrivate ? "បង្ហាញចំនួនទឹកប្រាក់" : "លាក់ចំនួនទឹកប្រាក់"}
+    >
+      {isPrivate ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+    </Button>
+  );
+});
@@ -0,0 +1,39 @@
+import { ReactNode } from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft, Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { RoleSwitcher } from "@/components/RoleSwitcher";
+import { useRole } from "@/hooks/useRole";
+import { ROLE_LABELS } from "@/lib/auth";
+import { Permission } from "@/types/auth";
+
+interface RequirePermissionProps {
+  permission: Permission;
+  children: ReactNode;
+}
+
+// Guards a page behind a permission; links may be hidden but URLs can be typed
+export function RequirePermission({ permission, children }: RequirePermissionProps) {
+  const { role, can } = useRole();
+
+  if (can(permission)) return <>{children}</>;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background px-4">
+      <div className="text-center space-y-4">
+        <Lock className="h-10 w-10 text-muted-foreground mx-auto" />
+        <p className="text-lg text-primary">គ្មានសិទ្ធិចូលមើលទំព័រនេះ</p>
+        <p className="text-sm text-muted-foreground">តួនាទីបច្ចុប្បន្ន៖ {ROLE_LABELS[role]}</p>
+        <div className="flex items-center justify-center gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              ត្រឡប់ក្រោយ
+            </Link>
+          </Button>
+          <RoleSwitcher />
+        </div>
+      </div>
+    </div>
+  );
+}
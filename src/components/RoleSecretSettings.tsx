@@ -0,0 +1,141 @@
+import { memo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { changeRoleSecret, minSecretLength, ROLE_LABELS, ROLES, setRoleSecret } from "@/lib/auth";
+import { can } from "@/lib/roles";
+import { Role } from "@/types/auth";
+import { toast } from "sonner";
+
+interface RoleSecretSettingsProps {
+  role: Role; // Role that unlocked the summary
+}
+
+// Change your own password; an admin can also set the secret of any role
+export const RoleSecretSettings = memo(function RoleSecretSettings({ role }: RoleSecretSettingsProps) {
+  const [currentSecret, setCurrentSecret] = useState("");
+  const [newSecret, setNewSecret] = useState("");
+  const [confirmSecret, setConfirmSecret] = useState("");
+  const [targetRole, setTargetRole] = useState<Role>("recorder");
+  const [roleSecret, setRoleSecretInput] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const canChange =
+    currentSecret.length > 0 &&
+    newSecret.length >= minSecretLength(role) &&
+    newSecret === confirmSecret &&
+    !isSaving;
+
+  const handleChange = async () => {
+    setIsSaving(true);
+    try {
+      const result = await changeRoleSecret(role, currentSecret, newSecret);
+      if (result.status === "unlocked") {
+        toast.success("បានប្ដូរពាក្យសម្ងាត់ ✓");
+        setNewSecret("");
+        setConfirmSecret("");
+      } else if (result.status === "locked") {
+        toast.error("ព្យាយាមច្រើនពេក។ សូមរង់ចាំ។");
+      } else {
+        toast.error(`ពាក្យសម្ងាត់បច្ចុប្បន្នមិនត្រឹមត្រូវ។ នៅសល់ ${result.remainingAttempts} ដង។`);
+      }
+      setCurrentSecret("");
+    } catch (e) {
+      console.error("[Auth] Change secret error:", e);
+      toast.error("កំហុសក្នុងការប្ដូរពាក្យសម្ងាត់");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSetRoleSecret = async () => {
+    setIsSaving(true);
+    try {
+      await setRoleSecret(targetRole, roleSecret);
+      toast.success(`បានកំណត់ពាក្យសម្ងាត់${ROLE_LABELS[targetRole]} ✓`);
+      setRoleSecretInput("");
+    } catch (e) {
+      console.error("[Auth] Set role secret error:", e);
+      toast.error("កំហុសក្នុងការកំណត់ពាក្យសម្ងាត់");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Change own password */}
+      <div className="bg-secondary rounded-lg px-4 py-3 space-y-2">
+        <span className="text-sm text-muted-foreground block font-medium">
+          ប្ដូរពាក្យសម្ងាត់ ({ROLE_LABELS[role]})
+        </span>
+        <Input
+          type="password"
+          value={currentSecret}
+          onChange={(e) => setCurrentSecret(e.target.value)}
+          placeholder="ពាក្យសម្ងាត់បច្ចុប្បន្ន"
+          className="bg-input border-border"
+        />
+        <Input
+          type="password"
+          value={newSecret}
+          onChange={(e) => setNewSecret(e.target.value)}
+          placeholder={`ពាក្យសម្ងាត់ថ្មី (យ៉ាងតិច ${minSecretLength(role)} តួ)`}
+          className="bg-input border-border"
+        />
+        <Input
+          type="password"
+          value={confirmSecret}
+          onChange={(e) => setConfirmSecret(e.target.value)}
+          placeholder="បញ្ចូលពាក្យសម្ងាត់ថ្មីម្ដងទៀត"
+          className="bg-input border-border"
+        />
+        <Button onClick={handleChange} disabled={!canChange} className="w-full" size="sm">
+          ប្ដូរពាក្យសម្ងាត់
+        </Button>
+      </div>
+
+      {/* Secrets of the other roles */}
+      {can(role, "settings") && (
+        <div className="bg-secondary rounded-lg px-4 py-3 space-y-2">
+          <span className="text-sm text-muted-foreground block font-medium">
+            កំណត់ពាក្យសម្ងាត់តាមតួនាទី
+          </span>
+          <Select value={targetRole} onValueChange={(value) => setTargetRole(value as Role)}>
+            <SelectTrigger className="bg-input border-border">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ROLES.map((r) => (
+                <SelectItem key={r} value={r}>
+                  {ROLE_LABELS[r]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="password"
+            value={roleSecret}
+            onChange={(e) => setRoleSecretInput(e.target.value)}
+            placeholder={`យ៉ាងតិច ${minSecretLength(targetRole)} តួ`}
+            className="bg-input border-border"
+          />
+          <Button
+            onClick={handleSetRoleSecret}
+            disabled={roleSecret.length < minSecretLength(targetRole) || isSaving}
+            className="w-full"
+            size="sm"
+          >
+            កំណត់
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+});
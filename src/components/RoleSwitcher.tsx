@@ -0,0 +1,177 @@
+import { memo, useCallback, useEffect, useState } from "react";
+import { UserCog } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { CredentialSetup } from "@/components/CredentialSetup";
+import { useRole } from "@/hooks/useRole";
+import { getLockedUntil, hasCredentials, ROLE_LABELS, ROLES, unlock } from "@/lib/auth";
+import { rolesAtOrAbove, setActiveRole } from "@/lib/roles";
+import { Role } from "@/types/auth";
+import { toast } from "sonner";
+
+// Switching down is free; switching up asks for the PIN of that role (or of
+// any role above it)
+export const RoleSwitcher = memo(function RoleSwitcher() {
+  const { role } = useRole();
+  const [isOpen, setIsOpen] = useState(false);
+  const [needsSetup, setNeedsSetup] = useState<boolean | null>(null); // null while checking
+  const [target, setTarget] = useState<Role | null>(null);
+  const [pin, setPin] = useState("");
+  const [remainingAttempts, setRemainingAttempts] = useState<number | null>(null);
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  // On open: first run needs a password set; a lockout may still be running
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    Promise.all([hasCredentials(), getLockedUntil()])
+      .then(([configured, until]) => {
+        if (cancelled) return;
+        setNeedsSetup(!configured);
+        setLockedUntil(until);
+      })
+      .catch((e) => console.error("[Auth] Load error:", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen]);
+
+  // Lift the lockout when it runs out
+  useEffect(() => {
+    if (lockedUntil === null) return;
+    const timer = setTimeout(() => {
+      setLockedUntil(null);
+      setRemainingAttempts(null);
+    }, Math.max(0, lockedUntil - Date.now()));
+    return () => clearTimeout(timer);
+  }, [lockedUntil]);
+
+  const handleOpenChange = useCallback((open: boolean) => {
+    setIsOpen(open);
+    if (!open) {
+      setTarget(null);
+      setPin("");
+      setRemainingAttempts(null);
+    }
+  }, []);
+
+  const switchTo = useCallback(
+    (next: Role) => {
+      setActiveRole(next);
+      toast.success(`ប្ដូរជា ${ROLE_LABELS[next]} ✓`);
+      handleOpenChange(false);
+    },
+    [handleOpenChange]
+  );
+
+  const handleSelect = useCallback(
+    (next: Role) => {
+      if (ROLES.indexOf(next) <= ROLES.indexOf(role)) {
+        switchTo(next);
+      } else {
+        setTarget(next);
+        setPin("");
+      }
+    },
+    [role, switchTo]
+  );
+
+  const handleSubmit = useCallback(async () => {
+    if (!target || lockedUntil !== null || isChecking) return;
+
+    setIsChecking(true);
+    try {
+      const result = await unlock(pin, rolesAtOrAbove(target));
+      if (result.status === "unlocked") {
+        switchTo(target);
+      } else if (result.status === "locked") {
+        setLockedUntil(result.lockedUntil);
+      } else {
+        setRemainingAttempts(result.remainingAttempts);
+      }
+    } catch (e) {
+      console.error("[Auth] Unlock error:", e);
+    } finally {
+      setPin("");
+      setIsChecking(false);
+    }
+  }, [target, pin, lockedUntil, isChecking, switchTo]);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-2">
+          <UserCog className="h-4 w-4" />
+          {ROLE_LABELS[role]}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="bg-card border-border max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="text-primary text-center">👤 ប្ដូរតួនាទី</DialogTitle>
+        </DialogHeader>
+
+        {needsSetup ? (
+          <CredentialSetup onDone={() => setNeedsSetup(false)} />
+        ) : (
+          <div className="space-y-4 py-2">
+            <div className="grid grid-cols-3 gap-2">
+              {ROLES.map((r) => (
+                <Button
+                  key={r}
+                  variant={r === (target ?? role) ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => handleSelect(r)}
+                  disabled={needsSetup === null}
+                >
+                  {ROLE_LABELS[r]}
+                </Button>
+              ))}
+            </div>
+
+            {target && (
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground text-center">
+                  បញ្ចូលលេខកូដ {ROLE_LABELS[target]}
+                </p>
+                <Input
+                  type="password"
+                  value={pin}
+                  onChange={(e) => setPin(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && handleSubmit()}
+                  disabled={lockedUntil !== null}
+                  className="text-center text-lg"
+                  autoFocus
+                />
+                {lockedUntil !== null ? (
+                  <p className="text-destructive text-sm text-center">
+                    ព្យាយាមច្រើនពេក។ សូមរង់ចាំដល់ម៉ោង{" "}
+                    {new Date(lockedUntil).toLocaleTimeString("km-KH")}។
+                  </p>
+                ) : remainingAttempts !== null ? (
+                  <p className="text-destructive text-sm text-center">
+                    លេខកូដមិនត្រឹមត្រូវ។ នៅសល់ {remainingAttempts} ដង។
+                  </p>
+                ) : null}
+                <Button
+                  onClick={handleSubmit}
+                  disabled={lockedUntil !== null || isChecking || !pin}
+                  className="w-full"
+                >
+                  {isChecking ? "កំពុងពិនិត្យ..." : "បើក"}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+});
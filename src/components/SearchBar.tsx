@@ -6,11 +6,13 @@ import { Button } from "@/components/ui/button";
 interface SearchBarProps {
   value: string;
   onChange: (value: string) => void;
+  onArrowDown?: () => void; // Move into the results
 }
 
 export const SearchBar = memo(function SearchBar({
   value,
   onChange,
+  onArrowDown,
 }: SearchBarProps) {
   const handleClear = useCallback(() => {
     onChange("");
@@ -23,6 +25,12 @@ export const SearchBar = memo(function SearchBar({
         type="text"
         value={value}
         onChange={(e) => onChange(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "ArrowDown" && onArrowDown) {
+            e.preventDefault();
+            onArrowDown();
+          }
+        }}
         placeholder="ស្វែងរកឈ្មោះភ្ញៀវ..."
         className="pl-12 pr-12 h-14 text-lg bg-card border-border focus:border-primary focus:ring-primary"
         autoComplete="off"
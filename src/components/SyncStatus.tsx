@@ -1,17 +1,35 @@
-import { memo } from "react";
-import { Wifi, WifiOff, Cloud, CloudOff, Check, Loader2 } from "lucide-react";
+import { memo, useState } from "react";
+import { Wifi, WifiOff, Cloud, CloudOff, Check, Loader2, RefreshCw } from "lucide-react";
 import { SyncState } from "@/types/sync";
 import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 
 interface SyncStatusProps {
   syncState: SyncState;
   isOnline: boolean;
+  syncEndpoint: string;
+  canConfigure: boolean; // May change the sync endpoint
+  onChangeEndpoint: (endpoint: string) => void;
+  onSyncNow: () => void;
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString("km-KH", { hour: "2-digit", minute: "2-digit" });
 }
 
 export const SyncStatus = memo(function SyncStatus({
   syncState,
   isOnline,
+  syncEndpoint,
+  canConfigure,
+  onChangeEndpoint,
+  onSyncNow,
 }: SyncStatusProps) {
+  const [endpointInput, setEndpointInput] = useState(syncEndpoint);
+
   // Determine status message and styling
   const getStatus = () => {
     if (!isOnline) {
@@ -25,6 +43,19 @@ export const SyncStatus = memo(function SyncStatus({
       };
     }
 
+    if (syncState.lastError && !syncState.isSyncing) {
+      return {
+        icon: CloudOff,
+        text: "មិនអាចភ្ជាប់ម៉ាស៊ីនមេ",
+        subtext: syncState.nextRetryAt
+          ? `ព្យាយាមម្ដងទៀតម៉ោង ${formatTime(syncState.nextRetryAt)}`
+          : null,
+        color: "text-red-500",
+        bgColor: "bg-red-500/10",
+        borderColor: "border-red-500/20",
+      };
+    }
+
     if (syncState.errorCount > 0) {
       return {
         icon: CloudOff,
@@ -73,37 +104,77 @@ export const SyncStatus = memo(function SyncStatus({
   const Icon = status.icon;
 
   return (
-    <div
-      className={cn(
-        "flex items-center gap-2 px-3 py-1.5 rounded-full border text-xs",
-        status.bgColor,
-        status.borderColor
-      )}
-    >
-      <Icon
-        className={cn(
-          "h-3.5 w-3.5",
-          status.color,
-          (status as any).animate && "animate-spin"
-        )}
-      />
-      <div className="flex flex-col">
-        <span className={cn("font-medium", status.color)}>{status.text}</span>
-        {status.subtext && (
-          <span className="text-[10px] text-muted-foreground">
-            {status.subtext}
-          </span>
-        )}
-      </div>
+    <Popover onOpenChange={(open) => open && setEndpointInput(syncEndpoint)}>
+      <PopoverTrigger asChild>
+        <button
+          className={cn(
+            "flex items-center gap-2 px-3 py-1.5 rounded-full border text-xs text-left",
+            status.bgColor,
+            status.borderColor
+          )}
+        >
+          <Icon
+            className={cn(
+              "h-3.5 w-3.5",
+              status.color,
+              (status as any).animate && "animate-spin"
+            )}
+          />
+          <div className="flex flex-col">
+            <span className={cn("font-medium", status.color)}>{status.text}</span>
+            {status.subtext && (
+              <span className="text-[10px] text-muted-foreground">
+                {status.subtext}
+              </span>
+            )}
+          </div>
       
-      {/* Online indicator */}
-      <div className="ml-1">
-        {isOnline ? (
-          <Wifi className="h-3 w-3 text-green-500" />
-        ) : (
-          <WifiOff className="h-3 w-3 text-yellow-500" />
+          {/* Online indicator */}
+          <div className="ml-1">
+            {isOnline ? (
+              <Wifi className="h-3 w-3 text-green-500" />
+            ) : (
+              <WifiOff className="h-3 w-3 text-yellow-500" />
+            )}
+          </div>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="bg-card border-border space-y-3">
+        <div>
+          <Label className="text-sm mb-1 block">ម៉ាស៊ីនមេ (Sync endpoint)</Label>
+          <Input
+            value={endpointInput}
+            onChange={(e) => setEndpointInput(e.target.value)}
+            placeholder="http://localhost:8787"
+            className="bg-input border-border"
+            disabled={!canConfigure}
+          />
+          <p className="text-xs text-muted-foreground mt-1">ទុកទទេ ដើម្បីមិនផ្ញើទិន្នន័យ</p>
+        </div>
+        {canConfigure && endpointInput.trim() !== syncEndpoint && (
+          <Button size="sm" className="w-full" onClick={() => onChangeEndpoint(endpointInput)}>
+            រក្សាទុក
+          </Button>
         )}
-      </div>
-    </div>
+        <div className="text-xs text-muted-foreground space-y-1">
+          <p>
+            ផ្ញើចុងក្រោយ៖ {syncState.lastSyncTime ? formatTime(syncState.lastSyncTime) : "—"}
+          </p>
+          <p>រង់ចាំផ្ញើ៖ {syncState.pendingCount}</p>
+          {syncState.errorCount > 0 && <p>ម៉ាស៊ីនមេបដិសេធ៖ {syncState.errorCount}</p>}
+          {syncState.lastError && <p className="text-destructive">{syncState.lastError}</p>}
+        </div>
+        <Button
+          variant="secondary"
+          size="sm"
+          className="w-full gap-2"
+          disabled={!syncEndpoint || !isOnline || syncState.isSyncing}
+          onClick={onSyncNow}
+        >
+          <RefreshCw className="h-4 w-4" />
+          ផ្ញើឥឡូវនេះ
+        </Button>
+      </PopoverContent>
+    </Popover>
   );
 });
@@ -0,0 +1,95 @@
+import { memo } from "react";
+import { Undo2, Redo2, History } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { UndoEntry, UndoKind } from "@/types/undo";
+
+interface UndoHistoryPanelProps {
+  undoHistory: UndoEntry[];
+  redoHistory: UndoEntry[];
+  onUndoTo: (entryId: string) => void;
+  onRedo: () => void;
+}
+
+const KIND_LABELS: Record<UndoKind, string> = {
+  save: "💾 រក្សាទុក",
+  create: "➕ បង្កើតភ្ញៀវ",
+  delete: "🗑️ លុប",
+  import: "📥 នាំចូល",
+  merge: "🔗 បញ្ចូលភ្ញៀវស្ទួន",
+};
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString("km-KH", { hour: "2-digit", minute: "2-digit" });
+}
+
+export const UndoHistoryPanel = memo(function UndoHistoryPanel({
+  undoHistory,
+  redoHistory,
+  onUndoTo,
+  onRedo,
+}: UndoHistoryPanelProps) {
+  const nextRedo = redoHistory[redoHistory.length - 1];
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="ghost" className="w-full h-12" disabled={undoHistory.length === 0 && !nextRedo}>
+          <Undo2 className="h-4 w-4 mr-2" />
+          ↩️ មិនធ្វើវិញ ({undoHistory.length})
+        </Button>
+      </SheetTrigger>
+      <SheetContent side="bottom" className="max-h-[80vh] overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="text-primary flex items-center gap-2">
+            <History className="h-5 w-5" />
+            សកម្មភាពចុងក្រោយ
+          </SheetTitle>
+          <SheetDescription>
+            ត្រឡប់ទិន្នន័យទៅពេលមុនសកម្មភាពនោះ (សកម្មភាពក្រោយៗវាក៏ត្រូវមិនធ្វើវិញដែរ)
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-2 py-4">
+          {nextRedo && (
+            <Button variant="secondary" onClick={onRedo} className="w-full gap-2">
+              <Redo2 className="h-4 w-4" />
+              ធ្វើវិញ៖ {KIND_LABELS[nextRedo.kind]} {nextRedo.label}
+            </Button>
+          )}
+
+          {undoHistory.length === 0 && (
+            <p className="text-center py-6 text-muted-foreground">មិនមានសកម្មភាពទេ</p>
+          )}
+
+          {[...undoHistory].reverse().map((entry) => (
+            <div
+              key={entry.id}
+              className="flex items-center justify-between px-4 py-3 rounded-lg border border-border bg-card"
+            >
+              <div>
+                <span className="font-medium text-foreground block">
+                  {KIND_LABELS[entry.kind]} {entry.label}
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {formatTime(entry.timestamp)} · {entry.before.length} ភ្ញៀវ
+                </span>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => onUndoTo(entry.id)}>
+                <Undo2 className="h-4 w-4 mr-1" />
+                មិនធ្វើវិញ
+              </Button>
+            </div>
+          ))}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+});
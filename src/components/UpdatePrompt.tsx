@@ -0,0 +1,27 @@
+import { memo } from "react";
+import { RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface UpdatePromptProps {
+  blocked: boolean; // A form has unsaved input; reloading would lose it
+  onUpdate: () => void;
+}
+
+export const UpdatePrompt = memo(function UpdatePrompt({ blocked, onUpdate }: UpdatePromptProps) {
+  return (
+    <div className="fixed bottom-4 left-4 right-4 z-50 max-w-2xl mx-auto bg-card border border-primary rounded-xl px-4 py-3 shadow-lg flex items-center justify-between gap-3">
+      <div className="text-sm">
+        <span className="text-foreground block">🆕 មានកំណែថ្មីនៃកម្មវិធី</span>
+        {blocked && (
+          <span className="text-xs text-muted-foreground">
+            សូមរក្សាទុក ឬបិទទម្រង់សិន មុនពេលធ្វើបច្ចុប្បន្នភាព
+          </span>
+        )}
+      </div>
+      <Button size="sm" onClick={onUpdate} disabled={blocked}>
+        <RefreshCw className="h-4 w-4 mr-1" />
+        ធ្វើបច្ចុប្បន្នភាព
+      </Button>
+    </div>
+  );
+});
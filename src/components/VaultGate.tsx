@@ -0,0 +1,88 @@
+import { ReactNode, useCallback, useEffect, useState } from "react";
+import { KeyRound, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { subscribeToChanges } from "@/lib/changeFeed";
+import { refreshVault, unlockVault } from "@/lib/vault";
+
+interface VaultGateProps {
+  children: ReactNode;
+}
+
+// Nothing below renders until an encrypted ledger is unlocked in this tab
+export function VaultGate({ children }: VaultGateProps) {
+  const [state, setState] = useState<"checking" | "locked" | "open">("checking");
+  const [passphrase, setPassphrase] = useState("");
+  const [isWrong, setIsWrong] = useState(false);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const check = useCallback(() => {
+    refreshVault()
+      .then((unlocked) => setState(unlocked ? "open" : "locked"))
+      .catch((e) => {
+        console.error("[Vault] Check error:", e);
+        setState("locked");
+      });
+  }, []);
+
+  // Another tab may turn encryption on or change the passphrase
+  useEffect(() => {
+    check();
+    return subscribeToChanges((change) => {
+      if (change.vault) check();
+    });
+  }, [check]);
+
+  const handleUnlock = useCallback(async () => {
+    if (!passphrase || isUnlocking) return;
+    setIsUnlocking(true);
+    try {
+      if (await unlockVault(passphrase)) {
+        setState("open");
+      } else {
+        setIsWrong(true);
+      }
+    } catch (e) {
+      console.error("[Vault] Unlock error:", e);
+      setIsWrong(true);
+    } finally {
+      setPassphrase("");
+      setIsUnlocking(false);
+    }
+  }, [passphrase, isUnlocking]);
+
+  if (state === "open") return <>{children}</>;
+
+  if (state === "checking") {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="text-primary text-xl">កំពុងផ្ទុក...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background px-4">
+      <div className="w-full max-w-sm space-y-4 text-center">
+        <KeyRound className="h-10 w-10 text-primary mx-auto" />
+        <h1 className="text-xl font-bold text-primary">🔐 បញ្ជីត្រូវបានអ៊ិនគ្រីប</h1>
+        <p className="text-sm text-muted-foreground">បញ្ចូលពាក្យសម្ងាត់ ដើម្បីបើកទិន្នន័យ</p>
+        <Input
+          type="password"
+          value={passphrase}
+          onChange={(e) => {
+            setPassphrase(e.target.value);
+            setIsWrong(false);
+          }}
+          onKeyDown={(e) => e.key === "Enter" && handleUnlock()}
+          className="text-center text-lg bg-input border-border"
+          autoFocus
+        />
+        {isWrong && <p className="text-destructive text-sm">ពាក្យសម្ងាត់មិនត្រឹមត្រូវ</p>}
+        <Button onClick={handleUnlock} disabled={!passphrase || isUnlocking} className="w-full">
+          {isUnlocking ? <Loader2 className="h-4 w-4 animate-spin" /> : "បើក"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,11 @@
+import { useEffect, useState } from "react";
+import { applyUpdate, subscribeToUpdates } from "@/lib/serviceWorker";
+
+// Whether a new version of the app is waiting to take over
+export function useAppUpdate() {
+  const [updateReady, setUpdateReady] = useState(false);
+
+  useEffect(() => subscribeToUpdates(setUpdateReady), []);
+
+  return { updateReady, applyUpdate };
+}
@@ -1,34 +1,130 @@
-import { useState, useEffect, useCallback, useMemo } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import {
   initDB,
   getAllGuests,
-  saveGuestRecord,
+  getAllGifts,
+  getGuest,
+  getGift,
+  getGiftsForGuest,
+  restoreGuestRecords,
+  CHANGED_SINCE,
+  saveGuestWithGift,
   createCustomGuest,
+  importInvitationGuests,
+  softDeleteGuest,
+  softDeleteGift,
+  mergeGuestRecords,
   getPendingSyncCount,
   exportBackup,
   importBackup,
+  getExchangeRates,
+  addExchangeRate,
+  getSyncErrorCount,
+  getOpenConflictCount,
   migrateFromLocalStorage,
+  getEvents,
+  saveEvent,
 } from "@/lib/db";
-import { GuestRecordDB, SyncState, BackupData } from "@/types/sync";
-import { GuestRecord, BankInfo, USD_TO_KHR_RATE } from "@/types/guest";
+import { sealLedger, verifyLedger, verifyBackup } from "@/lib/ledger";
+import { decryptBackup, encryptBackup, isEncryptedBackup, isEncryptionEnabled } from "@/lib/vault";
+import { currencyTotals, isActiveGift, toRiel } from "@/lib/gifts";
+import { resolveMergedGuest } from "@/lib/duplicates";
+import { compareRates, rateAt } from "@/lib/rates";
+import { createSyncEngine, SyncEngine } from "@/lib/syncEngine";
+import {
+  createEventId,
+  eventOf,
+  getActiveEventId,
+  setActiveEventId,
+  subscribeToActiveEvent,
+} from "@/lib/events";
+import { DataChange, subscribeToChanges } from "@/lib/changeFeed";
+import { createRestBackend, getSyncEndpoint, setSyncEndpoint } from "@/lib/syncBackend";
+import { GuestRecordDB, GiftEntryDB, SyncState, BackupData } from "@/types/sync";
+import { GuestRecord, GiftEntry, GiftInput } from "@/types/guest";
+import { GuestSnapshot, UndoEntry, UndoKind } from "@/types/undo";
+import { GuestMerge } from "@/types/duplicate";
+import { InvitationGuest } from "@/types/invitation";
+import { EventFormData, WeddingEvent } from "@/types/event";
+import { ExchangeRate } from "@/types/rate";
+
+const MAX_UNDO_STEPS = 20;
+
+interface UndoHistory {
+  undo: UndoEntry[]; // Oldest first
+  redo: UndoEntry[]; // Most recently undone last
+}
+
+// Capture the current DB state of the given guests and their gifts
+async function captureGuests(ids: string[]): Promise<GuestSnapshot[]> {
+  return Promise.all(
+    ids.map(async (id) => ({
+      id,
+      record: (await getGuest(id)) ?? null,
+      gifts: await getGiftsForGuest(id),
+    }))
+  );
+}
+
+// Replace the given records in a list by id; undefined means it is gone
+function patchById<T extends { id: string }>(list: T[], fresh: Map<string, T | undefined>): T[] {
+  const known = new Set(list.map((item) => item.id));
+  // Keep the list order for records that were already there
+  const patched = list.flatMap((item) => {
+    if (!fresh.has(item.id)) return [item];
+    const updated = fresh.get(item.id);
+    return updated ? [updated] : [];
+  });
+  const added = [...fresh.values()].filter(
+    (item): item is T => item !== undefined && !known.has(item.id)
+  );
+  return [...patched, ...added];
+}
+
+async function loadById<T>(ids: string[], load: (id: string) => Promise<T | undefined>) {
+  return new Map(await Promise.all(ids.map(async (id) => [id, await load(id)] as const)));
+}
+
+// Convert DB gift to UI gift
+function toGiftEntry(db: GiftEntryDB): GiftEntry {
+  return {
+    id: db.id,
+    amountRiel: db.amountRiel,
+    currency: db.currency,
+    originalAmount: db.originalAmount,
+    exchangeRate: db.exchangeRate,
+    paymentType: db.paymentType,
+    bank: db.bankType ? { type: db.bankType, ref: db.bankRef ?? "" } : null,
+    receivedAt: new Date(db.receivedAt).toISOString(),
+    recorder: db.recorder,
+  };
+}
 
-// Convert DB record to UI record
-function toGuestRecord(db: GuestRecordDB): GuestRecord {
+// Convert DB record to UI record; gifts must already be active-only
+function toGuestRecord(db: GuestRecordDB, gifts: GiftEntryDB[] = []): GuestRecord {
+  const total = gifts.reduce((sum, g) => sum + g.amountRiel, 0);
   return {
     id: db.id,
     name: db.name,
     side: db.side,
     displayName: db.displayName,
-    amountRiel: db.amountRiel,
-    paymentType: db.paymentType,
-    bank: db.bankType && db.bankRef ? { type: db.bankType, ref: db.bankRef } : null,
+    amountRiel: total > 0 ? total : null,
+    gifts: [...gifts].sort((a, b) => a.receivedAt - b.receivedAt).map(toGiftEntry),
     note: db.note,
+    isCustomGuest: db.isCustomGuest,
+    group: db.group ?? "",
+    phone: db.phone ?? "",
+    expectedAttendees: db.expectedAttendees ?? null,
     updatedAt: db.updatedAt ? new Date(db.updatedAt).toISOString() : null,
   };
 }
 
 export function useDatabase() {
   const [guests, setGuests] = useState<GuestRecordDB[]>([]);
+  const [gifts, setGifts] = useState<GiftEntryDB[]>([]);
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [events, setEvents] = useState<WeddingEvent[]>([]);
+  const [activeEventId, setActiveEventIdState] = useState(getActiveEventId);
   const [isLoaded, setIsLoaded] = useState(false);
   const [isOnline, setIsOnline] = useState(navigator.onLine);
   const [syncState, setSyncState] = useState<SyncState>({
@@ -37,7 +133,12 @@ export function useDatabase() {
     lastSyncTime: null,
     pendingCount: 0,
     errorCount: 0,
+    lastError: null,
+    nextRetryAt: null,
   });
+  const [syncEndpoint, setSyncEndpointState] = useState(getSyncEndpoint);
+  const [conflictCount, setConflictCount] = useState(0);
+  const syncEngineRef = useRef<SyncEngine | null>(null);
 
   // Initialize database and load data
   useEffect(() => {
@@ -48,13 +149,17 @@ export function useDatabase() {
         // Migrate from localStorage if exists
         await migrateFromLocalStorage();
         
-        // Load all guests
+        // Load all guests and gifts
         const allGuests = await getAllGuests();
         setGuests(allGuests);
+        setGifts(await getAllGifts());
+        setRates(await getExchangeRates());
+        setEvents(await getEvents());
         
         // Update pending count
         const pending = await getPendingSyncCount();
         setSyncState((s) => ({ ...s, pendingCount: pending }));
+        setConflictCount(await getOpenConflictCount());
         
         setIsLoaded(true);
         console.log("[DB] Loaded", allGuests.length, "guests");
@@ -86,18 +191,161 @@ export function useDatabase() {
     };
   }, []);
 
+  const [history, setHistory] = useState<UndoHistory>({ undo: [], redo: [] });
+  // Latest history for callbacks fired from toasts after newer renders
+  const historyRef = useRef(history);
+  const isRestoringRef = useRef(false);
+
+  const commitHistory = useCallback((next: UndoHistory) => {
+    historyRef.current = next;
+    setHistory(next);
+  }, []);
+
+  // Record a completed operation; any redo steps are discarded
+  const pushUndo = useCallback(
+    (kind: UndoKind, label: string, before: GuestSnapshot[], after: GuestSnapshot[]) => {
+      const entry: UndoEntry = {
+        id: `UNDO_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        kind,
+        label,
+        timestamp: Date.now(),
+        before,
+        after,
+      };
+      commitHistory({
+        undo: [...historyRef.current.undo, entry].slice(-MAX_UNDO_STEPS),
+        redo: [],
+      });
+    },
+    [commitHistory]
+  );
+
   // Refresh guests from DB
   const refreshGuests = useCallback(async () => {
     const allGuests = await getAllGuests();
     setGuests(allGuests);
+    setGifts(await getAllGifts());
+    setRates(await getExchangeRates());
+    setEvents(await getEvents());
     const pending = await getPendingSyncCount();
-    setSyncState((s) => ({ ...s, pendingCount: pending }));
+    const errors = await getSyncErrorCount();
+    setSyncState((s) => ({ ...s, pendingCount: pending, errorCount: errors }));
+    setConflictCount(await getOpenConflictCount());
+    if (pending > 0) syncEngineRef.current?.requestSync();
   }, []);
 
+  // Reload just what another tab or window wrote
+  const applyExternalChange = useCallback(
+    async (change: DataChange) => {
+      if (change.all) {
+        await refreshGuests();
+        return;
+      }
+      if (change.guests?.length) {
+        const fresh = await loadById(change.guests, getGuest);
+        setGuests((prev) => patchById(prev, fresh));
+      }
+      if (change.gifts?.length) {
+        const fresh = await loadById(change.gifts, getGift);
+        setGifts((prev) => patchById(prev, fresh));
+      }
+      if (change.rates) setRates(await getExchangeRates());
+      if (change.events) setEvents(await getEvents());
+      if (change.conflicts) setConflictCount(await getOpenConflictCount());
+
+      const pending = await getPendingSyncCount();
+      const errors = await getSyncErrorCount();
+      setSyncState((s) => ({ ...s, pendingCount: pending, errorCount: errors }));
+    },
+    [refreshGuests]
+  );
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    return subscribeToChanges((change) => {
+      applyExternalChange(change).catch((e) => console.error("[DB] External change error:", e));
+    });
+  }, [isLoaded, applyExternalChange]);
+
+  // Run the sync engine while an endpoint is configured
+  useEffect(() => {
+    if (!isLoaded || !syncEndpoint) return;
+
+    const engine = createSyncEngine({
+      endpoint: syncEndpoint,
+      backend: createRestBackend(syncEndpoint),
+      onStateChange: (patch) => setSyncState((s) => ({ ...s, ...patch })),
+      onRemoteChanges: () => void refreshGuests(),
+    });
+    syncEngineRef.current = engine;
+    engine.syncNow();
+
+    return () => {
+      engine.stop();
+      syncEngineRef.current = null;
+    };
+  }, [isLoaded, syncEndpoint, refreshGuests]);
+
+  const updateSyncEndpoint = useCallback((endpoint: string) => {
+    setSyncEndpoint(endpoint);
+    setSyncEndpointState(getSyncEndpoint());
+    setSyncState((s) => ({ ...s, lastError: null, nextRetryAt: null }));
+  }, []);
+
+  const syncNow = useCallback(() => {
+    syncEngineRef.current?.syncNow();
+  }, []);
+
+  useEffect(() => subscribeToActiveEvent(setActiveEventIdState), []);
+
+  // Events on this device, plus any that guests synced from another device
+  // belong to but whose details never reached this one
+  const eventList = useMemo((): WeddingEvent[] => {
+    const known = new Set(events.map((e) => e.id));
+    const unknown = [...new Set(guests.map(eventOf))].filter((id) => !known.has(id));
+    return [
+      ...events,
+      ...unknown.map((id) => ({
+        id,
+        name: "ព្រឹត្តិការណ៍ពីឧបករណ៍ផ្សេង",
+        date: "",
+        venue: "",
+        couple: "",
+        exchangeRate: null,
+        createdAt: 0,
+        updatedAt: 0,
+        syncStatus: "synced" as const,
+        lastSyncedAt: null,
+      })),
+    ];
+  }, [events, guests]);
+
+  const activeEvent = useMemo(
+    () => eventList.find((e) => e.id === activeEventId) ?? null,
+    [eventList, activeEventId]
+  );
+
+  // Guests of the active event not in the trash
+  const activeGuests = useMemo(() => {
+    return guests.filter((g) => !g.deleted && eventOf(g) === activeEventId);
+  }, [guests, activeEventId]);
+
+  // Gifts of the active event that count, grouped by guest. A gift recorded
+  // elsewhere for a guest merged here since counts for the guest kept.
+  const giftsByGuest = useMemo(() => {
+    const guestsById = new Map(guests.map((g) => [g.id, g]));
+    const map = new Map<string, GiftEntryDB[]>();
+    gifts.filter((gift) => isActiveGift(gift) && eventOf(gift) === activeEventId).forEach((gift) => {
+      const guestId = resolveMergedGuest(guestsById, gift.guestId);
+      map.set(guestId, [...(map.get(guestId) ?? []), gift]);
+    });
+    return map;
+  }, [guests, gifts, activeEventId]);
+
   // Convert to UI format
   const guestRecords = useMemo((): GuestRecord[] => {
-    return guests.map(toGuestRecord);
-  }, [guests]);
+    return activeGuests.map((g) => toGuestRecord(g, giftsByGuest.get(g.id)));
+  }, [activeGuests, giftsByGuest]);
 
   // Split guests
   const pendingGuests = useMemo(() => {
@@ -108,26 +356,35 @@ export function useDatabase() {
     return guestRecords.filter((g) => g.amountRiel !== null && g.amountRiel > 0);
   }, [guestRecords]);
 
-  // Save guest (IndexedDB-first, NEVER blocks)
+  // Save guest details and add (giftId null) or edit one gift (IndexedDB-first, NEVER blocks)
   const saveGuest = useCallback(
     async (
       guestId: string,
-      amountRiel: number | null,
-      paymentType: "cash" | "bank",
-      bank: BankInfo | null,
+      gift: GiftInput | null,
+      giftId: string | null,
       note: string,
       displayName?: string
     ): Promise<boolean> => {
       try {
-        await saveGuestRecord(guestId, {
-          amountRiel,
-          paymentType,
-          bankType: bank?.type || null,
-          bankRef: bank?.ref || null,
-          note,
-          displayName,
-        });
-        
+        const before = await captureGuests([guestId]);
+        const { guest: updated } = await saveGuestWithGift(
+          guestId,
+          { note, ...(displayName !== undefined && { displayName }) },
+          gift && {
+            id: giftId,
+            fields: {
+              amountRiel: toRiel(gift.originalAmount, gift.currency, gift.exchangeRate),
+              currency: gift.currency,
+              originalAmount: gift.originalAmount,
+              exchangeRate: gift.exchangeRate,
+              paymentType: gift.paymentType,
+              bankType: gift.bank?.type || null,
+              bankRef: gift.bank?.ref || null,
+            },
+          }
+        );
+        pushUndo("save", updated.displayName || updated.name, before, await captureGuests([guestId]));
+
         // Refresh local state
         await refreshGuests();
         
@@ -137,14 +394,17 @@ export function useDatabase() {
         return false;
       }
     },
-    [refreshGuests]
+    [refreshGuests, pushUndo]
   );
 
   // Create new guest
   const createGuest = useCallback(
     async (name: string, side: "groom" | "bride"): Promise<GuestRecord | null> => {
       try {
-        const newGuest = await createCustomGuest(name, side);
+        const newGuest = await createCustomGuest(name, side, activeEventId);
+        pushUndo("create", newGuest.name, [{ id: newGuest.id, record: null, gifts: [] }], [
+          { id: newGuest.id, record: newGuest, gifts: [] },
+        ]);
         await refreshGuests();
         return toGuestRecord(newGuest);
       } catch (e) {
@@ -152,84 +412,185 @@ export function useDatabase() {
         return null;
       }
     },
-    [refreshGuests]
+    [refreshGuests, pushUndo, activeEventId]
+  );
+
+  // Move a guest (with their gifts), or a single gift (giftId), to the trash
+  const deleteGuest = useCallback(
+    async (guestId: string, reason: string, giftId?: string): Promise<boolean> => {
+      try {
+        const before = await captureGuests([guestId]);
+        if (giftId) {
+          await softDeleteGift(giftId, reason);
+        } else {
+          await softDeleteGuest(guestId, reason);
+        }
+        const after = await captureGuests([guestId]);
+        const record = after[0].record;
+        pushUndo("delete", record ? record.displayName || record.name : guestId, before, after);
+        await refreshGuests();
+        return true;
+      } catch (e) {
+        console.error("[DB] Delete error:", e);
+        return false;
+      }
+    },
+    [refreshGuests, pushUndo]
+  );
+
+  // Merge duplicate guests into one; undone as one step
+  const mergeGuests = useCallback(
+    async (merge: GuestMerge): Promise<boolean> => {
+      try {
+        const ids = [merge.keepId, ...merge.mergedIds];
+        const before = await captureGuests(ids);
+        const kept = await mergeGuestRecords(merge);
+        pushUndo("merge", kept.displayName || kept.name, before, await captureGuests(ids));
+        await refreshGuests();
+        return true;
+      } catch (e) {
+        console.error("[DB] Merge error:", e);
+        return false;
+      }
+    },
+    [refreshGuests, pushUndo]
   );
 
   // Check if guest has existing data
   const hasExistingData = useCallback(
     (guestId: string): boolean => {
-      const guest = guests.find((g) => g.id === guestId);
-      return !!(guest && guest.amountRiel !== null && guest.amountRiel > 0);
+      return (giftsByGuest.get(guestId)?.length ?? 0) > 0;
+    },
+    [giftsByGuest]
+  );
+
+  // Rate for gifts recorded now: the event's own, else the rate table's
+  const currentRate = useMemo(
+    () => activeEvent?.exchangeRate ?? rateAt(rates, Date.now()),
+    [rates, activeEvent]
+  );
+
+  // Set a new exchange rate from now (or a given moment) on
+  const setExchangeRate = useCallback(
+    async (rate: number, effectiveFrom?: number): Promise<boolean> => {
+      try {
+        await addExchangeRate(rate, effectiveFrom);
+        setRates(await getExchangeRates());
+        return true;
+      } catch (e) {
+        console.error("[DB] Exchange rate error:", e);
+        return false;
+      }
     },
-    [guests]
+    []
   );
 
-  // Calculate totals
+  // Calculate totals over gift line items of guests not in the trash
   const totals = useMemo(() => {
     let totalCash = 0;
     let totalBank = 0;
     let cashCount = 0;
     let bankCount = 0;
+    let contributorCount = 0;
+    const countedGifts: GiftEntryDB[] = [];
 
-    guests.forEach((guest) => {
-      if (guest.amountRiel !== null && guest.amountRiel > 0) {
-        if (guest.paymentType === "cash") {
-          totalCash += guest.amountRiel;
+    activeGuests.forEach((guest) => {
+      const guestGifts = giftsByGuest.get(guest.id) ?? [];
+      if (guestGifts.length > 0) contributorCount++;
+      countedGifts.push(...guestGifts);
+
+      guestGifts.forEach((gift) => {
+        if (gift.paymentType === "cash") {
+          totalCash += gift.amountRiel;
           cashCount++;
         } else {
-          totalBank += guest.amountRiel;
+          totalBank += gift.amountRiel;
           bankCount++;
         }
-      }
+      });
     });
 
-    const contributorCount = cashCount + bankCount;
-    const cashPercent = contributorCount > 0 ? Math.round((cashCount / contributorCount) * 100) : 0;
-    const bankPercent = contributorCount > 0 ? Math.round((bankCount / contributorCount) * 100) : 0;
+    // Percentages are per gift, since one guest can pay both ways
+    const giftCount = cashCount + bankCount;
+    const cashPercent = giftCount > 0 ? Math.round((cashCount / giftCount) * 100) : 0;
+    const bankPercent = giftCount > 0 ? Math.round((bankCount / giftCount) * 100) : 0;
+
+    const { usdReceived, khrReceived } = currencyTotals(countedGifts);
+    const rateComparison = compareRates(countedGifts, currentRate);
 
     return {
       totalCash,
       totalBank,
-      grandTotal: totalCash + totalBank,
+      grandTotal: totalCash + totalBank, // Riel, each gift at its own rate
+      usdReceived,
+      khrReceived,
+      rateComparison,
       contributorCount,
       cashCount,
       bankCount,
       cashPercent,
       bankPercent,
     };
-  }, [guests]);
+  }, [activeGuests, giftsByGuest, currentRate]);
 
-  // Export to CSV
-  const exportCSV = useCallback(() => {
+  // Export CSV of every guest, or only the given ones (e.g. search results)
+  const exportCSV = useCallback((only?: GuestRecord[]) => {
     const headers = [
       "ឈ្មោះ",
       "ឈ្មោះបង្ហាញ",
       "ភ្ញៀវខាង",
       "ចំនួនប្រាក់ (៛)",
+      "ចំនួនដើម",
+      "រូបិយប័ណ្ណ",
+      "អត្រាប្តូរប្រាក់",
       "ប្រភេទទូទាត់",
       "ធនាគារ",
       "លេខប្រតិបត្តិការ",
       "កំណត់ចំណាំ",
       "ពេលវេលា",
+      "អ្នកកត់ត្រា",
+      "សរុបភ្ញៀវ (៛)",
     ];
     
-    const rows = guestRecords
-      .filter((g) => g.amountRiel !== null && g.amountRiel > 0)
-      .map((g) => [
-        g.name,
-        g.displayName,
-        g.side === "groom" ? "ប្រុស" : "ស្រី",
-        g.amountRiel?.toString() ?? "0",
-        g.paymentType === "cash" ? "សាច់ប្រាក់" : "បញ្ជូនប្រាក់",
-        g.bank?.type ?? "",
-        g.bank?.ref ?? "",
-        g.note ?? "",
-        g.updatedAt ?? "",
-      ]);
+    // One row per gift line item, with the guest's total alongside
+    const exported = only ?? guestRecords;
+    const rows = exported
+      .filter((g) => g.gifts.length > 0)
+      .flatMap((g) =>
+        g.gifts.map((gift) => [
+          g.name,
+          g.displayName,
+          g.side === "groom" ? "ប្រុស" : "ស្រី",
+          gift.amountRiel.toString(),
+          gift.originalAmount.toString(),
+          gift.currency,
+          gift.exchangeRate.toString(),
+          gift.paymentType === "cash" ? "សាច់ប្រាក់" : "បញ្ជូនប្រាក់",
+          gift.bank?.type ?? "",
+          gift.bank?.ref ?? "",
+          g.note ?? "",
+          gift.receivedAt,
+          gift.recorder,
+          g.amountRiel?.toString() ?? "0",
+        ])
+      );
+
+    // Summary rows: what came in per currency, then everything in riel
+    const exportedGifts = exported.flatMap((g) => giftsByGuest.get(g.id) ?? []);
+    const { usdReceived, khrReceived } = only ? currencyTotals(exportedGifts) : totals;
+    const grandTotal = only
+      ? exportedGifts.reduce((sum, gift) => sum + gift.amountRiel, 0)
+      : totals.grandTotal;
+    const summary = [
+      [],
+      ["ទទួលបានជាដុល្លារ ($)", usdReceived.toString()],
+      ["ទទួលបានជារៀល (៛)", khrReceived.toString()],
+      ["សរុបទាំងអស់ (៛)", grandTotal.toString()],
+    ];
 
     const csvContent = [
       headers.join(","),
-      ...rows.map((row) =>
+      ...[...rows, ...summary].map((row) =>
         row.map((cell) => `"${cell.replace(/"/g, '""')}"`).join(",")
       ),
     ].join("\n");
@@ -243,12 +604,14 @@ export function useDatabase() {
     link.download = `wedding_money_${new Date().toISOString().split("T")[0]}.csv`;
     link.click();
     URL.revokeObjectURL(url);
-  }, [guestRecords]);
+  }, [guestRecords, giftsByGuest, totals]);
 
-  // Export JSON backup
+  // Export JSON backup, encrypted while at-rest encryption is on
   const exportJSON = useCallback(async () => {
-    const backup = await exportBackup();
-    const blob = new Blob([JSON.stringify(backup, null, 2)], {
+    await sealLedger();
+    const backup = await exportBackup(activeEventId);
+    const file = (await isEncryptionEnabled()) ? await encryptBackup(backup) : backup;
+    const blob = new Blob([JSON.stringify(file, null, 2)], {
       type: "application/json",
     });
     const url = URL.createObjectURL(blob);
@@ -257,20 +620,66 @@ export function useDatabase() {
     link.download = `wedding_backup_${new Date().toISOString().split("T")[0]}.json`;
     link.click();
     URL.revokeObjectURL(url);
-  }, []);
+  }, [activeEventId]);
 
   // Import JSON backup
+  // A backup whose ledger does not verify is only imported once the user has
+  // seen the issues and confirmed (acceptAltered)
   const importJSON = useCallback(
-    async (file: File): Promise<{ success: boolean; message: string }> => {
+    async (
+      file: File,
+      passphrase?: string,
+      acceptAltered = false
+    ): Promise<{ success: boolean; message: string; alteredIssues?: number }> => {
       try {
         const text = await file.text();
-        const data: BackupData = JSON.parse(text);
+        const parsed = JSON.parse(text);
+
+        let data: BackupData;
+        if (isEncryptedBackup(parsed)) {
+          if (!passphrase) {
+            return { success: false, message: "Backup is encrypted: passphrase required" };
+          }
+          const decrypted = await decryptBackup(parsed, passphrase);
+          if (!decrypted) {
+            return { success: false, message: "Wrong passphrase for this backup" };
+          }
+          data = decrypted;
+        } else {
+          data = parsed;
+        }
 
         if (!data.version || !data.guests) {
           return { success: false, message: "Invalid backup file format" };
         }
 
+        const verification = await verifyBackup(data);
+        if (verification?.status === "altered" && !acceptAltered) {
+          return {
+            success: false,
+            message: `បញ្ជីក្នុង Backup នេះត្រូវបានកែប្រែ (${verification.issues.length} បញ្ហា)`,
+            alteredIssues: verification.issues.length,
+          };
+        }
+        const ids = [
+          ...new Set([...data.guests.map((g) => g.id), ...(data.gifts ?? []).map((g) => g.guestId)]),
+        ];
+        const before = await captureGuests(ids);
         const result = await importBackup(data);
+        const after = await captureGuests(ids);
+
+        // Only keep guests the import actually touched
+        const changed = ids.filter(
+          (_, i) => JSON.stringify(before[i]) !== JSON.stringify(after[i])
+        );
+        if (changed.length > 0) {
+          pushUndo(
+            "import",
+            file.name,
+            before.filter((s) => changed.includes(s.id)),
+            after.filter((s) => changed.includes(s.id))
+          );
+        }
         await refreshGuests();
 
         return {
@@ -282,7 +691,150 @@ export function useDatabase() {
         return { success: false, message: "Failed to import backup file" };
       }
     },
-    [refreshGuests]
+    [refreshGuests, pushUndo]
+  );
+
+  // Add guests from an invitation spreadsheet; updates fill in the details of
+  // guests already listed. Undone as one step.
+  const importInvitations = useCallback(
+    async (
+      fileName: string,
+      guests: InvitationGuest[],
+      updates: { id: string; details: InvitationGuest }[]
+    ): Promise<{ created: number; updated: number; skipped: number } | null> => {
+      try {
+        const ids = [...guests.map((g) => g.id), ...updates.map((u) => u.id)];
+        const before = await captureGuests(ids);
+        const result = await importInvitationGuests(activeEventId, guests, updates);
+        const after = await captureGuests(ids);
+
+        const changed = ids.filter(
+          (_, i) => JSON.stringify(before[i]) !== JSON.stringify(after[i])
+        );
+        if (changed.length > 0) {
+          pushUndo(
+            "import",
+            fileName,
+            before.filter((s) => changed.includes(s.id)),
+            after.filter((s) => changed.includes(s.id))
+          );
+        }
+        await refreshGuests();
+        return result;
+      } catch (e) {
+        console.error("[DB] Invitation import error:", e);
+        return null;
+      }
+    },
+    [refreshGuests, pushUndo, activeEventId]
+  );
+
+  // Add an event and switch to it
+  const createEvent = useCallback(async (form: EventFormData): Promise<boolean> => {
+    try {
+      const now = Date.now();
+      const event: WeddingEvent = {
+        ...form,
+        id: createEventId(),
+        createdAt: now,
+        updatedAt: now,
+        syncStatus: "local",
+        lastSyncedAt: null,
+      };
+      await saveEvent(event);
+      setEvents(await getEvents());
+      setActiveEventId(event.id);
+      syncEngineRef.current?.requestSync();
+      return true;
+    } catch (e) {
+      console.error("[DB] Create event error:", e);
+      return false;
+    }
+  }, []);
+
+  // Edit the details of an event (also names one that came from another device)
+  const updateEvent = useCallback(
+    async (id: string, form: EventFormData): Promise<boolean> => {
+      try {
+        const existing = eventList.find((e) => e.id === id);
+        const now = Date.now();
+        await saveEvent({
+          syncStatus: "local",
+          lastSyncedAt: null,
+          ...existing,
+          ...form,
+          id,
+          createdAt: existing?.createdAt || now,
+          updatedAt: now,
+        });
+        setEvents(await getEvents());
+        syncEngineRef.current?.requestSync();
+        return true;
+      } catch (e) {
+        console.error("[DB] Update event error:", e);
+        return false;
+      }
+    },
+    [eventList]
+  );
+
+  // Undo the most recent operation
+  const undo = useCallback(async (): Promise<boolean> => {
+    const { undo: undoStack, redo: redoStack } = historyRef.current;
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry || isRestoringRef.current) return false;
+
+    isRestoringRef.current = true;
+    try {
+      await restoreGuestRecords(entry.before, entry.after, "undo");
+      commitHistory({ undo: undoStack.slice(0, -1), redo: [...redoStack, entry] });
+      await refreshGuests();
+      return true;
+    } catch (e) {
+      console.error("[DB] Undo error:", e);
+      // Edited since, so this step can no longer be taken back
+      if (e instanceof Error && e.message === CHANGED_SINCE) {
+        commitHistory({ undo: undoStack.slice(0, -1), redo: redoStack });
+      }
+      return false;
+    } finally {
+      isRestoringRef.current = false;
+    }
+  }, [commitHistory, refreshGuests]);
+
+  // Re-apply the most recently undone operation
+  const redo = useCallback(async (): Promise<boolean> => {
+    const { undo: undoStack, redo: redoStack } = historyRef.current;
+    const entry = redoStack[redoStack.length - 1];
+    if (!entry || isRestoringRef.current) return false;
+
+    isRestoringRef.current = true;
+    try {
+      await restoreGuestRecords(entry.after, entry.before, "redo");
+      commitHistory({ undo: [...undoStack, entry], redo: redoStack.slice(0, -1) });
+      await refreshGuests();
+      return true;
+    } catch (e) {
+      console.error("[DB] Redo error:", e);
+      if (e instanceof Error && e.message === CHANGED_SINCE) {
+        commitHistory({ undo: undoStack, redo: redoStack.slice(0, -1) });
+      }
+      return false;
+    } finally {
+      isRestoringRef.current = false;
+    }
+  }, [commitHistory, refreshGuests]);
+
+  // Undo every operation back to and including the given one
+  const undoTo = useCallback(
+    async (entryId: string): Promise<boolean> => {
+      if (!historyRef.current.undo.some((e) => e.id === entryId)) return false;
+      while (historyRef.current.undo.some((e) => e.id === entryId)) {
+        if (!(await undo())) return false;
+      }
+      return true;
+    },
+    [undo]
   );
 
   return {
@@ -294,22 +846,53 @@ export function useDatabase() {
     // Actions
     saveGuest,
     createGuest,
+    deleteGuest,
+    mergeGuests,
     hasExistingData,
     
     // Totals
     totals,
+
+    // Events
+    events: eventList,
+    activeEvent,
+    switchEvent: setActiveEventId,
+    createEvent,
+    updateEvent,
+
+    // Exchange rates
+    exchangeRates: rates,
+    currentRate,
+    setExchangeRate,
     
     // Export/Import
     exportCSV,
     exportJSON,
     importJSON,
+    importInvitations,
     
     // State
     isLoaded,
     syncState,
     isOnline,
+
+    // Sync
+    syncEndpoint,
+    updateSyncEndpoint,
+    syncNow,
+    conflictCount,
     
     // Refresh
     refreshGuests,
+
+    // Ledger
+    verifyLedger,
+
+    // Undo / redo
+    undoHistory: history.undo,
+    redoHistory: history.redo,
+    undo,
+    redo,
+    undoTo,
   };
 }
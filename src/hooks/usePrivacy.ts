@@ -0,0 +1,26 @@
+import { useCallback, useEffect, useState } from "react";
+import { useRole } from "@/hooks/useRole";
+import { isPrivacyMode, setPrivacyMode, subscribeToPrivacy } from "@/lib/privacy";
+
+// Whether amounts are masked, whether the active role may unmask them, and
+// whether searching and sorting by amount is allowed (it would tell masked
+// amounts apart)
+export function usePrivacy() {
+  const { can } = useRole();
+  const [isPrivate, setIsPrivate] = useState(isPrivacyMode);
+  const canReveal = can("viewTotals");
+
+  useEffect(() => subscribeToPrivacy(setIsPrivate), []);
+
+  // Anyone may hide amounts; showing them again needs the treasurer unlock
+  const setPrivate = useCallback(
+    (enabled: boolean): boolean => {
+      if (!enabled && !canReveal) return false;
+      setPrivacyMode(enabled);
+      return true;
+    },
+    [canReveal]
+  );
+
+  return { isPrivate, canReveal, canUseAmounts: canReveal || !isPrivate, setPrivate };
+}
@@ -0,0 +1,14 @@
+import { useCallback, useEffect, useState } from "react";
+import { can as roleCan, getActiveRole, subscribeToRole } from "@/lib/roles";
+import { Permission } from "@/types/auth";
+
+// Active role of this tab and what it is allowed to do
+export function useRole() {
+  const [role, setRole] = useState(getActiveRole);
+
+  useEffect(() => subscribeToRole(setRole), []);
+
+  const can = useCallback((permission: Permission) => roleCan(role, permission), [role]);
+
+  return { role, can };
+}
@@ -0,0 +1,73 @@
+import { RefObject, useCallback, useLayoutEffect, useMemo, useState } from "react";
+
+const OVERSCAN = 8; // Rows rendered beyond each edge of the screen
+const INITIAL_ROWS = 20; // Before the first measurement
+
+// Index of the row that contains the position (offsets are row tops)
+function rowAt(offsets: number[], position: number): number {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (offsets[mid] <= position) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return Math.max(0, low);
+}
+
+// Render only the rows of a window-scrolled list that are on screen. Rows have
+// fixed heights, so nothing needs measuring; topMargin is the height covered
+// by the sticky page header.
+export function useWindowVirtualizer(
+  containerRef: RefObject<HTMLElement>,
+  sizes: number[],
+  topMargin = 0
+) {
+  const offsets = useMemo(() => {
+    const result = [0];
+    sizes.forEach((size, i) => result.push(result[i] + size));
+    return result;
+  }, [sizes]);
+
+  const [range, setRange] = useState({ start: 0, end: Math.min(sizes.length, INITIAL_ROWS) });
+
+  useLayoutEffect(() => {
+    const update = () => {
+      const container = containerRef.current;
+      if (!container) return;
+      const top = container.getBoundingClientRect().top;
+      const start = Math.max(0, rowAt(offsets, -top) - OVERSCAN);
+      const end = Math.min(sizes.length, rowAt(offsets, window.innerHeight - top) + 1 + OVERSCAN);
+      setRange((prev) => (prev.start === start && prev.end === end ? prev : { start, end }));
+    };
+
+    update();
+    window.addEventListener("scroll", update, { passive: true });
+    window.addEventListener("resize", update);
+    return () => {
+      window.removeEventListener("scroll", update);
+      window.removeEventListener("resize", update);
+    };
+  }, [containerRef, offsets, sizes.length]);
+
+  // Scroll just enough for the row to be fully visible below the page header
+  const scrollToRow = useCallback(
+    (index: number) => {
+      const container = containerRef.current;
+      if (!container || index < 0 || index >= sizes.length) return;
+      const rowTop = container.getBoundingClientRect().top + offsets[index];
+      const rowBottom = rowTop + sizes[index];
+      if (rowTop < topMargin) {
+        window.scrollBy({ top: rowTop - topMargin });
+      } else if (rowBottom > window.innerHeight) {
+        window.scrollBy({ top: rowBottom - window.innerHeight });
+      }
+    },
+    [containerRef, offsets, sizes, topMargin]
+  );
+
+  return { ...range, offsets, totalSize: offsets[offsets.length - 1], scrollToRow };
+}
@@ -0,0 +1,101 @@
+import { GiftEntryDB, GuestRecordDB } from "@/types/sync";
+import { AuditAction, AuditEvent, AuditSource, AuditValues, SessionAction } from "@/types/audit";
+
+const DEVICE_ID_KEY = "wedding_device_id";
+const RECORDER_NAME_KEY = "wedding_recorder_name";
+
+// Bookkeeping fields that change on every write and say nothing about the gift.
+// A gift's guestId is who gave it, so it is logged like any other field.
+const IGNORED_FIELDS = ["id", "updatedAt", "syncStatus", "lastSyncedAt", "fieldClocks"];
+
+// Anything the audit log can describe: a guest or one of their gifts
+export type AuditTarget = GuestRecordDB | GiftEntryDB;
+
+export function isGiftEntry(record: Partial<AuditTarget>): record is GiftEntryDB {
+  return "guestId" in record;
+}
+
+// Stable per-browser identity, generated on first use
+export function getDeviceId(): string {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = `DEVICE_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+}
+
+export function getRecorderName(): string {
+  return localStorage.getItem(RECORDER_NAME_KEY) ?? "";
+}
+
+export function setRecorderName(name: string): void {
+  localStorage.setItem(RECORDER_NAME_KEY, name.trim());
+}
+
+// Split two versions of a record into the changed previous/next values
+export function diffRecords(
+  previous: Partial<AuditTarget> | null,
+  next: Partial<AuditTarget>
+): { previous: AuditValues | null; next: AuditValues; changed: boolean } {
+  const prevValues: AuditValues = {};
+  const nextValues: AuditValues = {};
+  const keys = new Set([...Object.keys(previous ?? {}), ...Object.keys(next)]);
+
+  for (const key of keys) {
+    const field = key as keyof AuditValues;
+    if (IGNORED_FIELDS.includes(field)) continue;
+
+    const before = (previous as Record<string, unknown> | null)?.[field];
+    const after = (next as Record<string, unknown>)[field];
+    // Missing and null are the same value (fields added by later migrations)
+    if (previous && JSON.stringify(before ?? null) === JSON.stringify(after ?? null)) continue;
+
+    if (previous) (prevValues as Record<string, unknown>)[field] = before ?? null;
+    (nextValues as Record<string, unknown>)[field] = after ?? null;
+  }
+
+  return {
+    previous: previous ? prevValues : null,
+    next: nextValues,
+    changed: Object.keys(nextValues).length > 0,
+  };
+}
+
+// Build an audit event for a guest or gift change, or null when nothing changed
+export function buildAuditEvent(
+  action: AuditAction,
+  source: AuditSource,
+  previous: Partial<AuditTarget> | null,
+  next: AuditTarget
+): AuditEvent | null {
+  const diff = diffRecords(previous, next);
+  if (!diff.changed) return null;
+
+  return {
+    guestId: isGiftEntry(next) ? next.guestId : next.id,
+    ...(isGiftEntry(next) && { giftId: next.id }),
+    action,
+    source,
+    previous: diff.previous,
+    next: diff.next,
+    timestamp: Date.now(),
+    deviceId: getDeviceId(),
+    recorder: getRecorderName(),
+  };
+}
+
+// Build a lock screen event; it changes no record, so it carries only a detail
+export function buildSessionEvent(action: SessionAction, detail: string): AuditEvent {
+  return {
+    guestId: "",
+    action,
+    source: "lockScreen",
+    previous: null,
+    next: {},
+    detail,
+    timestamp: Date.now(),
+    deviceId: getDeviceId(),
+    recorder: getRecorderName(),
+  };
+}
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getLockedUntil, setRoleSecret, unlock } from "@/lib/auth";
+import { toBase64 } from "@/lib/cipher";
+import { getCredentials, saveCredential } from "@/lib/db";
+import { can, rolesAtOrAbove } from "@/lib/roles";
+import { Role } from "@/types/auth";
+
+const MINUTE = 60000;
+
+// A credential hashed with few iterations, so failed attempts stay quick
+async function storeSecret(role: Role, secret: string): Promise<void> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    "PBKDF2",
+    false,
+    ["deriveBits"]
+  );
+  const hash = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations: 1000 },
+    key,
+    256
+  );
+  await saveCredential({
+    role,
+    salt: toBase64(salt),
+    hash: toBase64(new Uint8Array(hash)),
+    iterations: 1000,
+    updatedAt: Date.now(),
+    updatedBy: "test",
+  });
+}
+
+beforeEach(async () => {
+  await storeSecret("recorder", "1111");
+  await storeSecret("treasurer", "treasurer-secret");
+  await storeSecret("admin", "admin-secret");
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("setRoleSecret", () => {
+  it("stores a salted hash instead of the secret", async () => {
+    await setRoleSecret("recorder", "2468");
+
+    const stored = (await getCredentials()).find((c) => c.role === "recorder");
+    expect(JSON.stringify(stored)).not.toContain("2468");
+    expect(await unlock("2468", ["recorder"], "set")).toEqual({ status: "unlocked", role: "recorder" });
+  });
+
+  it("turns down secrets shorter than the role needs", async () => {
+    await expect(setRoleSecret("admin", "short")).rejects.toThrow(/at least 8/);
+  });
+});
+
+describe("unlock", () => {
+  it("unlocks the highest allowed role whose secret matches", async () => {
+    await storeSecret("treasurer", "admin-secret");
+
+    expect(await unlock("admin-secret", undefined, "shared")).toEqual({ status: "unlocked", role: "admin" });
+    expect(await unlock("admin-secret", ["recorder", "treasurer"], "shared")).toEqual({
+      status: "unlocked",
+      role: "treasurer",
+    });
+    expect(await unlock("1111", rolesAtOrAbove("treasurer"), "shared")).toMatchObject({ status: "invalid" });
+  });
+
+  it("locks out after five wrong secrets, even the right one, for longer each time", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const scope = "lockout";
+
+    for (let remaining = 4; remaining > 0; remaining--) {
+      expect(await unlock("0000", undefined, scope)).toEqual({ status: "invalid", remainingAttempts: remaining });
+    }
+    const first = await unlock("0000", undefined, scope);
+    expect(first).toEqual({ status: "locked", lockedUntil: Date.now() + MINUTE });
+    expect(await unlock("1111", undefined, scope)).toMatchObject({ status: "locked" });
+    expect(await getLockedUntil(scope)).toBe(Date.now() + MINUTE);
+
+    vi.setSystemTime(Date.now() + MINUTE + 1);
+    for (let i = 0; i < 5; i++) await unlock("0000", undefined, scope);
+    expect(await getLockedUntil(scope)).toBe(Date.now() + 2 * MINUTE);
+
+    vi.setSystemTime(Date.now() + 2 * MINUTE + 1);
+    expect(await unlock("1111", undefined, scope)).toEqual({ status: "unlocked", role: "recorder" });
+    expect(await getLockedUntil(scope)).toBeNull();
+  });
+
+  it("counts failures per scope", async () => {
+    for (let i = 0; i < 5; i++) await unlock("0000", undefined, "role");
+    expect(await getLockedUntil("role")).not.toBeNull();
+    expect(await getLockedUntil("lock")).toBeNull();
+  });
+});
+
+describe("can", () => {
+  it("gives each role the permissions of the roles below it and more", () => {
+    expect(can("recorder", "record")).toBe(true);
+    expect(can("recorder", "viewTotals")).toBe(false);
+    expect(can("treasurer", "overwriteGift")).toBe(true);
+    expect(can("treasurer", "import")).toBe(false);
+    expect(can("admin", "settings")).toBe(true);
+  });
+});
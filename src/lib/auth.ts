@@ -0,0 +1,136 @@
+import { getCredentials, getLockout, saveCredential, saveLockout } from "@/lib/db";
+import { getDeviceId, getRecorderName } from "@/lib/audit";
+import { fromBase64, toBase64 } from "@/lib/cipher";
+import { Credential, Role, UnlockResult } from "@/types/auth";
+
+// Role secrets are stored as salted PBKDF2-SHA256 hashes. Failed attempts are
+// counted in IndexedDB, so a reload does not reset the lockout.
+
+const PBKDF2_ITERATIONS = 600000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+const MAX_ATTEMPTS = 5;
+const BASE_LOCK_DURATION = 60000; // 1 minute, doubling with each lockout
+const MAX_LOCK_DURATION = 30 * 60000; // 30 minutes
+
+export const ROLES: Role[] = ["recorder", "treasurer", "admin"];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  recorder: "អ្នកកត់ត្រា",
+  treasurer: "ហិរញ្ញិក",
+  admin: "អ្នកគ្រប់គ្រង",
+};
+
+// The recorder's secret is a short PIN typed at the reception table
+export function minSecretLength(role: Role): number {
+  return role === "recorder" ? 4 : 8;
+}
+
+async function deriveHash(secret: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    "PBKDF2",
+    false,
+    ["deriveBits"]
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    key,
+    HASH_BITS
+  );
+  return new Uint8Array(bits);
+}
+
+// Compare without stopping at the first differing byte
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+}
+
+async function matches(credential: Credential, secret: string): Promise<boolean> {
+  const hash = await deriveHash(secret, fromBase64(credential.salt), credential.iterations);
+  return sameBytes(hash, fromBase64(credential.hash));
+}
+
+export async function hasCredentials(): Promise<boolean> {
+  return (await getCredentials()).length > 0;
+}
+
+export async function getConfiguredRoles(): Promise<Role[]> {
+  const credentials = await getCredentials();
+  return ROLES.filter((role) => credentials.some((c) => c.role === role));
+}
+
+// Hash and store a role's secret, replacing any previous one
+export async function setRoleSecret(role: Role, secret: string): Promise<void> {
+  if (secret.length < minSecretLength(role)) {
+    throw new Error(`Secret for ${role} must be at least ${minSecretLength(role)} characters`);
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await deriveHash(secret, salt, PBKDF2_ITERATIONS);
+  await saveCredential({
+    role,
+    salt: toBase64(salt),
+    hash: toBase64(hash),
+    iterations: PBKDF2_ITERATIONS,
+    updatedAt: Date.now(),
+    updatedBy: getRecorderName() || getDeviceId(),
+  });
+}
+
+// Check a secret against the given roles, counting failures toward a lockout.
+// When several roles share a secret the highest one wins.
+export async function unlock(
+  secret: string,
+  allowed: Role[] = ROLES,
+  scope = "role"
+): Promise<UnlockResult> {
+  const lockout = await getLockout(scope);
+  const now = Date.now();
+  if (lockout.lockedUntil !== null && lockout.lockedUntil > now) {
+    return { status: "locked", lockedUntil: lockout.lockedUntil };
+  }
+
+  const credentials = await getCredentials();
+  for (const role of [...ROLES].reverse()) {
+    const credential = credentials.find((c) => c.role === role);
+    if (allowed.includes(role) && credential && (await matches(credential, secret))) {
+      await saveLockout({ scope, failedAttempts: 0, lockedUntil: null, lockouts: 0 });
+      return { status: "unlocked", role };
+    }
+  }
+
+  const failedAttempts = lockout.failedAttempts + 1;
+  if (failedAttempts >= MAX_ATTEMPTS) {
+    const duration = Math.min(BASE_LOCK_DURATION * 2 ** lockout.lockouts, MAX_LOCK_DURATION);
+    const lockedUntil = now + duration;
+    await saveLockout({ scope, failedAttempts: 0, lockedUntil, lockouts: lockout.lockouts + 1 });
+    return { status: "locked", lockedUntil };
+  }
+
+  await saveLockout({ ...lockout, failedAttempts, lockedUntil: null });
+  return { status: "invalid", remainingAttempts: MAX_ATTEMPTS - failedAttempts };
+}
+
+// Lock still in force for a scope, if any (e.g. after a reload)
+export async function getLockedUntil(scope = "role"): Promise<number | null> {
+  const { lockedUntil } = await getLockout(scope);
+  return lockedUntil !== null && lockedUntil > Date.now() ? lockedUntil : null;
+}
+
+// Change a role's own secret; the current one must be given and is checked
+// under the same lockout as unlocking
+export async function changeRoleSecret(
+  role: Role,
+  currentSecret: string,
+  newSecret: string
+): Promise<UnlockResult> {
+  const result = await unlock(currentSecret, [role]);
+  if (result.status === "unlocked") await setRoleSecret(role, newSecret);
+  return result;
+}
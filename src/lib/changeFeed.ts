@@ -0,0 +1,52 @@
+// Tells other tabs and windows of this app what was just written to
+// IndexedDB, so they can reload those records instead of showing stale data.
+// A tab never receives its own messages.
+
+const CHANNEL_NAME = "wedding_ledger_changes";
+
+export interface DataChange {
+  guests?: string[]; // Guest ids written
+  gifts?: string[]; // Gift ids written
+  rates?: boolean;
+  events?: boolean; // An event was added or edited
+  reciprocity?: boolean; // A contact or a gift we gave was written
+  conflicts?: boolean;
+  all?: boolean; // Too much changed to list (restore, reset): reload everything
+  vault?: boolean; // Encryption was turned on or off, or the passphrase changed
+}
+
+type ChangeListener = (change: DataChange) => void;
+
+let channel: BroadcastChannel | null = null;
+const listeners = new Set<ChangeListener>();
+
+// One channel per tab, created on first use; null where unsupported
+function getChannel(): BroadcastChannel | null {
+  if (channel || typeof BroadcastChannel === "undefined") return channel;
+  channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<DataChange>) => {
+    listeners.forEach((listener) => listener(event.data));
+  };
+  return channel;
+}
+
+export function publishChange(change: DataChange): void {
+  const empty = !change.guests?.length && !change.gifts?.length;
+  if (empty && !change.rates && !change.events && !change.reciprocity && !change.conflicts && !change.all) return;
+
+  try {
+    getChannel()?.postMessage(change);
+  } catch (e) {
+    // Never let a notification break the write that already succeeded
+    console.error("[ChangeFeed] Publish error:", e);
+  }
+}
+
+// Listen for changes made in other tabs; returns the unsubscribe function
+export function subscribeToChanges(listener: ChangeListener): () => void {
+  getChannel();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,152 @@
+import { AuditEvent } from "@/types/audit";
+import { Contact } from "@/types/contact";
+import { FieldConflict } from "@/types/conflict";
+import { OutgoingGift } from "@/types/reciprocity";
+import { GiftEntryDB, GuestRecordDB } from "@/types/sync";
+
+// AES-GCM encryption of the sensitive fields of stored records. The key is
+// derived from the ledger passphrase and only ever held in memory, so after a
+// reload nothing can be read until the passphrase is entered again.
+
+export const KDF_ITERATIONS = 600000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+// Records as they sit in each store
+interface StoredRecords {
+  guests: GuestRecordDB;
+  gifts: GiftEntryDB;
+  audit: AuditEvent;
+  conflicts: FieldConflict;
+  outgoingGifts: OutgoingGift;
+  contacts: Contact;
+}
+
+export type EncryptedStore = keyof StoredRecords;
+
+// Fields moved into `encrypted`, and the neutral values left in their place
+const HIDDEN_FIELDS: { [S in EncryptedStore]: Partial<StoredRecords[S]> } = {
+  guests: { note: "", phone: undefined }, // Unset, like on guests that never had a phone
+  gifts: { amountRiel: 0, originalAmount: 0, bankType: null, bankRef: null },
+  audit: { previous: null, next: {} },
+  conflicts: { local: {}, remote: {} },
+  outgoingGifts: { amountRiel: 0, originalAmount: 0, note: "" },
+  contacts: { phone: "", address: "", note: "" },
+};
+
+let vaultKey: CryptoKey | null = null;
+
+export function getVaultKey(): CryptoKey | null {
+  return vaultKey;
+}
+
+export function setVaultKey(key: CryptoKey | null): void {
+  vaultKey = key;
+}
+
+export function toBase64(bytes: Uint8Array): string {
+  // In chunks: spreading a whole backup into one call overflows the stack
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), (c) => c.charCodeAt(0));
+}
+
+export function createSalt(): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+}
+
+export async function deriveVaultKey(
+  passphrase: string,
+  salt: string,
+  iterations: number = KDF_ITERATIONS
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt: fromBase64(salt), iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+// Base64 of a fresh IV followed by the ciphertext
+export async function encryptText(key: CryptoKey, text: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const cipher = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(text)
+  );
+  const payload = new Uint8Array(IV_BYTES + cipher.byteLength);
+  payload.set(iv);
+  payload.set(new Uint8Array(cipher), IV_BYTES);
+  return toBase64(payload);
+}
+
+// Rejects when the key is wrong or the payload was altered
+export async function decryptText(key: CryptoKey, payload: string): Promise<string> {
+  const bytes = fromBase64(payload);
+  const plain = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: bytes.subarray(0, IV_BYTES) },
+    key,
+    bytes.subarray(IV_BYTES)
+  );
+  return new TextDecoder().decode(plain);
+}
+
+// Move the sensitive fields of a record into `encrypted`. Without a key the
+// record is stored as is.
+export async function encryptRecord<T extends { encrypted?: string }>(
+  storeName: EncryptedStore,
+  record: T,
+  key: CryptoKey | null = vaultKey
+): Promise<T> {
+  if (!key) return record;
+
+  const hidden = HIDDEN_FIELDS[storeName];
+  const values = Object.fromEntries(
+    Object.keys(hidden).map((field) => [field, record[field as keyof T]])
+  );
+  return {
+    ...record,
+    ...hidden,
+    encrypted: await encryptText(key, JSON.stringify(values)),
+  };
+}
+
+// Put the sensitive fields back. Records written before encryption was
+// turned on come back unchanged.
+export async function decryptRecord<T extends { encrypted?: string }>(
+  storeName: EncryptedStore,
+  record: T,
+  key: CryptoKey | null = vaultKey
+): Promise<T> {
+  if (!record.encrypted) return record;
+  if (!key) {
+    throw new Error(`Cannot read ${storeName}: the ledger is locked`);
+  }
+
+  const { encrypted, ...rest } = record;
+  const values = JSON.parse(await decryptText(key, encrypted));
+  return { ...rest, ...values } as T;
+}
+
+export function decryptRecords<T extends { encrypted?: string }>(
+  storeName: EncryptedStore,
+  records: T[]
+): Promise<T[]> {
+  return Promise.all(records.map((record) => decryptRecord(storeName, record)));
+}
@@ -0,0 +1,189 @@
+import { normalizeText } from "@/lib/search";
+import { GuestBase } from "@/types/guest";
+import {
+  Contact,
+  ContactFormData,
+  ContactKind,
+  ContactMember,
+  MergeableContactField,
+} from "@/types/contact";
+
+// Contacts: who a guest is beyond one event. Seeded names like "Lay Mengly &
+// Wife" are read as couples, and merged contacts point at the one that
+// replaced them.
+
+export const KIND_LABELS: Record<ContactKind, string> = {
+  individual: "បុគ្គល",
+  couple: "ប្តីប្រពន្ធ / គូស្នេហ៍",
+  household: "គ្រួសារ",
+};
+
+export const CONTACT_SIDE_LABELS: Record<NonNullable<Contact["side"]>, string> = {
+  groom: "ខាងប្រុស",
+  bride: "ខាងស្រី",
+  both: "ទាំងពីរខាង",
+};
+
+export const CONTACT_FIELD_LABELS: Record<MergeableContactField, string> = {
+  name: "ឈ្មោះ",
+  kind: "ប្រភេទ",
+  phone: "លេខទូរស័ព្ទ",
+  address: "អាសយដ្ឋាន",
+  side: "ភ្ញៀវខាង",
+  relationship: "ទំនាក់ទំនង",
+  note: "កំណត់ចំណាំ",
+};
+
+export const MERGEABLE_FIELDS: MergeableContactField[] = [
+  "name",
+  "kind",
+  "phone",
+  "address",
+  "side",
+  "relationship",
+  "note",
+];
+
+// What follows "&" when the partner or relative is not named, and the role
+// it stands for. Compared after normalizeText, without dots or spaces.
+const PARTNER_WORD_LIST: [string, { role: string; kind: ContactKind }][] = [
+  ["wife", { role: "ភរិយា", kind: "couple" }],
+  ["ភរិយា", { role: "ភរិយា", kind: "couple" }],
+  ["ប្រពន្ធ", { role: "ភរិយា", kind: "couple" }],
+  ["husband", { role: "ស្វាមី", kind: "couple" }],
+  ["ស្វាមី", { role: "ស្វាមី", kind: "couple" }],
+  ["ប្តី", { role: "ស្វាមី", kind: "couple" }],
+  ["honey", { role: "ដៃគូ", kind: "couple" }],
+  ["gf", { role: "សង្សារ", kind: "couple" }],
+  ["girlfriend", { role: "សង្សារ", kind: "couple" }],
+  ["bf", { role: "សង្សារ", kind: "couple" }],
+  ["boyfriend", { role: "សង្សារ", kind: "couple" }],
+  ["fiance", { role: "គូដណ្តឹង", kind: "couple" }],
+  ["fiancee", { role: "គូដណ្តឹង", kind: "couple" }],
+  ["បងស្រី", { role: "បងស្រី", kind: "household" }],
+  ["បងប្រុស", { role: "បងប្រុស", kind: "household" }],
+  ["ប្អូនស្រី", { role: "ប្អូនស្រី", kind: "household" }],
+  ["ប្អូនប្រុស", { role: "ប្អូនប្រុស", kind: "household" }],
+  ["កូន", { role: "កូន", kind: "household" }],
+  ["family", { role: "ក្រុមគ្រួសារ", kind: "household" }],
+  ["ក្រុមគ្រួសារ", { role: "ក្រុមគ្រួសារ", kind: "household" }],
+];
+
+const PARTNER_WORDS = new Map(PARTNER_WORD_LIST.map(([word, meaning]) => [partnerWord(word), meaning]));
+
+export function createContactId(): string {
+  return `CONTACT_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Seeded guests are the same on every device, so their contact gets an id
+// derived from the guest and devices converge on one contact
+export function seededContactId(guestId: string): string {
+  return `CONTACT_${guestId}`;
+}
+
+function partnerWord(text: string): string {
+  return normalizeText(text).replace(/[.\s]/g, "");
+}
+
+// "A & Wife" → couple of A and an unnamed wife; "A & B" → couple of A and B;
+// "A & បងស្រី" → household; no "&" → individual
+export function parseContactName(name: string): Pick<Contact, "kind" | "members"> {
+  const [first, ...rest] = name.split("&").map((part) => part.trim());
+  if (rest.length === 0 || !first) return { kind: "individual", members: [] };
+
+  const members: ContactMember[] = [{ name: first, role: "" }];
+  let kind: ContactKind = rest.length === 1 ? "couple" : "household";
+  for (const part of rest.filter(Boolean)) {
+    const word = PARTNER_WORDS.get(partnerWord(part));
+    if (word) {
+      members.push({ name: "", role: word.role });
+      if (word.kind === "household") kind = "household";
+    } else {
+      members.push({ name: part, role: "" });
+    }
+  }
+  return { kind, members };
+}
+
+export function newContact(id: string, fields: Partial<ContactFormData> & Pick<Contact, "name">): Contact {
+  const now = Date.now();
+  return {
+    ...parseContactName(fields.name),
+    phone: "",
+    address: "",
+    side: null,
+    relationship: "",
+    note: "",
+    ...fields,
+    id,
+    mergedInto: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// Fill in the details missing on contacts from before they had them
+export function withContactDefaults<T extends object>(row: T): T {
+  return {
+    kind: "household",
+    members: [],
+    phone: "",
+    address: "",
+    side: null,
+    relationship: "",
+    note: "",
+    mergedInto: null,
+    ...row,
+  };
+}
+
+// The couple or household a seeded guest's name describes, null for one person
+export function contactFromSeededGuest(guest: GuestBase): Contact | null {
+  if (parseContactName(guest.name).kind === "individual") return null;
+  return newContact(seededContactId(guest.id), { name: guest.name, side: guest.side });
+}
+
+// The contact that now stands for id, following merges
+export function resolveContactId(contactsById: Map<string, Contact>, id: string): string {
+  const seen = new Set<string>();
+  let current = id;
+  while (!seen.has(current)) {
+    seen.add(current);
+    const next = contactsById.get(current)?.mergedInto;
+    if (!next) break;
+    current = next;
+  }
+  return current;
+}
+
+function memberKey(member: ContactMember): string {
+  return `${normalizeText(member.name).trim()}|${member.role}`;
+}
+
+// Merge result: each field from the contact picked for it, members of all
+export function mergeContactFields(
+  contacts: Contact[],
+  picks: Record<MergeableContactField, string>
+): ContactFormData {
+  const byId = new Map(contacts.map((c) => [c.id, c]));
+  const pick = <F extends MergeableContactField>(field: F): Contact[F] =>
+    (byId.get(picks[field]) ?? contacts[0])[field];
+
+  const members = new Map<string, ContactMember>();
+  for (const contact of contacts) {
+    for (const member of contact.members) {
+      if (!members.has(memberKey(member))) members.set(memberKey(member), member);
+    }
+  }
+
+  return {
+    name: pick("name"),
+    kind: pick("kind"),
+    phone: pick("phone"),
+    address: pick("address"),
+    side: pick("side"),
+    relationship: pick("relationship"),
+    note: pick("note"),
+    members: [...members.values()],
+  };
+}
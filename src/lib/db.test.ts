@@ -0,0 +1,148 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import {
+  createCustomGuest,
+  exportBackup,
+  getAuditEvents,
+  getEvents,
+  importBackup,
+  saveContact,
+  saveEvent,
+  saveGuestRecord,
+  saveGuestWithGift,
+  saveOutgoingGift,
+} from "@/lib/db";
+import { sealLedger, verifyBackup } from "@/lib/ledger";
+import { stampFieldClocks } from "@/lib/merge";
+import { Contact } from "@/types/contact";
+import { OutgoingGift } from "@/types/reciprocity";
+import { BackupData } from "@/types/sync";
+
+const T0 = 1_750_000_000_000;
+const SEEDED_COUPLE = "l0j2k4"; // "Mr. Soneat & Wife" in guests.json, in the default event
+
+const cash = {
+  amountRiel: 100000,
+  currency: "KHR" as const,
+  originalAmount: 100000,
+  exchangeRate: 4100,
+  paymentType: "cash" as const,
+  bankType: null,
+  bankRef: null,
+};
+
+function contact(id: string, name: string): Contact {
+  return {
+    id,
+    kind: "individual",
+    name,
+    members: [],
+    phone: "012 345 678",
+    address: "",
+    side: "bride",
+    relationship: "",
+    note: "",
+    mergedInto: null,
+    createdAt: T0,
+    updatedAt: T0,
+  };
+}
+
+function given(id: string, contactId: string): OutgoingGift {
+  return {
+    id,
+    contactId,
+    occasion: "មង្គលការកូនស្រី",
+    date: "2024-12-01",
+    currency: "USD",
+    originalAmount: 50,
+    exchangeRate: 4100,
+    amountRiel: 205000,
+    note: "",
+    createdAt: T0,
+    updatedAt: T0,
+    deleted: null,
+  };
+}
+
+let engagementGuestId: string;
+
+// A seeded couple with a gift in the default event, and a guest with a gift,
+// a contact and a gift we gave them in an engagement
+beforeAll(async () => {
+  await saveGuestWithGift(SEEDED_COUPLE, {}, { id: null, fields: cash });
+  await saveOutgoingGift(given("OUT_default", `CONTACT_${SEEDED_COUPLE}`));
+
+  await saveEvent({
+    id: "engagement",
+    name: "ពិធីភ្ជាប់ពាក្យ",
+    date: "2025-01-15",
+    venue: "",
+    couple: "",
+    exchangeRate: null,
+    createdAt: T0,
+    updatedAt: T0,
+    syncStatus: "pending",
+    lastSyncedAt: null,
+  });
+  const guest = await createCustomGuest("ចាន់ ស្រីមុំ", "bride", "engagement");
+  engagementGuestId = guest.id;
+  await saveGuestWithGift(guest.id, { note: "VIP" }, { id: null, fields: cash });
+  await saveContact(contact("CONTACT_sreymom", "ចាន់ ស្រីមុំ"));
+  await saveGuestRecord(guest.id, { contactId: "CONTACT_sreymom" });
+  await saveOutgoingGift(given("OUT_engagement", "CONTACT_sreymom"));
+
+  await sealLedger();
+});
+
+describe("exportBackup", () => {
+  let backup: BackupData;
+  beforeAll(async () => {
+    backup = await exportBackup("engagement");
+  });
+
+  it("holds only the event's guests, gifts and details", () => {
+    expect(backup.guests.map((g) => g.id)).toEqual([engagementGuestId]);
+    expect(backup.gifts.map((g) => g.guestId)).toEqual([engagementGuestId]);
+    expect(backup.events?.map((e) => e.id)).toEqual(["engagement"]);
+    expect(backup.metadata.totals).toMatchObject({ khrReceived: 100000, grandTotalRiel: 100000 });
+  });
+
+  it("holds only the contacts its guests belong to and what we gave them", () => {
+    expect(backup.contacts?.map((c) => c.id)).toEqual(["CONTACT_sreymom"]);
+    expect(backup.outgoingGifts?.map((g) => g.id)).toEqual(["OUT_engagement"]);
+  });
+
+  it("keeps the whole ledger chain, with other events' values redacted", async () => {
+    const ledger = backup.ledger ?? [];
+    expect(ledger).toHaveLength((await getAuditEvents()).length);
+
+    const other = ledger.filter((e) => e.guestId === SEEDED_COUPLE);
+    expect(other.length).toBeGreaterThan(0);
+    expect(other.every((e) => e.redacted && Object.keys(e.next).length === 0)).toBe(true);
+
+    const own = ledger.filter((e) => e.guestId === engagementGuestId);
+    expect(own.some((e) => e.next.note === "VIP")).toBe(true);
+    expect(own.every((e) => !e.redacted)).toBe(true);
+
+    expect((await verifyBackup(backup))?.status).toBe("verified");
+  });
+});
+
+describe("importBackup", () => {
+  it("merges the details of a known event field by field", async () => {
+    const backup = await exportBackup("engagement");
+    const [local] = (await getEvents()).filter((e) => e.id === "engagement");
+    await saveEvent({ ...local, venue: "សណ្ឋាគារ" });
+    const [event] = backup.events ?? [];
+    const renamed = stampFieldClocks(event, { ...event, name: "ពិធីភ្ជាប់ពាក្យ និងស៊ីចំណោម" });
+
+    await importBackup({ ...backup, events: [renamed] });
+
+    const [merged] = (await getEvents()).filter((e) => e.id === "engagement");
+    expect(merged).toMatchObject({
+      name: "ពិធីភ្ជាប់ពាក្យ និងស៊ីចំណោម",
+      venue: "សណ្ឋាគារ",
+      syncStatus: "pending",
+    });
+  });
+});
@@ -1,13 +1,89 @@
-import { openDB, DBSchema, IDBPDatabase } from "idb";
-import { GuestRecordDB, SyncStatus, BackupData } from "@/types/sync";
+import { openDB, DBSchema, IDBPDatabase, IDBPTransaction } from "idb";
+import {
+  GuestRecordDB,
+  GiftEntryDB,
+  SyncStatus,
+  SyncableRecord,
+  BackupData,
+  PushedConflict,
+  Tombstone,
+} from "@/types/sync";
 import initialGuests from "@/data/guests.json";
 import { GuestBase } from "@/types/guest";
+import { InvitationGuest } from "@/types/invitation";
+import { AuditAction, AuditEvent, AuditFilter, AuditSource, SessionAction } from "@/types/audit";
+import { GuestSnapshot } from "@/types/undo";
+import { GuestMerge } from "@/types/duplicate";
+import { ExchangeRate } from "@/types/rate";
+import { ConflictSource, FieldConflict } from "@/types/conflict";
+import { Credential, LockoutState, Role } from "@/types/auth";
+import { VaultConfig } from "@/types/vault";
+import { WeddingEvent } from "@/types/event";
+import { Contact } from "@/types/contact";
+import { OutgoingGift } from "@/types/reciprocity";
+import {
+  buildAuditEvent,
+  buildSessionEvent,
+  getDeviceId,
+  getRecorderName,
+} from "@/lib/audit";
+import { publishChange } from "@/lib/changeFeed";
+import { DEFAULT_EVENT_ID, eventOf } from "@/lib/events";
+import { contactFromSeededGuest, resolveContactId, withContactDefaults } from "@/lib/contacts";
+import { decryptRecord, decryptRecords, encryptRecord } from "@/lib/cipher";
+import { redactEvent, sealSoon } from "@/lib/ledger";
+import {
+  createGiftId,
+  currencyTotals,
+  giftFromLegacyGuest,
+  isActiveGift,
+  stripLegacyGiftFields,
+  withOriginalAmount,
+} from "@/lib/gifts";
+import {
+  ConflictCandidate,
+  latestClock,
+  mergeRecords,
+  sameFields,
+  stampFieldClocks,
+} from "@/lib/merge";
+import { receiveHlc } from "@/lib/hlc";
+import {
+  LATEST_SCHEMA_VERSION,
+  MigrationHistoryEntry,
+  getPinnedSchemaVersion,
+  pinSchemaVersion,
+  runMigrations,
+  snapshotBeforeUpgrade,
+  restoreSnapshotData,
+  unpinSchemaVersion,
+  UpgradeDB,
+  UpgradeTransaction,
+} from "@/lib/migrations";
 
 const DB_NAME = "wedding_gift_db";
-const DB_VERSION = 1;
+const DB_VERSION = LATEST_SCHEMA_VERSION;
 const STORE_NAME = "guests";
+const AUDIT_STORE = "audit";
+const GIFTS_STORE = "gifts";
+const RATES_STORE = "rates";
+const CONFLICTS_STORE = "conflicts";
+const CREDENTIALS_STORE = "credentials";
+const LOCKOUTS_STORE = "lockouts";
+const VAULT_STORE = "vault";
+const EVENTS_STORE = "events";
+const CONTACTS_STORE = "contacts";
+const OUTGOING_GIFTS_STORE = "outgoingGifts";
+// Stores the sync engine pushes and pulls
+const SYNCED_STORES = [STORE_NAME, GIFTS_STORE, EVENTS_STORE] as const;
 
-interface WeddingDB extends DBSchema {
+// Gift values the form can set; the rest of GiftEntryDB is bookkeeping
+export type GiftFields = Pick<
+  GiftEntryDB,
+  "amountRiel" | "currency" | "originalAmount" | "exchangeRate" | "paymentType" | "bankType" | "bankRef"
+>;
+
+export interface WeddingDB extends DBSchema {
   guests: {
     key: string;
     value: GuestRecordDB;
@@ -15,6 +91,76 @@ interface WeddingDB extends DBSchema {
       "by-sync-status": SyncStatus;
       "by-updated": number;
       "by-side": "groom" | "bride";
+      "by-deleted": number;
+      "by-event": string;
+    };
+  };
+  gifts: {
+    key: string;
+    value: GiftEntryDB;
+    indexes: {
+      "by-guest": string;
+      "by-sync-status": SyncStatus;
+      "by-updated": number;
+      "by-deleted": number;
+      "by-event": string;
+    };
+  };
+  migrations: {
+    key: number;
+    value: MigrationHistoryEntry;
+  };
+  audit: {
+    key: number;
+    value: AuditEvent;
+    indexes: {
+      "by-guest": string;
+      "by-timestamp": number;
+    };
+  };
+  rates: {
+    key: number;
+    value: ExchangeRate;
+    indexes: {
+      "by-effective-from": number;
+    };
+  };
+  conflicts: {
+    key: number;
+    value: FieldConflict;
+    indexes: {
+      "by-record": string;
+      "by-detected": number;
+    };
+  };
+  credentials: {
+    key: Role;
+    value: Credential;
+  };
+  lockouts: {
+    key: string;
+    value: LockoutState;
+  };
+  vault: {
+    key: string;
+    value: VaultConfig;
+  };
+  events: {
+    key: string;
+    value: WeddingEvent;
+    indexes: {
+      "by-sync-status": SyncStatus;
+    };
+  };
+  contacts: {
+    key: string;
+    value: Contact;
+  };
+  outgoingGifts: {
+    key: string;
+    value: OutgoingGift;
+    indexes: {
+      "by-contact": string;
     };
   };
 }
@@ -25,15 +171,27 @@ let dbInstance: IDBPDatabase<WeddingDB> | null = null;
 export async function initDB(): Promise<IDBPDatabase<WeddingDB>> {
   if (dbInstance) return dbInstance;
 
-  dbInstance = await openDB<WeddingDB>(DB_NAME, DB_VERSION, {
-    upgrade(db) {
-      // Create guests store
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        const store = db.createObjectStore(STORE_NAME, { keyPath: "id" });
-        store.createIndex("by-sync-status", "syncStatus");
-        store.createIndex("by-updated", "updatedAt");
-        store.createIndex("by-side", "side");
-      }
+  // A rollback holds the database on the version it restored
+  const version = getPinnedSchemaVersion() ?? DB_VERSION;
+
+  // Keep a copy of the old data in case an upgrade goes wrong
+  await snapshotBeforeUpgrade(DB_NAME, version);
+
+  let upgraded = false;
+  dbInstance = await openDB<WeddingDB>(DB_NAME, version, {
+    upgrade(db, oldVersion, newVersion, transaction) {
+      upgraded = true;
+      runMigrations(
+        db as unknown as UpgradeDB,
+        oldVersion,
+        newVersion ?? version,
+        transaction as unknown as UpgradeTransaction
+      );
+    },
+    blocking() {
+      // Another tab wants to upgrade: let it, we reopen on next access
+      dbInstance?.close();
+      dbInstance = null;
     },
   });
 
@@ -43,32 +201,37 @@ export async function initDB(): Promise<IDBPDatabase<WeddingDB>> {
     await seedInitialGuests(dbInstance);
   }
 
+  // Migrations log the records they rewrite; chain those like any write
+  if (upgraded) void sealSoon();
+
   return dbInstance;
 }
 
-// Seed initial guests from JSON
+// Seed initial guests from JSON; couples like "Lay Mengly & Wife" also get a contact
 async function seedInitialGuests(db: IDBPDatabase<WeddingDB>): Promise<void> {
-  const tx = db.transaction(STORE_NAME, "readwrite");
+  const tx = db.transaction([STORE_NAME, CONTACTS_STORE], "readwrite");
   const store = tx.objectStore(STORE_NAME);
+  const contacts = tx.objectStore(CONTACTS_STORE);
 
   const guests = initialGuests as GuestBase[];
   const now = Date.now();
 
   for (const guest of guests) {
+    const contact = contactFromSeededGuest(guest);
+    if (contact) await contacts.put(contact);
     const record: GuestRecordDB = {
       id: guest.id,
+      eventId: DEFAULT_EVENT_ID,
+      contactId: contact?.id ?? null,
       name: guest.name,
       displayName: guest.name,
       side: guest.side,
-      amountRiel: null,
-      paymentType: "cash",
-      bankType: null,
-      bankRef: null,
       note: "",
       updatedAt: now,
       syncStatus: "local",
       lastSyncedAt: null,
       isCustomGuest: false,
+      deleted: null,
     };
     await store.put(record);
   }
@@ -80,179 +243,1511 @@ async function seedInitialGuests(db: IDBPDatabase<WeddingDB>): Promise<void> {
 // Get all guests
 export async function getAllGuests(): Promise<GuestRecordDB[]> {
   const db = await initDB();
-  return db.getAll(STORE_NAME);
+  return decryptRecords(STORE_NAME, await db.getAll(STORE_NAME));
 }
 
 // Get single guest
 export async function getGuest(id: string): Promise<GuestRecordDB | undefined> {
   const db = await initDB();
-  return db.get(STORE_NAME, id);
+  const stored = await db.get(STORE_NAME, id);
+  return stored && decryptRecord(STORE_NAME, stored);
+}
+
+// Get all gift line items (including trashed ones)
+export async function getAllGifts(): Promise<GiftEntryDB[]> {
+  const db = await initDB();
+  return decryptRecords(GIFTS_STORE, await db.getAll(GIFTS_STORE));
+}
+
+// Get single gift line item
+export async function getGift(id: string): Promise<GiftEntryDB | undefined> {
+  const db = await initDB();
+  const stored = await db.get(GIFTS_STORE, id);
+  return stored && decryptRecord(GIFTS_STORE, stored);
+}
+
+// Get every gift line item of one guest
+export async function getGiftsForGuest(guestId: string): Promise<GiftEntryDB[]> {
+  const db = await initDB();
+  return decryptRecords(GIFTS_STORE, await db.getAllFromIndex(GIFTS_STORE, "by-guest", guestId));
 }
 
 // Save guest record (IndexedDB-first, NEVER fails silently)
 export async function saveGuestRecord(
   id: string,
-  updates: Partial<Omit<GuestRecordDB, "id">>
+  updates: Partial<Omit<GuestRecordDB, "id">>,
+  source: AuditSource = "GuestForm"
 ): Promise<GuestRecordDB> {
-  const db = await initDB();
-  
-  // Get existing or create new
-  let existing = await db.get(STORE_NAME, id);
-  
-  if (!existing) {
-    throw new Error(`Guest ${id} not found`);
+  return writeChange(STORE_NAME, id, updates, "update", source);
+}
+
+// WebCrypto cannot be awaited inside an IndexedDB transaction, so records are
+// read and decrypted before the write transaction opens and encrypted again
+// before it writes. The transaction first checks that what was read is still
+// what is stored; if another tab wrote in between, the whole write reruns.
+const STALE_READ = "Record changed while it was being saved";
+const MAX_WRITE_ATTEMPTS = 3;
+
+type PriorRead = [store: { get(key: string): Promise<unknown> }, key: string, stored: unknown];
+
+async function assertUnchanged(
+  tx: { abort(): void; done: Promise<void> },
+  reads: PriorRead[]
+): Promise<void> {
+  for (const [store, key, stored] of reads) {
+    if (JSON.stringify(await store.get(key)) !== JSON.stringify(stored)) {
+      tx.done.catch(() => undefined); // Aborting rejects tx.done
+      tx.abort();
+      throw new Error(STALE_READ);
+    }
   }
+}
 
-  const updated: GuestRecordDB = {
-    ...existing,
-    ...updates,
-    id, // Ensure ID never changes
-    updatedAt: Date.now(),
-    syncStatus: "pending", // Mark for sync
+async function retryStaleWrite<T>(write: () => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await write();
+    } catch (e) {
+      const stale = e instanceof Error && e.message === STALE_READ;
+      if (!stale || attempt === MAX_WRITE_ATTEMPTS) throw e;
+      console.warn(`[DB] ${STALE_READ}, retrying`);
+    }
+  }
+}
+
+// Save a guest's details and add (giftId null) or edit one gift line item,
+// all in one transaction so a gift is never saved without its guest
+export async function saveGuestWithGift(
+  guestId: string,
+  updates: Partial<Omit<GuestRecordDB, "id">>,
+  gift: { id: string | null; fields: GiftFields } | null,
+  source: AuditSource = "GuestForm"
+): Promise<{ guest: GuestRecordDB; gift: GiftEntryDB | null }> {
+  return retryStaleWrite(async () => {
+    const db = await initDB();
+    const now = Date.now();
+
+    const storedGuest = await db.get(STORE_NAME, guestId);
+    if (!storedGuest) {
+      throw new Error(`Guest ${guestId} not found`);
+    }
+    const existing = await decryptRecord(STORE_NAME, storedGuest);
+
+    const updated = stampFieldClocks(existing, {
+      ...existing,
+      ...updates,
+      id: guestId, // Ensure ID never changes
+      updatedAt: now,
+      syncStatus: "pending", // Mark for sync
+    });
+    const events = [buildAuditEvent("update", source, existing, updated)];
+
+    let storedGift: GiftEntryDB | undefined;
+    let savedGift: GiftEntryDB | null = null;
+    if (gift) {
+      storedGift = gift.id ? await db.get(GIFTS_STORE, gift.id) : undefined;
+      if (gift.id && !storedGift) {
+        throw new Error(`Gift ${gift.id} not found`);
+      }
+      const existingGift = storedGift && (await decryptRecord(GIFTS_STORE, storedGift));
+
+      savedGift = stampFieldClocks(
+        existingGift,
+        existingGift
+          ? { ...existingGift, ...gift.fields, updatedAt: now, syncStatus: "pending" }
+          : {
+              ...gift.fields,
+              id: createGiftId(),
+              guestId,
+              eventId: eventOf(existing),
+              receivedAt: now,
+              recorder: getRecorderName() || getDeviceId(),
+              updatedAt: now,
+              syncStatus: "pending",
+              lastSyncedAt: null,
+              deleted: null,
+            }
+      );
+      events.push(
+        buildAuditEvent(existingGift ? "update" : "create", source, existingGift ?? null, savedGift)
+      );
+    }
+
+    const guestRow = await encryptRecord(STORE_NAME, updated);
+    const giftRow = savedGift && (await encryptRecord(GIFTS_STORE, savedGift));
+    const auditRows = await encryptAudit(events);
+
+    const tx = db.transaction([STORE_NAME, GIFTS_STORE, AUDIT_STORE], "readwrite");
+    const guests = tx.objectStore(STORE_NAME);
+    const gifts = tx.objectStore(GIFTS_STORE);
+    const reads: PriorRead[] = [[guests, guestId, storedGuest]];
+    if (gift?.id) reads.push([gifts, gift.id, storedGift]);
+    await assertUnchanged(tx, reads);
+
+    await guests.put(guestRow);
+    if (giftRow) await gifts.put(giftRow);
+    await appendAudit(tx.objectStore(AUDIT_STORE), auditRows);
+    await tx.done;
+    publishChange({ guests: [guestId], gifts: savedGift ? [savedGift.id] : [] });
+    console.log(`[DB] Saved guest: ${guestId}`, updated, savedGift);
+
+    return { guest: updated, gift: savedGift };
+  });
+}
+
+// Apply a change to one guest or gift and log it in the same transaction
+async function writeChange<S extends "guests" | "gifts">(
+  storeName: S,
+  id: string,
+  updates: Partial<WeddingDB[S]["value"]>,
+  action: AuditAction,
+  source: AuditSource
+): Promise<WeddingDB[S]["value"]> {
+  return retryStaleWrite(async () => {
+    const db = await initDB();
+
+    const stored = await db.get(storeName, id);
+    if (!stored) {
+      throw new Error(`${storeName === GIFTS_STORE ? "Gift" : "Guest"} ${id} not found`);
+    }
+    const existing = await decryptRecord(storeName, stored);
+
+    const updated = stampFieldClocks(existing, {
+      ...existing,
+      ...updates,
+      id, // Ensure ID never changes
+      updatedAt: Date.now(),
+      syncStatus: "pending", // Mark for sync
+    } as WeddingDB[S]["value"]);
+
+    const row = await encryptRecord(storeName, updated);
+    const auditRows = await encryptAudit([buildAuditEvent(action, source, existing, updated)]);
+
+    const tx = db.transaction([storeName, AUDIT_STORE], "readwrite");
+    const store = tx.objectStore(storeName);
+    await assertUnchanged(tx, [[store, id, stored]]);
+
+    await store.put(row);
+    await appendAudit(tx.objectStore(AUDIT_STORE), auditRows);
+    await tx.done;
+    publishChange({ [storeName]: [id] });
+    console.log(`[DB] Saved ${storeName} (${action}): ${id}`, updated);
+
+    return updated;
+  });
+}
+
+function createTombstone(reason: string): Tombstone {
+  return { at: Date.now(), reason: reason.trim(), by: getRecorderName() || getDeviceId() };
+}
+
+// Move a guest to the trash (seeded or custom); their gifts go with them
+export async function softDeleteGuest(
+  id: string,
+  reason: string,
+  source: AuditSource = "GuestForm"
+): Promise<GuestRecordDB> {
+  return writeChange(STORE_NAME, id, { deleted: createTombstone(reason) }, "delete", source);
+}
+
+// Move one gift line item to the trash
+export async function softDeleteGift(
+  giftId: string,
+  reason: string,
+  source: AuditSource = "GuestForm"
+): Promise<GiftEntryDB> {
+  return writeChange(GIFTS_STORE, giftId, { deleted: createTombstone(reason) }, "delete", source);
+}
+
+// A merged guest comes back on their own; gifts that moved stay with the other
+export async function restoreDeletedGuest(id: string): Promise<GuestRecordDB> {
+  return writeChange(STORE_NAME, id, { deleted: null, mergedInto: null }, "restore", "Trash");
+}
+
+export async function restoreDeletedGift(giftId: string): Promise<GiftEntryDB> {
+  return writeChange(GIFTS_STORE, giftId, { deleted: null }, "restore", "Trash");
+}
+
+// Get trashed guests and gifts, most recently deleted first
+export async function getTrash(): Promise<{
+  guests: GuestRecordDB[];
+  gifts: GiftEntryDB[];
+}> {
+  const db = await initDB();
+  const guests = await db.getAllFromIndex(STORE_NAME, "by-deleted");
+  const gifts = await db.getAllFromIndex(GIFTS_STORE, "by-deleted");
+  return {
+    guests: (await decryptRecords(STORE_NAME, guests)).reverse(),
+    gifts: (await decryptRecords(GIFTS_STORE, gifts)).reverse(),
   };
+}
 
-  await db.put(STORE_NAME, updated);
-  console.log(`[DB] Saved guest: ${id}`, updated);
-  
-  return updated;
+// Merge duplicate guests into one, in one transaction. The others go to the
+// trash pointing at the kept guest, kept gifts move to it and the rest go to
+// the trash. Every step is an ordinary field change, so other devices and
+// backups converge on the merge instead of bringing the duplicates back.
+export async function mergeGuestRecords(
+  merge: GuestMerge,
+  source: AuditSource = "duplicateMerge"
+): Promise<GuestRecordDB> {
+  return retryStaleWrite(async () => {
+    const db = await initDB();
+    const now = Date.now();
+    const ids = [merge.keepId, ...merge.mergedIds];
+
+    const reads: { id: string; storedGuest?: GuestRecordDB; storedGifts: GiftEntryDB[] }[] = [];
+    const guestWrites: GuestRecordDB[] = [];
+    const giftWrites: GiftEntryDB[] = [];
+    const events: (AuditEvent | null)[] = [];
+
+    let kept: GuestRecordDB | null = null;
+    for (const id of ids) {
+      const storedGuest = await db.get(STORE_NAME, id);
+      const storedGifts = await db.getAllFromIndex(GIFTS_STORE, "by-guest", id);
+      reads.push({ id, storedGuest, storedGifts });
+      if (!storedGuest) {
+        throw new Error(`Guest ${id} not found`);
+      }
+      const existing = await decryptRecord(STORE_NAME, storedGuest);
+
+      const updated = stampFieldClocks(existing, {
+        ...existing,
+        ...(id === merge.keepId
+          ? { ...merge.fields, deleted: null, mergedInto: null }
+          : {
+              deleted: createTombstone(`បានបញ្ចូលទៅក្នុង ${kept!.displayName || kept!.name}`),
+              mergedInto: merge.keepId,
+            }),
+        updatedAt: now,
+        syncStatus: "pending",
+      });
+      if (id === merge.keepId) kept = updated;
+      guestWrites.push(updated);
+      events.push(buildAuditEvent("merge", source, existing, updated));
+
+      for (const gift of await decryptRecords(GIFTS_STORE, storedGifts)) {
+        if (gift.deleted) continue;
+        const keep = merge.keepGiftIds.includes(gift.id);
+        if (keep && gift.guestId === merge.keepId) continue;
+
+        const updatedGift = stampFieldClocks(gift, {
+          ...gift,
+          ...(keep ? { guestId: merge.keepId } : { deleted: createTombstone("ស្ទួន") }),
+          updatedAt: now,
+          syncStatus: "pending",
+        });
+        giftWrites.push(updatedGift);
+        events.push(buildAuditEvent("merge", source, gift, updatedGift));
+      }
+    }
+
+    const guestRows = await Promise.all(guestWrites.map((g) => encryptRecord(STORE_NAME, g)));
+    const giftRows = await Promise.all(giftWrites.map((g) => encryptRecord(GIFTS_STORE, g)));
+    const auditRows = await encryptAudit(events);
+
+    const tx = db.transaction([STORE_NAME, GIFTS_STORE, AUDIT_STORE], "readwrite");
+    const guests = tx.objectStore(STORE_NAME);
+    const gifts = tx.objectStore(GIFTS_STORE);
+    const giftsByGuest = { get: (id: string) => gifts.index("by-guest").getAll(id) };
+    await assertUnchanged(
+      tx,
+      reads.flatMap(({ id, storedGuest, storedGifts }): PriorRead[] => [
+        [guests, id, storedGuest],
+        [giftsByGuest, id, storedGifts],
+      ])
+    );
+
+    for (const row of guestRows) await guests.put(row);
+    for (const row of giftRows) await gifts.put(row);
+    await appendAudit(tx.objectStore(AUDIT_STORE), auditRows);
+    await tx.done;
+    publishChange({ guests: ids, gifts: giftWrites.map((g) => g.id) });
+    console.log(`[DB] Merged guests ${merge.mergedIds.join(", ")} into ${merge.keepId}`);
+
+    return kept!;
+  });
+}
+
+// Exchange rate history, oldest effective date first
+export async function getExchangeRates(): Promise<ExchangeRate[]> {
+  const db = await initDB();
+  return db.getAllFromIndex(RATES_STORE, "by-effective-from");
+}
+
+// Record a new rate; earlier entries stay so past gifts keep their value
+export async function addExchangeRate(
+  rate: number,
+  effectiveFrom: number = Date.now()
+): Promise<ExchangeRate> {
+  if (!Number.isFinite(rate) || rate <= 0) {
+    throw new Error(`Invalid exchange rate: ${rate}`);
+  }
+
+  const db = await initDB();
+  const entry: ExchangeRate = {
+    rate,
+    effectiveFrom,
+    setBy: getRecorderName() || getDeviceId(),
+  };
+  entry.id = await db.add(RATES_STORE, entry);
+  publishChange({ rates: true });
+  console.log("[DB] Exchange rate set:", entry);
+  return entry;
 }
 
 // Create new custom guest
 export async function createCustomGuest(
   name: string,
-  side: "groom" | "bride"
+  side: "groom" | "bride",
+  eventId: string
 ): Promise<GuestRecordDB> {
   const db = await initDB();
   const id = `CUSTOM_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   
-  const newGuest: GuestRecordDB = {
+  const newGuest = stampFieldClocks<GuestRecordDB>(null, {
     id,
+    eventId,
     name,
     displayName: name,
     side,
-    amountRiel: null,
-    paymentType: "cash",
-    bankType: null,
-    bankRef: null,
     note: "",
     updatedAt: Date.now(),
     syncStatus: "pending",
     lastSyncedAt: null,
     isCustomGuest: true,
-  };
+    deleted: null,
+  });
+
+  const row = await encryptRecord(STORE_NAME, newGuest);
+  const auditRows = await encryptAudit([
+    buildAuditEvent("create", "createCustomGuest", null, newGuest),
+  ]);
 
-  await db.put(STORE_NAME, newGuest);
+  const tx = db.transaction([STORE_NAME, AUDIT_STORE], "readwrite");
+  await tx.objectStore(STORE_NAME).put(row);
+  await appendAudit(tx.objectStore(AUDIT_STORE), auditRows);
+  await tx.done;
+  publishChange({ guests: [id] });
   console.log(`[DB] Created custom guest: ${id}`, newGuest);
   
   return newGuest;
 }
 
+// Add guests from an invitation spreadsheet to an event, and fill in the invitation
+// details of guests already listed (updates, by existing guest id). A new
+// guest whose id is already taken (imported before, maybe trashed since) is
+// skipped.
+export async function importInvitationGuests(
+  eventId: string,
+  guests: InvitationGuest[],
+  updates: { id: string; details: InvitationGuest }[]
+): Promise<{ created: number; updated: number; skipped: number }> {
+  return retryStaleWrite(async () => {
+    const db = await initDB();
+    const now = Date.now();
+    const reads: [id: string, stored: GuestRecordDB | undefined][] = [];
+    const writes: GuestRecordDB[] = [];
+    const events: (AuditEvent | null)[] = [];
+    let created = 0;
+    let updated = 0;
+    let skipped = 0;
+
+    for (const guest of guests) {
+      const stored = await db.get(STORE_NAME, guest.id);
+      reads.push([guest.id, stored]);
+      if (stored) {
+        skipped++;
+        continue;
+      }
+      const record = stampFieldClocks<GuestRecordDB>(null, {
+        id: guest.id,
+        eventId,
+        name: guest.name,
+        displayName: guest.name,
+        side: guest.side,
+        note: "",
+        group: guest.group,
+        phone: guest.phone,
+        expectedAttendees: guest.expectedAttendees,
+        updatedAt: now,
+        syncStatus: "pending",
+        lastSyncedAt: null,
+        isCustomGuest: false,
+        deleted: null,
+      });
+      writes.push(record);
+      events.push(buildAuditEvent("import", "invitationImport", null, record));
+      created++;
+    }
+
+    for (const { id, details } of updates) {
+      const stored = await db.get(STORE_NAME, id);
+      reads.push([id, stored]);
+      const existing = stored && (await decryptRecord(STORE_NAME, stored));
+      if (!existing) {
+        skipped++;
+        continue;
+      }
+      // Blank cells leave what the guest already has
+      const record = stampFieldClocks<GuestRecordDB>(existing, {
+        ...existing,
+        group: details.group || existing.group,
+        phone: details.phone || existing.phone,
+        expectedAttendees: details.expectedAttendees ?? existing.expectedAttendees,
+        updatedAt: now,
+        syncStatus: "pending",
+      });
+      const event = buildAuditEvent("import", "invitationImport", existing, record);
+      if (!event) continue; // Nothing new for this guest
+      writes.push(record);
+      events.push(event);
+      updated++;
+    }
+
+    const rows = await Promise.all(writes.map((record) => encryptRecord(STORE_NAME, record)));
+    const auditRows = await encryptAudit(events);
+
+    const tx = db.transaction([STORE_NAME, AUDIT_STORE], "readwrite");
+    const store = tx.objectStore(STORE_NAME);
+    await assertUnchanged(
+      tx,
+      reads.map(([id, stored]): PriorRead => [store, id, stored])
+    );
+    for (const row of rows) {
+      await store.put(row);
+    }
+    await appendAudit(tx.objectStore(AUDIT_STORE), auditRows);
+    await tx.done;
+    publishChange({ guests: writes.map((record) => record.id) });
+
+    console.log(`[DB] Invitation import: ${created} created, ${updated} updated, ${skipped} skipped`);
+    return { created, updated, skipped };
+  });
+}
+
+// Thrown when undo / redo finds a record edited since (here, in another tab or
+// on another device); putting the snapshot back would silently drop that edit
+export const CHANGED_SINCE = "Record changed since the operation";
+
+// Put guests and their gifts back as captured in the snapshots (undo / redo),
+// given what the operation being taken back left them as (replaced). Guests
+// and gifts that did not exist then go to the trash rather than away, so the
+// change syncs out like any other; gifts recorded since are left alone.
+export async function restoreGuestRecords(
+  snapshots: GuestSnapshot[],
+  replaced: GuestSnapshot[],
+  action: "undo" | "redo"
+): Promise<void> {
+  return retryStaleWrite(async () => {
+    const db = await initDB();
+    const now = Date.now();
+    const reason = action === "undo" ? "មិនធ្វើវិញ" : "ធ្វើវិញ";
+    const touchedGifts: string[] = [];
+
+    // Work out every write first, then encrypt, then open the transaction
+    const reads: { id: string; storedGuest?: GuestRecordDB; storedGifts: GiftEntryDB[] }[] = [];
+    const guestRows: GuestRecordDB[] = [];
+    const giftRows: GiftEntryDB[] = [];
+    const events: (AuditEvent | null)[] = [];
+    const restoredGiftIds = new Set(snapshots.flatMap((s) => s.gifts.map((g) => g.id)));
+    const replacedGiftIds = new Set(replaced.flatMap((s) => s.gifts.map((g) => g.id)));
+
+    const trash = <T extends GuestRecordDB | GiftEntryDB>(record: T): T =>
+      stampFieldClocks(record, {
+        ...record,
+        deleted: createTombstone(reason),
+        updatedAt: now,
+        syncStatus: "pending",
+      });
+
+    for (const { id, record, gifts } of snapshots) {
+      const storedGuest = await db.get(STORE_NAME, id);
+      const storedGifts = await db.getAllFromIndex(GIFTS_STORE, "by-guest", id);
+      reads.push({ id, storedGuest, storedGifts });
+      const existing = storedGuest && (await decryptRecord(STORE_NAME, storedGuest));
+      const currentGifts = await decryptRecords(GIFTS_STORE, storedGifts);
+
+      // A guest that did not exist is in the trash once undone
+      const left = replaced.find((s) => s.id === id);
+      const unchanged =
+        !left ||
+        ((left.record ? sameFields(existing ?? null, left.record) : !existing || !!existing.deleted) &&
+          left.gifts.every((gift) =>
+            sameFields(currentGifts.find((g) => g.id === gift.id) ?? null, gift)
+          ));
+      if (!unchanged) throw new Error(CHANGED_SINCE);
+
+      if (record === null) {
+        // Guest did not exist at that point
+        if (existing && !existing.deleted) {
+          const trashed = trash(existing);
+          guestRows.push(await encryptRecord(STORE_NAME, trashed));
+          events.push(buildAuditEvent(action, "undoHistory", existing, trashed));
+        }
+      } else {
+        const restored = stampFieldClocks<GuestRecordDB>(existing, {
+          ...record,
+          id,
+          updatedAt: now,
+          syncStatus: "pending",
+        });
+        guestRows.push(await encryptRecord(STORE_NAME, restored));
+        events.push(buildAuditEvent(action, "undoHistory", existing ?? null, restored));
+      }
+
+      // Put back the captured gifts and trash the ones the operation added; a
+      // gift that moved between guests of the batch (a merge) is restored by
+      // the other one
+      touchedGifts.push(...currentGifts.map((g) => g.id), ...gifts.map((g) => g.id));
+      for (const gift of currentGifts) {
+        if (gift.deleted || restoredGiftIds.has(gift.id) || !replacedGiftIds.has(gift.id)) continue;
+        const trashed = trash(gift);
+        giftRows.push(await encryptRecord(GIFTS_STORE, trashed));
+        events.push(buildAuditEvent(action, "undoHistory", gift, trashed));
+      }
+      for (const gift of gifts) {
+        const existingGift = currentGifts.find((g) => g.id === gift.id);
+        const restored = stampFieldClocks<GiftEntryDB>(existingGift, {
+          ...gift,
+          updatedAt: now,
+          syncStatus: "pending",
+        });
+        giftRows.push(await encryptRecord(GIFTS_STORE, restored));
+        events.push(buildAuditEvent(action, "undoHistory", existingGift ?? null, restored));
+      }
+    }
+    const auditRows = await encryptAudit(events);
+
+    const tx = db.transaction([STORE_NAME, GIFTS_STORE, AUDIT_STORE], "readwrite");
+    const store = tx.objectStore(STORE_NAME);
+    const giftStore = tx.objectStore(GIFTS_STORE);
+    const giftsByGuest = { get: (id: string) => giftStore.index("by-guest").getAll(id) };
+    await assertUnchanged(
+      tx,
+      reads.flatMap(({ id, storedGuest, storedGifts }): PriorRead[] => [
+        [store, id, storedGuest],
+        [giftsByGuest, id, storedGifts],
+      ])
+    );
+
+    for (const row of guestRows) {
+      await store.put(row);
+    }
+    for (const row of giftRows) {
+      await giftStore.put(row);
+    }
+    await appendAudit(tx.objectStore(AUDIT_STORE), auditRows);
+    await tx.done;
+    publishChange({ guests: snapshots.map((s) => s.id), gifts: touchedGifts });
+    console.log(`[DB] ${action} restored ${snapshots.length} guests`);
+  });
+}
+
 // Get guests by sync status
 export async function getGuestsBySyncStatus(
   status: SyncStatus
 ): Promise<GuestRecordDB[]> {
   const db = await initDB();
-  return db.getAllFromIndex(STORE_NAME, "by-sync-status", status);
+  const guests = await db.getAllFromIndex(STORE_NAME, "by-sync-status", status);
+  return decryptRecords(STORE_NAME, guests);
 }
 
-// Get pending sync count
+// Get gifts by sync status
+export async function getGiftsBySyncStatus(status: SyncStatus): Promise<GiftEntryDB[]> {
+  const db = await initDB();
+  const gifts = await db.getAllFromIndex(GIFTS_STORE, "by-sync-status", status);
+  return decryptRecords(GIFTS_STORE, gifts);
+}
+
+// Get events by sync status
+export async function getEventsBySyncStatus(status: SyncStatus): Promise<WeddingEvent[]> {
+  const db = await initDB();
+  return db.getAllFromIndex(EVENTS_STORE, "by-sync-status", status);
+}
+
+// Get pending sync count (guests, gifts and events)
 export async function getPendingSyncCount(): Promise<number> {
-  const pending = await getGuestsBySyncStatus("pending");
-  const local = await getGuestsBySyncStatus("local");
-  return pending.length + local.length;
+  const db = await initDB();
+  let count = 0;
+  for (const storeName of SYNCED_STORES) {
+    count += await db.countFromIndex(storeName, "by-sync-status", "pending");
+    count += await db.countFromIndex(storeName, "by-sync-status", "local");
+  }
+  return count;
 }
 
-// Mark records as synced
-export async function markAsSynced(ids: string[]): Promise<void> {
+// Count records the server rejected
+export async function getSyncErrorCount(): Promise<number> {
   const db = await initDB();
-  const tx = db.transaction(STORE_NAME, "readwrite");
-  const store = tx.objectStore(STORE_NAME);
+  let count = 0;
+  for (const storeName of SYNCED_STORES) {
+    count += await db.countFromIndex(storeName, "by-sync-status", "error");
+  }
+  return count;
+}
+
+// Mark pushed records as synced (guests, gifts or events). A record edited
+// again while the push was in flight keeps its pending status.
+export async function markAsSynced(pushed: Pick<SyncableRecord, "id" | "updatedAt">[]): Promise<void> {
+  const db = await initDB();
+  const tx = db.transaction(SYNCED_STORES, "readwrite");
   const now = Date.now();
+  const changed = { guests: [] as string[], gifts: [] as string[], events: [] as string[] };
 
-  for (const id of ids) {
-    const record = await store.get(id);
-    if (record) {
-      record.syncStatus = "synced";
-      record.lastSyncedAt = now;
-      await store.put(record);
+  for (const { id, updatedAt } of pushed) {
+    for (const storeName of SYNCED_STORES) {
+      const store = tx.objectStore(storeName);
+      const record = await store.get(id);
+      if (record && record.updatedAt === updatedAt) {
+        record.syncStatus = "synced";
+        record.lastSyncedAt = now;
+        await store.put(record);
+        changed[storeName].push(id);
+      }
     }
   }
 
   await tx.done;
+  publishChange({ guests: changed.guests, gifts: changed.gifts, events: changed.events.length > 0 });
 }
 
-// Mark record as error
+// Mark record as error (guest, gift or event id)
 export async function markAsError(id: string): Promise<void> {
   const db = await initDB();
-  const record = await db.get(STORE_NAME, id);
-  if (record) {
-    record.syncStatus = "error";
-    await db.put(STORE_NAME, record);
+  for (const storeName of SYNCED_STORES) {
+    const record = await db.get(storeName, id);
+    if (record) {
+      record.syncStatus = "error";
+      await db.put(storeName, record);
+      publishChange(storeName === EVENTS_STORE ? { events: true } : { [storeName]: [id] });
+    }
+  }
+}
+
+type MergeStore = "guests" | "gifts";
+
+// Local copies of the records a batch merges into, read before the write
+// transaction: `stored` as it sits in the store, `record` decrypted
+type LocalCopies = Map<
+  string,
+  { stored?: GuestRecordDB | GiftEntryDB; record?: GuestRecordDB | GiftEntryDB }
+>;
+
+interface MergeResult {
+  storeName: MergeStore;
+  id: string;
+  stored?: GuestRecordDB | GiftEntryDB;
+  record: GuestRecordDB | GiftEntryDB;
+  event: AuditEvent | null;
+  conflicts: FieldConflict[];
+}
+
+async function readLocalCopies(
+  db: IDBPDatabase<WeddingDB>,
+  storeName: MergeStore,
+  ids: string[]
+): Promise<LocalCopies> {
+  const copies: LocalCopies = new Map();
+  for (const id of new Set(ids)) {
+    const stored = await db.get(storeName, id);
+    copies.set(id, { stored, record: stored && (await decryptRecord(storeName, stored)) });
+  }
+  return copies;
+}
+
+// Merge one incoming guest or gift into its local copy field by field and
+// describe the write. Returns null when nothing changes locally.
+function mergeIncoming<S extends MergeStore>(
+  storeName: S,
+  local: LocalCopies,
+  incoming: WeddingDB[S]["value"],
+  source: ConflictSource,
+  now: number
+): MergeResult | null {
+  const { stored, record: existing } = local.get(incoming.id) ?? {};
+  incoming = { ...incoming, eventId: eventOf(incoming) };
+
+  const clock = latestClock(incoming);
+  if (clock) receiveHlc(clock);
+
+  let record: WeddingDB[S]["value"];
+  let conflicts: ConflictCandidate[] = [];
+
+  if (!existing) {
+    record = { ...incoming };
+    record.syncStatus = source === "sync" ? "synced" : "pending";
+  } else {
+    const result = mergeRecords(
+      existing as WeddingDB[S]["value"],
+      incoming,
+      getDeviceId(),
+      storeName === GIFTS_STORE
+    );
+    if (!result.remoteWon) return null;
+
+    record = result.merged;
+    conflicts = result.conflicts;
+    // Local fields that won still have to reach the server
+    record.syncStatus = source === "sync" && !result.localAhead ? "synced" : "pending";
+  }
+  if (source === "sync") record.lastSyncedAt = now;
+
+  // A later row with the same id merges on top of this one
+  local.set(incoming.id, { stored, record });
+
+  return {
+    storeName,
+    id: incoming.id,
+    stored,
+    record,
+    event: buildAuditEvent(
+      source === "sync" ? "sync" : "import",
+      source === "sync" ? "syncEngine" : "importBackup",
+      existing ?? null,
+      record
+    ),
+    conflicts: conflicts.map((conflict) => ({
+      ...conflict,
+      source,
+      detectedAt: now,
+      resolvedAt: null,
+      resolvedBy: null,
+    })),
+  };
+}
+
+// Encrypt merge results ahead of the transaction that writes them
+function encryptMerges(results: MergeResult[]): Promise<MergeResult[]> {
+  return Promise.all(
+    results.map(async (result) => ({
+      ...result,
+      record: await encryptRecord(result.storeName, result.record),
+      event: result.event && (await encryptRecord(AUDIT_STORE, result.event)),
+      conflicts: await Promise.all(result.conflicts.map((c) => encryptRecord(CONFLICTS_STORE, c))),
+    }))
+  );
+}
+
+type MergeTransaction = IDBPTransaction<
+  WeddingDB,
+  ("guests" | "gifts" | "audit" | "conflicts" | "rates" | "events" | "contacts" | "outgoingGifts")[],
+  "readwrite"
+>;
+
+// Write encrypted merge results, provided the local copies are unchanged
+async function writeMerges(tx: MergeTransaction, rows: MergeResult[]): Promise<void> {
+  const guests = tx.objectStore(STORE_NAME);
+  const gifts = tx.objectStore(GIFTS_STORE);
+  await assertUnchanged(
+    tx,
+    rows.map(({ storeName, id, stored }): PriorRead => [
+      storeName === GIFTS_STORE ? gifts : guests,
+      id,
+      stored,
+    ])
+  );
+
+  for (const { storeName, record, event, conflicts } of rows) {
+    if (storeName === GIFTS_STORE) {
+      await gifts.put(record as GiftEntryDB);
+    } else {
+      await guests.put(record as GuestRecordDB);
+    }
+    await appendAudit(tx.objectStore(AUDIT_STORE), [event]);
+    for (const conflict of conflicts) {
+      await tx.objectStore(CONFLICTS_STORE).add(conflict);
+    }
+  }
+}
+
+// Merge pulled event details into the local copies. Events are not in the
+// ledger and have no amounts, so there is nothing to log or review.
+function mergeRemoteEvents(
+  local: Map<string, WeddingEvent | undefined>,
+  remoteEvents: WeddingEvent[],
+  now: number
+): WeddingEvent[] {
+  const merged: WeddingEvent[] = [];
+  for (const incoming of remoteEvents) {
+    const clock = latestClock(incoming);
+    if (clock) receiveHlc(clock);
+
+    const existing = local.get(incoming.id);
+    let event: WeddingEvent;
+    if (!existing) {
+      event = { ...incoming, syncStatus: "synced" };
+    } else {
+      const result = mergeRecords(existing, incoming, getDeviceId(), false);
+      if (!result.remoteWon) continue;
+      event = { ...result.merged, syncStatus: result.localAhead ? "pending" : "synced" };
+    }
+    event.lastSyncedAt = now;
+    local.set(incoming.id, event);
+    merged.push(event);
+  }
+  return merged;
+}
+
+// Apply records pulled from the sync server, merging field by field.
+// Local changes that are newer stay and go out with the next push.
+export async function applyRemoteChanges(
+  remoteGuests: GuestRecordDB[],
+  remoteGifts: GiftEntryDB[],
+  remoteEvents: WeddingEvent[] = []
+): Promise<number> {
+  return retryStaleWrite(async () => {
+    const db = await initDB();
+    const now = Date.now();
+    const localGuests = await readLocalCopies(db, STORE_NAME, remoteGuests.map((g) => g.id));
+    const localGifts = await readLocalCopies(db, GIFTS_STORE, remoteGifts.map((g) => g.id));
+    const eventIds = [...new Set(remoteEvents.map((e) => e.id))];
+    const storedEvents = new Map(
+      await Promise.all(eventIds.map(async (id) => [id, await db.get(EVENTS_STORE, id)] as const))
+    );
+
+    const results: MergeResult[] = [];
+    for (const guest of remoteGuests) {
+      const incoming = { ...guest, deleted: guest.deleted ?? null };
+      const result = mergeIncoming(STORE_NAME, localGuests, incoming, "sync", now);
+      if (result) results.push(result);
+    }
+    for (const gift of remoteGifts) {
+      const result = mergeIncoming(GIFTS_STORE, localGifts, withOriginalAmount(gift), "sync", now);
+      if (result) results.push(result);
+    }
+    const events = mergeRemoteEvents(new Map(storedEvents), remoteEvents, now);
+    const rows = await encryptMerges(results);
+
+    const tx = db.transaction(
+      [STORE_NAME, GIFTS_STORE, EVENTS_STORE, AUDIT_STORE, CONFLICTS_STORE],
+      "readwrite"
+    );
+    const eventStore = tx.objectStore(EVENTS_STORE);
+    await assertUnchanged(
+      tx,
+      [...storedEvents].map(([id, stored]): PriorRead => [eventStore, id, stored])
+    );
+    await writeMerges(tx, rows);
+    for (const event of events) await eventStore.put(event);
+    await tx.done;
+
+    publishChange({
+      guests: results.filter((r) => r.storeName === STORE_NAME).map((r) => r.id),
+      gifts: results.filter((r) => r.storeName === GIFTS_STORE).map((r) => r.id),
+      events: events.length > 0,
+      conflicts: true,
+    });
+    const applied = results.length + events.length;
+    if (applied > 0) console.log(`[DB] Applied ${applied} remote changes`);
+    return applied;
+  });
+}
+
+// Get amount conflicts found while merging, newest first
+export async function getConflicts(): Promise<FieldConflict[]> {
+  const db = await initDB();
+  const conflicts = await db.getAllFromIndex(CONFLICTS_STORE, "by-detected");
+  return (await decryptRecords(CONFLICTS_STORE, conflicts)).reverse();
+}
+
+export async function getOpenConflictCount(): Promise<number> {
+  return (await getConflicts()).filter((c) => c.resolvedAt === null).length;
+}
+
+// Queue the amount conflicts the server reported on a push
+export async function addSyncConflicts(pushed: PushedConflict[]): Promise<void> {
+  const now = Date.now();
+  const rows = await Promise.all(
+    pushed.map((conflict) =>
+      encryptRecord(CONFLICTS_STORE, {
+        ...conflict,
+        source: "sync" as const,
+        detectedAt: now,
+        resolvedAt: null,
+        resolvedBy: null,
+      })
+    )
+  );
+
+  const db = await initDB();
+  const tx = db.transaction(CONFLICTS_STORE, "readwrite");
+  for (const row of rows) await tx.store.add(row);
+  await tx.done;
+  publishChange({ conflicts: true });
+  console.log(`[DB] Server reported ${rows.length} conflicts`);
+}
+
+// Settle a conflict. Picking the side that was not applied writes its values
+// again with a fresh clock, so every device converges on the choice.
+export async function resolveConflict(id: number, pick: "local" | "remote"): Promise<FieldConflict> {
+  const db = await initDB();
+  const stored = await db.get(CONFLICTS_STORE, id);
+
+  if (!stored) {
+    throw new Error(`Conflict ${id} not found`);
+  }
+  const conflict = await decryptRecord(CONFLICTS_STORE, stored);
+  if (conflict.resolvedAt !== null) return conflict;
+
+  if (pick !== conflict.applied) {
+    await writeChange(
+      conflict.store,
+      conflict.recordId,
+      conflict[pick] as Partial<GiftEntryDB>,
+      "update",
+      "conflictReview"
+    );
+  }
+
+  const resolved: FieldConflict = {
+    ...conflict,
+    applied: pick,
+    resolvedAt: Date.now(),
+    resolvedBy: getRecorderName() || getDeviceId(),
+  };
+  await db.put(CONFLICTS_STORE, await encryptRecord(CONFLICTS_STORE, resolved));
+  publishChange({ conflicts: true });
+  return resolved;
+}
+
+// Role credentials (hashes only); never part of a backup
+export async function getCredentials(): Promise<Credential[]> {
+  const db = await initDB();
+  return db.getAll(CREDENTIALS_STORE);
+}
+
+export async function saveCredential(credential: Credential): Promise<void> {
+  const db = await initDB();
+  await db.put(CREDENTIALS_STORE, credential);
+  console.log(`[DB] Credential set for role: ${credential.role}`);
+}
+
+export async function getLockout(scope: string): Promise<LockoutState> {
+  const db = await initDB();
+  return (
+    (await db.get(LOCKOUTS_STORE, scope)) ?? {
+      scope,
+      failedAttempts: 0,
+      lockedUntil: null,
+      lockouts: 0,
+    }
+  );
+}
+
+export async function saveLockout(state: LockoutState): Promise<void> {
+  const db = await initDB();
+  await db.put(LOCKOUTS_STORE, state);
+}
+
+// At-rest encryption settings; undefined while encryption is off
+export async function getVaultConfig(): Promise<VaultConfig | undefined> {
+  const db = await initDB();
+  return db.get(VAULT_STORE, "config");
+}
+
+// Rewrite every guest, gift, audit event, conflict, contact and gift we gave under another key (null
+// writes them in clear text), saving the matching vault config in the same
+// transaction so the data and the passphrase check never disagree. A row
+// another tab writes meanwhile would be left under the old key, so each store
+// must still hold exactly what was read, or the whole rekey reruns.
+export async function rekeyAllRecords(
+  nextKey: CryptoKey | null,
+  config: VaultConfig | null
+): Promise<void> {
+  return retryStaleWrite(async () => {
+    const db = await initDB();
+    type RekeyedStore = "guests" | "gifts" | "audit" | "conflicts" | "contacts" | "outgoingGifts";
+    const reads: [storeName: RekeyedStore, rows: unknown[]][] = [];
+    const rekey = async <T extends { encrypted?: string }>(
+      storeName: RekeyedStore,
+      rows: T[]
+    ): Promise<T[]> => {
+      reads.push([storeName, rows]);
+      return Promise.all(
+        rows.map(async (row) => encryptRecord(storeName, await decryptRecord(storeName, row), nextKey))
+      );
+    };
+
+    const guests = await rekey(STORE_NAME, await db.getAll(STORE_NAME));
+    const gifts = await rekey(GIFTS_STORE, await db.getAll(GIFTS_STORE));
+    const events = await rekey(AUDIT_STORE, await db.getAll(AUDIT_STORE));
+    const conflicts = await rekey(CONFLICTS_STORE, await db.getAll(CONFLICTS_STORE));
+    const contacts = await rekey(CONTACTS_STORE, await db.getAll(CONTACTS_STORE));
+    const given = await rekey(OUTGOING_GIFTS_STORE, await db.getAll(OUTGOING_GIFTS_STORE));
+    const storedConfig = await db.get(VAULT_STORE, "config");
+
+    const tx = db.transaction(
+      [STORE_NAME, GIFTS_STORE, AUDIT_STORE, CONFLICTS_STORE, CONTACTS_STORE, OUTGOING_GIFTS_STORE, VAULT_STORE],
+      "readwrite"
+    );
+    // Whole stores, so rows added or removed meanwhile count too
+    const wholeStore = (storeName: RekeyedStore) => ({ get: () => tx.objectStore(storeName).getAll() });
+    await assertUnchanged(tx, [
+      ...reads.map(([storeName, rows]): PriorRead => [wholeStore(storeName), storeName, rows]),
+      [tx.objectStore(VAULT_STORE), "config", storedConfig],
+    ]);
+
+    for (const row of guests) await tx.objectStore(STORE_NAME).put(row);
+    for (const row of gifts) await tx.objectStore(GIFTS_STORE).put(row);
+    for (const row of events) await tx.objectStore(AUDIT_STORE).put(row);
+    for (const row of conflicts) await tx.objectStore(CONFLICTS_STORE).put(row);
+    for (const row of contacts) await tx.objectStore(CONTACTS_STORE).put(row);
+    for (const row of given) await tx.objectStore(OUTGOING_GIFTS_STORE).put(row);
+    if (config) {
+      await tx.objectStore(VAULT_STORE).put(config);
+    } else {
+      await tx.objectStore(VAULT_STORE).delete("config");
+    }
+    await tx.done;
+    publishChange({ all: true, vault: true });
+    console.log(`[DB] Rekeyed ${guests.length} guests, ${gifts.length} gifts, ${events.length} events`);
+  });
+}
+
+// Every event on this device, oldest first
+export async function getEvents(): Promise<WeddingEvent[]> {
+  const db = await initDB();
+  const events = await db.getAll(EVENTS_STORE);
+  return events.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+// Add or edit an event. Changed details get a fresh clock and go out with
+// the next push.
+export async function saveEvent(event: WeddingEvent): Promise<void> {
+  const db = await initDB();
+  const tx = db.transaction(EVENTS_STORE, "readwrite");
+  const existing = await tx.store.get(event.id);
+  await tx.store.put(stampFieldClocks(existing, { ...event, syncStatus: "pending" }));
+  await tx.done;
+  publishChange({ events: true });
+  console.log("[DB] Saved event:", event);
+}
+
+// Every contact, including ones merged into another
+export async function getContacts(): Promise<Contact[]> {
+  const db = await initDB();
+  return decryptRecords(CONTACTS_STORE, await db.getAll(CONTACTS_STORE));
+}
+
+export async function getContact(id: string): Promise<Contact | undefined> {
+  const db = await initDB();
+  const stored = await db.get(CONTACTS_STORE, id);
+  return stored && decryptRecord(CONTACTS_STORE, stored);
+}
+
+type ReciprocityStore = "contacts" | "outgoingGifts";
+
+// Write a contact or a gift we gave, giving the fields that changed a fresh
+// clock so an imported backup merges field by field
+async function saveReciprocityRecord<S extends ReciprocityStore>(
+  storeName: S,
+  record: WeddingDB[S]["value"]
+): Promise<void> {
+  return retryStaleWrite(async () => {
+    const db = await initDB();
+    const stored = await db.get(storeName, record.id);
+    const existing = stored && (await decryptRecord(storeName, stored));
+    const row = await encryptRecord(storeName, stampFieldClocks(existing, record));
+
+    const tx = db.transaction(storeName, "readwrite");
+    await assertUnchanged(tx, [[tx.store, record.id, stored]]);
+    await tx.store.put(row);
+    await tx.done;
+  });
+}
+
+export async function saveContact(contact: Contact): Promise<void> {
+  await saveReciprocityRecord(CONTACTS_STORE, contact);
+  publishChange({ reciprocity: true });
+  console.log("[DB] Saved contact:", contact.id);
+}
+
+// Merge other contacts into keep. The merged ones stay behind pointing at
+// keep, so guests linked to them on other devices still find it; the gifts we
+// gave them move over at once, and this device's guests are relinked after.
+export async function mergeContacts(keep: Contact, mergedIds: string[]): Promise<void> {
+  const others = mergedIds.filter((id) => id !== keep.id);
+
+  await retryStaleWrite(async () => {
+    const db = await initDB();
+    const now = Date.now();
+    const contactReads: [string, Contact][] = [];
+    const givenReads: [string, OutgoingGift[]][] = [];
+
+    const changesById = new Map<string, Partial<Contact>>([
+      [keep.id, { ...keep, mergedInto: null }],
+      ...others.map((id): [string, Partial<Contact>] => [id, { mergedInto: keep.id }]),
+    ]);
+    const contactRows: Contact[] = [];
+    for (const [id, changes] of changesById) {
+      const stored = await db.get(CONTACTS_STORE, id);
+      if (!stored) throw new Error(`Contact ${id} not found`);
+      contactReads.push([id, stored]);
+      const contact = await decryptRecord(CONTACTS_STORE, stored);
+      const merged = stampFieldClocks(contact, { ...contact, ...changes, updatedAt: now });
+      contactRows.push(await encryptRecord(CONTACTS_STORE, merged));
+    }
+
+    const givenRows: OutgoingGift[] = [];
+    for (const id of others) {
+      const given = await db.getAllFromIndex(OUTGOING_GIFTS_STORE, "by-contact", id);
+      givenReads.push([id, given]);
+      for (const gift of await decryptRecords(OUTGOING_GIFTS_STORE, given)) {
+        const moved = stampFieldClocks(gift, { ...gift, contactId: keep.id, updatedAt: now });
+        givenRows.push(await encryptRecord(OUTGOING_GIFTS_STORE, moved));
+      }
+    }
+
+    const tx = db.transaction([CONTACTS_STORE, OUTGOING_GIFTS_STORE], "readwrite");
+    const contacts = tx.objectStore(CONTACTS_STORE);
+    const given = tx.objectStore(OUTGOING_GIFTS_STORE);
+    // Gifts are checked by contact, so one given to them since counts too
+    const givenByContact = { get: (id: string) => given.index("by-contact").getAll(id) };
+    await assertUnchanged(tx, [
+      ...contactReads.map(([id, stored]): PriorRead => [contacts, id, stored]),
+      ...givenReads.map(([id, stored]): PriorRead => [givenByContact, id, stored]),
+    ]);
+    for (const row of contactRows) await contacts.put(row);
+    for (const row of givenRows) await given.put(row);
+    await tx.done;
+  });
+  publishChange({ reciprocity: true });
+
+  const guests = (await getAllGuests()).filter((g) => g.contactId && others.includes(g.contactId));
+  await linkGuestsToContact(guests.map((g) => g.id), keep.id, "contacts");
+  console.log(`[DB] Merged contacts ${others.join(", ")} into ${keep.id}`);
+}
+
+// Gifts we gave at other families' events, including removed ones
+export async function getOutgoingGifts(): Promise<OutgoingGift[]> {
+  const db = await initDB();
+  return decryptRecords(OUTGOING_GIFTS_STORE, await db.getAll(OUTGOING_GIFTS_STORE));
+}
+
+// Add or edit a gift we gave (removing one sets its tombstone)
+export async function saveOutgoingGift(gift: OutgoingGift): Promise<void> {
+  await saveReciprocityRecord(OUTGOING_GIFTS_STORE, gift);
+  publishChange({ reciprocity: true });
+  console.log("[DB] Saved outgoing gift:", gift.id);
+}
+
+export async function deleteOutgoingGift(id: string, reason: string): Promise<void> {
+  const db = await initDB();
+  const stored = await db.get(OUTGOING_GIFTS_STORE, id);
+  if (!stored) {
+    throw new Error(`Outgoing gift ${id} not found`);
+  }
+  const gift = await decryptRecord(OUTGOING_GIFTS_STORE, stored);
+  await saveOutgoingGift({ ...gift, deleted: createTombstone(reason), updatedAt: Date.now() });
+}
+
+// Point guests (of any event) at a contact, or at none
+export async function linkGuestsToContact(
+  guestIds: string[],
+  contactId: string | null,
+  source: AuditSource = "reciprocity"
+): Promise<GuestRecordDB[]> {
+  const linked: GuestRecordDB[] = [];
+  for (const id of guestIds) {
+    linked.push(await saveGuestRecord(id, { contactId }, source));
   }
+  return linked;
 }
 
-// Export all data for backup
-export async function exportBackup(): Promise<BackupData> {
-  const guests = await getAllGuests();
-  const pendingCount = guests.filter(
-    (g) => g.syncStatus === "pending" || g.syncStatus === "local"
+// Export one event's guests and gifts for backup, with the contacts its
+// guests belong to and what was given to them. The ledger keeps every entry
+// so the hash chain still verifies, but other events' entries only carry
+// digests of their values (entries sealed before that are kept whole).
+export async function exportBackup(eventId: string): Promise<BackupData> {
+  const db = await initDB();
+  const guests = (await getAllGuests()).filter((g) => eventOf(g) === eventId);
+  const gifts = (await getAllGifts()).filter((g) => eventOf(g) === eventId);
+  const event = await db.get(EVENTS_STORE, eventId);
+  const rates = await db.getAll(RATES_STORE);
+
+  const inEvent = new Set([...guests, ...gifts].map((r) => r.id));
+  const ledger = await Promise.all(
+    (await decryptRecords(AUDIT_STORE, await db.getAll(AUDIT_STORE))).map((e) =>
+      !e.guestId || inEvent.has(e.giftId ?? e.guestId) ? e : redactEvent(e)
+    )
+  );
+
+  // The contacts its guests belong to, with any merged into them, so links
+  // on either side still resolve
+  const allContacts = await getContacts();
+  const contactsById = new Map(allContacts.map((c) => [c.id, c]));
+  const linked = new Set(
+    guests.flatMap((g) => (g.contactId ? [resolveContactId(contactsById, g.contactId)] : []))
+  );
+  const isLinked = (id: string) => linked.has(resolveContactId(contactsById, id));
+  const contacts = allContacts.filter((c) => isLinked(c.id));
+  const outgoingGifts = (await getOutgoingGifts()).filter((g) => isLinked(g.contactId));
+  const pendingCount = [...guests, ...gifts].filter(
+    (r) => r.syncStatus === "pending" || r.syncStatus === "local"
   ).length;
+  const lastSealed = [...ledger].reverse().find((e) => e.hash);
+  const activeGuestIds = new Set(guests.filter((g) => !g.deleted).map((g) => g.id));
 
   return {
-    version: 1,
+    version: 7,
     exportedAt: new Date().toISOString(),
     guests,
+    gifts,
+    ledger,
+    rates,
+    events: event ? [event] : [],
+    contacts,
+    outgoingGifts,
     metadata: {
       totalRecords: guests.length,
       pendingSync: pendingCount,
+      ledgerHead: lastSealed?.hash ?? null,
+      totals: currencyTotals(
+        gifts.filter((g) => isActiveGift(g) && activeGuestIds.has(g.guestId))
+      ),
     },
   };
 }
 
+// Merge backed-up contacts or gifts we gave into the local copies, field by
+// field on their clocks, and encrypt the ones that change. Rows from before
+// clocks fall back to their updatedAt.
+async function mergeReciprocityRecords<S extends ReciprocityStore>(
+  db: IDBPDatabase<WeddingDB>,
+  storeName: S,
+  incoming: WeddingDB[S]["value"][]
+): Promise<{ id: string; stored?: WeddingDB[S]["value"]; row: WeddingDB[S]["value"] }[]> {
+  const merged = new Map<string, { stored?: WeddingDB[S]["value"]; record: WeddingDB[S]["value"] }>();
+  for (const record of incoming) {
+    const clock = latestClock(record);
+    if (clock) receiveHlc(clock);
+
+    const known = merged.get(record.id);
+    const stored = known ? known.stored : await db.get(storeName, record.id);
+    const local = known?.record ?? (stored && (await decryptRecord(storeName, stored)));
+    if (!local) {
+      merged.set(record.id, { stored, record });
+      continue;
+    }
+    const result = mergeRecords(local, record, getDeviceId(), false);
+    if (result.remoteWon) merged.set(record.id, { stored, record: result.merged });
+  }
+
+  return Promise.all(
+    [...merged].map(async ([id, { stored, record }]) => ({
+      id,
+      stored,
+      row: await encryptRecord(storeName, record),
+    }))
+  );
+}
+
 // Import backup data
 export async function importBackup(data: BackupData): Promise<{
   imported: number;
   skipped: number;
   errors: number;
 }> {
-  const db = await initDB();
-  let imported = 0;
-  let skipped = 0;
-  let errors = 0;
+  return retryStaleWrite(async () => {
+    const db = await initDB();
+    const now = Date.now();
+    let imported = 0;
+    let skipped = 0;
+    let errors = 0;
 
-  const tx = db.transaction(STORE_NAME, "readwrite");
-  const store = tx.objectStore(STORE_NAME);
+    // Backups from before version 3 keep a single gift on each guest row
+    const legacyGifts: GiftEntryDB[] = [];
+    const guests = data.guests.map((row) => {
+      const raw = row as unknown as Record<string, unknown>;
+      const gift = giftFromLegacyGuest(raw);
+      if (gift) legacyGifts.push(gift);
+      return stripLegacyGiftFields(raw) as unknown as GuestRecordDB;
+    });
+    const gifts = (data.gifts ?? legacyGifts).map(withOriginalAmount);
 
-  for (const guest of data.guests) {
-    try {
-      const existing = await store.get(guest.id);
-      
-      // Only import if newer (last write wins)
-      if (!existing || guest.updatedAt > existing.updatedAt) {
-        await store.put({
-          ...guest,
-          syncStatus: "pending", // Will need to sync after import
-        });
-        imported++;
-      } else {
-        skipped++;
+    // Merged field by field like a sync pull; imported rows need to sync again
+    const localGuests = await readLocalCopies(db, STORE_NAME, guests.map((g) => g.id));
+    const localGifts = await readLocalCopies(db, GIFTS_STORE, gifts.map((g) => g.id));
+    const results: MergeResult[] = [];
+
+    for (const guest of guests) {
+      try {
+        const incoming = { ...guest, deleted: guest.deleted ?? null }; // Backups from before soft delete
+        const result = mergeIncoming(STORE_NAME, localGuests, incoming, "import", now);
+        if (result) {
+          results.push(result);
+          imported++;
+        } else {
+          skipped++;
+        }
+      } catch (e) {
+        console.error(`[DB] Error importing guest ${guest.id}:`, e);
+        errors++;
       }
-    } catch (e) {
-      console.error(`[DB] Error importing guest ${guest.id}:`, e);
-      errors++;
     }
-  }
 
-  await tx.done;
-  console.log(`[DB] Import complete: ${imported} imported, ${skipped} skipped, ${errors} errors`);
-  
-  return { imported, skipped, errors };
+    for (const gift of gifts) {
+      try {
+        const result = mergeIncoming(GIFTS_STORE, localGifts, gift, "import", now);
+        if (result) {
+          results.push(result);
+          imported++;
+        } else {
+          skipped++;
+        }
+      } catch (e) {
+        console.error(`[DB] Error importing gift ${gift.id}:`, e);
+        errors++;
+      }
+    }
+    const rows = await encryptMerges(results);
+    // Backups from before contacts had details
+    const contactMerges = await mergeReciprocityRecords(
+      db,
+      CONTACTS_STORE,
+      (data.contacts ?? []).map(withContactDefaults)
+    );
+    const givenMerges = await mergeReciprocityRecords(db, OUTGOING_GIFTS_STORE, data.outgoingGifts ?? []);
+
+    // Event details merged like a sync pull, and sent on the next push
+    const backupEvents = data.events ?? [];
+    const storedEvents = new Map(
+      await Promise.all(
+        [...new Set(backupEvents.map((e) => e.id))].map(async (id) => [id, await db.get(EVENTS_STORE, id)] as const)
+      )
+    );
+    const eventMerges = mergeRemoteEvents(new Map(storedEvents), backupEvents, now).map(
+      (event): WeddingEvent => ({ ...event, syncStatus: "pending", lastSyncedAt: null })
+    );
+
+    const tx = db.transaction(
+      [
+        STORE_NAME,
+        GIFTS_STORE,
+        AUDIT_STORE,
+        RATES_STORE,
+        CONFLICTS_STORE,
+        EVENTS_STORE,
+        CONTACTS_STORE,
+        OUTGOING_GIFTS_STORE,
+      ],
+      "readwrite"
+    );
+
+    // Merge rate history: add entries this device has not seen
+    const knownRates = await tx.objectStore(RATES_STORE).getAll();
+    for (const rate of data.rates ?? []) {
+      const known = knownRates.some(
+        (r) => r.effectiveFrom === rate.effectiveFrom && r.rate === rate.rate
+      );
+      if (!known) {
+        const { id: _id, ...entry } = rate;
+        await tx.objectStore(RATES_STORE).add(entry);
+      }
+    }
+
+    // Events, contacts and gifts we gave, merged field by field like guests
+    const events = tx.objectStore(EVENTS_STORE);
+    const contacts = tx.objectStore(CONTACTS_STORE);
+    const given = tx.objectStore(OUTGOING_GIFTS_STORE);
+    await assertUnchanged(tx, [
+      ...[...storedEvents].map(([id, stored]): PriorRead => [events, id, stored]),
+      ...contactMerges.map(({ id, stored }): PriorRead => [contacts, id, stored]),
+      ...givenMerges.map(({ id, stored }): PriorRead => [given, id, stored]),
+    ]);
+    for (const event of eventMerges) await events.put(event);
+    for (const { row } of contactMerges) await contacts.put(row);
+    for (const { row } of givenMerges) await given.put(row);
+
+    await writeMerges(tx, rows);
+    await tx.done;
+    publishChange({ all: true });
+    console.log(`[DB] Import complete: ${imported} imported, ${skipped} skipped, ${errors} errors`);
+
+    return { imported, skipped, errors };
+  });
+}
+
+// Encrypt audit events ahead of their transaction; null means nothing changed
+function encryptAudit(events: (AuditEvent | null)[]): Promise<AuditEvent[]> {
+  return Promise.all(
+    events.filter((e): e is AuditEvent => e !== null).map((e) => encryptRecord(AUDIT_STORE, e))
+  );
+}
+
+// Append events to the audit log inside the caller's transaction
+// and hash-chain them once the transaction commits
+async function appendAudit(
+  audit: { add(value: AuditEvent): Promise<number>; transaction: { done: Promise<void> } },
+  events: (AuditEvent | null)[]
+): Promise<void> {
+  const added = events.filter((e): e is AuditEvent => e !== null);
+  for (const event of added) await audit.add(event);
+  if (added.length > 0) audit.transaction.done.then(sealSoon, () => undefined);
+}
+
+// Log a lock or unlock of the app
+export async function logSessionEvent(action: SessionAction, detail: string): Promise<void> {
+  const event = await encryptRecord(AUDIT_STORE, buildSessionEvent(action, detail));
+  const db = await initDB();
+  await db.add(AUDIT_STORE, event);
+  await sealSoon();
+}
+
+// Get audit events, newest first
+export async function getAuditEvents(filter: AuditFilter = {}): Promise<AuditEvent[]> {
+  const db = await initDB();
+  const events = filter.guestId
+    ? await db.getAllFromIndex(AUDIT_STORE, "by-guest", filter.guestId)
+    : await db.getAllFromIndex(AUDIT_STORE, "by-timestamp");
+
+  const matching = events.filter(
+    (e) =>
+      (!filter.action || e.action === filter.action) &&
+      (!filter.source || e.source === filter.source) &&
+      (filter.from === undefined || e.timestamp >= filter.from) &&
+      (filter.to === undefined || e.timestamp <= filter.to)
+  );
+  return (await decryptRecords(AUDIT_STORE, matching)).sort((a, b) => b.timestamp - a.timestamp);
+}
+
+// Get applied schema migrations, oldest first
+export async function getMigrationHistory(): Promise<MigrationHistoryEntry[]> {
+  const db = await initDB();
+  return db.getAll("migrations");
+}
+
+// Version the database is open at, and the one this build migrates to
+export async function getSchemaVersion(): Promise<{ current: number; latest: number }> {
+  const db = await initDB();
+  return { current: db.version, latest: DB_VERSION };
+}
+
+// Roll the database back to a pre-migration snapshot and keep it there until
+// resumeMigrations() or a build with newer migrations. Other tabs close their
+// connection when it is deleted and reopen at the pinned version.
+export async function rollbackToSnapshot(snapshotId: number): Promise<void> {
+  dbInstance?.close();
+  dbInstance = null;
+  pinSchemaVersion(await restoreSnapshotData(DB_NAME, snapshotId));
+  publishChange({ all: true });
+}
+
+// Run the migrations a rollback held back
+export async function resumeMigrations(): Promise<void> {
+  unpinSchemaVersion();
+  dbInstance?.close();
+  dbInstance = null;
+  await initDB();
+  publishChange({ all: true });
 }
 
 // Clear all data (for testing/reset)
 export async function clearAllData(): Promise<void> {
   const db = await initDB();
   await db.clear(STORE_NAME);
+  await db.clear(GIFTS_STORE);
+  publishChange({ all: true });
   console.log("[DB] All data cleared");
 }
 
@@ -268,30 +1763,35 @@ export async function migrateFromLocalStorage(): Promise<boolean> {
     const records = parsed.records || {};
     const customGuests = parsed.customGuests || [];
     
+    // Runs before encryption can have been turned on, so rows go in as is
     const db = await initDB();
-    const tx = db.transaction(STORE_NAME, "readwrite");
+    const tx = db.transaction([STORE_NAME, GIFTS_STORE, AUDIT_STORE], "readwrite");
     const store = tx.objectStore(STORE_NAME);
+    const giftStore = tx.objectStore(GIFTS_STORE);
+    const audit = tx.objectStore(AUDIT_STORE);
     const now = Date.now();
 
     // Migrate custom guests
     for (const guest of customGuests) {
       const existing = await store.get(guest.id);
       if (!existing) {
-        await store.put({
+        const record: GuestRecordDB = {
           id: guest.id,
+          eventId: DEFAULT_EVENT_ID,
           name: guest.name,
           displayName: guest.name,
           side: guest.side,
-          amountRiel: null,
-          paymentType: "cash",
-          bankType: null,
-          bankRef: null,
           note: "",
           updatedAt: now,
           syncStatus: "pending",
           lastSyncedAt: null,
           isCustomGuest: true,
-        });
+          deleted: null,
+        };
+        await store.put(record);
+        await appendAudit(audit, [
+          buildAuditEvent("migration", "migrateFromLocalStorage", null, record),
+        ]);
       }
     }
 
@@ -300,21 +1800,38 @@ export async function migrateFromLocalStorage(): Promise<boolean> {
       const r = record as any;
       const existing = await store.get(id);
       if (existing) {
-        await store.put({
+        const updatedAt = r.updatedAt ? new Date(r.updatedAt).getTime() : now;
+        const record: GuestRecordDB = {
           ...existing,
           displayName: r.displayName || existing.displayName,
+          note: r.note || "",
+          updatedAt,
+          syncStatus: "pending",
+        };
+        await store.put(record);
+        await appendAudit(audit, [
+          buildAuditEvent("migration", "migrateFromLocalStorage", existing, record),
+        ]);
+
+        const gift = giftFromLegacyGuest({
+          id,
           amountRiel: r.amountRiel,
-          paymentType: r.paymentType || "cash",
+          paymentType: r.paymentType,
           bankType: r.bank?.type || null,
           bankRef: r.bank?.ref || null,
-          note: r.note || "",
-          updatedAt: r.updatedAt ? new Date(r.updatedAt).getTime() : now,
-          syncStatus: "pending",
+          updatedAt,
         });
+        if (gift && !(await giftStore.get(gift.id))) {
+          await giftStore.put(gift);
+          await appendAudit(audit, [
+            buildAuditEvent("migration", "migrateFromLocalStorage", null, gift),
+          ]);
+        }
       }
     }
 
     await tx.done;
+    publishChange({ all: true });
     
     // Remove old localStorage after successful migration
     localStorage.removeItem(STORAGE_KEY);
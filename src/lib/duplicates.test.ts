@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { defaultMerge, findDuplicateGuests, resolveMergedGuest } from "@/lib/duplicates";
+import { GiftEntry, GuestRecord } from "@/types/guest";
+import { GuestRecordDB } from "@/types/sync";
+
+function gift(id: string, bankRef: string | null = null): GiftEntry {
+  return {
+    id,
+    amountRiel: 100000,
+    currency: "KHR",
+    originalAmount: 100000,
+    exchangeRate: 4100,
+    paymentType: bankRef ? "bank" : "cash",
+    bank: bankRef ? { type: "ABA", ref: bankRef } : null,
+    receivedAt: "2025-01-15T18:00:00",
+    recorder: "",
+  };
+}
+
+function guest(id: string, name: string, overrides: Partial<GuestRecord> = {}): GuestRecord {
+  return {
+    id,
+    name,
+    side: "groom",
+    displayName: name,
+    amountRiel: null,
+    gifts: [],
+    note: "",
+    isCustomGuest: false,
+    group: "",
+    phone: "",
+    expectedAttendees: null,
+    updatedAt: null,
+    ...overrides,
+  };
+}
+
+describe("findDuplicateGuests", () => {
+  it("clusters alike names on the same side, in either word order", () => {
+    const clusters = findDuplicateGuests([
+      guest("a", "Lay Mengly"),
+      guest("b", "Mengly Lay & Wife", { isCustomGuest: true }),
+      guest("c", "Chan Sreymom"),
+    ]);
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].guests.map((g) => g.id)).toEqual(["a", "b"]);
+    expect(clusters[0].reasons).toEqual(["name"]);
+  });
+
+  it("leaves alike names on different sides apart", () => {
+    expect(findDuplicateGuests([guest("a", "Lay Mengly"), guest("b", "Lay Mengly", { side: "bride" })])).toEqual(
+      []
+    );
+  });
+
+  it("clusters guests with the same bank transfer", () => {
+    const clusters = findDuplicateGuests([
+      guest("a", "Sok Dara", { gifts: [gift("g1", "00 1234")] }),
+      guest("b", "Keo Pisey", { side: "bride", gifts: [gift("g2", "001234")] }),
+    ]);
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].reasons).toEqual(["bankRef"]);
+  });
+
+  it("chains pairs into one cluster", () => {
+    const clusters = findDuplicateGuests([
+      guest("a", "Sok Dara", { gifts: [gift("g1", "555")] }),
+      guest("b", "Sok Darra"),
+      guest("c", "Heng Vanna", { gifts: [gift("g2", "555")] }),
+    ]);
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].guests.map((g) => g.id).sort()).toEqual(["a", "b", "c"]);
+  });
+});
+
+describe("defaultMerge", () => {
+  it("keeps the first guest, fills empty fields from the others and drops repeated transfers", () => {
+    const [cluster] = findDuplicateGuests([
+      guest("a", "Sok Dara", { gifts: [gift("g1", "777"), gift("g2")] }),
+      guest("b", "Sok Dara", { isCustomGuest: true, phone: "012 345 678", gifts: [gift("g3", "777")] }),
+    ]);
+
+    const merge = defaultMerge(cluster);
+
+    expect(merge.keepId).toBe("a");
+    expect(merge.mergedIds).toEqual(["b"]);
+    expect(merge.fields.phone).toBe("012 345 678");
+    expect(merge.keepGiftIds).toEqual(["g1", "g2"]);
+  });
+});
+
+describe("resolveMergedGuest", () => {
+  it("follows merges to the guest that stands for them, stopping at loops", () => {
+    const row = (id: string, mergedInto: string | null) => [id, { id, mergedInto } as GuestRecordDB] as const;
+    const byId = new Map([row("a", "b"), row("b", "c"), row("c", null), row("x", "y"), row("y", "x")]);
+
+    expect(resolveMergedGuest(byId, "a")).toBe("c");
+    expect(resolveMergedGuest(byId, "x")).toBe("x");
+  });
+});
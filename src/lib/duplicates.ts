@@ -0,0 +1,168 @@
+import { normalizeText, phoneticKey } from "@/lib/search";
+import { GiftEntry, GuestRecord } from "@/types/guest";
+import { GuestRecordDB } from "@/types/sync";
+import { DuplicateCluster, DuplicateReason, GuestMerge, MergeableGuestField } from "@/types/duplicate";
+
+// Guests of one event recorded twice, typically a guest created at the table
+// for someone already on the list under another spelling. Likely pairs are
+// clustered; what to keep is decided on the merge screen.
+
+export const MERGEABLE_GUEST_FIELDS: MergeableGuestField[] = [
+  "displayName",
+  "side",
+  "note",
+  "group",
+  "phone",
+  "expectedAttendees",
+];
+
+export const GUEST_FIELD_LABELS: Record<MergeableGuestField, string> = {
+  displayName: "ឈ្មោះបង្ហាញ",
+  side: "ភ្ញៀវខាង",
+  note: "កំណត់ចំណាំ",
+  group: "ក្រុម",
+  phone: "លេខទូរស័ព្ទ",
+  expectedAttendees: "ចំនួនអ្នកចូលរួម",
+};
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  name: "ឈ្មោះស្រដៀងគ្នា",
+  bankRef: "លេខប្រតិបត្តិការដូចគ្នា",
+};
+
+// Names this close, as a share of the longer phonetic key, sound alike
+const MAX_NAME_DISTANCE = 0.25;
+
+function editDistance(a: string, b: string): number {
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const next = [i];
+    for (let j = 1; j <= b.length; j++) {
+      next.push(Math.min(row[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1), row[j] + 1, next[j - 1] + 1));
+    }
+    row = next;
+  }
+  return row[b.length];
+}
+
+// Phonetic keys of both names, without an unnamed partner ("& Wife") and in
+// word order, so "Lay Mengly" and "ម៉េងលី ឡាយ" compare alike
+function nameKeys(guest: GuestRecord): string[] {
+  const keys = [guest.name, guest.displayName].map((name) =>
+    phoneticKey(name.split("&")[0]).split(" ").filter(Boolean).sort().join(" ")
+  );
+  return [...new Set(keys.filter(Boolean))];
+}
+
+function namesAlike(a: string[], b: string[]): boolean {
+  return a.some((x) =>
+    b.some((y) => editDistance(x, y) <= Math.floor(Math.max(x.length, y.length) * MAX_NAME_DISTANCE))
+  );
+}
+
+function bankRefKey(gift: GiftEntry): string | null {
+  const ref = gift.bank && normalizeText(gift.bank.ref).replace(/\s/g, "");
+  return ref ? `${gift.bank!.type}:${ref}` : null;
+}
+
+function guestName(guest: GuestRecord): string {
+  return guest.displayName || guest.name;
+}
+
+// Seeded guests first, since the invitation list is usually the one to keep
+function keepOrder(a: GuestRecord, b: GuestRecord): number {
+  return (
+    Number(a.isCustomGuest) - Number(b.isCustomGuest) ||
+    (a.updatedAt ?? "").localeCompare(b.updatedAt ?? "")
+  );
+}
+
+// Likely-same guests of one event: alike names on the same side, or a bank
+// transfer recorded under both. Pairs chain into clusters.
+export function findDuplicateGuests(guests: GuestRecord[]): DuplicateCluster[] {
+  const parent = guests.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const links: [number, number, DuplicateReason][] = [];
+  const link = (i: number, j: number, reason: DuplicateReason) => {
+    parent[find(i)] = find(j);
+    links.push([i, j, reason]);
+  };
+
+  const keys = guests.map(nameKeys);
+  for (let i = 0; i < guests.length; i++) {
+    for (let j = i + 1; j < guests.length; j++) {
+      if (guests[i].side === guests[j].side && namesAlike(keys[i], keys[j])) link(i, j, "name");
+    }
+  }
+
+  const byRef = new Map<string, number>();
+  guests.forEach((guest, i) => {
+    for (const ref of guest.gifts.map(bankRefKey)) {
+      if (!ref) continue;
+      const first = byRef.get(ref);
+      if (first === undefined) byRef.set(ref, i);
+      else if (first !== i) link(first, i, "bankRef");
+    }
+  });
+
+  const reasons = new Map<number, Set<DuplicateReason>>();
+  for (const [i, , reason] of links) {
+    const root = find(i);
+    reasons.set(root, (reasons.get(root) ?? new Set()).add(reason));
+  }
+  return [...reasons.entries()]
+    .map(([root, found]) => ({
+      guests: guests.filter((_, i) => find(i) === root).sort(keepOrder),
+      reasons: [...found],
+    }))
+    .sort((a, b) => guestName(a.guests[0]).localeCompare(guestName(b.guests[0])));
+}
+
+// Starting point for the merge screen: keep the first guest, fill each field
+// from the first guest that has it, and keep every gift but repeats of the
+// same bank transfer
+export function defaultMerge(cluster: DuplicateCluster): GuestMerge {
+  const [keep, ...others] = cluster.guests;
+  const pick = <F extends MergeableGuestField>(field: F): GuestRecord[F] =>
+    (cluster.guests.find((g) => g[field] !== "" && g[field] !== null) ?? keep)[field];
+
+  const seenRefs = new Set<string>();
+  const keepGiftIds = cluster.guests.flatMap((guest) =>
+    guest.gifts
+      .filter((gift) => {
+        const ref = bankRefKey(gift);
+        if (!ref) return true;
+        if (seenRefs.has(ref)) return false;
+        seenRefs.add(ref);
+        return true;
+      })
+      .map((gift) => gift.id)
+  );
+
+  return {
+    keepId: keep.id,
+    mergedIds: others.map((g) => g.id),
+    fields: {
+      displayName: pick("displayName"),
+      side: keep.side,
+      note: pick("note"),
+      group: pick("group"),
+      phone: pick("phone"),
+      expectedAttendees: pick("expectedAttendees"),
+    },
+    keepGiftIds,
+  };
+}
+
+// The guest that now stands for id, following merges
+export function resolveMergedGuest(guestsById: Map<string, GuestRecordDB>, id: string): string {
+  const seen = new Set<string>();
+  let current = id;
+  while (!seen.has(current)) {
+    seen.add(current);
+    const next = guestsById.get(current)?.mergedInto;
+    if (!next) break;
+    current = next;
+  }
+  return current;
+}
@@ -0,0 +1,36 @@
+// The event this device is working on. Guests and gifts carry the id of their
+// event; everything stored before events existed belongs to the default one.
+
+const ACTIVE_EVENT_KEY = "wedding_active_event";
+
+export const DEFAULT_EVENT_ID = "default";
+export const DEFAULT_EVENT_NAME = "ពិធីមង្គលការ";
+
+type EventListener = (eventId: string) => void;
+const listeners = new Set<EventListener>();
+
+export function getActiveEventId(): string {
+  return localStorage.getItem(ACTIVE_EVENT_KEY) ?? DEFAULT_EVENT_ID;
+}
+
+export function setActiveEventId(eventId: string): void {
+  if (eventId === getActiveEventId()) return;
+  localStorage.setItem(ACTIVE_EVENT_KEY, eventId);
+  listeners.forEach((listener) => listener(eventId));
+}
+
+export function subscribeToActiveEvent(listener: EventListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function createEventId(): string {
+  return `EVENT_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Records from older backups and devices have no event yet
+export function eventOf(record: { eventId?: string }): string {
+  return record.eventId || DEFAULT_EVENT_ID;
+}
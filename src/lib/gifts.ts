@@ -0,0 +1,98 @@
+import { CurrencyTotals, GiftEntryDB, SyncStatus, Tombstone } from "@/types/sync";
+import { Currency } from "@/types/guest";
+import { eventOf } from "@/lib/events";
+
+// Helpers for gift line items, shared by migrations, imports and the UI
+
+export function createGiftId(): string {
+  return `GIFT_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Gifts converted from a single-amount guest record get an id derived from
+// the guest, so every device migrating the same guest ends up with the same
+// line item and backups converge instead of duplicating it.
+export function legacyGiftId(guestId: string): string {
+  return `LEGACY_${guestId}`;
+}
+
+// Gifts recorded before the original amount was kept were all converted at
+// this fixed rate, so it recovers what a USD guest actually gave
+const LEGACY_USD_TO_KHR_RATE = 4100;
+
+// Fields that lived on the guest record before gifts had their own store
+const LEGACY_GIFT_FIELDS = ["amountRiel", "paymentType", "bankType", "bankRef", "giftDeleted"];
+
+// Turn the old single amount on a guest row into a line item (null if none)
+export function giftFromLegacyGuest(row: Record<string, unknown>): GiftEntryDB | null {
+  const amountRiel = row.amountRiel;
+  if (typeof amountRiel !== "number" || amountRiel <= 0) return null;
+
+  const updatedAt = typeof row.updatedAt === "number" ? row.updatedAt : Date.now();
+
+  return {
+    id: legacyGiftId(row.id as string),
+    guestId: row.id as string,
+    eventId: eventOf(row as { eventId?: string }),
+    amountRiel,
+    currency: "KHR",
+    originalAmount: amountRiel,
+    exchangeRate: LEGACY_USD_TO_KHR_RATE,
+    paymentType: row.paymentType === "bank" ? "bank" : "cash",
+    bankType: (row.bankType as GiftEntryDB["bankType"]) ?? null,
+    bankRef: (row.bankRef as string) ?? null,
+    receivedAt: updatedAt,
+    recorder: "",
+    updatedAt,
+    syncStatus: (row.syncStatus as SyncStatus) ?? "pending",
+    lastSyncedAt: (row.lastSyncedAt as number) ?? null,
+    deleted: (row.giftDeleted as Tombstone) ?? null,
+  };
+}
+
+export function stripLegacyGiftFields<T extends Record<string, unknown>>(row: T): T {
+  const stripped = { ...row };
+  for (const field of LEGACY_GIFT_FIELDS) {
+    delete stripped[field];
+  }
+  return stripped;
+}
+
+// Riel value of a gift at the rate in effect when it was recorded
+export function toRiel(originalAmount: number, currency: Currency, exchangeRate: number): number {
+  return currency === "USD" ? Math.round(originalAmount * exchangeRate) : originalAmount;
+}
+
+// Fill in originalAmount/exchangeRate on gifts stored before they existed
+export function withOriginalAmount<T extends object>(row: T): T {
+  const gift = row as Partial<GiftEntryDB>;
+  if (typeof gift.originalAmount === "number" && typeof gift.exchangeRate === "number") {
+    return row;
+  }
+
+  const amountRiel = gift.amountRiel ?? 0;
+  return {
+    ...row,
+    originalAmount:
+      gift.currency === "USD"
+        ? Math.round((amountRiel / LEGACY_USD_TO_KHR_RATE) * 100) / 100
+        : amountRiel,
+    exchangeRate: LEGACY_USD_TO_KHR_RATE,
+  };
+}
+
+// Sum gifts per currency; callers pass only the gifts that count
+export function currencyTotals(gifts: GiftEntryDB[]): CurrencyTotals {
+  return gifts.reduce(
+    (totals, gift) => ({
+      usdReceived: totals.usdReceived + (gift.currency === "USD" ? gift.originalAmount : 0),
+      khrReceived: totals.khrReceived + (gift.currency === "KHR" ? gift.originalAmount : 0),
+      grandTotalRiel: totals.grandTotalRiel + gift.amountRiel,
+    }),
+    { usdReceived: 0, khrReceived: 0, grandTotalRiel: 0 }
+  );
+}
+
+// Gifts that count towards totals
+export function isActiveGift(gift: GiftEntryDB): boolean {
+  return !gift.deleted && gift.amountRiel > 0;
+}
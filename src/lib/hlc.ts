@@ -0,0 +1,68 @@
+import { getDeviceId } from "@/lib/audit";
+
+// Hybrid logical clocks: wall time + counter + device id, encoded so that
+// plain string comparison orders them. Unlike updatedAt they keep moving
+// forward when a device's clock is behind the changes it has already seen.
+//
+//   000001760000000000-0000-DEVICE_...
+
+const HLC_KEY = "wedding_hlc";
+const WALL_WIDTH = 15;
+const COUNTER_WIDTH = 4;
+
+interface HlcParts {
+  wall: number;
+  counter: number;
+  deviceId: string;
+}
+
+function encode({ wall, counter, deviceId }: HlcParts): string {
+  return `${String(wall).padStart(WALL_WIDTH, "0")}-${String(counter).padStart(COUNTER_WIDTH, "0")}-${deviceId}`;
+}
+
+export function parseHlc(hlc: string): HlcParts {
+  const [wall, counter, ...device] = hlc.split("-");
+  return { wall: Number(wall), counter: Number(counter), deviceId: device.join("-") };
+}
+
+function lastIssued(): HlcParts {
+  const stored = localStorage.getItem(HLC_KEY);
+  return stored ? parseHlc(stored) : { wall: 0, counter: 0, deviceId: getDeviceId() };
+}
+
+function issue(wall: number, counter: number): string {
+  const hlc = encode({ wall, counter, deviceId: getDeviceId() });
+  localStorage.setItem(HLC_KEY, hlc);
+  return hlc;
+}
+
+// Clock for a change made on this device
+export function tickHlc(): string {
+  const last = lastIssued();
+  const now = Date.now();
+  return now > last.wall ? issue(now, 0) : issue(last.wall, last.counter + 1);
+}
+
+// Move this device's clock past one seen on incoming data
+export function receiveHlc(remote: string): void {
+  const last = lastIssued();
+  const seen = parseHlc(remote);
+  const now = Date.now();
+  const wall = Math.max(now, last.wall, seen.wall);
+
+  if (wall === last.wall && wall === seen.wall) {
+    issue(wall, Math.max(last.counter, seen.counter) + 1);
+  } else if (wall === last.wall) {
+    issue(wall, last.counter + 1);
+  } else if (wall === seen.wall) {
+    issue(wall, seen.counter + 1);
+  } else {
+    issue(wall, 0);
+  }
+}
+
+// Stand-in clock for fields written before per-field clocks existed; the
+// shared "legacy" device makes equal timestamps tie on every device
+export function legacyHlc(updatedAt: number): string {
+  return encode({ wall: updatedAt, counter: 0, deviceId: "legacy" });
+}
@@ -0,0 +1,19 @@
+// Input that counts as someone using the device
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "touchstart", "wheel"] as const;
+
+// Call back once the device has had no input for timeout ms; any input starts
+// the wait again. Returns the stop function.
+export function onIdle(timeout: number, callback: () => void): () => void {
+  let timer: ReturnType<typeof setTimeout>;
+  const reset = () => {
+    clearTimeout(timer);
+    timer = setTimeout(callback, timeout);
+  };
+
+  reset();
+  ACTIVITY_EVENTS.forEach((type) => window.addEventListener(type, reset, { passive: true }));
+  return () => {
+    clearTimeout(timer);
+    ACTIVITY_EVENTS.forEach((type) => window.removeEventListener(type, reset));
+  };
+}
@@ -0,0 +1,154 @@
+import { normalizeText } from "@/lib/search";
+import { GuestRecord } from "@/types/guest";
+import {
+  ColumnMapping,
+  InvitationField,
+  InvitationGuest,
+  InvitationRow,
+  SpreadsheetData,
+} from "@/types/invitation";
+
+// Turning an invitation spreadsheet into guests: guessing which column holds
+// what, validating each row and spotting guests that are already listed.
+
+export const INVITATION_FIELDS: InvitationField[] = ["name", "side", "group", "phone", "expectedAttendees"];
+
+export const INVITATION_FIELD_LABELS: Record<InvitationField, string> = {
+  name: "ឈ្មោះ",
+  side: "ភ្ញៀវខាង",
+  group: "ក្រុម",
+  phone: "លេខទូរស័ព្ទ",
+  expectedAttendees: "ចំនួនអ្នកចូលរួម",
+};
+
+// Header texts recognized for each field, compared after normalizeText
+const HEADER_ALIASES: Record<InvitationField, string[]> = {
+  name: ["name", "full name", "guest", "guest name", "ឈ្មោះ", "ឈ្មោះភ្ញៀវ", "ភ្ញៀវ"],
+  side: ["side", "ខាង", "ភ្ញៀវខាង"],
+  group: ["group", "table", "category", "relation", "ក្រុម", "តុ", "ទំនាក់ទំនង"],
+  phone: ["phone", "tel", "telephone", "mobile", "ទូរស័ព្ទ", "លេខទូរស័ព្ទ"],
+  expectedAttendees: ["attendees", "expected", "pax", "people", "count", "ចំនួន", "ចំនួននាក់", "ចំនួនអ្នកចូលរួម"],
+};
+
+const SIDE_VALUES = new Map<string, "groom" | "bride">([
+  ["groom", "groom"],
+  ["g", "groom"],
+  ["ប្រុស", "groom"],
+  ["ខាងប្រុស", "groom"],
+  ["bride", "bride"],
+  ["b", "bride"],
+  ["ស្រី", "bride"],
+  ["ខាងស្រី", "bride"],
+]);
+
+const MAX_ATTENDEES = 50;
+
+function key(text: string): string {
+  return normalizeText(text).replace(/\s+/g, " ").trim();
+}
+
+// Columns whose header matches a known name; the name falls back to the first column
+export function guessMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(key);
+  const mapping = {} as ColumnMapping;
+  for (const field of INVITATION_FIELDS) {
+    const aliases = HEADER_ALIASES[field].map(key);
+    const index = normalized.findIndex((header) => aliases.includes(header));
+    mapping[field] = index >= 0 ? index : null;
+  }
+  if (mapping.name === null && headers.length > 0) mapping.name = 0;
+  return mapping;
+}
+
+// Same event, spreadsheet name and side, same id, on every device and every
+// import, so importing a list twice or on two devices does not create the
+// guest twice
+export async function invitationId(
+  eventId: string,
+  name: string,
+  side: "groom" | "bride"
+): Promise<string> {
+  const bytes = new TextEncoder().encode(`${eventId}|${side}|${key(name)}`);
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  const hex = Array.from(new Uint8Array(digest).subarray(0, 6))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+  return `INVITE_${hex}`;
+}
+
+// Digits with an optional leading +; a number typed into a numeric cell has
+// lost its leading 0, which is put back
+function parsePhone(text: string): string | null {
+  const compact = normalizeText(text).replace(/[\s\-().]/g, "");
+  if (!/^\+?\d{8,15}$/.test(compact)) return null;
+  if (!compact.startsWith("+") && !compact.startsWith("0") && !compact.startsWith("855")) {
+    return "0" + compact;
+  }
+  return compact;
+}
+
+function parseAttendees(text: string): number | null {
+  const value = Number(normalizeText(text));
+  return Number.isInteger(value) && value >= 1 && value <= MAX_ATTENDEES ? value : null;
+}
+
+// Map and check every row. Rows that name a guest already in the list (by
+// either of their names) or an earlier row of the file are marked duplicates.
+export async function validateInvitations(
+  eventId: string,
+  sheet: SpreadsheetData,
+  mapping: ColumnMapping,
+  defaultSide: "groom" | "bride",
+  existing: Pick<GuestRecord, "id" | "name" | "displayName">[]
+): Promise<InvitationRow[]> {
+  const known = new Map<string, { id: string; name: string; inFile: boolean }>();
+  for (const guest of existing) {
+    const name = guest.displayName || guest.name;
+    known.set(key(guest.name), { id: guest.id, name, inFile: false });
+    if (guest.displayName) known.set(key(guest.displayName), { id: guest.id, name, inFile: false });
+  }
+
+  const results: InvitationRow[] = [];
+  for (const { row, cells } of sheet.rows) {
+    const cell = (field: InvitationField) => {
+      const index = mapping[field];
+      return index === null ? "" : (cells[index] ?? "").trim();
+    };
+    const errors: string[] = [];
+
+    const name = cell("name").replace(/\s+/g, " ");
+    if (!name) errors.push("គ្មានឈ្មោះ");
+
+    const sideText = key(cell("side"));
+    const side = sideText ? SIDE_VALUES.get(sideText) : defaultSide;
+    if (!side) errors.push(`ខាងមិនត្រឹមត្រូវ "${cell("side")}"`);
+
+    const phoneText = cell("phone");
+    const phone = phoneText ? parsePhone(phoneText) : "";
+    if (phone === null) errors.push(`លេខទូរស័ព្ទមិនត្រឹមត្រូវ "${phoneText}"`);
+
+    const attendeesText = cell("expectedAttendees");
+    const expectedAttendees = attendeesText ? parseAttendees(attendeesText) : null;
+    if (attendeesText && expectedAttendees === null) {
+      errors.push(`ចំនួនអ្នកចូលរួមមិនត្រឹមត្រូវ "${attendeesText}"`);
+    }
+
+    if (errors.length > 0) {
+      results.push({ row, guest: null, errors, duplicateOf: null });
+      continue;
+    }
+
+    const guest: InvitationGuest = {
+      id: await invitationId(eventId, name, side),
+      name,
+      side,
+      group: cell("group"),
+      phone: phone ?? "",
+      expectedAttendees,
+    };
+    const duplicateOf = known.get(key(name)) ?? null;
+    if (!duplicateOf) known.set(key(name), { id: guest.id, name: `ជួរទី ${row}`, inFile: true });
+    results.push({ row, guest, errors, duplicateOf });
+  }
+  return results;
+}
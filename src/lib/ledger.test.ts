@@ -0,0 +1,238 @@
+import { describe, expect, it } from "vitest";
+import {
+  GENESIS_HASH,
+  SEAL_VERSION,
+  hashEvent,
+  redactEvent,
+  verifyBackup,
+  verifyChain,
+} from "@/lib/ledger";
+import { AuditEvent } from "@/types/audit";
+import { BackupData, GiftEntryDB, GuestRecordDB } from "@/types/sync";
+
+const T0 = 1_750_000_000_000;
+
+function guest(overrides: Partial<GuestRecordDB> = {}): GuestRecordDB {
+  return {
+    id: "g1",
+    eventId: "wedding",
+    name: "សុខ ដារ៉ា",
+    displayName: "សុខ ដារ៉ា",
+    side: "groom",
+    note: "",
+    updatedAt: T0,
+    syncStatus: "synced",
+    lastSyncedAt: T0,
+    isCustomGuest: true,
+    deleted: null,
+    ...overrides,
+  };
+}
+
+function gift(overrides: Partial<GiftEntryDB> = {}): GiftEntryDB {
+  return {
+    id: "gift1",
+    guestId: "g1",
+    eventId: "wedding",
+    amountRiel: 100000,
+    currency: "KHR",
+    originalAmount: 100000,
+    exchangeRate: 4100,
+    paymentType: "cash",
+    bankType: null,
+    bankRef: null,
+    receivedAt: T0,
+    recorder: "",
+    updatedAt: T0,
+    syncStatus: "synced",
+    lastSyncedAt: T0,
+    deleted: null,
+    ...overrides,
+  };
+}
+
+// Every field but the bookkeeping, as buildAuditEvent logs a creation
+function created(record: GuestRecordDB | GiftEntryDB): AuditEvent {
+  const { id, updatedAt, syncStatus, lastSyncedAt, ...values } = record;
+  const event = {
+    action: "create" as const,
+    source: "GuestForm" as const,
+    previous: null,
+    timestamp: T0,
+    deviceId: "DEVICE_A",
+    recorder: "Dara",
+  };
+  if ("guestId" in values) {
+    return { ...event, guestId: values.guestId, giftId: id, next: values };
+  }
+  return { ...event, guestId: id, next: values };
+}
+
+// What sealLedger() does, without the database
+async function seal(events: AuditEvent[]): Promise<AuditEvent[]> {
+  let prevHash = GENESIS_HASH;
+  const sealed: AuditEvent[] = [];
+  for (const [i, event] of events.entries()) {
+    const next: AuditEvent = { ...event, id: i + 1, prevHash, sealVersion: SEAL_VERSION };
+    next.hash = await hashEvent(next);
+    sealed.push(next);
+    prevHash = next.hash;
+  }
+  return sealed;
+}
+
+async function sealedLedger(): Promise<AuditEvent[]> {
+  return seal([
+    created(guest()),
+    created(gift()),
+    {
+      ...created(guest()),
+      action: "update",
+      previous: { note: "" },
+      next: { note: "មកជាមួយកូន" },
+    },
+  ]);
+}
+
+const current = { guests: [guest({ note: "មកជាមួយកូន" })], gifts: [gift()] };
+
+describe("verifyChain", () => {
+  it("verifies an untouched ledger against its records", async () => {
+    const result = await verifyChain(await sealedLedger(), current.guests, current.gifts);
+    expect(result.issues).toEqual([]);
+    expect(result.status).toBe("verified");
+    expect(result.checkedEvents).toBe(3);
+  });
+
+  it("finds an event edited after it was sealed", async () => {
+    const ledger = await sealedLedger();
+    ledger[1] = { ...ledger[1], next: { ...ledger[1].next, amountRiel: 50000 } };
+
+    const result = await verifyChain(ledger, current.guests, [gift({ amountRiel: 50000 })]);
+
+    expect(result.issues.map((i) => i.kind)).toEqual(["hash-mismatch"]);
+  });
+
+  it("finds an event taken out of the middle", async () => {
+    const ledger = await sealedLedger();
+    const result = await verifyChain([ledger[0], ledger[1]], [guest()], current.gifts);
+    expect(result.status).toBe("verified"); // Cut off the end: only the head can tell
+
+    const gap = await verifyChain([ledger[0], ledger[2]], current.guests, []);
+    expect(gap.issues.map((i) => i.kind)).toContain("broken-link");
+  });
+
+  it("treats an event whose hash was stripped as altered", async () => {
+    const ledger = await sealedLedger();
+    const { hash, prevHash, ...stripped } = ledger[2];
+
+    const result = await verifyChain([ledger[0], ledger[1], stripped], current.guests, current.gifts);
+
+    expect(result.status).toBe("altered");
+    expect(result.issues.map((i) => i.kind)).toContain("unsealed");
+  });
+
+  it("finds a record that differs from the ledger", async () => {
+    const result = await verifyChain(await sealedLedger(), current.guests, [gift({ amountRiel: 1 })]);
+    expect(result.issues).toMatchObject([{ kind: "record-mismatch", guestId: "g1" }]);
+  });
+
+  it("finds a gift moved to another guest behind the ledger's back", async () => {
+    const result = await verifyChain(await sealedLedger(), current.guests, [gift({ guestId: "g2" })]);
+    expect(result.issues).toMatchObject([{ kind: "record-mismatch", guestId: "g2" }]);
+  });
+
+  it("follows a gift moved by a merge", async () => {
+    const moved = {
+      ...created(gift()),
+      action: "merge" as const,
+      guestId: "g2",
+      previous: { guestId: "g1" },
+      next: { guestId: "g2" },
+    };
+    const ledger = await seal([...(await sealedLedger()).map(({ hash, prevHash, ...e }) => e), moved]);
+
+    const result = await verifyChain(ledger, current.guests, [gift({ guestId: "g2" })]);
+
+    expect(result.issues).toEqual([]);
+  });
+
+  it("reads the giver of gifts logged before guestId was a field from the entry", async () => {
+    const { guestId, ...next } = created(gift()).next;
+    const ledger = await seal([created(guest()), { ...created(gift()), next }]);
+
+    expect((await verifyChain(ledger, [guest()], [gift()])).issues).toEqual([]);
+    expect((await verifyChain(ledger, [guest()], [gift({ guestId: "g2" })])).issues).toMatchObject([
+      { kind: "record-mismatch" },
+    ]);
+  });
+
+  it("finds a gift field set that the ledger never logged", async () => {
+    const result = await verifyChain(await sealedLedger(), current.guests, [gift({ bankRef: "999" })]);
+    expect(result.issues).toMatchObject([{ kind: "record-mismatch", message: expect.stringContaining("bankRef") }]);
+  });
+
+  it("finds a record the ledger knows that is gone", async () => {
+    const result = await verifyChain(await sealedLedger(), current.guests, []);
+    expect(result.issues).toMatchObject([{ kind: "record-missing" }]);
+  });
+
+  it("still verifies once other events' entries are redacted", async () => {
+    const other = created(guest({ id: "g2", eventId: "engagement", name: "ចាន់ ស្រីមុំ" }));
+    const ledger = await seal([...(await sealedLedger()), other]);
+    ledger[3] = await redactEvent(ledger[3]);
+
+    const result = await verifyChain(ledger, current.guests, current.gifts, "wedding");
+
+    expect(ledger[3].next).toEqual({});
+    expect(ledger[3].recorder).toBe("");
+    expect(result.issues).toEqual([]);
+  });
+
+  it("does not let an entry about a record in the backup be redacted", async () => {
+    const ledger = await sealedLedger();
+    ledger[2] = await redactEvent(ledger[2]);
+
+    const result = await verifyChain(ledger, [guest()], current.gifts, "wedding");
+
+    expect(result.issues.map((i) => i.kind)).toEqual(["redacted"]);
+  });
+
+  it("keeps entries sealed before redaction whole", async () => {
+    const [legacy] = await sealedLedger();
+    const { sealVersion, ...unversioned } = legacy;
+    expect(await redactEvent(unversioned)).toBe(unversioned);
+  });
+});
+
+describe("verifyBackup", () => {
+  function backup(ledger: AuditEvent[], ledgerHead: string | null | undefined): BackupData {
+    return {
+      version: 7,
+      exportedAt: new Date(T0).toISOString(),
+      guests: current.guests,
+      gifts: current.gifts,
+      ledger,
+      metadata: { totalRecords: 1, pendingSync: 0, ledgerHead },
+    };
+  }
+
+  it("returns null for backups from before the ledger", async () => {
+    expect(await verifyBackup({ ...backup([], null), ledger: undefined })).toBeNull();
+  });
+
+  it("finds entries cut off the end through the head", async () => {
+    const ledger = await sealedLedger();
+    const head = ledger[2].hash;
+
+    expect((await verifyBackup(backup(ledger, head)))?.status).toBe("verified");
+
+    const truncated = await verifyBackup({ ...backup(ledger.slice(0, 2), head), guests: [guest()] });
+    expect(truncated?.status).toBe("altered");
+    expect(truncated?.issues.map((i) => i.kind)).toEqual(["broken-link"]);
+  });
+
+  it("treats a missing head as altered", async () => {
+    expect((await verifyBackup(backup(await sealedLedger(), undefined)))?.status).toBe("altered");
+  });
+});
@@ -0,0 +1,353 @@
+import { initDB } from "@/lib/db";
+import { decryptRecord, decryptRecords, encryptRecord } from "@/lib/cipher";
+import { eventOf } from "@/lib/events";
+import { AuditEvent, LedgerIssue, LedgerVerification, RedactedField } from "@/types/audit";
+import { BackupData, GiftEntryDB, GuestRecordDB } from "@/types/sync";
+
+// Tamper-evident hash chain over the audit log.
+//
+// Events are written in the same transaction as the guest change they
+// describe, but WebCrypto cannot be awaited inside an IndexedDB transaction,
+// so hashes are filled in afterwards by sealLedger(), oldest first; db.ts runs
+// it once each write commits. Hashes cover the decrypted event, so turning
+// encryption on or off keeps the chain.
+//
+// Events sealed at SEAL_VERSION hash a digest of each value instead of the
+// value itself, so a backup of one event can carry another event's entries
+// with only their digests and the chain still verifies. Events sealed before
+// stay whole wherever they go.
+
+const AUDIT_STORE = "audit";
+const SEAL_LOCK = "wedding_ledger_seal";
+export const GENESIS_HASH = "0".repeat(64);
+export const SEAL_VERSION = 2;
+const REDACTED_FIELDS: RedactedField[] = ["previous", "next", "detail", "recorder"];
+
+// Fields the ledger vouches for on every guest record
+const TRACKED_FIELDS: (keyof GuestRecordDB)[] = [
+  "name",
+  "displayName",
+  "side",
+  "note",
+  "isCustomGuest",
+  "deleted",
+];
+
+// ...and on every gift line item
+const TRACKED_GIFT_FIELDS: (keyof GiftEntryDB)[] = [
+  "guestId",
+  "amountRiel",
+  "currency",
+  "originalAmount",
+  "exchangeRate",
+  "paymentType",
+  "bankType",
+  "bankRef",
+  "receivedAt",
+  "recorder",
+  "deleted",
+];
+
+// JSON with sorted keys so the same event always hashes the same way
+function canonicalize(value: unknown): string {
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value ?? null);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(",")}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalize(v)}`).join(",")}}`;
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+async function valueDigests(event: AuditEvent): Promise<Record<RedactedField, string>> {
+  const digests = {} as Record<RedactedField, string>;
+  for (const field of REDACTED_FIELDS) {
+    digests[field] = event.redacted?.[field] ?? (await sha256(canonicalize(event[field])));
+  }
+  return digests;
+}
+
+export async function hashEvent(event: AuditEvent): Promise<string> {
+  const { hash, redacted, ...content } = event;
+  if (content.sealVersion !== SEAL_VERSION) return sha256(canonicalize(content));
+  return sha256(canonicalize({ ...content, ...(await valueDigests(event)) }));
+}
+
+// An entry as a backup of another event carries it: its values give way to
+// their digests. Entries sealed before SEAL_VERSION are returned whole.
+export async function redactEvent(event: AuditEvent): Promise<AuditEvent> {
+  if (event.sealVersion !== SEAL_VERSION || event.redacted) return event;
+  return {
+    ...event,
+    previous: null,
+    next: {},
+    detail: undefined,
+    recorder: "",
+    redacted: await valueDigests(event),
+  };
+}
+
+// Serialize sealing across tabs when Web Locks are available
+let localSealQueue: Promise<unknown> = Promise.resolve();
+
+function withSealLock<T>(fn: () => Promise<T>): Promise<T> {
+  if (navigator.locks) {
+    return navigator.locks.request(SEAL_LOCK, fn);
+  }
+  const run = localSealQueue.then(fn, fn);
+  localSealQueue = run.catch(() => undefined);
+  return run;
+}
+
+// Hash every event that has not been sealed yet. Returns how many were sealed.
+export async function sealLedger(): Promise<number> {
+  if (!crypto.subtle) {
+    console.warn("[Ledger] WebCrypto unavailable, ledger left unsealed");
+    return 0;
+  }
+
+  return withSealLock(async () => {
+    const db = await initDB();
+    const events = await db.getAll(AUDIT_STORE);
+
+    let prevHash = GENESIS_HASH;
+    const sealed: AuditEvent[] = [];
+
+    for (const event of events) {
+      if (event.hash) {
+        prevHash = event.hash;
+        continue;
+      }
+      const next: AuditEvent = {
+        ...(await decryptRecord(AUDIT_STORE, event)),
+        prevHash,
+        sealVersion: SEAL_VERSION,
+      };
+      next.hash = await hashEvent(next);
+      sealed.push(await encryptRecord(AUDIT_STORE, next));
+      prevHash = next.hash;
+    }
+
+    if (sealed.length === 0) return 0;
+
+    const tx = db.transaction(AUDIT_STORE, "readwrite");
+    for (const event of sealed) {
+      await tx.store.put(event);
+    }
+    await tx.done;
+
+    console.log(`[Ledger] Sealed ${sealed.length} events`);
+    return sealed.length;
+  });
+}
+
+// Seal once what a write appended has committed. Writes close together share
+// one pass; a failure is logged rather than thrown, as the write went through.
+let queuedSeal: Promise<void> | null = null;
+
+export function sealSoon(): Promise<void> {
+  queuedSeal ??= Promise.resolve()
+    .then(() => {
+      queuedSeal = null;
+      return sealLedger();
+    })
+    .then(
+      () => undefined,
+      (e) => console.error("[Ledger] Seal error:", e)
+    );
+  return queuedSeal;
+}
+
+// Check the chain itself, then that the guest and gift records match what it
+// says. Records of other events than eventId (when given) may be left out.
+export async function verifyChain(
+  events: AuditEvent[],
+  guests: GuestRecordDB[],
+  gifts: GiftEntryDB[] = [],
+  eventId?: string
+): Promise<LedgerVerification> {
+  const issues: LedgerIssue[] = [];
+  const ordered = [...events].sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+
+  let prevHash = GENESIS_HASH;
+  let unsealedEvents = 0;
+
+  for (const event of ordered) {
+    if (!event.hash) {
+      unsealedEvents++;
+      continue;
+    }
+
+    if (unsealedEvents > 0) {
+      issues.push({
+        kind: "unsealed-gap",
+        eventId: event.id,
+        guestId: event.guestId,
+        message: `Event #${event.id} is sealed after ${unsealedEvents} unsealed events`,
+      });
+    }
+
+    if (event.prevHash !== prevHash) {
+      issues.push({
+        kind: "broken-link",
+        eventId: event.id,
+        guestId: event.guestId,
+        message: `Event #${event.id} does not follow the previous entry`,
+      });
+    }
+
+    if ((await hashEvent(event)) !== event.hash) {
+      issues.push({
+        kind: "hash-mismatch",
+        eventId: event.id,
+        guestId: event.guestId,
+        message: `Event #${event.id} was modified after it was recorded`,
+      });
+    }
+
+    prevHash = event.hash;
+  }
+
+  // Only entries of other events may come without their values
+  const stored = new Set([...guests, ...gifts].map((r) => r.id));
+  for (const event of ordered) {
+    if (event.redacted && (stored.has(event.guestId) || stored.has(event.giftId ?? ""))) {
+      issues.push({
+        kind: "redacted",
+        eventId: event.id,
+        guestId: event.guestId,
+        message: `Event #${event.id} is about a record in the backup but its values are left out`,
+      });
+    }
+  }
+
+  // Every event is sealed before anything verifies it, so an unsealed one
+  // had its hash stripped
+  if (unsealedEvents > 0) {
+    issues.push({
+      kind: "unsealed",
+      message: `${unsealedEvents} events are not sealed`,
+    });
+  }
+
+  // Replay the ledger and compare against the stored records. Gift events
+  // replay onto their gift; older events carried the amount on the guest.
+  // Every gift event is filed under the guest who gave it, which stands in
+  // for guestId on entries from before it was logged as a field.
+  const expected = new Map<string, Record<string, unknown>>();
+  const giftIds = new Set<string>();
+  for (const event of ordered) {
+    if (!event.guestId || event.redacted) continue; // Session events, and other events' entries
+    const key = event.giftId ?? event.guestId;
+    const owner = event.giftId && { guestId: event.guestId };
+    expected.set(key, { ...expected.get(key), ...owner, ...event.next });
+    if (event.giftId) giftIds.add(event.giftId);
+  }
+
+  // Guests seeded before the ledger are only vouched for once edited; a gift
+  // always comes from a ledger entry, so a field it never logged must be empty
+  const findMismatches = <T>(record: T, id: string, fields: (keyof T)[], whole: boolean): string[] => {
+    const known = expected.get(id) ?? {};
+    return fields
+      .filter(
+        (field) =>
+          (whole || (field as string) in known) &&
+          canonicalize(known[field as string]) !== canonicalize(record[field])
+      )
+      .map(String);
+  };
+
+  for (const guest of guests) {
+    const mismatched = findMismatches(guest, guest.id, TRACKED_FIELDS, false);
+    if (mismatched.length > 0) {
+      issues.push({
+        kind: "record-mismatch",
+        guestId: guest.id,
+        message: `${guest.displayName || guest.name}: ${mismatched.join(", ")} differ from the ledger`,
+      });
+    }
+  }
+
+  for (const gift of gifts) {
+    const mismatched = findMismatches(gift, gift.id, TRACKED_GIFT_FIELDS, true);
+    if (mismatched.length > 0) {
+      issues.push({
+        kind: "record-mismatch",
+        guestId: gift.guestId,
+        message: `Gift ${gift.id}: ${mismatched.join(", ")} differ from the ledger`,
+      });
+    }
+  }
+
+  // Records are trashed, never deleted, so each one the ledger knows of must
+  // still be there. Undo used to delete rows, logging every field as null.
+  for (const [id, known] of expected) {
+    const isGift = giftIds.has(id);
+    if (stored.has(id) || known[isGift ? "amountRiel" : "name"] === null) continue;
+    if (eventId && eventOf(known as { eventId?: string }) !== eventId) continue;
+    issues.push({
+      kind: "record-missing",
+      guestId: isGift ? undefined : id,
+      message: `${isGift ? "Gift" : "Guest"} ${id} is in the ledger but missing`,
+    });
+  }
+
+  const lastSealed = [...ordered].reverse().find((e) => e.hash);
+
+  return {
+    status: issues.length === 0 ? "verified" : "altered",
+    checkedEvents: ordered.length - unsealedEvents,
+    unsealedEvents,
+    headHash: lastSealed?.hash ?? null,
+    issues,
+  };
+}
+
+// Verify the live IndexedDB ledger. An event written between sealing and
+// reading is sealed on a second pass rather than reported.
+export async function verifyLedger(): Promise<LedgerVerification> {
+  for (let attempt = 1; ; attempt++) {
+    await sealLedger();
+    const db = await initDB();
+    const [events, guests, gifts] = await Promise.all([
+      db.getAll(AUDIT_STORE).then((rows) => decryptRecords(AUDIT_STORE, rows)),
+      db.getAll("guests").then((rows) => decryptRecords("guests", rows)),
+      db.getAll("gifts").then((rows) => decryptRecords("gifts", rows)),
+    ]);
+    const result = await verifyChain(events, guests, gifts);
+    if (result.unsealedEvents === 0 || attempt === 2) return result;
+  }
+}
+
+// Verify an exported backup file. Returns null for backups made before the
+// ledger existed, which cannot be verified.
+export async function verifyBackup(data: BackupData): Promise<LedgerVerification | null> {
+  if (!data.ledger) return null;
+
+  // Backups are of one event (version 5+); older ones hold every record
+  const eventId = data.events?.[0]?.id;
+  const result = await verifyChain(data.ledger, data.guests, data.gifts ?? [], eventId);
+  // The head pins the end of the chain, so events cut off the end show up.
+  // Backups have carried it since they carried the ledger.
+  if (data.metadata.ledgerHead !== result.headHash) {
+    result.issues.push({
+      kind: "broken-link",
+      message:
+        data.metadata.ledgerHead === undefined
+          ? "Ledger head is missing from the backup metadata"
+          : "Ledger head does not match the backup metadata",
+    });
+    result.status = "altered";
+  }
+  return result;
+}
@@ -0,0 +1,115 @@
+import { normalizeText } from "@/lib/search";
+import { GuestGrouping, GuestListRow, GuestRecord, GuestSort, ListView } from "@/types/guest";
+
+// Sorting and grouping of the guest list. The choice is kept per device.
+
+const LIST_VIEW_KEY = "wedding_list_view";
+const DEFAULT_LIST_VIEW: ListView = { sort: "default", grouping: "none" };
+
+const SIDE_LABELS: Record<GuestRecord["side"], string> = {
+  groom: "ភ្ញៀវខាងប្រុស 👦🏻",
+  bride: "ភ្ញៀវខាងស្រី 🌸",
+};
+
+const SIDE_ORDER: Record<GuestRecord["side"], number> = { groom: 0, bride: 1 };
+
+export const SORT_LABELS: Record<GuestSort, string> = {
+  default: "លំនាំដើម",
+  name: "ឈ្មោះ",
+  amount: "ចំនួនប្រាក់",
+  time: "ពេលកត់ត្រា",
+  side: "ខាង",
+};
+
+export const GROUPING_LABELS: Record<GuestGrouping, string> = {
+  none: "មិនដាក់ក្រុម",
+  side: "តាមខាង",
+  letter: "តាមអក្សរដំបូង",
+};
+
+export function getListView(): ListView {
+  try {
+    const stored = localStorage.getItem(LIST_VIEW_KEY);
+    return stored ? { ...DEFAULT_LIST_VIEW, ...JSON.parse(stored) } : DEFAULT_LIST_VIEW;
+  } catch {
+    return DEFAULT_LIST_VIEW;
+  }
+}
+
+export function setListView(view: ListView): void {
+  localStorage.setItem(LIST_VIEW_KEY, JSON.stringify(view));
+}
+
+function displayName(guest: GuestRecord): string {
+  return guest.displayName || guest.name;
+}
+
+// When the guest's latest gift was recorded, or 0 without gifts
+function lastRecordedAt(guest: GuestRecord): number {
+  const last = guest.gifts[guest.gifts.length - 1];
+  return last ? new Date(last.receivedAt).getTime() : 0;
+}
+
+// First letter for grouping: the leading Khmer consonant or Latin letter
+function firstLetter(guest: GuestRecord): string {
+  const first = Array.from(normalizeText(displayName(guest)).trim())[0];
+  return first ? first.toUpperCase() : "#";
+}
+
+const collator = new Intl.Collator(["km", "en"], { sensitivity: "base", numeric: true });
+
+function compareNames(a: GuestRecord, b: GuestRecord): number {
+  return collator.compare(displayName(a), displayName(b));
+}
+
+// Largest amounts and latest gifts first; ties fall back to the name
+export function sortGuests(guests: GuestRecord[], sort: GuestSort): GuestRecord[] {
+  if (sort === "default") return guests;
+  const sorted = [...guests];
+  switch (sort) {
+    case "name":
+      return sorted.sort(compareNames);
+    case "amount":
+      return sorted.sort((a, b) => (b.amountRiel ?? 0) - (a.amountRiel ?? 0) || compareNames(a, b));
+    case "time":
+      return sorted.sort((a, b) => lastRecordedAt(b) - lastRecordedAt(a) || compareNames(a, b));
+    case "side":
+      return sorted.sort((a, b) => SIDE_ORDER[a.side] - SIDE_ORDER[b.side] || compareNames(a, b));
+  }
+}
+
+// Rows for the list: sorted guests, with a header before each group. Letters
+// are in alphabetical order and the groom's side comes first.
+export function buildListRows(guests: GuestRecord[], view: ListView): GuestListRow[] {
+  const sorted = sortGuests(guests, view.sort);
+  if (view.grouping === "none") {
+    return sorted.map((guest) => ({ kind: "guest", guest }));
+  }
+
+  const groups = new Map<string, GuestRecord[]>();
+  if (view.grouping === "side") {
+    groups.set(SIDE_LABELS.groom, []);
+    groups.set(SIDE_LABELS.bride, []);
+  }
+  for (const guest of sorted) {
+    const label = view.grouping === "side" ? SIDE_LABELS[guest.side] : firstLetter(guest);
+    const members = groups.get(label);
+    if (members) {
+      members.push(guest);
+    } else {
+      groups.set(label, [guest]);
+    }
+  }
+
+  const labels = [...groups.keys()];
+  if (view.grouping === "letter") labels.sort((a, b) => collator.compare(a, b));
+
+  return labels.flatMap((label): GuestListRow[] => {
+    const members = groups.get(label) ?? [];
+    if (members.length === 0) return [];
+    return [
+      { kind: "header", label, count: members.length },
+      ...members.map((guest): GuestListRow => ({ kind: "guest", guest })),
+    ];
+  });
+}
@@ -0,0 +1,123 @@
+import { hasCredentials, unlock } from "@/lib/auth";
+import { logSessionEvent } from "@/lib/db";
+import { onIdle } from "@/lib/idle";
+import { setActiveRole } from "@/lib/roles";
+import { SessionAction } from "@/types/audit";
+import { LockReason, LockSettings, UnlockResult } from "@/types/auth";
+
+// The lock screen covers the whole app after a while without input or when
+// the page is hidden, and any role's PIN resumes it as that role. The app
+// stays mounted underneath, so a half-filled guest form is still there after
+// unlocking. The lock is per tab and survives a reload, and a new tab or a
+// relaunched app starts locked once a PIN is set; the settings are per
+// device. Every lock and unlock goes into the audit log.
+
+// "locked" or "unlocked" for this tab; unset until the tab locks or unlocks
+const LOCK_STATE_KEY = "wedding_app_lock_state";
+const SETTINGS_KEY = "wedding_lock_settings";
+
+export const DEFAULT_LOCK_SETTINGS: LockSettings = { idleMinutes: 5, lockWhenHidden: true };
+
+type LockListener = (locked: boolean) => void;
+type SettingsListener = (settings: LockSettings) => void;
+const listeners = new Set<LockListener>();
+const settingsListeners = new Set<SettingsListener>();
+
+export function isAppLocked(): boolean {
+  return sessionStorage.getItem(LOCK_STATE_KEY) === "locked";
+}
+
+function setLocked(locked: boolean): void {
+  sessionStorage.setItem(LOCK_STATE_KEY, locked ? "locked" : "unlocked");
+  listeners.forEach((listener) => listener(locked));
+}
+
+export function subscribeToLock(listener: LockListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getLockSettings(): LockSettings {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...DEFAULT_LOCK_SETTINGS, ...JSON.parse(stored) } : DEFAULT_LOCK_SETTINGS;
+  } catch {
+    return DEFAULT_LOCK_SETTINGS;
+  }
+}
+
+export function setLockSettings(settings: LockSettings): void {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  settingsListeners.forEach((listener) => listener(settings));
+}
+
+export function subscribeToLockSettings(listener: SettingsListener): () => void {
+  settingsListeners.add(listener);
+  return () => {
+    settingsListeners.delete(listener);
+  };
+}
+
+// Logging must never keep the screen from locking or unlocking
+async function logEvent(action: SessionAction, detail: string): Promise<void> {
+  try {
+    await logSessionEvent(action, detail);
+  } catch (e) {
+    console.error("[Lock] Log error:", e);
+  }
+}
+
+// Lock this tab. Does nothing (returns false) until a PIN has been set,
+// since there would be no way back in.
+export async function lockApp(reason: LockReason): Promise<boolean> {
+  if (isAppLocked()) return true;
+  if (!(await hasCredentials())) return false;
+  if (isAppLocked()) return true; // Locked by another caller meanwhile
+
+  setLocked(true);
+  await logEvent("lock", reason);
+  return true;
+}
+
+// Lock a tab that has not been unlocked yet, once a PIN is set; a reload
+// keeps whatever the tab was. Returns whether the tab is locked.
+export async function lockOnStart(): Promise<boolean> {
+  if (sessionStorage.getItem(LOCK_STATE_KEY) !== null) return isAppLocked();
+  return lockApp("start");
+}
+
+// Check a PIN under the same lockout as switching roles, and resume as the
+// role it belongs to
+export async function unlockApp(pin: string): Promise<UnlockResult> {
+  const result = await unlock(pin);
+  if (result.status === "unlocked") {
+    setActiveRole(result.role);
+    setLocked(false);
+    await logEvent("unlock", result.role);
+  }
+  return result;
+}
+
+// Lock on inactivity and when the page is hidden; returns the stop function
+export function watchForLock(settings: LockSettings = getLockSettings()): () => void {
+  const lock = (reason: LockReason) => {
+    lockApp(reason).catch((e) => console.error("[Lock] Lock error:", e));
+  };
+
+  const stopIdle =
+    settings.idleMinutes > 0 ? onIdle(settings.idleMinutes * 60000, () => lock("idle")) : undefined;
+
+  const handleVisibility = () => {
+    if (document.visibilityState === "hidden") lock("hidden");
+  };
+  if (settings.lockWhenHidden) {
+    document.addEventListener("visibilitychange", handleVisibility);
+  }
+
+  return () => {
+    stopIdle?.();
+    document.removeEventListener("visibilitychange", handleVisibility);
+  };
+}
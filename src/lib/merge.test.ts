@@ -0,0 +1,163 @@
+import { describe, expect, it } from "vitest";
+import { getDeviceId } from "@/lib/audit";
+import { legacyHlc } from "@/lib/hlc";
+import { mergeRecords, sameFields, stampFieldClocks } from "@/lib/merge";
+import { GiftEntryDB, GuestRecordDB } from "@/types/sync";
+
+const T0 = 1_750_000_000_000;
+
+function clock(wall: number, deviceId: string): string {
+  return `${String(wall).padStart(15, "0")}-0000-${deviceId}`;
+}
+
+function guest(overrides: Partial<GuestRecordDB> = {}): GuestRecordDB {
+  return {
+    id: "g1",
+    eventId: "default",
+    name: "សុខ ដារ៉ា",
+    displayName: "សុខ ដារ៉ា",
+    side: "groom",
+    note: "",
+    updatedAt: T0,
+    syncStatus: "synced",
+    lastSyncedAt: T0,
+    isCustomGuest: false,
+    deleted: null,
+    ...overrides,
+  };
+}
+
+function gift(overrides: Partial<GiftEntryDB> = {}): GiftEntryDB {
+  return {
+    id: "gift1",
+    guestId: "g1",
+    eventId: "default",
+    amountRiel: 100000,
+    currency: "KHR",
+    originalAmount: 100000,
+    exchangeRate: 4100,
+    paymentType: "cash",
+    bankType: null,
+    bankRef: null,
+    receivedAt: T0,
+    recorder: "",
+    updatedAt: T0,
+    syncStatus: "synced",
+    lastSyncedAt: T0,
+    deleted: null,
+    ...overrides,
+  };
+}
+
+describe("stampFieldClocks", () => {
+  it("gives only the changed fields a new clock", () => {
+    const before = guest();
+    const after = stampFieldClocks(before, { ...before, note: "មកជាមួយកូន" });
+
+    expect(after.fieldClocks?.note).toMatch(new RegExp(`-${getDeviceId()}$`));
+    expect(after.fieldClocks?.name).toBe(legacyHlc(T0));
+    expect(after.fieldClocks?.updatedAt).toBeUndefined();
+  });
+
+  it("stamps every field of a new record", () => {
+    const created = stampFieldClocks(null, guest());
+    expect(created.fieldClocks?.name).toBe(created.fieldClocks?.note);
+    expect(created.fieldClocks?.name).not.toBe(legacyHlc(T0));
+  });
+});
+
+describe("mergeRecords", () => {
+  it("keeps edits to different fields from both devices", () => {
+    const local = guest({
+      note: "local note",
+      fieldClocks: { note: clock(T0 + 10, "A"), displayName: clock(T0, "A") },
+    });
+    const remote = guest({
+      displayName: "Dara",
+      fieldClocks: { note: clock(T0, "B"), displayName: clock(T0 + 20, "B") },
+    });
+
+    const { merged, remoteWon, localAhead } = mergeRecords(local, remote, "A", false);
+
+    expect(merged.note).toBe("local note");
+    expect(merged.displayName).toBe("Dara");
+    expect(remoteWon).toBe(true);
+    expect(localAhead).toBe(true);
+  });
+
+  it("takes the newer clock for the same field", () => {
+    const local = guest({ note: "old", fieldClocks: { note: clock(T0 + 5, "A") } });
+    const remote = guest({ note: "new", fieldClocks: { note: clock(T0 + 6, "B") } });
+
+    const { merged } = mergeRecords(local, remote, "A", false);
+
+    expect(merged.note).toBe("new");
+    expect(merged.fieldClocks?.note).toBe(clock(T0 + 6, "B"));
+  });
+
+  it("picks the same side on both devices when legacy clocks tie", () => {
+    const a = guest({ note: "a" });
+    const b = guest({ note: "b" });
+
+    expect(mergeRecords(a, b, "A", false).merged.note).toBe(mergeRecords(b, a, "B", false).merged.note);
+  });
+
+  it("merges the amount fields as one group", () => {
+    const local = gift({
+      amountRiel: 410000,
+      currency: "USD",
+      originalAmount: 100,
+      fieldClocks: { amountRiel: clock(T0 + 5, "A"), currency: clock(T0 + 5, "A") },
+    });
+    const remote = gift({
+      amountRiel: 200000,
+      fieldClocks: { amountRiel: clock(T0 + 9, "B") },
+    });
+
+    const { merged } = mergeRecords(local, remote, "A", true);
+
+    expect([merged.amountRiel, merged.currency, merged.originalAmount]).toEqual([200000, "KHR", 100000]);
+  });
+
+  it("reports an amount edited on both devices before either synced", () => {
+    const local = gift({
+      amountRiel: 150000,
+      originalAmount: 150000,
+      syncStatus: "pending",
+      fieldClocks: { amountRiel: clock(T0 + 5, "A"), originalAmount: clock(T0 + 5, "A") },
+    });
+    const remote = gift({
+      amountRiel: 200000,
+      originalAmount: 200000,
+      fieldClocks: { amountRiel: clock(T0 + 9, "B"), originalAmount: clock(T0 + 9, "B") },
+    });
+
+    const { conflicts } = mergeRecords(local, remote, "A", true);
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({
+      recordId: "gift1",
+      applied: "remote",
+      local: { amountRiel: 150000 },
+      remote: { amountRiel: 200000 },
+    });
+  });
+
+  it("does not report an amount this device already pushed", () => {
+    const local = gift({ amountRiel: 150000, fieldClocks: { amountRiel: clock(T0 + 5, "A") } });
+    const remote = gift({ amountRiel: 200000, fieldClocks: { amountRiel: clock(T0 + 9, "B") } });
+
+    expect(mergeRecords(local, remote, "A", true).conflicts).toEqual([]);
+  });
+});
+
+describe("sameFields", () => {
+  it("ignores sync bookkeeping and clocks", () => {
+    const a = guest();
+    const b = guest({ syncStatus: "pending", updatedAt: T0 + 1, fieldClocks: { note: clock(T0, "A") } });
+    expect(sameFields(a, b)).toBe(true);
+    expect(sameFields(a, guest({ note: "x" }))).toBe(false);
+    expect(sameFields(null, null)).toBe(true);
+    expect(sameFields(a, null)).toBe(false);
+  });
+});
@@ -0,0 +1,155 @@
+import { legacyHlc, parseHlc, tickHlc } from "@/lib/hlc";
+import { FieldClocks, SyncableRecord, SyncStatus } from "@/types/sync";
+import { FieldConflict } from "@/types/conflict";
+
+// Field-level merging for guests, gifts and events, and for contacts and the
+// gifts we gave when a backup is imported. Every field carries the clock of
+// its last write, so edits to different fields on two devices both survive;
+// for the same field the newer clock wins.
+
+// Contacts and the gifts we gave do not sync, so have no sync status
+type ClockedRecord = Pick<SyncableRecord, "id" | "updatedAt"> & {
+  syncStatus?: SyncStatus;
+  fieldClocks?: FieldClocks;
+};
+type Values = Record<string, unknown>;
+
+const BOOKKEEPING_FIELDS = ["id", "updatedAt", "syncStatus", "lastSyncedAt", "fieldClocks"];
+
+// Gift fields that only make sense together; merged and reviewed as one amount
+export const AMOUNT_FIELDS = ["amountRiel", "originalAmount", "currency", "exchangeRate"];
+
+export type ConflictCandidate = Omit<
+  FieldConflict,
+  "id" | "source" | "detectedAt" | "resolvedAt" | "resolvedBy"
+>;
+
+export interface MergeResult<T> {
+  merged: T;
+  remoteWon: boolean; // Some incoming field replaced a local one
+  localAhead: boolean; // Some local field is newer than the incoming record
+  conflicts: ConflictCandidate[];
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function dataFields(...records: Values[]): string[] {
+  const keys = new Set(records.flatMap((r) => Object.keys(r)));
+  return [...keys].filter((k) => !BOOKKEEPING_FIELDS.includes(k));
+}
+
+// Same data in every field, whatever the sync state and clocks say
+export function sameFields<T extends ClockedRecord>(a: T | null, b: T | null): boolean {
+  if (!a || !b) return a === b;
+  const left = a as Values;
+  const right = b as Values;
+  return dataFields(left, right).every((f) => sameValue(left[f], right[f]));
+}
+
+export function clockOf(record: ClockedRecord, field: string): string {
+  return record.fieldClocks?.[field] ?? legacyHlc(record.updatedAt);
+}
+
+function latest(clocks: string[]): string {
+  return clocks.reduce((a, b) => (b > a ? b : a));
+}
+
+// Fields merged as a unit: the amount group for gifts, otherwise one each
+function fieldGroups(fields: string[], isGift: boolean): string[][] {
+  const amount = isGift ? fields.filter((f) => AMOUNT_FIELDS.includes(f)) : [];
+  const single = fields.filter((f) => !amount.includes(f)).map((f) => [f]);
+  return amount.length > 0 ? [amount, ...single] : single;
+}
+
+// Give every field changed by a local write a fresh clock
+export function stampFieldClocks<T extends ClockedRecord>(previous: T | null | undefined, next: T): T {
+  const prev = (previous ?? {}) as Values;
+  const changed = dataFields(prev, next as Values).filter(
+    (f) => !previous || !sameValue(prev[f], (next as Values)[f])
+  );
+  // Unchanged fields keep the clock they already had, pinned down so a legacy
+  // clock does not drift forward with updatedAt
+  const fieldClocks: FieldClocks = { ...next.fieldClocks };
+  if (previous) {
+    for (const field of dataFields(prev)) fieldClocks[field] = clockOf(previous, field);
+  }
+  if (changed.length > 0) {
+    const clock = tickHlc();
+    for (const field of changed) fieldClocks[field] = clock;
+  }
+  return { ...next, fieldClocks };
+}
+
+// Merge an incoming copy of a record into the local one. A gift amount edited
+// on this device but not yet pushed, and edited elsewhere too, is reported
+// as a conflict even though the newer side is applied.
+export function mergeRecords<T extends ClockedRecord>(
+  local: T,
+  remote: T,
+  deviceId: string,
+  isGift: boolean
+): MergeResult<T> {
+  const localValues = local as Values;
+  const remoteValues = remote as Values;
+  const merged = { ...localValues } as Values;
+  const fieldClocks: FieldClocks = { ...local.fieldClocks };
+  const conflicts: ConflictCandidate[] = [];
+  let remoteWon = false;
+  let localAhead = false;
+
+  for (const group of fieldGroups(dataFields(localValues, remoteValues), isGift)) {
+    const localClock = latest(group.map((f) => clockOf(local, f)));
+    const remoteClock = latest(group.map((f) => clockOf(remote, f)));
+    const differs = group.some((f) => !sameValue(localValues[f], remoteValues[f]));
+
+    if (!differs) {
+      for (const f of group) fieldClocks[f] = latest([clockOf(local, f), clockOf(remote, f)]);
+      continue;
+    }
+
+    // Equal clocks (legacy rows) fall back to comparing the values, so both
+    // devices still pick the same side
+    const useRemote =
+      remoteClock === localClock
+        ? JSON.stringify(group.map((f) => remoteValues[f] ?? null)) >
+          JSON.stringify(group.map((f) => localValues[f] ?? null))
+        : remoteClock > localClock;
+    const winner = useRemote ? remote : local;
+    for (const f of group) {
+      merged[f] = (winner as Values)[f];
+      fieldClocks[f] = clockOf(winner, f);
+    }
+    if (useRemote) remoteWon = true;
+    else localAhead = true;
+
+    const editedHere =
+      local.syncStatus !== "synced" && parseHlc(localClock).deviceId === deviceId;
+    const editedThere = parseHlc(remoteClock).deviceId !== deviceId;
+    if (isGift && group.some((f) => AMOUNT_FIELDS.includes(f)) && editedHere && editedThere) {
+      conflicts.push({
+        store: "gifts",
+        recordId: local.id,
+        guestId: String(localValues.guestId),
+        fields: group,
+        local: Object.fromEntries(group.map((f) => [f, localValues[f] ?? null])),
+        remote: Object.fromEntries(group.map((f) => [f, remoteValues[f] ?? null])),
+        localClock,
+        remoteClock,
+        applied: useRemote ? "remote" : "local",
+      });
+    }
+  }
+
+  merged.fieldClocks = fieldClocks;
+  merged.updatedAt = Math.max(local.updatedAt, remote.updatedAt);
+
+  return { merged: merged as T, remoteWon, localAhead, conflicts };
+}
+
+// Newest clock on a record, to advance this device's clock past it
+export function latestClock(record: ClockedRecord): string | null {
+  const clocks = Object.values(record.fieldClocks ?? {});
+  return clocks.length > 0 ? latest(clocks) : null;
+}
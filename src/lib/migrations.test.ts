@@ -0,0 +1,171 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { IDBPDatabase, deleteDB, openDB } from "idb";
+import { DEFAULT_EVENT_ID } from "@/lib/events";
+import {
+  AUDIT_STORE,
+  CONTACTS_STORE,
+  EVENTS_STORE,
+  GIFTS_STORE,
+  HISTORY_STORE,
+  LATEST_SCHEMA_VERSION,
+  MIGRATIONS,
+  RATES_STORE,
+  getPinnedSchemaVersion,
+  pinSchemaVersion,
+  restoreSnapshotData,
+  runMigrations,
+  snapshotBeforeUpgrade,
+} from "@/lib/migrations";
+
+const DB_NAME = "migrations_test_db";
+
+// Closed after each test, so a failed one cannot block deleting the database
+const connections: IDBPDatabase[] = [];
+
+async function openAt(version?: number) {
+  const db = await openDB(DB_NAME, version, {
+    upgrade(db, oldVersion, newVersion, tx) {
+      runMigrations(db, oldVersion, newVersion ?? version, tx);
+      tx.done.catch(() => {}); // A failed step aborts it, which openDB already rejects with
+    },
+  });
+  connections.push(db);
+  return db;
+}
+
+// A device still on v4, from before gifts were line items
+async function seedLegacyDevice(): Promise<void> {
+  const db = await openAt(4);
+  await db.put("guests", {
+    id: "g1",
+    name: "Sok Dara & Wife",
+    displayName: "Sok Dara & Wife",
+    side: "groom",
+    note: "",
+    isCustomGuest: false,
+    amountRiel: 40000,
+    paymentType: "bank",
+    bankType: "ABA",
+    bankRef: "123",
+    updatedAt: 1_700_000_000_000,
+    syncStatus: "synced",
+    lastSyncedAt: 1_700_000_000_000,
+  });
+  db.close();
+}
+
+beforeEach(seedLegacyDevice);
+afterEach(async () => {
+  connections.splice(0).forEach((db) => db.close());
+  await deleteDB(DB_NAME);
+});
+
+describe("runMigrations", () => {
+  it("brings a legacy guest up to the latest schema", async () => {
+    const db = await openAt(LATEST_SCHEMA_VERSION);
+
+    expect(await db.get(GIFTS_STORE, "LEGACY_g1")).toMatchObject({
+      guestId: "g1",
+      eventId: DEFAULT_EVENT_ID,
+      amountRiel: 40000,
+      currency: "KHR",
+      originalAmount: 40000,
+      exchangeRate: 4100,
+      paymentType: "bank",
+      bankType: "ABA",
+      bankRef: "123",
+      deleted: null,
+    });
+
+    const guest = await db.get("guests", "g1");
+    expect(guest).toMatchObject({ eventId: DEFAULT_EVENT_ID, deleted: null, contactId: "CONTACT_g1" });
+    expect(guest).not.toHaveProperty("amountRiel");
+    expect(guest).not.toHaveProperty("giftDeleted");
+
+    expect(await db.get(CONTACTS_STORE, "CONTACT_g1")).toMatchObject({
+      kind: "couple",
+      side: "groom",
+      members: [
+        { name: "Sok Dara", role: "" },
+        { name: "", role: "ភរិយា" },
+      ],
+    });
+    expect(await db.get(EVENTS_STORE, DEFAULT_EVENT_ID)).toMatchObject({ syncStatus: "local", lastSyncedAt: null });
+    expect(await db.getAll(RATES_STORE)).toMatchObject([{ rate: 4100, effectiveFrom: 0 }]);
+  });
+
+  it("records each step it applied", async () => {
+    const db = await openAt(LATEST_SCHEMA_VERSION);
+    const history = (await db.getAll(HISTORY_STORE)).filter((entry) => entry.fromVersion === 4);
+
+    expect(history.map((entry) => entry.version)).toEqual(
+      MIGRATIONS.filter((m) => m.version > 4).map((m) => m.version)
+    );
+
+    // The reshaped rows land in the ledger as migration events
+    const audit = await db.getAll(AUDIT_STORE);
+    expect(audit).toContainEqual(
+      expect.objectContaining({ action: "migration", giftId: "LEGACY_g1", previous: null })
+    );
+    expect(audit).toContainEqual(
+      expect.objectContaining({
+        guestId: "g1",
+        previous: { amountRiel: 40000, paymentType: "bank", bankType: "ABA", bankRef: "123" },
+      })
+    );
+
+  });
+
+  it("rolls the whole upgrade back when a step fails", async () => {
+    MIGRATIONS.push({
+      version: LATEST_SCHEMA_VERSION + 1,
+      description: "Broken step",
+      upgrade() {
+        throw new Error("broken");
+      },
+    });
+    try {
+      await expect(openAt(LATEST_SCHEMA_VERSION + 1)).rejects.toThrow();
+    } finally {
+      MIGRATIONS.pop();
+    }
+
+    const db = await openAt();
+    expect(db.version).toBe(4);
+    expect(db.objectStoreNames.contains(GIFTS_STORE)).toBe(false);
+    expect(await db.get("guests", "g1")).toMatchObject({ amountRiel: 40000 });
+  });
+});
+
+describe("snapshots", () => {
+  it("restores the data from before an upgrade", async () => {
+    const snapshotId = await snapshotBeforeUpgrade(DB_NAME, LATEST_SCHEMA_VERSION);
+    expect(snapshotId).not.toBeNull();
+    await openAt(LATEST_SCHEMA_VERSION);
+    connections.splice(0).forEach((db) => db.close());
+
+    expect(await restoreSnapshotData(DB_NAME, snapshotId!)).toBe(4);
+
+    const db = await openAt();
+    expect(db.version).toBe(4);
+    expect(await db.get("guests", "g1")).toMatchObject({ amountRiel: 40000, paymentType: "bank" });
+  });
+
+  it("takes none when there is nothing to upgrade", async () => {
+    expect(await snapshotBeforeUpgrade(DB_NAME, 4)).toBeNull();
+  });
+});
+
+describe("getPinnedSchemaVersion", () => {
+  it("holds a rollback until a build with newer migrations", () => {
+    pinSchemaVersion(4);
+    expect(getPinnedSchemaVersion()).toBe(4);
+
+    localStorage.setItem(
+      "wedding_db_pinned_version",
+      JSON.stringify({ version: 4, latest: LATEST_SCHEMA_VERSION - 1 })
+    );
+    expect(getPinnedSchemaVersion()).toBeNull();
+    expect(localStorage.getItem("wedding_db_pinned_version")).toBeNull();
+  });
+});
@@ -0,0 +1,681 @@
+import { openDB, deleteDB, IDBPDatabase, IDBPTransaction } from "idb";
+import { AuditEvent } from "@/types/audit";
+import { getDeviceId, getRecorderName } from "@/lib/audit";
+import { DEFAULT_EVENT_ID, DEFAULT_EVENT_NAME } from "@/lib/events";
+
+// Versioned schema migrations for wedding_gift_db.
+//
+// Every schema or data-shape change gets a new entry at the END of MIGRATIONS.
+// Never edit or reorder a migration that has shipped: devices in the field
+// replay only the steps above the version they already have.
+
+export type UpgradeDB = IDBPDatabase<unknown>;
+export type UpgradeTransaction = IDBPTransaction<unknown, string[], "versionchange">;
+
+export interface Migration {
+  version: number;
+  description: string;
+  // Runs inside the versionchange transaction. Only await IndexedDB requests
+  // here (no fetch, no WebCrypto) or the transaction will auto-commit.
+  upgrade: (db: UpgradeDB, tx: UpgradeTransaction) => Promise<void> | void;
+}
+
+export interface MigrationHistoryEntry {
+  version: number;
+  description: string;
+  fromVersion: number;
+  appliedAt: number;
+}
+
+export interface MigrationSnapshot {
+  id?: number;
+  version: number;
+  takenAt: number;
+  stores: Record<string, unknown[]>;
+}
+
+export const HISTORY_STORE = "migrations";
+export const AUDIT_STORE = "audit";
+export const GIFTS_STORE = "gifts";
+export const RATES_STORE = "rates";
+export const CONFLICTS_STORE = "conflicts";
+export const CREDENTIALS_STORE = "credentials";
+export const LOCKOUTS_STORE = "lockouts";
+export const VAULT_STORE = "vault";
+export const EVENTS_STORE = "events";
+export const CONTACTS_STORE = "contacts";
+export const OUTGOING_GIFTS_STORE = "outgoingGifts";
+
+const SNAPSHOT_DB_NAME = "wedding_gift_db_snapshots";
+const SNAPSHOT_STORE = "snapshots";
+const MAX_SNAPSHOTS = 3;
+const PINNED_VERSION_KEY = "wedding_db_pinned_version";
+
+type Row = Record<string, unknown>;
+
+// Frozen helpers. Each is a copy of the live one in lib/ as it stood when the
+// migration using it shipped; the live ones keep changing with the app, and a
+// device upgrading later must still get the rows the step was written for.
+
+// lib/audit.ts buildAuditEvent("migration", "schemaMigration", ...), v3
+const UNAUDITED_FIELDS = ["id", "guestId", "updatedAt", "syncStatus", "lastSyncedAt", "fieldClocks"];
+
+function migrationEvent(previous: Row | null, next: Row): AuditEvent | null {
+  const prevValues: Row = {};
+  const nextValues: Row = {};
+  for (const key of new Set([...Object.keys(previous ?? {}), ...Object.keys(next)])) {
+    if (UNAUDITED_FIELDS.includes(key)) continue;
+    const before = previous?.[key];
+    const after = next[key];
+    if (previous && JSON.stringify(before ?? null) === JSON.stringify(after ?? null)) continue;
+    if (previous) prevValues[key] = before ?? null;
+    nextValues[key] = after ?? null;
+  }
+  if (Object.keys(nextValues).length === 0) return null;
+
+  const isGift = "guestId" in next;
+  return {
+    guestId: (isGift ? next.guestId : next.id) as string,
+    ...(isGift && { giftId: next.id as string }),
+    action: "migration",
+    source: "schemaMigration",
+    previous: previous ? prevValues : null,
+    next: nextValues,
+    timestamp: Date.now(),
+    deviceId: getDeviceId(),
+    recorder: getRecorderName(),
+  };
+}
+
+// lib/gifts.ts, v6 and v7
+const LEGACY_USD_TO_KHR_RATE = 4100;
+const LEGACY_GIFT_FIELDS = ["amountRiel", "paymentType", "bankType", "bankRef", "giftDeleted"];
+
+function giftFromLegacyGuest(row: Row): Row | null {
+  const amountRiel = row.amountRiel;
+  if (typeof amountRiel !== "number" || amountRiel <= 0) return null;
+  const updatedAt = typeof row.updatedAt === "number" ? row.updatedAt : Date.now();
+  return {
+    id: `LEGACY_${row.id}`,
+    guestId: row.id,
+    eventId: row.eventId || DEFAULT_EVENT_ID,
+    amountRiel,
+    currency: "KHR",
+    originalAmount: amountRiel,
+    exchangeRate: LEGACY_USD_TO_KHR_RATE,
+    paymentType: row.paymentType === "bank" ? "bank" : "cash",
+    bankType: row.bankType ?? null,
+    bankRef: row.bankRef ?? null,
+    receivedAt: updatedAt,
+    recorder: "",
+    updatedAt,
+    syncStatus: row.syncStatus ?? "pending",
+    lastSyncedAt: row.lastSyncedAt ?? null,
+    deleted: row.giftDeleted ?? null,
+  };
+}
+
+function stripLegacyGiftFields(row: Row): Row {
+  const stripped = { ...row };
+  for (const field of LEGACY_GIFT_FIELDS) delete stripped[field];
+  return stripped;
+}
+
+function withOriginalAmount(row: Row): Row {
+  if (typeof row.originalAmount === "number" && typeof row.exchangeRate === "number") return row;
+  const amountRiel = typeof row.amountRiel === "number" ? row.amountRiel : 0;
+  return {
+    ...row,
+    originalAmount:
+      row.currency === "USD"
+        ? Math.round((amountRiel / LEGACY_USD_TO_KHR_RATE) * 100) / 100
+        : amountRiel,
+    exchangeRate: LEGACY_USD_TO_KHR_RATE,
+  };
+}
+
+// lib/contacts.ts, v14
+function withContactDefaults(row: Row): Row {
+  return {
+    kind: "household",
+    members: [],
+    phone: "",
+    address: "",
+    side: null,
+    relationship: "",
+    note: "",
+    mergedInto: null,
+    ...row,
+  };
+}
+
+// lib/search.ts normalizeText, v14
+const COENG = "\u17D2";
+const COENG_RO = "\u179A";
+const ZERO_WIDTH = /[\u00AD\u200B-\u200D\u2060\uFEFF]/g;
+const INVISIBLE_VOWELS = /\u17B4|\u17B5/g;
+const COMBINING_MARK = /\p{M}/u;
+const LATIN_DIACRITICS = /[\u0300-\u036F]/g;
+const KHMER_DIGITS = /[\u17E0-\u17E9]/g;
+
+function splitClusters(text: string): string[] {
+  const clusters: string[] = [];
+  let previous = "";
+  for (const ch of text) {
+    if (clusters.length > 0 && (COMBINING_MARK.test(ch) || previous === COENG)) {
+      clusters[clusters.length - 1] += ch;
+    } else {
+      clusters.push(ch);
+    }
+    previous = ch;
+  }
+  return clusters;
+}
+
+function markRank(mark: string): number {
+  if (mark[0] === COENG) return mark[1] === COENG_RO ? 2 : 1;
+  if (mark === "\u17C9" || mark === "\u17CA") return 3;
+  if (mark === "\u17CC") return 4;
+  if (mark >= "\u17B6" && mark <= "\u17C5") return 5;
+  return 6;
+}
+
+function reorderKhmerMarks(cluster: string): string {
+  const [base, ...rest] = Array.from(cluster);
+  const marks: string[] = [];
+  for (let i = 0; i < rest.length; i++) {
+    if (rest[i] === COENG && i + 1 < rest.length) {
+      marks.push(COENG + rest[++i]);
+    } else {
+      marks.push(rest[i]);
+    }
+  }
+  return base + marks.sort((a, b) => markRank(a) - markRank(b)).join("");
+}
+
+function normalizeCluster(cluster: string): string {
+  let text = cluster
+    .normalize("NFD")
+    .replace(LATIN_DIACRITICS, "")
+    .replace(ZERO_WIDTH, "")
+    .replace(INVISIBLE_VOWELS, "")
+    .toLowerCase()
+    .replace(/\s/g, " ")
+    .replace(KHMER_DIGITS, (d) => String(d.charCodeAt(0) - 0x17e0));
+
+  if (text.length > 1 && /[\u1780-\u17FF]/.test(text)) {
+    text = reorderKhmerMarks(text)
+      .replace(/\u17D2\u178A/g, "\u17D2\u178F")
+      .replace(/\u17C1\u17B6/g, "\u17C4")
+      .replace(/\u17C1\u17B8/g, "\u17BE");
+  }
+  return text;
+}
+
+function normalizeText(text: string): string {
+  return splitClusters(text).map(normalizeCluster).join("");
+}
+
+const partnerWord = (text: string) => normalizeText(text).replace(/[.\s]/g, "");
+
+const PARTNER_WORDS = new Map(
+  (
+    [
+      ["wife", "ភរិយា", "couple"],
+      ["ភរិយា", "ភរិយា", "couple"],
+      ["ប្រពន្ធ", "ភរិយា", "couple"],
+      ["husband", "ស្វាមី", "couple"],
+      ["ស្វាមី", "ស្វាមី", "couple"],
+      ["ប្តី", "ស្វាមី", "couple"],
+      ["honey", "ដៃគូ", "couple"],
+      ["gf", "សង្សារ", "couple"],
+      ["girlfriend", "សង្សារ", "couple"],
+      ["bf", "សង្សារ", "couple"],
+      ["boyfriend", "សង្សារ", "couple"],
+      ["fiance", "គូដណ្តឹង", "couple"],
+      ["fiancee", "គូដណ្តឹង", "couple"],
+      ["បងស្រី", "បងស្រី", "household"],
+      ["បងប្រុស", "បងប្រុស", "household"],
+      ["ប្អូនស្រី", "ប្អូនស្រី", "household"],
+      ["ប្អូនប្រុស", "ប្អូនប្រុស", "household"],
+      ["កូន", "កូន", "household"],
+      ["family", "ក្រុមគ្រួសារ", "household"],
+      ["ក្រុមគ្រួសារ", "ក្រុមគ្រួសារ", "household"],
+    ] as const
+  ).map(([word, role, kind]) => [partnerWord(word), { role, kind }])
+);
+
+// The couple or household a seeded guest's name describes, null for one person
+function contactFromSeededGuest(guest: Row): Row | null {
+  const name = guest.name as string;
+  const [first, ...rest] = name.split("&").map((part) => part.trim());
+  if (rest.length === 0 || !first) return null;
+
+  const members = [{ name: first, role: "" }];
+  let kind = rest.length === 1 ? "couple" : "household";
+  for (const part of rest.filter(Boolean)) {
+    const word = PARTNER_WORDS.get(partnerWord(part));
+    members.push(word ? { name: "", role: word.role } : { name: part, role: "" });
+    if (word?.kind === "household") kind = "household";
+  }
+
+  const now = Date.now();
+  return {
+    kind,
+    members,
+    phone: "",
+    address: "",
+    side: guest.side,
+    relationship: "",
+    note: "",
+    name,
+    id: `CONTACT_${guest.id}`,
+    mergedInto: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// Rewrite every row of a store in place (reshape GuestRecordDB etc.).
+// Reshaped guest and gift rows are written to the audit log once it exists.
+export async function rewriteStore(
+  tx: UpgradeTransaction,
+  storeName: string,
+  transform: (row: Row) => Row
+): Promise<number> {
+  const audit =
+    (storeName === "guests" || storeName === GIFTS_STORE) &&
+    tx.objectStoreNames.contains(AUDIT_STORE)
+      ? tx.objectStore(AUDIT_STORE)
+      : null;
+  let cursor = await tx.objectStore(storeName).openCursor();
+  let count = 0;
+
+  while (cursor) {
+    const previous = cursor.value as Row;
+    const next = transform({ ...previous });
+    await cursor.update(next);
+
+    const event = audit ? migrationEvent(previous, next) : null;
+    if (event) await audit.add(event);
+
+    count++;
+    cursor = await cursor.continue();
+  }
+
+  return count;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Create guests store",
+    upgrade(db) {
+      if (!db.objectStoreNames.contains("guests")) {
+        const store = db.createObjectStore("guests", { keyPath: "id" });
+        store.createIndex("by-sync-status", "syncStatus");
+        store.createIndex("by-updated", "updatedAt");
+        store.createIndex("by-side", "side");
+      }
+    },
+  },
+  {
+    version: 2,
+    description: "Add migration history store",
+    upgrade(db) {
+      if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+        db.createObjectStore(HISTORY_STORE, { keyPath: "version" });
+      }
+    },
+  },
+  {
+    version: 3,
+    description: "Add audit log store",
+    upgrade(db) {
+      if (!db.objectStoreNames.contains(AUDIT_STORE)) {
+        const store = db.createObjectStore(AUDIT_STORE, { keyPath: "id", autoIncrement: true });
+        store.createIndex("by-guest", "guestId");
+        store.createIndex("by-timestamp", "timestamp");
+      }
+    },
+  },
+  {
+    version: 4,
+    description: "Record ledger baseline for guests recorded before the audit log",
+    async upgrade(db, tx) {
+      const audit = tx.objectStore(AUDIT_STORE);
+      const byGuest = audit.index("by-guest");
+      let cursor = await tx.objectStore("guests").openCursor();
+
+      while (cursor) {
+        const guest = cursor.value as Row;
+        if ((await byGuest.count(guest.id as string)) === 0) {
+          const event = migrationEvent(null, guest);
+          if (event) await audit.add(event);
+        }
+        cursor = await cursor.continue();
+      }
+    },
+  },
+  {
+    version: 5,
+    description: "Add soft-delete tombstones for guests and gifts",
+    async upgrade(db, tx) {
+      await rewriteStore(tx, "guests", (row) => ({
+        ...row,
+        deleted: row.deleted ?? null,
+        giftDeleted: row.giftDeleted ?? null,
+      }));
+      const store = tx.objectStore("guests");
+      store.createIndex("by-deleted", "deleted.at");
+      store.createIndex("by-gift-deleted", "giftDeleted.at");
+    },
+  },
+  {
+    version: 6,
+    description: "Move gifts into their own store as line items",
+    async upgrade(db, tx) {
+      const gifts = db.createObjectStore(GIFTS_STORE, { keyPath: "id" });
+      gifts.createIndex("by-guest", "guestId");
+      gifts.createIndex("by-sync-status", "syncStatus");
+      gifts.createIndex("by-updated", "updatedAt");
+      gifts.createIndex("by-deleted", "deleted.at");
+
+      // One line item per existing single-amount record
+      const audit = tx.objectStore(AUDIT_STORE);
+      let cursor = await tx.objectStore("guests").openCursor();
+      while (cursor) {
+        const gift = giftFromLegacyGuest(cursor.value as Row);
+        if (gift) {
+          await gifts.add(gift);
+          const event = migrationEvent(null, gift);
+          if (event) await audit.add(event);
+        }
+        cursor = await cursor.continue();
+      }
+
+      await rewriteStore(tx, "guests", stripLegacyGiftFields);
+      tx.objectStore("guests").deleteIndex("by-gift-deleted");
+    },
+  },
+  {
+    version: 7,
+    description: "Keep each gift's original amount and exchange rate",
+    async upgrade(_db, tx) {
+      await rewriteStore(tx, GIFTS_STORE, withOriginalAmount);
+    },
+  },
+  {
+    version: 8,
+    description: "Add exchange rate table with effective-date history",
+    async upgrade(db) {
+      const rates = db.createObjectStore(RATES_STORE, { keyPath: "id", autoIncrement: true });
+      rates.createIndex("by-effective-from", "effectiveFrom");
+      // The fixed rate every earlier gift was recorded at
+      await rates.add({ rate: 4100, effectiveFrom: 0, setBy: "system" });
+    },
+  },
+  {
+    version: 9,
+    description: "Add conflict queue for concurrent gift amount edits",
+    upgrade(db) {
+      const conflicts = db.createObjectStore(CONFLICTS_STORE, {
+        keyPath: "id",
+        autoIncrement: true,
+      });
+      conflicts.createIndex("by-record", "recordId");
+      conflicts.createIndex("by-detected", "detectedAt");
+    },
+  },
+  {
+    version: 10,
+    description: "Add hashed role credentials and persistent unlock attempts",
+    upgrade(db) {
+      db.createObjectStore(CREDENTIALS_STORE, { keyPath: "role" });
+      db.createObjectStore(LOCKOUTS_STORE, { keyPath: "scope" });
+    },
+  },
+  {
+    version: 11,
+    description: "Add the passphrase check for at-rest encryption",
+    upgrade(db) {
+      db.createObjectStore(VAULT_STORE, { keyPath: "id" });
+    },
+  },
+  {
+    version: 12,
+    description: "Add events and move existing guests and gifts into a default event",
+    async upgrade(db, tx) {
+      const events = db.createObjectStore(EVENTS_STORE, { keyPath: "id" });
+      const now = Date.now();
+      await events.add({
+        id: DEFAULT_EVENT_ID,
+        name: DEFAULT_EVENT_NAME,
+        date: "",
+        venue: "",
+        couple: "",
+        exchangeRate: null,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      for (const storeName of ["guests", GIFTS_STORE]) {
+        await rewriteStore(tx, storeName, (row) => ({ ...row, eventId: row.eventId ?? DEFAULT_EVENT_ID }));
+        tx.objectStore(storeName).createIndex("by-event", "eventId");
+      }
+    },
+  },
+  {
+    version: 13,
+    description: "Add contacts and the gifts we give them, for the reciprocity ledger",
+    upgrade(db) {
+      db.createObjectStore(CONTACTS_STORE, { keyPath: "id" });
+      const given = db.createObjectStore(OUTGOING_GIFTS_STORE, { keyPath: "id" });
+      given.createIndex("by-contact", "contactId");
+    },
+  },
+  {
+    version: 14,
+    description: "Give contacts a kind, members and details, and read seeded couples into contacts",
+    async upgrade(_db, tx) {
+      await rewriteStore(tx, CONTACTS_STORE, withContactDefaults);
+
+      const contacts = tx.objectStore(CONTACTS_STORE);
+      const seededCouples = new Map<string, Row>();
+      for (const guest of (await tx.objectStore("guests").getAll()) as Row[]) {
+        if (guest.isCustomGuest || guest.contactId) continue;
+        const contact = contactFromSeededGuest(guest);
+        if (contact) seededCouples.set(guest.id as string, contact);
+      }
+      for (const contact of seededCouples.values()) {
+        if (!(await contacts.get(contact.id as string))) await contacts.add(contact);
+      }
+      await rewriteStore(tx, "guests", (row) => {
+        const contact = seededCouples.get(row.id as string);
+        return contact ? { ...row, contactId: contact.id } : row;
+      });
+    },
+  },
+  {
+    version: 15,
+    description: "Sync event details between devices",
+    async upgrade(_db, tx) {
+      await rewriteStore(tx, EVENTS_STORE, (row) => ({ ...row, syncStatus: "local", lastSyncedAt: null }));
+      tx.objectStore(EVENTS_STORE).createIndex("by-sync-status", "syncStatus");
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Apply every pending migration in order and record them in the history store.
+// Any error aborts the versionchange transaction, so IndexedDB rolls the whole
+// upgrade back and the device stays on its previous version.
+export async function runMigrations(
+  db: UpgradeDB,
+  oldVersion: number,
+  newVersion: number,
+  tx: UpgradeTransaction
+): Promise<void> {
+  const pending = MIGRATIONS.filter(
+    (m) => m.version > oldVersion && m.version <= newVersion
+  );
+
+  try {
+    for (const migration of pending) {
+      console.log(`[DB] Migrating to v${migration.version}: ${migration.description}`);
+      await migration.upgrade(db, tx);
+    }
+
+    if (db.objectStoreNames.contains(HISTORY_STORE)) {
+      const history = tx.objectStore(HISTORY_STORE);
+      const now = Date.now();
+      for (const migration of pending) {
+        const entry: MigrationHistoryEntry = {
+          version: migration.version,
+          description: migration.description,
+          fromVersion: oldVersion,
+          appliedAt: now,
+        };
+        await history.put(entry);
+      }
+    }
+  } catch (e) {
+    console.error("[DB] Migration failed, rolling back:", e);
+    tx.abort();
+  }
+}
+
+// Snapshot database
+
+function openSnapshotDB() {
+  return openDB(SNAPSHOT_DB_NAME, 1, {
+    upgrade(db) {
+      db.createObjectStore(SNAPSHOT_STORE, { keyPath: "id", autoIncrement: true });
+    },
+  });
+}
+
+async function readAllStores(db: IDBPDatabase<unknown>): Promise<Record<string, unknown[]>> {
+  const stores: Record<string, unknown[]> = {};
+  for (const name of Array.from(db.objectStoreNames)) {
+    stores[name] = await db.getAll(name);
+  }
+  return stores;
+}
+
+// Copy the current contents of the database aside before it is upgraded.
+// Returns the snapshot id, or null when no upgrade is about to happen.
+export async function snapshotBeforeUpgrade(
+  dbName: string,
+  targetVersion: number
+): Promise<number | null> {
+  // Opening without a version never upgrades an existing database
+  const current = await openDB(dbName);
+  const version = current.version;
+
+  // Nothing on this device yet: opening just created an empty v1 database,
+  // drop it so the real open starts from version 0 and runs every migration.
+  if (current.objectStoreNames.length === 0) {
+    current.close();
+    await deleteDB(dbName);
+    return null;
+  }
+
+  if (version >= targetVersion) {
+    current.close();
+    return null;
+  }
+
+  const stores = await readAllStores(current);
+  current.close();
+
+  const snapshotDB = await openSnapshotDB();
+  const snapshot: MigrationSnapshot = { version, takenAt: Date.now(), stores };
+  const id = (await snapshotDB.add(SNAPSHOT_STORE, snapshot)) as number;
+
+  // Keep only the most recent snapshots
+  const keys = (await snapshotDB.getAllKeys(SNAPSHOT_STORE)) as number[];
+  for (const key of keys.slice(0, Math.max(0, keys.length - MAX_SNAPSHOTS))) {
+    await snapshotDB.delete(SNAPSHOT_STORE, key);
+  }
+  snapshotDB.close();
+
+  console.log(`[DB] Snapshot #${id} taken before upgrading v${version} → v${targetVersion}`);
+  return id;
+}
+
+export async function listSnapshots(): Promise<Omit<MigrationSnapshot, "stores">[]> {
+  const snapshotDB = await openSnapshotDB();
+  const snapshots = (await snapshotDB.getAll(SNAPSHOT_STORE)) as MigrationSnapshot[];
+  snapshotDB.close();
+  return snapshots.map(({ id, version, takenAt }) => ({ id, version, takenAt }));
+}
+
+// Rebuild the database exactly as it was when the snapshot was taken, and
+// return its version. The caller must close every open connection first and
+// pin the version, or the next initDB() replays the migrations from it.
+export async function restoreSnapshotData(dbName: string, snapshotId: number): Promise<number> {
+  const snapshotDB = await openSnapshotDB();
+  const snapshot = (await snapshotDB.get(SNAPSHOT_STORE, snapshotId)) as
+    | MigrationSnapshot
+    | undefined;
+  snapshotDB.close();
+
+  if (!snapshot) {
+    throw new Error(`Snapshot ${snapshotId} not found`);
+  }
+
+  await deleteDB(dbName);
+
+  const db = await openDB(dbName, snapshot.version, {
+    upgrade(upgradeDB, oldVersion, newVersion, tx) {
+      runMigrations(upgradeDB, oldVersion, newVersion, tx);
+    },
+  });
+
+  for (const [storeName, rows] of Object.entries(snapshot.stores)) {
+    if (!db.objectStoreNames.contains(storeName)) continue;
+    const tx = db.transaction(storeName, "readwrite");
+    await tx.store.clear();
+    for (const row of rows) {
+      await tx.store.put(row);
+    }
+    await tx.done;
+  }
+
+  db.close();
+  console.log(`[DB] Restored snapshot #${snapshotId} (v${snapshot.version})`);
+  return snapshot.version;
+}
+
+// After a rollback, this build keeps the database on the restored version
+// instead of running the same migrations again. A build with newer
+// migrations (the fix) upgrades as usual.
+interface PinnedVersion {
+  version: number; // Version rolled back to
+  latest: number; // LATEST_SCHEMA_VERSION of the build that rolled back
+}
+
+export function pinSchemaVersion(version: number): void {
+  const pin: PinnedVersion = { version, latest: LATEST_SCHEMA_VERSION };
+  localStorage.setItem(PINNED_VERSION_KEY, JSON.stringify(pin));
+}
+
+export function unpinSchemaVersion(): void {
+  localStorage.removeItem(PINNED_VERSION_KEY);
+}
+
+// The version to open the database at while a rollback holds, else null
+export function getPinnedSchemaVersion(): number | null {
+  const stored = localStorage.getItem(PINNED_VERSION_KEY);
+  if (!stored) return null;
+  try {
+    const pin = JSON.parse(stored) as PinnedVersion;
+    if (pin.latest === LATEST_SCHEMA_VERSION) return pin.version;
+  } catch {
+    // Unreadable: upgrade as usual
+  }
+  unpinSchemaVersion();
+  return null;
+}
@@ -0,0 +1,41 @@
+import { onIdle } from "@/lib/idle";
+
+// Privacy mode masks gift amounts on screen for anyone standing at the
+// reception table. It is kept per device, turns itself back on after a while
+// without input, and only a role that may see totals can turn it off or
+// reveal an amount (see usePrivacy).
+
+const PRIVACY_KEY = "wedding_privacy_mode";
+const IDLE_TIMEOUT = 60000; // 1 minute without input
+
+export const MASKED_AMOUNT = "•••••";
+
+type PrivacyListener = (enabled: boolean) => void;
+const listeners = new Set<PrivacyListener>();
+
+export function isPrivacyMode(): boolean {
+  return localStorage.getItem(PRIVACY_KEY) === "on";
+}
+
+export function setPrivacyMode(enabled: boolean): void {
+  if (enabled === isPrivacyMode()) return;
+  localStorage.setItem(PRIVACY_KEY, enabled ? "on" : "off");
+  listeners.forEach((listener) => listener(enabled));
+}
+
+export function subscribeToPrivacy(listener: PrivacyListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// For text outside React, e.g. toasts
+export function maskAmount(formatted: string): string {
+  return isPrivacyMode() ? MASKED_AMOUNT : formatted;
+}
+
+// Turn privacy mode on once the device sits idle; returns the stop function
+export function watchIdle(timeout: number = IDLE_TIMEOUT): () => void {
+  return onIdle(timeout, () => setPrivacyMode(true));
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { addTerm, matchesTerms, parseQuery, removeTerm, withoutAmountTerms } from "@/lib/query";
+import { GiftEntry, GuestRecord } from "@/types/guest";
+
+function gift(overrides: Partial<GiftEntry> = {}): GiftEntry {
+  return {
+    id: "gift1",
+    amountRiel: 100000,
+    currency: "KHR",
+    originalAmount: 100000,
+    exchangeRate: 4100,
+    paymentType: "cash",
+    bank: null,
+    receivedAt: "2025-01-15T18:00:00",
+    recorder: "",
+    ...overrides,
+  };
+}
+
+function guest(overrides: Partial<GuestRecord> = {}): GuestRecord {
+  return {
+    id: "g1",
+    name: "សុខ ដារ៉ា",
+    side: "bride",
+    displayName: "សុខ ដារ៉ា",
+    amountRiel: 100000,
+    gifts: [gift()],
+    note: "",
+    isCustomGuest: false,
+    group: "",
+    phone: "",
+    expectedAttendees: null,
+    updatedAt: null,
+    ...overrides,
+  };
+}
+
+describe("parseQuery", () => {
+  it("splits terms from the name text", () => {
+    const { text, terms } = parseQuery("side:bride Dara bank:aba");
+    expect(text).toBe("Dara");
+    expect(terms.map(({ kind, value }) => ({ kind, value }))).toEqual([
+      { kind: "side", value: "bride" },
+      { kind: "bank", value: "ABA" },
+    ]);
+  });
+
+  it("reads amount ranges in either currency", () => {
+    const [usd, riel, above] = parseQuery("amount:100$ amount:50,000-100,000 amount:>=20usd").terms;
+    expect(usd.value).toMatchObject({ currency: "USD", min: 100, max: 100 });
+    expect(riel.value).toMatchObject({ currency: "KHR", min: 50000, max: 100000 });
+    expect(above.value).toMatchObject({ currency: "USD", min: 20, max: null, minExclusive: false });
+  });
+
+  it("keeps spaces inside a quoted note", () => {
+    expect(parseQuery('note:"with kids"').terms[0]).toMatchObject({ kind: "note", value: "with kids" });
+  });
+
+  it("drops a known key whose value is still being typed", () => {
+    expect(parseQuery("amount:>= Dara")).toEqual({ text: "Dara", terms: [] });
+  });
+
+  it("searches unknown keys as names", () => {
+    expect(parseQuery("foo:bar").text).toBe("foo:bar");
+  });
+
+  it("reads a bare to: date as the end of that day", () => {
+    const [from, to] = parseQuery("from:2025-01-15 to:2025-01-15").terms;
+    expect(to.value).toBe((from.value as number) + 24 * 60 * 60 * 1000 - 1);
+  });
+});
+
+describe("addTerm and removeTerm", () => {
+  it("adds a term once", () => {
+    const query = addTerm("Dara", "side:groom");
+    expect(query).toBe("side:groom Dara");
+    expect(addTerm(query, "side:groom")).toBe(query);
+  });
+
+  it("removes only the given term", () => {
+    const query = "side:groom pay:cash Dara";
+    expect(removeTerm(query, parseQuery(query).terms[0])).toBe("pay:cash Dara");
+  });
+});
+
+describe("matchesTerms", () => {
+  it("applies guest terms to the guest", () => {
+    const { terms } = parseQuery("side:bride has:note");
+    expect(matchesTerms(guest({ note: "VIP" }), terms)).toBe(true);
+    expect(matchesTerms(guest(), terms)).toBe(false);
+  });
+
+  it("needs every gift term to hold for the same gift", () => {
+    const cash = gift({ id: "a", amountRiel: 400000, originalAmount: 400000 });
+    const transfer = gift({
+      id: "b",
+      paymentType: "bank",
+      bank: { type: "ABA", ref: "001234" },
+      amountRiel: 41000,
+      currency: "USD",
+      originalAmount: 10,
+    });
+    const both = guest({ gifts: [cash, transfer] });
+
+    expect(matchesTerms(both, parseQuery("bank:aba ref:1234 amount:10$").terms)).toBe(true);
+    expect(matchesTerms(both, parseQuery("bank:aba amount:>=100000").terms)).toBe(false);
+  });
+
+  it("lets masked amounts through once amount terms are taken out", () => {
+    const { terms } = parseQuery("side:bride amount:>1000000");
+    expect(matchesTerms(guest(), terms)).toBe(false);
+    expect(matchesTerms(guest(), withoutAmountTerms(terms))).toBe(true);
+  });
+});
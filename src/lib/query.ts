@@ -0,0 +1,265 @@
+import { normalizeText } from "@/lib/search";
+import { GiftEntry, GuestRecord } from "@/types/guest";
+import { AmountRange, ParsedQuery, QueryFilter, QueryTerm } from "@/types/search";
+
+// Structured search terms typed into the search bar next to a name, e.g.
+//
+//   side:bride amount:100$            bride-side guests who gave $100
+//   bank:aba ref:1234                 the ABA transfer with reference 1234
+//   amount:50000-100000 has:note      gifts worth 50,000–100,000៛, with a note
+//   from:2025-01-15T17:00 to:21:00    recorded between those times
+//   guest:custom                      guests added at the table
+//
+// Payment, bank, reference, amount and time terms must all hold for the same
+// gift. Anything that is not a known term is left for the name search.
+
+// Chips offered in the filter menu, as the tokens they add to the query
+export const QUICK_FILTERS = [
+  "side:groom",
+  "side:bride",
+  "pay:cash",
+  "pay:bank",
+  "bank:aba",
+  "bank:acleda",
+  "has:note",
+  "no:note",
+  "guest:custom",
+  "guest:seeded",
+];
+
+const KEYS = ["side", "pay", "bank", "ref", "note", "has", "no", "amount", "from", "to", "guest"];
+const TERM = /^([a-z]+):(.*)$/i;
+const AMOUNT = /^(>=|<=|>|<)?\$?([\d,.]+)(?:-\$?([\d,.]+))?(\$|usd|៛|khr|riel)?$/i;
+const DATE = /^(\d{4})-(\d{2})-(\d{2})(?:[T_](\d{1,2}):(\d{2}))?$/;
+const TIME = /^(\d{1,2}):(\d{2})$/;
+
+function parseNumber(text: string): number | null {
+  const value = Number(text.replace(/,/g, ""));
+  return Number.isFinite(value) ? value : null;
+}
+
+function parseAmount(text: string): AmountRange | null {
+  const match = AMOUNT.exec(text);
+  if (!match) return null;
+  const [, op, first, second, unit] = match;
+  const currency = text.includes("$") || unit?.toLowerCase() === "usd" ? "USD" : "KHR";
+  const from = parseNumber(first);
+  if (from === null) return null;
+
+  if (second !== undefined) {
+    const to = parseNumber(second);
+    if (to === null || op) return null;
+    return { currency, min: from, max: to, minExclusive: false, maxExclusive: false };
+  }
+
+  const range: AmountRange = { currency, min: null, max: null, minExclusive: false, maxExclusive: false };
+  if (!op || op.startsWith(">")) range.min = from;
+  if (!op || op.startsWith("<")) range.max = from;
+  range.minExclusive = op === ">";
+  range.maxExclusive = op === "<";
+  return range;
+}
+
+// Local time; a bare date means the start of the day for from: and the end
+// of it for to:, and a bare time means today
+function parseTime(text: string, endOfDay: boolean): number | null {
+  const date = DATE.exec(text);
+  if (date) {
+    const [, year, month, day, hours, minutes] = date;
+    const at = new Date(Number(year), Number(month) - 1, Number(day));
+    if (hours !== undefined) {
+      at.setHours(Number(hours), Number(minutes));
+      if (endOfDay) at.setSeconds(59, 999);
+    } else if (endOfDay) {
+      at.setHours(23, 59, 59, 999);
+    }
+    return Number.isNaN(at.getTime()) ? null : at.getTime();
+  }
+
+  const time = TIME.exec(text);
+  if (time) {
+    const at = new Date();
+    at.setHours(Number(time[1]), Number(time[2]), endOfDay ? 59 : 0, endOfDay ? 999 : 0);
+    return at.getTime();
+  }
+  return null;
+}
+
+function parseFilter(key: string, value: string): QueryFilter | null {
+  const lower = value.toLowerCase();
+  switch (key.toLowerCase()) {
+    case "side":
+      if (lower === "groom" || value === "ប្រុស") return { kind: "side", value: "groom" };
+      if (lower === "bride" || value === "ស្រី") return { kind: "side", value: "bride" };
+      return null;
+    case "pay":
+      return lower === "cash" || lower === "bank" ? { kind: "payment", value: lower } : null;
+    case "bank":
+      if (lower === "aba") return { kind: "bank", value: "ABA" };
+      if (lower === "acleda") return { kind: "bank", value: "ACLEDA" };
+      return null;
+    case "ref":
+      return value ? { kind: "ref", value: lower } : null;
+    case "note":
+      return value ? { kind: "note", value: normalizeText(value) } : null;
+    case "has":
+    case "no":
+      return lower === "note" ? { kind: "hasNote", value: key.toLowerCase() === "has" } : null;
+    case "amount": {
+      const range = parseAmount(value);
+      return range && { kind: "amount", value: range };
+    }
+    case "from":
+    case "to": {
+      const at = parseTime(value, key.toLowerCase() === "to");
+      return at === null ? null : { kind: key.toLowerCase() as "from" | "to", value: at };
+    }
+    case "guest":
+      return lower === "custom" || lower === "seeded" ? { kind: "origin", value: lower } : null;
+    default:
+      return null;
+  }
+}
+
+// Split a query into structured terms and the name text left over.
+// note:"..." keeps spaces inside the quotes. A known key with a value that is
+// still being typed (amount:>=1) is ignored rather than searched as a name.
+export function parseQuery(query: string): ParsedQuery {
+  const terms: QueryTerm[] = [];
+  const text: string[] = [];
+
+  for (const [token] of query.matchAll(/[a-z]+:"[^"]*"?|\S+/gi)) {
+    const match = TERM.exec(token);
+    if (!match || !KEYS.includes(match[1].toLowerCase())) {
+      text.push(token);
+      continue;
+    }
+    const filter = parseFilter(match[1], match[2].replace(/^"|"$/g, ""));
+    if (filter) terms.push({ ...filter, token } as QueryTerm);
+  }
+
+  return { text: text.join(" "), terms };
+}
+
+// Back to query text, e.g. after a chip was removed
+export function formatQuery({ text, terms }: ParsedQuery): string {
+  return [...terms.map((term) => term.token), text].filter(Boolean).join(" ");
+}
+
+// Add a term unless it is already there
+export function addTerm(query: string, token: string): string {
+  const parsed = parseQuery(query);
+  if (parsed.terms.some((term) => term.token.toLowerCase() === token.toLowerCase())) return query;
+  return formatQuery({ ...parsed, terms: [...parsed.terms, ...parseQuery(token).terms] });
+}
+
+export function removeTerm(query: string, term: QueryTerm): string {
+  const parsed = parseQuery(query);
+  return formatQuery({ ...parsed, terms: parsed.terms.filter((t) => t.token !== term.token) });
+}
+
+function inRange(amount: number, range: AmountRange): boolean {
+  if (range.min !== null && (range.minExclusive ? amount <= range.min : amount < range.min)) {
+    return false;
+  }
+  if (range.max !== null && (range.maxExclusive ? amount >= range.max : amount > range.max)) {
+    return false;
+  }
+  return true;
+}
+
+function giftMatches(gift: GiftEntry, filter: QueryFilter): boolean {
+  switch (filter.kind) {
+    case "payment":
+      return gift.paymentType === filter.value;
+    case "bank":
+      return gift.bank?.type === filter.value;
+    case "ref":
+      return !!gift.bank?.ref.toLowerCase().includes(filter.value);
+    case "amount":
+      return filter.value.currency === "USD"
+        ? gift.currency === "USD" && inRange(gift.originalAmount, filter.value)
+        : inRange(gift.amountRiel, filter.value);
+    case "from":
+      return new Date(gift.receivedAt).getTime() >= filter.value;
+    case "to":
+      return new Date(gift.receivedAt).getTime() <= filter.value;
+    default:
+      return true;
+  }
+}
+
+// Terms that can be applied while amounts are masked; amount: terms would
+// give the hidden amounts away
+export function withoutAmountTerms<T extends QueryFilter>(terms: T[]): T[] {
+  return terms.filter((term) => term.kind !== "amount");
+}
+
+const GIFT_FILTERS: QueryFilter["kind"][] = ["payment", "bank", "ref", "amount", "from", "to"];
+
+export function matchesTerms(guest: GuestRecord, terms: QueryFilter[]): boolean {
+  const guestTerms = terms.filter((term) => !GIFT_FILTERS.includes(term.kind));
+  const giftTerms = terms.filter((term) => GIFT_FILTERS.includes(term.kind));
+
+  const guestMatches = guestTerms.every((term) => {
+    switch (term.kind) {
+      case "side":
+        return guest.side === term.value;
+      case "note":
+        return normalizeText(guest.note ?? "").includes(term.value);
+      case "hasNote":
+        return !!guest.note?.trim() === term.value;
+      case "origin":
+        return guest.isCustomGuest === (term.value === "custom");
+      default:
+        return true;
+    }
+  });
+
+  return (
+    guestMatches &&
+    (giftTerms.length === 0 || guest.gifts.some((gift) => giftTerms.every((term) => giftMatches(gift, term))))
+  );
+}
+
+function formatAmount(amount: number, currency: AmountRange["currency"]): string {
+  return currency === "USD" ? "$" + amount.toLocaleString("en-US") : amount.toLocaleString("km-KH") + "៛";
+}
+
+function formatAt(at: number): string {
+  return new Date(at).toLocaleString("km-KH", { dateStyle: "short", timeStyle: "short" });
+}
+
+// Chip text for a term
+export function termLabel(term: QueryFilter): string {
+  switch (term.kind) {
+    case "side":
+      return term.value === "groom" ? "ខាងប្រុស" : "ខាងស្រី";
+    case "payment":
+      return term.value === "cash" ? "សាច់ប្រាក់" : "ធនាគារ";
+    case "bank":
+      return term.value;
+    case "ref":
+      return `លេខប្រតិបត្តិការ៖ ${term.value}`;
+    case "note":
+      return `កំណត់ចំណាំ៖ ${term.value}`;
+    case "hasNote":
+      return term.value ? "មានកំណត់ចំណាំ" : "គ្មានកំណត់ចំណាំ";
+    case "amount": {
+      const { currency, min, max, minExclusive, maxExclusive } = term.value;
+      if (min !== null && max !== null) {
+        return min === max
+          ? `ចំនួន ${formatAmount(min, currency)}`
+          : `ចំនួន ${formatAmount(min, currency)}–${formatAmount(max, currency)}`;
+      }
+      if (min !== null) return `ចំនួន ${minExclusive ? ">" : "≥"} ${formatAmount(min, currency)}`;
+      return `ចំនួន ${maxExclusive ? "<" : "≤"} ${formatAmount(max ?? 0, currency)}`;
+    }
+    case "from":
+      return `ចាប់ពី ${formatAt(term.value)}`;
+    case "to":
+      return `ដល់ ${formatAt(term.value)}`;
+    case "origin":
+      return term.value === "custom" ? "ភ្ញៀវបង្កើតថ្មី" : "ភ្ញៀវក្នុងបញ្ជី";
+  }
+}
@@ -0,0 +1,47 @@
+import { GiftEntryDB } from "@/types/sync";
+import { ExchangeRate, RateBucket, RateComparison } from "@/types/rate";
+import { toRiel } from "@/lib/gifts";
+
+// Used only if the rate table is somehow empty; migration 8 seeds it
+export const DEFAULT_USD_TO_KHR_RATE = 4100;
+
+// Rate in effect at a moment: the latest entry that had started by then
+export function rateAt(rates: ExchangeRate[], timestamp: number): number {
+  let current: ExchangeRate | null = null;
+  for (const entry of rates) {
+    if (entry.effectiveFrom > timestamp) continue;
+    if (!current || entry.effectiveFrom >= current.effectiveFrom) current = entry;
+  }
+  return current?.rate ?? DEFAULT_USD_TO_KHR_RATE;
+}
+
+// How the counted gifts add up at their recorded rates versus todayRate
+export function compareRates(gifts: GiftEntryDB[], todayRate: number): RateComparison {
+  let historicalRiel = 0;
+  let todayRiel = 0;
+  const buckets = new Map<number, RateBucket>();
+
+  for (const gift of gifts) {
+    historicalRiel += gift.amountRiel;
+    todayRiel += toRiel(gift.originalAmount, gift.currency, todayRate);
+
+    if (gift.currency === "USD") {
+      const bucket = buckets.get(gift.exchangeRate) ?? {
+        rate: gift.exchangeRate,
+        usdAmount: 0,
+        giftCount: 0,
+      };
+      bucket.usdAmount += gift.originalAmount;
+      bucket.giftCount++;
+      buckets.set(gift.exchangeRate, bucket);
+    }
+  }
+
+  return {
+    todayRate,
+    historicalRiel,
+    todayRiel,
+    difference: todayRiel - historicalRiel,
+    buckets: [...buckets.values()].sort((a, b) => a.rate - b.rate),
+  };
+}
@@ -0,0 +1,124 @@
+import { resolveContactId } from "@/lib/contacts";
+import { eventOf } from "@/lib/events";
+import { isActiveGift } from "@/lib/gifts";
+import { Contact } from "@/types/contact";
+import { GiftEntryDB, GuestRecordDB } from "@/types/sync";
+import {
+  ContactBalance,
+  ExchangeTotals,
+  OutgoingGift,
+  ReciprocityRules,
+  ReturnSuggestion,
+} from "@/types/reciprocity";
+
+// The reciprocity ledger: what each family gave at our events is what we are
+// expected to give back at theirs. Balances span every event on the device.
+
+const RULES_KEY = "wedding_reciprocity_rules";
+const DEFAULT_RULES: ReciprocityRules = { inflationPercent: 0, roundKHR: 10000, roundUSD: 5 };
+
+const YEAR_MS = 365.25 * 24 * 60 * 60 * 1000;
+
+export function getReciprocityRules(): ReciprocityRules {
+  try {
+    const stored = localStorage.getItem(RULES_KEY);
+    return stored ? { ...DEFAULT_RULES, ...JSON.parse(stored) } : DEFAULT_RULES;
+  } catch {
+    return DEFAULT_RULES;
+  }
+}
+
+export function setReciprocityRules(rules: ReciprocityRules): void {
+  localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+}
+
+export function createOutgoingGiftId(): string {
+  return `GIVEN_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function totalsOf(items: Pick<GiftEntryDB, "currency" | "originalAmount" | "amountRiel">[]): ExchangeTotals {
+  return items.reduce(
+    (totals, item) => ({
+      usd: totals.usd + (item.currency === "USD" ? item.originalAmount : 0),
+      khr: totals.khr + (item.currency === "KHR" ? item.originalAmount : 0),
+      riel: totals.riel + item.amountRiel,
+    }),
+    { usd: 0, khr: 0, riel: 0 }
+  );
+}
+
+function roundUp(amount: number, step: number): number {
+  return step > 0 ? Math.ceil(amount / step) * step : Math.round(amount);
+}
+
+// What they gave at their latest event, grown by the inflation rule for the
+// years since and rounded up. Mixed currencies are suggested in riel.
+export function suggestReturn(
+  received: GiftEntryDB[],
+  rules: ReciprocityRules,
+  now: number = Date.now()
+): ReturnSuggestion | null {
+  if (received.length === 0) return null;
+
+  const latest = received.reduce((a, b) => (b.receivedAt > a.receivedAt ? b : a));
+  const gifts = received.filter((g) => eventOf(g) === eventOf(latest));
+  const currency = gifts.every((g) => g.currency === "USD") ? "USD" : "KHR";
+  const basedOn = gifts.reduce(
+    (sum, g) => sum + (currency === "USD" ? g.originalAmount : g.amountRiel),
+    0
+  );
+
+  const years = Math.max(0, (now - latest.receivedAt) / YEAR_MS);
+  const grown = basedOn * Math.pow(1 + rules.inflationPercent / 100, years);
+  const amount = roundUp(grown, currency === "USD" ? rules.roundUSD : rules.roundKHR);
+
+  return { currency, amount, basedOn, years };
+}
+
+// Balance of every contact, families we owe most first. Guests and gifts of
+// a merged contact count towards the one that replaced it.
+export function contactBalances(
+  contacts: Contact[],
+  guests: GuestRecordDB[],
+  gifts: GiftEntryDB[],
+  given: OutgoingGift[],
+  rules: ReciprocityRules,
+  now: number = Date.now()
+): ContactBalance[] {
+  const contactsById = new Map(contacts.map((c) => [c.id, c]));
+  const guestsByContact = new Map<string, string[]>();
+  for (const guest of guests) {
+    if (guest.deleted || !guest.contactId) continue;
+    const contactId = resolveContactId(contactsById, guest.contactId);
+    guestsByContact.set(contactId, [...(guestsByContact.get(contactId) ?? []), guest.id]);
+  }
+
+  const giftsByGuest = new Map<string, GiftEntryDB[]>();
+  for (const gift of gifts.filter(isActiveGift)) {
+    giftsByGuest.set(gift.guestId, [...(giftsByGuest.get(gift.guestId) ?? []), gift]);
+  }
+
+  return contacts
+    .filter((contact) => !contact.mergedInto)
+    .map((contact): ContactBalance => {
+      const guestIds = guestsByContact.get(contact.id) ?? [];
+      const received = guestIds.flatMap((id) => giftsByGuest.get(id) ?? []);
+      const ours = given.filter(
+        (g) => resolveContactId(contactsById, g.contactId) === contact.id && !g.deleted
+      );
+      const receivedTotals = totalsOf(received);
+      const givenTotals = totalsOf(ours);
+
+      return {
+        contact,
+        guestIds,
+        received: receivedTotals,
+        given: givenTotals,
+        balanceRiel: receivedTotals.riel - givenTotals.riel,
+        lastReceivedAt: received.length > 0 ? Math.max(...received.map((g) => g.receivedAt)) : null,
+        lastGivenOn: ours.map((g) => g.date).sort().pop() ?? null,
+        suggestion: suggestReturn(received, rules, now),
+      };
+    })
+    .sort((a, b) => b.balanceRiel - a.balanceRiel || a.contact.name.localeCompare(b.contact.name));
+}
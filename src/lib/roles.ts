@@ -0,0 +1,54 @@
+import { Permission, Role } from "@/types/auth";
+import { ROLES } from "@/lib/auth";
+
+// What each role may do. The active role lives in sessionStorage, so every
+// new session (or tab) starts as recorder until someone switches up with a PIN.
+
+const ACTIVE_ROLE_KEY = "wedding_active_role";
+
+const RECORDER: Permission[] = ["record"];
+const TREASURER: Permission[] = [
+  ...RECORDER,
+  "overwriteGift",
+  "viewTotals",
+  "reviewConflicts",
+  "viewAudit",
+  "export",
+];
+const ADMIN: Permission[] = [...TREASURER, "import", "editGuests", "settings"];
+
+const PERMISSIONS: Record<Role, Permission[]> = {
+  recorder: RECORDER,
+  treasurer: TREASURER,
+  admin: ADMIN,
+};
+
+type RoleListener = (role: Role) => void;
+const listeners = new Set<RoleListener>();
+
+export function can(role: Role, permission: Permission): boolean {
+  return PERMISSIONS[role].includes(permission);
+}
+
+// The role and every role above it; any of their secrets unlocks the role
+export function rolesAtOrAbove(role: Role): Role[] {
+  return ROLES.slice(ROLES.indexOf(role));
+}
+
+export function getActiveRole(): Role {
+  const stored = sessionStorage.getItem(ACTIVE_ROLE_KEY);
+  return ROLES.includes(stored as Role) ? (stored as Role) : "recorder";
+}
+
+// Callers check the secret first (see RoleSwitcher)
+export function setActiveRole(role: Role): void {
+  sessionStorage.setItem(ACTIVE_ROLE_KEY, role);
+  listeners.forEach((listener) => listener(role));
+}
+
+export function subscribeToRole(listener: RoleListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { buildSearchIndex, normalizeText, phoneticKey, romanize, search } from "@/lib/search";
+
+describe("normalizeText", () => {
+  it("drops zero-width spaces, diacritics and case, and reads Khmer digits", () => {
+    expect(normalizeText("Sö\u200Bk DARA ១២")).toBe("sok dara 12");
+  });
+
+  it("puts subscripts in one order however they were typed", () => {
+    // ស + subscript ta + subscript ro, typed in both orders
+    expect(normalizeText("ស្ត្រ")).toBe(normalizeText("ស្រ្ត"));
+  });
+
+  it("reads look-alike spellings the same", () => {
+    expect(normalizeText("កេា")).toBe(normalizeText("កោ")); // e + aa for oo
+    expect(normalizeText("ស្ដ")).toBe(normalizeText("ស្ត")); // Subscript da for ta
+  });
+});
+
+describe("romanize and phoneticKey", () => {
+  it("spells Khmer names in Latin letters", () => {
+    expect(romanize("សុខ ដារ៉ា")).toBe("sokh dara");
+    expect(romanize("Dara")).toBe("dara");
+  });
+
+  it("gives Khmer and Latin spellings of a name the same key", () => {
+    for (const [khmer, latin] of [
+      ["សុខ", "Sok"],
+      ["ចាន់", "Chan"],
+      ["ស្រីមុំ", "Sreymom"],
+      ["ម៉េង", "Meng"],
+      ["វណ្ណា", "Vanna"],
+    ]) {
+      expect(phoneticKey(khmer)).toBe(phoneticKey(latin));
+    }
+  });
+});
+
+describe("search", () => {
+  const index = buildSearchIndex(["សុខ ដារ៉ា", "Chan Sreymom", "Sokha"], (name) => [name]);
+  const names = (query: string) => search(index, query).map((hit) => hit.item);
+
+  it("finds Latin names from Khmer queries and the other way round", () => {
+    expect(names("ស្រីមុំ")).toEqual(["Chan Sreymom"]);
+    expect(names("sok")).toEqual(["Sokha", "សុខ ដារ៉ា"]); // Typed prefix before sound-alike
+  });
+
+  it("forgives a small typo", () => {
+    expect(names("Sreymon")).toEqual(["Chan Sreymom"]);
+    expect(names("Sxeymon")).toEqual([]);
+  });
+
+  it("needs every query word to match", () => {
+    expect(names("chan srey")).toEqual(["Chan Sreymom"]);
+    expect(names("chan dara")).toEqual([]);
+    expect(names("  ")).toEqual([]);
+  });
+
+  it("highlights whole clusters of the original text", () => {
+    const [hit] = search(index, "ដារ");
+    expect(hit.ranges).toEqual([[4, 9]]);
+    expect("សុខ ដារ៉ា".slice(...hit.ranges[0])).toBe("ដារ៉ា");
+  });
+
+  it("prefers a match in an earlier field", () => {
+    const withNotes = buildSearchIndex(
+      [
+        { name: "Dara", note: "" },
+        { name: "Pisey", note: "Dara's sister" },
+      ],
+      (guest) => [guest.name, guest.note]
+    );
+    expect(search(withNotes, "dara").map((hit) => [hit.item.name, hit.field])).toEqual([
+      ["Dara", 0],
+      ["Pisey", 1],
+    ]);
+  });
+});
@@ -0,0 +1,351 @@
+import { HighlightRange, SearchHit } from "@/types/search";
+
+// Guest name search that copes with how names are actually typed at the
+// reception table: Khmer spelled a little differently (subscript or vowel
+// order, zero-width spaces), Khmer names typed in Latin letters and the other
+// way round, and small typos.
+//
+// Every field is normalized once into words, each with a phonetic key built
+// from its romanization. A query word matches a field word, from best to
+// worst, as a prefix, a substring, by phonetic key, or by phonetic key within
+// a small edit distance.
+
+const COENG = "\u17D2"; // Joins the next consonant below as a subscript
+const COENG_RO = "\u179A";
+const ZERO_WIDTH = /[\u00AD\u200B-\u200D\u2060\uFEFF]/g;
+const INVISIBLE_VOWELS = /\u17B4|\u17B5/g; // Deprecated, never written visibly
+const COMBINING_MARK = /\p{M}/u;
+const LATIN_DIACRITICS = /[\u0300-\u036F]/g;
+const KHMER_DIGITS = /[\u17E0-\u17E9]/g;
+
+// Cost of each kind of word match; fuzzy matches add their edit distance
+const COST_PREFIX = 0;
+const COST_SUBSTRING = 1;
+const COST_KEY_PREFIX = 2;
+const COST_KEY_SUBSTRING = 3;
+const COST_FUZZY = 4;
+const FIELD_PENALTY = 0.5; // Per field after the first, so earlier fields win ties
+
+const CONSONANTS: Record<string, string> = {
+  ក: "k", ខ: "kh", គ: "k", ឃ: "kh", ង: "ng",
+  ច: "ch", ឆ: "chh", ជ: "ch", ឈ: "chh", ញ: "nh",
+  ដ: "d", ឋ: "th", ឌ: "d", ឍ: "th", ណ: "n",
+  ត: "t", ថ: "th", ទ: "t", ធ: "th", ន: "n",
+  ប: "b", ផ: "ph", ព: "p", ភ: "ph", ម: "m",
+  យ: "y", រ: "r", ល: "l", វ: "v", ឝ: "s",
+  ឞ: "s", ស: "s", ហ: "h", ឡ: "l", អ: "",
+};
+
+const INDEPENDENT_VOWELS: Record<string, string> = {
+  ឣ: "a", ឤ: "a", ឥ: "e", ឦ: "ei", ឧ: "o", ឨ: "ou", ឩ: "ou", ឪ: "ov",
+  ឫ: "rue", ឬ: "rue", ឭ: "lue", ឮ: "lue", ឯ: "ae", ឰ: "ai", ឱ: "ao", ឲ: "ao", ឳ: "au",
+};
+
+// Dependent vowels and the signs that are pronounced; the rest are dropped
+const VOWELS: Record<string, string> = {
+  "ា": "a", "ិ": "e", "ី": "ei", "ឹ": "oe", "ឺ": "eu",
+  "ុ": "o", "ូ": "ou", "ួ": "uo", "ើ": "aeu", "ឿ": "oea",
+  "ៀ": "ie", "េ": "e", "ែ": "ae", "ៃ": "ai", "ោ": "ao",
+  "ៅ": "au", "ះ": "h", "ៈ": "a",
+};
+const NIKAHIT = "\u17C6"; // Final "m", "am" when there is no other vowel
+
+// Romanizations disagree mostly on vowels and aspiration, so keys keep three
+// vowel classes and drop the "h" of kh, ch, th, ph
+const VOWEL_CLASSES: Record<string, string> = { a: "a", e: "i", i: "i", o: "o", u: "o" };
+
+interface Cluster {
+  text: string;
+  start: number;
+  end: number;
+}
+
+interface IndexedWord {
+  text: string; // Normalized
+  key: string; // Phonetic
+  at: number; // Offset in the normalized field text
+}
+
+interface IndexedField {
+  text: string; // Normalized
+  starts: number[]; // Original start offset of each normalized character
+  ends: number[]; // ...and original end offset
+  words: IndexedWord[];
+}
+
+interface IndexedItem<T> {
+  item: T;
+  fields: IndexedField[];
+}
+
+export interface SearchIndex<T> {
+  items: IndexedItem<T>[];
+}
+
+interface QueryWord {
+  text: string;
+  key: string;
+}
+
+// A base character with its combining marks; a consonant after a coeng
+// belongs to the cluster of the consonant above it
+function splitClusters(text: string): Cluster[] {
+  const clusters: Cluster[] = [];
+  let offset = 0;
+  let previous = "";
+  for (const ch of text) {
+    const last = clusters[clusters.length - 1];
+    if (last && (COMBINING_MARK.test(ch) || previous === COENG)) {
+      last.text += ch;
+      last.end = offset + ch.length;
+    } else {
+      clusters.push({ text: ch, start: offset, end: offset + ch.length });
+    }
+    previous = ch;
+    offset += ch.length;
+  }
+  return clusters;
+}
+
+// Order a cluster's marks as Unicode recommends: subscripts (ro last),
+// register shifters, robat, vowels, then the other signs
+function markRank(mark: string): number {
+  if (mark[0] === COENG) return mark[1] === COENG_RO ? 2 : 1;
+  if (mark === "\u17C9" || mark === "\u17CA") return 3;
+  if (mark === "\u17CC") return 4;
+  if (mark >= "\u17B6" && mark <= "\u17C5") return 5;
+  return 6;
+}
+
+function reorderKhmerMarks(cluster: string): string {
+  const [base, ...rest] = Array.from(cluster);
+  const marks: string[] = [];
+  for (let i = 0; i < rest.length; i++) {
+    if (rest[i] === COENG && i + 1 < rest.length) {
+      marks.push(COENG + rest[++i]);
+    } else {
+      marks.push(rest[i]);
+    }
+  }
+  return base + marks.sort((a, b) => markRank(a) - markRank(b)).join("");
+}
+
+function normalizeCluster(cluster: string): string {
+  let text = cluster
+    .normalize("NFD")
+    .replace(LATIN_DIACRITICS, "")
+    .replace(ZERO_WIDTH, "")
+    .replace(INVISIBLE_VOWELS, "")
+    .toLowerCase()
+    .replace(/\s/g, " ")
+    .replace(KHMER_DIGITS, (d) => String(d.charCodeAt(0) - 0x17e0));
+
+  if (text.length > 1 && /[\u1780-\u17FF]/.test(text)) {
+    text = reorderKhmerMarks(text)
+      .replace(/\u17D2\u178A/g, "\u17D2\u178F") // Subscript da and ta look alike
+      .replace(/\u17C1\u17B6/g, "\u17C4") // e + aa typed for oo
+      .replace(/\u17C1\u17B8/g, "\u17BE"); // e + ii typed for oe
+  }
+  return text;
+}
+
+// Normalize cluster by cluster, remembering where each character came from
+function normalizeWithOffsets(text: string): Omit<IndexedField, "words"> {
+  let normalized = "";
+  const starts: number[] = [];
+  const ends: number[] = [];
+  for (const cluster of splitClusters(text)) {
+    const part = normalizeCluster(cluster.text);
+    for (let i = 0; i < part.length; i++) {
+      starts.push(cluster.start);
+      ends.push(cluster.end);
+    }
+    normalized += part;
+  }
+  return { text: normalized, starts, ends };
+}
+
+export function normalizeText(text: string): string {
+  return normalizeWithOffsets(text).text;
+}
+
+function isConsonant(cluster: Cluster | undefined): boolean {
+  return !!cluster && cluster.text[0] in CONSONANTS;
+}
+
+// Khmer script to Latin letters, roughly as names are spelled in Latin.
+// Latin text passes through unchanged.
+export function romanize(text: string): string {
+  const clusters = splitClusters(normalizeText(text));
+  let result = "";
+  let isWordStart = true;
+
+  clusters.forEach((cluster, index) => {
+    const [base, ...marks] = Array.from(cluster.text);
+    if (base === " ") {
+      result += " ";
+      isWordStart = true;
+      return;
+    }
+
+    const isKhmer = base >= "\u1780" && base <= "\u17FF";
+    let roman = isKhmer ? CONSONANTS[base] ?? INDEPENDENT_VOWELS[base] ?? "" : cluster.text;
+    let hasVowel = base in INDEPENDENT_VOWELS;
+
+    for (let i = 0; i < marks.length; i++) {
+      if (marks[i] === COENG) {
+        roman += CONSONANTS[marks[++i]] ?? "";
+      } else if (marks[i] === NIKAHIT) {
+        roman += hasVowel ? "m" : "am";
+        hasVowel = true;
+      } else if (marks[i] in VOWELS) {
+        roman += VOWELS[marks[i]];
+        hasVowel = true;
+      }
+    }
+
+    // A first consonant with no written vowel still carries one
+    if (isWordStart && isConsonant(cluster) && !hasVowel && isConsonant(clusters[index + 1])) {
+      roman += "a";
+    }
+
+    result += roman;
+    isWordStart = false;
+  });
+
+  return result;
+}
+
+// Spelling-independent form of a romanized word, for comparing Latin and Khmer
+export function phoneticKey(text: string): string {
+  return romanize(text)
+    .replace(/[^a-z0-9 ]/g, "")
+    .replace(/nh|gn|ny/g, "n")
+    .replace(/([kctpsd])h+/g, "$1")
+    .replace(/j/g, "c")
+    .replace(/q/g, "k")
+    .replace(/w/g, "v")
+    .replace(/[zx]/g, "s")
+    .replace(/f/g, "p")
+    .replace(/y/g, "i")
+    .replace(/[aeiou]+/g, (run) => VOWEL_CLASSES[run[0]])
+    .replace(/(.)\1+/g, "$1")
+    .trim();
+}
+
+// Fewest edits to turn the pattern into any prefix of the text
+function prefixDistance(pattern: string, text: string): number {
+  let row = Array.from({ length: text.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= pattern.length; i++) {
+    const next = [i];
+    for (let j = 1; j <= text.length; j++) {
+      const substitution = row[j - 1] + (pattern[i - 1] === text[j - 1] ? 0 : 1);
+      next.push(Math.min(substitution, row[j] + 1, next[j - 1] + 1));
+    }
+    row = next;
+  }
+  return Math.min(...row);
+}
+
+// Typos allowed for a phonetic key of this length
+function allowedTypos(length: number): number {
+  if (length <= 3) return 0;
+  return length <= 6 ? 1 : 2;
+}
+
+function indexField(text: string): IndexedField {
+  const field = normalizeWithOffsets(text);
+  const words: IndexedWord[] = [];
+  for (const match of field.text.matchAll(/\S+/g)) {
+    words.push({ text: match[0], key: phoneticKey(match[0]), at: match.index ?? 0 });
+  }
+  return { ...field, words };
+}
+
+// Build once per list; fields are tried in order and earlier ones win ties
+export function buildSearchIndex<T>(items: T[], getFields: (item: T) => string[]): SearchIndex<T> {
+  return {
+    items: items.map((item) => ({ item, fields: getFields(item).map(indexField) })),
+  };
+}
+
+function originalRange(field: IndexedField, at: number, length: number): HighlightRange {
+  return [field.starts[at], field.ends[at + length - 1]];
+}
+
+// Best match of one query word in a field: its cost and what to highlight
+function matchWord(
+  word: QueryWord,
+  field: IndexedField
+): { cost: number; range: HighlightRange } | null {
+  let best: { cost: number; range: HighlightRange } | null = null;
+  const consider = (cost: number, range: HighlightRange) => {
+    if (!best || cost < best.cost) best = { cost, range };
+  };
+
+  for (const candidate of field.words) {
+    const wholeWord = originalRange(field, candidate.at, candidate.text.length);
+    const position = candidate.text.indexOf(word.text);
+    if (position === 0) {
+      consider(COST_PREFIX, originalRange(field, candidate.at, word.text.length));
+      break;
+    }
+    if (position > 0) {
+      consider(COST_SUBSTRING, originalRange(field, candidate.at + position, word.text.length));
+      continue;
+    }
+    if (!word.key || !candidate.key) continue;
+
+    if (candidate.key.startsWith(word.key)) {
+      consider(COST_KEY_PREFIX, wholeWord);
+    } else if (word.key.length >= 3 && candidate.key.includes(word.key)) {
+      consider(COST_KEY_SUBSTRING, wholeWord);
+    } else {
+      const distance = prefixDistance(word.key, candidate.key);
+      if (distance <= allowedTypos(word.key.length)) {
+        consider(COST_FUZZY + distance, wholeWord);
+      }
+    }
+  }
+  return best;
+}
+
+// Every query word must match somewhere in the field
+function matchField(
+  query: QueryWord[],
+  field: IndexedField
+): { cost: number; ranges: HighlightRange[] } | null {
+  let cost = 0;
+  const ranges: HighlightRange[] = [];
+  for (const word of query) {
+    const match = matchWord(word, field);
+    if (!match) return null;
+    cost += match.cost;
+    ranges.push(match.range);
+  }
+  return { cost, ranges };
+}
+
+// Items matching the query, closest first (ties keep the index order)
+export function search<T>(index: SearchIndex<T>, query: string): SearchHit<T>[] {
+  const words: QueryWord[] = normalizeText(query)
+    .split(" ")
+    .filter(Boolean)
+    .map((text) => ({ text, key: phoneticKey(text) }));
+  if (words.length === 0) return [];
+
+  const hits: SearchHit<T>[] = [];
+  for (const { item, fields } of index.items) {
+    let best: SearchHit<T> | null = null;
+    for (let i = 0; i < fields.length; i++) {
+      const match = matchField(words, fields[i]);
+      const score = match ? match.cost + i * FIELD_PENALTY : Infinity;
+      if (match && (!best || score < best.score)) {
+        best = { item, score, field: i, ranges: match.ranges };
+      }
+    }
+    if (best) hits.push(best);
+  }
+
+  return hits.sort((a, b) => a.score - b.score);
+}
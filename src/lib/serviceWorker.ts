@@ -0,0 +1,113 @@
+// Registers public/sw.js (production builds only) and relays what it says:
+// a new version is waiting, or Background Sync found the connection again.
+
+const SYNC_TAG = "wedding-sync";
+const UPDATE_CHECK_INTERVAL = 60 * 60000; // 1 hour
+
+type UpdateListener = (updateReady: boolean) => void;
+
+// Not in TypeScript's DOM types yet
+type SyncRegistration = ServiceWorkerRegistration & {
+  sync?: { register(tag: string): Promise<void> };
+};
+
+let waitingWorker: ServiceWorker | null = null;
+let updateActivated = false; // Another tab already switched to the new version
+let reloadRequested = false;
+const updateListeners = new Set<UpdateListener>();
+const syncListeners = new Set<() => void>();
+
+function notifyUpdate() {
+  const ready = waitingWorker !== null || updateActivated;
+  updateListeners.forEach((listener) => listener(ready));
+}
+
+function trackWaiting(registration: ServiceWorkerRegistration) {
+  // The first install is not an update
+  if (!navigator.serviceWorker.controller) return;
+
+  if (registration.waiting) {
+    waitingWorker = registration.waiting;
+    notifyUpdate();
+  }
+  registration.addEventListener("updatefound", () => {
+    const installing = registration.installing;
+    installing?.addEventListener("statechange", () => {
+      if (installing.state === "installed") {
+        waitingWorker = installing;
+        notifyUpdate();
+      }
+    });
+  });
+}
+
+export function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+
+  // A first install claims the page too; that is not an update
+  const hadController = navigator.serviceWorker.controller !== null;
+  navigator.serviceWorker.addEventListener("controllerchange", () => {
+    if (!hadController) return;
+    if (reloadRequested) {
+      window.location.reload();
+      return;
+    }
+    // Activated from another tab: this one reloads when it is ready to
+    waitingWorker = null;
+    updateActivated = true;
+    notifyUpdate();
+  });
+
+  navigator.serviceWorker.addEventListener("message", (event: MessageEvent) => {
+    if (event.data?.type === "SYNC_REQUESTED") {
+      syncListeners.forEach((listener) => listener());
+    }
+  });
+
+  window.addEventListener("load", async () => {
+    try {
+      const registration = await navigator.serviceWorker.register("/sw.js");
+      trackWaiting(registration);
+      setInterval(() => void registration.update(), UPDATE_CHECK_INTERVAL);
+    } catch (e) {
+      console.error("[SW] Registration failed:", e);
+    }
+  });
+}
+
+// Switch to the waiting version; the page reloads once it has taken over
+export function applyUpdate(): void {
+  if (updateActivated) {
+    window.location.reload();
+  } else if (waitingWorker) {
+    reloadRequested = true;
+    waitingWorker.postMessage({ type: "SKIP_WAITING" });
+  }
+}
+
+export function subscribeToUpdates(listener: UpdateListener): () => void {
+  updateListeners.add(listener);
+  listener(waitingWorker !== null || updateActivated);
+  return () => {
+    updateListeners.delete(listener);
+  };
+}
+
+// Ask the browser to wake us when connectivity returns; no-op where unsupported
+export async function requestBackgroundSync(): Promise<void> {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+  try {
+    const registration = (await navigator.serviceWorker.ready) as SyncRegistration;
+    await registration.sync?.register(SYNC_TAG);
+  } catch (e) {
+    console.warn("[SW] Background sync unavailable:", e);
+  }
+}
+
+// Called when Background Sync fires; returns the unsubscribe function
+export function onBackgroundSync(listener: () => void): () => void {
+  syncListeners.add(listener);
+  return () => {
+    syncListeners.delete(listener);
+  };
+}
@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import { readSpreadsheet } from "@/lib/spreadsheet";
+
+const encoder = new TextEncoder();
+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Just enough of a zip for readZipDirectory: local headers, the central
+// directory and its end record. CRCs are left at zero since nothing checks them.
+async function zip(files: Record<string, string>, compress = true): Promise<Uint8Array> {
+  const local: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const [path, text] of Object.entries(files)) {
+    const name = encoder.encode(path);
+    const raw = encoder.encode(text);
+    const data = compress ? await deflate(raw) : raw;
+
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, 0x04034b50, true);
+    header.setUint16(8, compress ? 8 : 0, true);
+    header.setUint32(18, data.length, true);
+    header.setUint32(22, raw.length, true);
+    header.setUint16(26, name.length, true);
+    local.push(new Uint8Array(header.buffer), name, data);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014b50, true);
+    entry.setUint16(10, compress ? 8 : 0, true);
+    entry.setUint32(20, data.length, true);
+    entry.setUint32(24, raw.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true);
+    central.push(new Uint8Array(entry.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  }
+
+  const directorySize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, central.length / 2, true);
+  end.setUint16(10, central.length / 2, true);
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...local, ...central, new Uint8Array(end.buffer)];
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  parts.reduce((at, part) => (bytes.set(part, at), at + part.length), 0);
+  return bytes;
+}
+
+const MAIN_NS = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const REL_NS = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+const workbook = `<?xml version="1.0" encoding="UTF-8"?>
+<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">
+  <sheets><sheet name="Guests" sheetId="1" r:id="rId7"/></sheets>
+</workbook>`;
+
+const rels = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId7" Type="${REL_NS}/worksheet" Target="worksheets/guests.xml"/>
+</Relationships>`;
+
+const sharedStrings = `<?xml version="1.0" encoding="UTF-8"?>
+<sst xmlns="${MAIN_NS}">
+  <si><t>Name</t></si>
+  <si><t>Phone</t></si>
+  <si><r><t>សុខ </t></r><r><t>ដារ៉ា</t></r><rPh><t>ignored</t></rPh></si>
+</sst>`;
+
+const sheet = `<?xml version="1.0" encoding="UTF-8"?>
+<x:worksheet xmlns:x="${MAIN_NS}">
+  <x:sheetData>
+    <x:row r="1"><x:c r="A1" t="s"><x:v>0</x:v></x:c><x:c r="B1" t="s"><x:v>1</x:v></x:c></x:row>
+    <x:row r="3">
+      <x:c r="A3" t="s"><x:v>2</x:v></x:c>
+      <x:c r="C3" t="inlineStr"><x:is><x:t>VIP</x:t></x:is></x:c>
+    </x:row>
+    <x:row r="4"><x:c r="A4" t="inlineStr"><x:is><x:t>Keo</x:t></x:is></x:c><x:c r="B4"><x:v>12345678</x:v></x:c></x:row>
+  </x:sheetData>
+</x:worksheet>`;
+
+function file(name: string, content: BlobPart): File {
+  return new File([content], name);
+}
+
+describe("readSpreadsheet", () => {
+  it("reads quoted CSV cells holding commas, quotes and line breaks", async () => {
+    const csv = '\uFEFFName,Note\r\n"Sok, Dara","said ""hi""\nat the door"\r\n';
+
+    const data = await readSpreadsheet(file("guests.csv", csv));
+
+    expect(data.headers).toEqual(["Name", "Note"]);
+    expect(data.rows).toEqual([{ row: 2, cells: ["Sok, Dara", 'said "hi"\nat the door'] }]);
+  });
+
+  it("reads CSV separated by semicolons and skips blank lines", async () => {
+    const data = await readSpreadsheet(file("guests.csv", "Name;Phone\n\nDara;012\n"));
+
+    expect(data.headers).toEqual(["Name", "Phone"]);
+    expect(data.rows.map((r) => r.cells)).toEqual([["Dara", "012"]]);
+  });
+
+  it("reads the first sheet of a deflated XLSX workbook", async () => {
+    const xlsx = await zip({
+      "xl/workbook.xml": workbook,
+      "xl/_rels/workbook.xml.rels": rels,
+      "xl/sharedStrings.xml": sharedStrings,
+      "xl/worksheets/guests.xml": sheet,
+    });
+
+    const data = await readSpreadsheet(file("guests.xlsx", xlsx));
+
+    expect(data.headers).toEqual(["Name", "Phone"]);
+    expect(data.rows).toEqual([
+      { row: 3, cells: ["សុខ ដារ៉ា", "", "VIP"] },
+      { row: 4, cells: ["Keo", "12345678"] },
+    ]);
+  });
+
+  it("falls back to sheet1 in a stored workbook without relationships", async () => {
+    const xlsx = await zip({ "xl/worksheets/sheet1.xml": sheet.replace(/t="s"><x:v>\d/g, "><x:v>7") }, false);
+
+    const data = await readSpreadsheet(file("guests.xlsx", xlsx));
+
+    expect(data.headers).toEqual(["7", "7"]);
+  });
+
+  it("turns down old binary workbooks and empty files", async () => {
+    await expect(readSpreadsheet(file("guests.xls", "\xD0\xCF\x11\xE0"))).rejects.toThrow(/not supported/);
+    await expect(readSpreadsheet(file("guests.csv", "\n\n"))).rejects.toThrow(/empty/);
+  });
+});
@@ -0,0 +1,214 @@
+import { SpreadsheetData, SpreadsheetRow } from "@/types/invitation";
+
+// Reads the first sheet of a CSV or XLSX file into text cells, in the browser
+// and without a spreadsheet library: an XLSX file is a zip of XML parts, which
+// DecompressionStream and DOMParser can take apart.
+
+const REL_NS = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+export async function readSpreadsheet(file: File): Promise<SpreadsheetData> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const isZip = bytes[0] === 0x50 && bytes[1] === 0x4b; // "PK"
+  if (/\.xls$/i.test(file.name) && !isZip) {
+    throw new Error("Old .xls workbooks are not supported, save as .xlsx or .csv");
+  }
+
+  const rows = isZip ? await readXlsxRows(bytes) : readCsvRows(new TextDecoder().decode(bytes));
+  const filled = rows.filter((r) => r.cells.some((cell) => cell.trim() !== ""));
+  if (filled.length === 0) {
+    throw new Error("The spreadsheet is empty");
+  }
+
+  const [header, ...body] = filled;
+  return {
+    fileName: file.name,
+    headers: header.cells.map((cell) => cell.trim()),
+    rows: body,
+  };
+}
+
+// CSV
+
+// Comma, semicolon (Excel in many locales) or tab, whichever the first line uses most
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const counts = [",", ";", "\t"].map((d) => [d, firstLine.split(d).length] as const);
+  return counts.reduce((best, next) => (next[1] > best[1] ? next : best))[0];
+}
+
+// RFC 4180: quoted cells may hold delimiters, doubled quotes and line breaks
+function readCsvRows(text: string): SpreadsheetRow[] {
+  const source = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(source);
+  const rows: SpreadsheetRow[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  const endRow = () => {
+    cells.push(cell);
+    rows.push({ row: rows.length + 1, cells });
+    cells = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || cells.length > 0) endRow();
+
+  return rows;
+}
+
+// XLSX
+
+interface ZipEntry {
+  method: number; // 0 stored, 8 deflated
+  offset: number; // Of the local file header
+  compressedSize: number;
+}
+
+// Entries listed in the zip's central directory, by path
+function readZipDirectory(bytes: Uint8Array): Map<string, ZipEntry> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let end = bytes.length - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end--;
+  if (end < 0) throw new Error("Not a valid XLSX file");
+
+  const entries = new Map<string, ZipEntry>();
+  const count = view.getUint16(end + 10, true);
+  let at = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(at, true) !== 0x02014b50) throw new Error("Not a valid XLSX file");
+    const nameLength = view.getUint16(at + 28, true);
+    const extraLength = view.getUint16(at + 30, true);
+    const commentLength = view.getUint16(at + 32, true);
+    const name = decoder.decode(bytes.subarray(at + 46, at + 46 + nameLength));
+    entries.set(name, {
+      method: view.getUint16(at + 10, true),
+      compressedSize: view.getUint32(at + 20, true),
+      offset: view.getUint32(at + 42, true),
+    });
+    at += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+async function readZipText(
+  bytes: Uint8Array,
+  entries: Map<string, ZipEntry>,
+  path: string
+): Promise<string | null> {
+  const entry = entries.get(path);
+  if (!entry) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const start =
+    entry.offset + 30 + view.getUint16(entry.offset + 26, true) + view.getUint16(entry.offset + 28, true);
+  const data = bytes.slice(start, start + entry.compressedSize);
+
+  if (entry.method === 0) return new TextDecoder().decode(data);
+  if (entry.method !== 8) throw new Error(`Unsupported compression in ${path}`);
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Response(stream).text();
+}
+
+function parseXml(text: string): Document {
+  return new DOMParser().parseFromString(text, "application/xml");
+}
+
+// By local name: SpreadsheetML elements may or may not carry a prefix, and
+// strict and transitional workbooks use different namespaces
+function elements(parent: Document | Element, name: string): Element[] {
+  return Array.from(parent.getElementsByTagName("*")).filter((el) => el.localName === name);
+}
+
+// Text of a shared or inline string, leaving out phonetic guides
+function stringText(item: Element): string {
+  return elements(item, "t")
+    .filter((t) => t.parentElement?.localName !== "rPh")
+    .map((t) => t.textContent ?? "")
+    .join("");
+}
+
+// "AB12" → 27 (zero-based column)
+function columnIndex(ref: string): number {
+  const letters = /^[A-Z]+/i.exec(ref)?.[0].toUpperCase() ?? "";
+  let index = 0;
+  for (const letter of letters) index = index * 26 + letter.charCodeAt(0) - 64;
+  return index - 1;
+}
+
+// Path of the workbook's first sheet, following its relationship
+async function firstSheetPath(bytes: Uint8Array, entries: Map<string, ZipEntry>): Promise<string> {
+  const fallback = "xl/worksheets/sheet1.xml";
+  const workbook = await readZipText(bytes, entries, "xl/workbook.xml");
+  const rels = await readZipText(bytes, entries, "xl/_rels/workbook.xml.rels");
+  if (!workbook || !rels) return fallback;
+
+  // Parsers that leave attribute namespaces unbound keep the usual r: prefix
+  const sheet = elements(parseXml(workbook), "sheet")[0];
+  const relId = sheet?.getAttributeNS(REL_NS, "id") ?? sheet?.getAttribute("r:id");
+  const target = elements(parseXml(rels), "Relationship")
+    .find((rel) => rel.getAttribute("Id") === relId)
+    ?.getAttribute("Target");
+  if (!target) return fallback;
+  return target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+}
+
+async function readXlsxRows(bytes: Uint8Array): Promise<SpreadsheetRow[]> {
+  const entries = readZipDirectory(bytes);
+  const sheet = await readZipText(bytes, entries, await firstSheetPath(bytes, entries));
+  if (!sheet) throw new Error("The workbook has no sheets");
+
+  const sharedText = await readZipText(bytes, entries, "xl/sharedStrings.xml");
+  const shared = sharedText ? elements(parseXml(sharedText), "si").map(stringText) : [];
+
+  return elements(parseXml(sheet), "row").map((rowElement, i) => {
+    const cells: string[] = [];
+    elements(rowElement, "c").forEach((c) => {
+      const ref = c.getAttribute("r");
+      const column = ref ? columnIndex(ref) : cells.length;
+      const value = elements(c, "v")[0]?.textContent ?? "";
+      let text: string;
+      switch (c.getAttribute("t")) {
+        case "s":
+          text = shared[Number(value)] ?? "";
+          break;
+        case "inlineStr":
+          text = elements(c, "is").map(stringText).join("");
+          break;
+        case "b":
+          text = value === "1" ? "TRUE" : "FALSE";
+          break;
+        default:
+          text = value;
+      }
+      while (cells.length < column) cells.push("");
+      cells[column] = text;
+    });
+    return { row: Number(rowElement.getAttribute("r")) || i + 1, cells };
+  });
+}
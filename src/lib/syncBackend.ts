@@ -0,0 +1,52 @@
+import { PullResult, PushResult, SyncBackend, SyncBatch } from "@/types/sync";
+
+// REST backend for the sync engine. The server speaks two calls:
+//   POST {endpoint}/sync/push            body: SyncBatch   -> PushResult
+//     (conflicts: amounts pushed without having pulled the server's edit)
+//   GET  {endpoint}/sync/pull?since=<ms>                   -> PullResult
+// `since` and `serverTime` are server clock times, never device times.
+
+const ENDPOINT_KEY = "wedding_sync_endpoint";
+const REQUEST_TIMEOUT = 15000; // 15 seconds
+
+// Endpoint set on this device, else the build default; "" disables sync
+export function getSyncEndpoint(): string {
+  return localStorage.getItem(ENDPOINT_KEY) ?? import.meta.env.VITE_SYNC_ENDPOINT ?? "";
+}
+
+export function setSyncEndpoint(endpoint: string): void {
+  localStorage.setItem(ENDPOINT_KEY, endpoint.trim().replace(/\/+$/, ""));
+}
+
+async function request<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+
+  try {
+    const response = await fetch(url, {
+      ...init,
+      headers: { "Content-Type": "application/json", ...init.headers },
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} ${response.statusText}`);
+    }
+    return (await response.json()) as T;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+export function createRestBackend(endpoint: string): SyncBackend {
+  return {
+    push(batch: SyncBatch) {
+      return request<PushResult>(`${endpoint}/sync/push`, {
+        method: "POST",
+        body: JSON.stringify(batch),
+      });
+    },
+    pull(since: number | null) {
+      return request<PullResult>(`${endpoint}/sync/pull?since=${since ?? 0}`);
+    },
+  };
+}
@@ -0,0 +1,193 @@
+import {
+  applyRemoteChanges,
+  addSyncConflicts,
+  getEventsBySyncStatus,
+  getGiftsBySyncStatus,
+  getGuestsBySyncStatus,
+  getPendingSyncCount,
+  getSyncErrorCount,
+  markAsError,
+  markAsSynced,
+} from "@/lib/db";
+import { getDeviceId } from "@/lib/audit";
+import { onBackgroundSync, requestBackgroundSync } from "@/lib/serviceWorker";
+import { GiftEntryDB, GuestRecordDB, SyncBackend, SyncState } from "@/types/sync";
+import { WeddingEvent } from "@/types/event";
+
+// Pushes pending/local records in batches, then pulls what other devices
+// sent since the last pull. Network failures retry with exponential backoff;
+// records the server rejects are marked "error" and wait for the next edit.
+
+const BATCH_SIZE = 100;
+const IDLE_INTERVAL = 30000; // Poll for remote changes every 30 seconds
+const RETRY_BASE_DELAY = 2000;
+const RETRY_MAX_DELAY = 5 * 60000; // 5 minutes
+const LAST_PULLED_KEY = "wedding_last_pulled_at";
+
+export interface SyncEngine {
+  requestSync: () => void; // Sync soon (coalesces repeated calls)
+  syncNow: () => void; // Sync immediately, skipping any backoff wait
+  stop: () => void;
+}
+
+interface SyncEngineOptions {
+  endpoint: string; // Scopes the pull cursor to one server
+  backend: SyncBackend;
+  onStateChange: (patch: Partial<SyncState>) => void;
+  onRemoteChanges: () => void;
+}
+
+async function getPendingBatch(): Promise<{
+  guests: GuestRecordDB[];
+  gifts: GiftEntryDB[];
+  events: WeddingEvent[];
+}> {
+  // Events first; there are only ever a few
+  const events = [
+    ...(await getEventsBySyncStatus("pending")),
+    ...(await getEventsBySyncStatus("local")),
+  ].slice(0, BATCH_SIZE);
+  const guests = [
+    ...(await getGuestsBySyncStatus("pending")),
+    ...(await getGuestsBySyncStatus("local")),
+  ].slice(0, BATCH_SIZE - events.length);
+  const gifts = [
+    ...(await getGiftsBySyncStatus("pending")),
+    ...(await getGiftsBySyncStatus("local")),
+  ].slice(0, BATCH_SIZE - events.length - guests.length);
+  return { guests, gifts, events };
+}
+
+function retryDelay(attempt: number): number {
+  const delay = Math.min(RETRY_BASE_DELAY * 2 ** (attempt - 1), RETRY_MAX_DELAY);
+  // Jitter so devices that lost the server together do not return together
+  return Math.round(delay * (0.75 + Math.random() * 0.5));
+}
+
+export function createSyncEngine({
+  endpoint,
+  backend,
+  onStateChange,
+  onRemoteChanges,
+}: SyncEngineOptions): SyncEngine {
+  const cursorKey = `${LAST_PULLED_KEY}:${endpoint}`;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running = false;
+  let requestedWhileRunning = false;
+  let stopped = false;
+  let failures = 0;
+
+  function schedule(delay: number) {
+    if (stopped) return;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      void run();
+    }, delay);
+  }
+
+  async function push(): Promise<void> {
+    // Keep pushing until everything pending went out (or got rejected)
+    for (;;) {
+      const { guests, gifts, events } = await getPendingBatch();
+      if (guests.length === 0 && gifts.length === 0 && events.length === 0) return;
+
+      // The pull cursor tells the server which of its edits this device saw,
+      // so it can report amounts edited on both sides. Once marked synced
+      // here, the pull that follows can no longer tell.
+      const stored = localStorage.getItem(cursorKey);
+      const pulledAt = stored ? Number(stored) : null;
+      const result = await backend.push({ deviceId: getDeviceId(), pulledAt, guests, gifts, events });
+      const accepted = new Set(result.accepted);
+      if (result.conflicts?.length) await addSyncConflicts(result.conflicts);
+      await markAsSynced([...guests, ...gifts, ...events].filter((r) => accepted.has(r.id)));
+      for (const { id, reason } of result.rejected) {
+        console.warn(`[Sync] Server rejected ${id}: ${reason}`);
+        await markAsError(id);
+      }
+      // Guard against a server that answers without taking anything
+      if (accepted.size === 0 && result.rejected.length === 0) {
+        throw new Error("Server accepted none of the batch");
+      }
+    }
+  }
+
+  async function pull(): Promise<void> {
+    const stored = localStorage.getItem(cursorKey);
+    const result = await backend.pull(stored ? Number(stored) : null);
+    const applied = await applyRemoteChanges(result.guests, result.gifts, result.events);
+    localStorage.setItem(cursorKey, String(result.serverTime));
+    if (applied > 0) onRemoteChanges();
+  }
+
+  async function run(): Promise<void> {
+    if (stopped) return;
+    if (running) {
+      requestedWhileRunning = true;
+      return;
+    }
+    // Wait for the "online" event (or Background Sync) instead of burning retries
+    if (!navigator.onLine) {
+      void requestBackgroundSync();
+      return;
+    }
+
+    running = true;
+    onStateChange({ isSyncing: true });
+
+    try {
+      await push();
+      await pull();
+      failures = 0;
+      onStateChange({
+        isSyncing: false,
+        lastSyncTime: Date.now(),
+        lastError: null,
+        nextRetryAt: null,
+        pendingCount: await getPendingSyncCount(),
+        errorCount: await getSyncErrorCount(),
+      });
+      schedule(IDLE_INTERVAL);
+    } catch (e) {
+      failures++;
+      const delay = retryDelay(failures);
+      console.error(`[Sync] Attempt ${failures} failed, retrying in ${delay}ms:`, e);
+      void requestBackgroundSync();
+      onStateChange({
+        isSyncing: false,
+        lastError: e instanceof Error ? e.message : String(e),
+        nextRetryAt: Date.now() + delay,
+      });
+      schedule(delay);
+    } finally {
+      running = false;
+      if (requestedWhileRunning) {
+        requestedWhileRunning = false;
+        if (failures === 0) schedule(0);
+      }
+    }
+  }
+
+  const syncNow = () => {
+    failures = 0;
+    schedule(0);
+  };
+  const handleOnline = syncNow;
+  window.addEventListener("online", handleOnline);
+  const stopBackgroundSync = onBackgroundSync(syncNow);
+
+  return {
+    requestSync() {
+      // A pending backoff retry is not cut short by every local edit
+      if (failures > 0) return;
+      schedule(500);
+    },
+    syncNow,
+    stop() {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      window.removeEventListener("online", handleOnline);
+      stopBackgroundSync();
+    },
+  };
+}
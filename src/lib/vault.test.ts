@@ -0,0 +1,127 @@
+import { afterEach, beforeAll, describe, expect, it } from "vitest";
+import { createSalt, decryptRecord, deriveVaultKey, encryptRecord, setVaultKey } from "@/lib/cipher";
+import { getAllGifts, getGuest, initDB, rekeyAllRecords, saveGuestRecord, saveGuestWithGift } from "@/lib/db";
+import {
+  changePassphrase,
+  decryptBackup,
+  disableEncryption,
+  enableEncryption,
+  encryptBackup,
+  isEncryptionEnabled,
+  refreshVault,
+  unlockVault,
+} from "@/lib/vault";
+import { BackupData, GiftEntryDB } from "@/types/sync";
+
+const GUEST_ID = "d6f8g0"; // Seeded from guests.json
+
+async function stored(storeName: "guests" | "gifts", id: string) {
+  return (await initDB()).get(storeName, id);
+}
+
+let giftId: string;
+
+beforeAll(async () => {
+  await saveGuestRecord(GUEST_ID, { note: "មកជាមួយកូន" });
+  const { gift } = await saveGuestWithGift(GUEST_ID, {}, {
+    id: null,
+    fields: {
+      amountRiel: 205000,
+      currency: "USD",
+      originalAmount: 50,
+      exchangeRate: 4100,
+      paymentType: "bank",
+      bankType: "ABA",
+      bankRef: "000 123 456",
+    },
+  });
+  giftId = gift!.id;
+});
+
+// Every test leaves the vault unlocked, so it can be turned off again here
+afterEach(async () => {
+  await rekeyAllRecords(null, null);
+  setVaultKey(null);
+});
+
+describe("encryptRecord", () => {
+  it("moves the sensitive fields into an encrypted payload and back", async () => {
+    const key = await deriveVaultKey("correct horse", createSalt(), 1000);
+    const gift = (await getAllGifts()).find((g) => g.id === giftId)!;
+
+    const sealed = await encryptRecord("gifts", gift, key);
+
+    expect(sealed).toMatchObject({ amountRiel: 0, originalAmount: 0, bankRef: null, currency: "USD" });
+    expect(sealed.encrypted).not.toContain("123");
+    expect(await decryptRecord("gifts", sealed, key)).toEqual(gift);
+  });
+
+  it("refuses to read without the right key", async () => {
+    const key = await deriveVaultKey("correct horse", createSalt(), 1000);
+    const other = await deriveVaultKey("wrong horse", createSalt(), 1000);
+    const sealed = await encryptRecord("guests", (await getGuest(GUEST_ID))!, key);
+
+    await expect(decryptRecord("guests", sealed, null)).rejects.toThrow(/locked/);
+    await expect(decryptRecord("guests", sealed, other)).rejects.toThrow();
+  });
+});
+
+describe("vault", () => {
+  it("encrypts what is stored and needs the passphrase after a reload", async () => {
+    await enableEncryption("passphrase-one");
+
+    expect(await isEncryptionEnabled()).toBe(true);
+    expect(await stored("gifts", giftId)).toMatchObject({ amountRiel: 0, bankRef: null });
+    expect(await stored("guests", GUEST_ID)).toMatchObject({ note: "" });
+    expect((await getAllGifts()).find((g) => g.id === giftId)?.amountRiel).toBe(205000);
+
+    setVaultKey(null); // As after a reload
+    expect(await refreshVault()).toBe(false);
+    await expect(getGuest(GUEST_ID)).rejects.toThrow(/locked/);
+
+    expect(await unlockVault("passphrase-two")).toBe(false);
+    expect(await unlockVault("passphrase-one")).toBe(true);
+    expect((await getGuest(GUEST_ID))?.note).toBe("មកជាមួយកូន");
+  });
+
+  it("re-encrypts everything under a new passphrase", async () => {
+    await enableEncryption("passphrase-one");
+    const before = (await stored("gifts", giftId)) as GiftEntryDB;
+
+    expect(await changePassphrase("passphrase-wrong", "passphrase-two")).toBe(false);
+    expect(await changePassphrase("passphrase-one", "passphrase-two")).toBe(true);
+
+    expect(((await stored("gifts", giftId)) as GiftEntryDB).encrypted).not.toBe(before.encrypted);
+    setVaultKey(null);
+    expect(await unlockVault("passphrase-one")).toBe(false);
+    expect(await unlockVault("passphrase-two")).toBe(true);
+    expect((await getAllGifts()).find((g) => g.id === giftId)?.bankRef).toBe("000 123 456");
+  });
+
+  it("writes everything back in clear text when turned off", async () => {
+    await enableEncryption("passphrase-one");
+
+    expect(await disableEncryption("passphrase-two")).toBe(false);
+    expect(await disableEncryption("passphrase-one")).toBe(true);
+
+    expect(await isEncryptionEnabled()).toBe(false);
+    expect(await stored("gifts", giftId)).toMatchObject({ amountRiel: 205000, bankRef: "000 123 456" });
+    expect(await stored("gifts", giftId)).not.toHaveProperty("encrypted");
+  });
+
+  it("turns down a short passphrase", async () => {
+    await expect(enableEncryption("short")).rejects.toThrow(/at least 8/);
+    expect(await isEncryptionEnabled()).toBe(false);
+  });
+
+  it("opens an encrypted backup with the passphrase alone", async () => {
+    await enableEncryption("passphrase-one");
+    const backup = { version: 7, exportedAt: "2025-01-15T00:00:00.000Z", guests: [] } as unknown as BackupData;
+
+    const envelope = await encryptBackup(backup);
+
+    expect(envelope.data).not.toContain("exportedAt");
+    expect(await decryptBackup(envelope, "passphrase-two")).toBeNull();
+    expect(await decryptBackup(envelope, "passphrase-one")).toEqual(backup);
+  });
+});
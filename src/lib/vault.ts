@@ -0,0 +1,144 @@
+import { getVaultConfig, rekeyAllRecords } from "@/lib/db";
+import { getDeviceId, getRecorderName } from "@/lib/audit";
+import {
+  createSalt,
+  decryptText,
+  deriveVaultKey,
+  encryptText,
+  getVaultKey,
+  KDF_ITERATIONS,
+  setVaultKey,
+} from "@/lib/cipher";
+import { BackupData } from "@/types/sync";
+import { EncryptedBackup, VaultConfig } from "@/types/vault";
+
+// Optional at-rest encryption of the ledger. While it is on, every tab has to
+// be unlocked with the passphrase before anything is read or written, and
+// backups are exported encrypted with the same passphrase.
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+const CHECK_TEXT = "wedding-ledger-vault";
+
+export async function isEncryptionEnabled(): Promise<boolean> {
+  return (await getVaultConfig()) !== undefined;
+}
+
+// Bring this tab's key in line with the stored config, dropping it when
+// another tab turned encryption off or changed the passphrase. Returns
+// whether the ledger can be read right now.
+export async function refreshVault(): Promise<boolean> {
+  const config = await getVaultConfig();
+  const key = getVaultKey();
+  if (key && (!config || !(await opensCheck(config, key)))) setVaultKey(null);
+  return !config || getVaultKey() !== null;
+}
+
+async function opensCheck(config: VaultConfig, key: CryptoKey): Promise<boolean> {
+  try {
+    return (await decryptText(key, config.check)) === CHECK_TEXT;
+  } catch {
+    return false;
+  }
+}
+
+// Key for the passphrase, or null when it is wrong
+async function keyFor(config: VaultConfig, passphrase: string): Promise<CryptoKey | null> {
+  const key = await deriveVaultKey(passphrase, config.salt, config.iterations);
+  return (await opensCheck(config, key)) ? key : null;
+}
+
+async function createConfig(passphrase: string): Promise<{ key: CryptoKey; config: VaultConfig }> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+  const salt = createSalt();
+  const key = await deriveVaultKey(passphrase, salt, KDF_ITERATIONS);
+  const config: VaultConfig = {
+    id: "config",
+    salt,
+    iterations: KDF_ITERATIONS,
+    check: await encryptText(key, CHECK_TEXT),
+    updatedAt: Date.now(),
+    updatedBy: getRecorderName() || getDeviceId(),
+  };
+  return { key, config };
+}
+
+// Unlock this tab. Returns false for a wrong passphrase.
+export async function unlockVault(passphrase: string): Promise<boolean> {
+  const config = await getVaultConfig();
+  if (!config) return true;
+  const key = await keyFor(config, passphrase);
+  if (key) setVaultKey(key);
+  return key !== null;
+}
+
+// Turn encryption on and encrypt everything already stored
+export async function enableEncryption(passphrase: string): Promise<void> {
+  if (await isEncryptionEnabled()) {
+    throw new Error("Encryption is already on");
+  }
+  const { key, config } = await createConfig(passphrase);
+  await rekeyAllRecords(key, config);
+  setVaultKey(key);
+}
+
+// Re-encrypt everything under a new passphrase. Returns false when the
+// current passphrase is wrong.
+export async function changePassphrase(current: string, next: string): Promise<boolean> {
+  const config = await getVaultConfig();
+  if (!config || !(await keyFor(config, current))) return false;
+  const { key, config: nextConfig } = await createConfig(next);
+  await rekeyAllRecords(key, nextConfig);
+  setVaultKey(key);
+  return true;
+}
+
+// Decrypt everything and turn encryption off. Returns false when the
+// passphrase is wrong.
+export async function disableEncryption(passphrase: string): Promise<boolean> {
+  const config = await getVaultConfig();
+  if (!config || !(await keyFor(config, passphrase))) return false;
+  await rekeyAllRecords(null, null);
+  setVaultKey(null);
+  return true;
+}
+
+export function isEncryptedBackup(data: unknown): data is EncryptedBackup {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    (data as EncryptedBackup).format === "wedding-backup-encrypted"
+  );
+}
+
+// Encrypt a backup with the vault key; the salt travels with the file so the
+// passphrase alone opens it on another device
+export async function encryptBackup(backup: BackupData): Promise<EncryptedBackup> {
+  const config = await getVaultConfig();
+  const key = getVaultKey();
+  if (!config || !key) {
+    throw new Error("Encryption is not unlocked");
+  }
+  return {
+    format: "wedding-backup-encrypted",
+    version: 1,
+    salt: config.salt,
+    iterations: config.iterations,
+    exportedAt: backup.exportedAt,
+    data: await encryptText(key, JSON.stringify(backup)),
+  };
+}
+
+// Returns null when the passphrase is wrong
+export async function decryptBackup(
+  envelope: EncryptedBackup,
+  passphrase: string
+): Promise<BackupData | null> {
+  const key = await deriveVaultKey(passphrase, envelope.salt, envelope.iterations);
+  try {
+    return JSON.parse(await decryptText(key, envelope.data));
+  } catch {
+    return null;
+  }
+}
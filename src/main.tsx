@@ -1,5 +1,11 @@
 import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
+// Bundled rather than loaded from Google Fonts, so it works offline
+import "@fontsource/battambang/400.css";
+import "@fontsource/battambang/700.css";
 import "./index.css";
+import { registerServiceWorker } from "./lib/serviceWorker";
 
 createRoot(document.getElementById("root")!).render(<App />);
+
+registerServiceWorker();
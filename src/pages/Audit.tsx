@@ -0,0 +1,321 @@
+import { useState, useEffect, useMemo } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { ArrowLeft, History } from "lucide-react";
+import { getAllGuests, getAuditEvents } from "@/lib/db";
+import { getRecorderName, setRecorderName } from "@/lib/audit";
+import { ROLE_LABELS } from "@/lib/auth";
+import { AuditAction, AuditEvent, AuditSource, AuditValues } from "@/types/audit";
+import { GuestRecordDB } from "@/types/sync";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const ALL = "all";
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  create: "បង្កើត",
+  update: "កែប្រែ",
+  delete: "លុប",
+  restore: "ស្ដារ",
+  import: "នាំចូល",
+  migration: "ផ្ទេរទិន្នន័យ",
+  undo: "មិនធ្វើវិញ",
+  redo: "ធ្វើវិញ",
+  sync: "ទាញពីម៉ាស៊ីនមេ",
+  merge: "បញ្ចូលគ្នា",
+  lock: "ចាក់សោ",
+  unlock: "បើកសោ",
+};
+
+const SOURCE_LABELS: Record<AuditSource, string> = {
+  GuestForm: "ទម្រង់កត់ប្រាក់",
+  createCustomGuest: "បង្កើតភ្ញៀវថ្មី",
+  importBackup: "នាំចូល Backup",
+  invitationImport: "នាំចូលបញ្ជីភ្ញៀវ",
+  reciprocity: "បញ្ជីចំណងដៃតបវិញ",
+  contacts: "ទំនាក់ទំនង",
+  duplicateMerge: "ភ្ញៀវស្ទួន",
+  migrateFromLocalStorage: "ទិន្នន័យចាស់",
+  schemaMigration: "ធ្វើបច្ចុប្បន្នភាពប្រព័ន្ធ",
+  undoHistory: "ប្រវត្តិមិនធ្វើវិញ",
+  Trash: "ធុងសំរាម",
+  syncEngine: "ម៉ាស៊ីនមេ",
+  conflictReview: "ដោះស្រាយការប៉ះទង្គិច",
+  lockScreen: "អេក្រង់ចាក់សោ",
+};
+
+// Why the app locked, or which role unlocked it
+const DETAIL_LABELS: Record<string, string> = {
+  idle: "មិនបានប្រើយូរ",
+  hidden: "ចេញពីកម្មវិធី",
+  manual: "ចុចចាក់សោ",
+  start: "បើកកម្មវិធី",
+  ...ROLE_LABELS,
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  name: "ឈ្មោះ",
+  displayName: "ឈ្មោះបង្ហាញ",
+  side: "ភ្ញៀវខាង",
+  amountRiel: "ចំនួនប្រាក់ (៛)",
+  paymentType: "ប្រភេទទូទាត់",
+  bankType: "ធនាគារ",
+  bankRef: "លេខប្រតិបត្តិការ",
+  currency: "រូបិយប័ណ្ណ",
+  originalAmount: "ចំនួនដើម",
+  exchangeRate: "អត្រាប្តូរប្រាក់",
+  receivedAt: "ទទួលនៅ",
+  recorder: "អ្នកកត់ត្រា",
+  note: "កំណត់ចំណាំ",
+  isCustomGuest: "ភ្ញៀវបង្កើតថ្មី",
+  group: "ក្រុម",
+  phone: "លេខទូរស័ព្ទ",
+  expectedAttendees: "ចំនួនអ្នកចូលរួម",
+  contactId: "គ្រួសារ",
+  guestId: "ភ្ញៀវ",
+  mergedInto: "បញ្ចូលទៅក្នុង",
+  deleted: "លុបភ្ញៀវ",
+  giftDeleted: "លុបចំណងដៃ",
+};
+
+// Gift events reuse "deleted" for the gift's own tombstone
+function fieldLabel(field: string, isGift: boolean): string {
+  if (isGift && field === "deleted") return FIELD_LABELS.giftDeleted;
+  return FIELD_LABELS[field] ?? field;
+}
+
+function formatValue(value: unknown, field?: string): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (field === "receivedAt" && typeof value === "number") {
+    return new Date(value).toLocaleString("km-KH");
+  }
+  if (typeof value === "number") return value.toLocaleString("km-KH");
+  if (typeof value === "object" && "reason" in value) {
+    return `🗑️ ${(value as { reason: string }).reason || "—"}`;
+  }
+  return String(value);
+}
+
+function AuditChanges({
+  previous,
+  next,
+  isGift,
+  guestNames,
+}: {
+  previous: AuditValues | null;
+  next: AuditValues;
+  isGift: boolean;
+  guestNames: Map<string, string>;
+}) {
+  // A merged guest points at the guest it went into, and a gift at who gave it
+  const show = (values: AuditValues, field: string) => {
+    const value = values[field as keyof AuditValues];
+    if ((field === "mergedInto" || field === "guestId") && typeof value === "string") {
+      return guestNames.get(value) ?? value;
+    }
+    return formatValue(value, field);
+  };
+
+  return (
+    <div className="mt-2 space-y-1 text-sm">
+      {Object.keys(next).map((field) => (
+        <div key={field} className="flex flex-wrap gap-x-2">
+          <span className="text-muted-foreground">{fieldLabel(field, isGift)}៖</span>
+          {previous && (
+            <>
+              <span className="line-through text-destructive/80">
+                {show(previous, field)}
+              </span>
+              <span className="text-muted-foreground">→</span>
+            </>
+          )}
+          <span className="text-foreground font-medium">
+            {show(next, field)}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+const Audit = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [guests, setGuests] = useState<GuestRecordDB[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [guestQuery, setGuestQuery] = useState("");
+  const [recorder, setRecorder] = useState(getRecorderName());
+
+  const guestId = searchParams.get("guest") ?? undefined;
+  const action = (searchParams.get("action") as AuditAction | null) ?? undefined;
+  const source = (searchParams.get("source") as AuditSource | null) ?? undefined;
+
+  useEffect(() => {
+    getAllGuests().then(setGuests);
+  }, []);
+
+  useEffect(() => {
+    getAuditEvents({ guestId, action, source }).then((result) => {
+      setEvents(result);
+      setIsLoaded(true);
+    });
+  }, [guestId, action, source]);
+
+  const guestNames = useMemo(() => {
+    const names = new Map<string, string>();
+    guests.forEach((g) => names.set(g.id, g.displayName || g.name));
+    return names;
+  }, [guests]);
+
+  const visibleEvents = useMemo(() => {
+    const query = guestQuery.toLowerCase().trim();
+    if (!query) return events;
+    return events.filter((e) =>
+      (guestNames.get(e.guestId) ?? e.guestId).toLowerCase().includes(query)
+    );
+  }, [events, guestNames, guestQuery]);
+
+  const updateFilter = (key: string, value: string | null) => {
+    const params = new URLSearchParams(searchParams);
+    if (value && value !== ALL) {
+      params.set(key, value);
+    } else {
+      params.delete(key);
+    }
+    setSearchParams(params);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 bg-card border-b border-border px-4 py-4 shadow-lg">
+        <div className="max-w-2xl mx-auto flex items-center gap-3">
+          <Button variant="ghost" size="icon" asChild>
+            <Link to="/">
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-bold text-primary flex items-center gap-2">
+            <History className="h-6 w-6" />
+            ប្រវត្តិកែប្រែ
+          </h1>
+        </div>
+      </header>
+
+      <main className="max-w-2xl mx-auto px-4 py-4 space-y-4">
+        {/* Recorder identity */}
+        <div>
+          <Label className="text-sm mb-1 block text-muted-foreground">ឈ្មោះអ្នកកត់ត្រាលើឧបករណ៍នេះ</Label>
+          <Input
+            value={recorder}
+            onChange={(e) => setRecorder(e.target.value)}
+            onBlur={() => setRecorderName(recorder)}
+            placeholder="ឧទាហរណ៍: បង Dara"
+            className="bg-input border-border"
+          />
+        </div>
+
+        {/* Filters */}
+        <div className="grid grid-cols-2 gap-2">
+          <Select value={action ?? ALL} onValueChange={(v) => updateFilter("action", v)}>
+            <SelectTrigger className="bg-input border-border">
+              <SelectValue placeholder="សកម្មភាព" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>សកម្មភាពទាំងអស់</SelectItem>
+              {Object.entries(ACTION_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={source ?? ALL} onValueChange={(v) => updateFilter("source", v)}>
+            <SelectTrigger className="bg-input border-border">
+              <SelectValue placeholder="ប្រភព" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>ប្រភពទាំងអស់</SelectItem>
+              {Object.entries(SOURCE_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {guestId ? (
+          <div className="flex items-center justify-between px-3 py-2 bg-secondary rounded-lg">
+            <span className="text-sm">
+              ភ្ញៀវ៖ <strong>{guestNames.get(guestId) ?? guestId}</strong>
+            </span>
+            <Button variant="ghost" size="sm" onClick={() => updateFilter("guest", null)}>
+              មើលទាំងអស់
+            </Button>
+          </div>
+        ) : (
+          <Input
+            value={guestQuery}
+            onChange={(e) => setGuestQuery(e.target.value)}
+            placeholder="ស្វែងរកតាមឈ្មោះភ្ញៀវ..."
+            className="bg-card border-border"
+          />
+        )}
+
+        {/* Events */}
+        {isLoaded && visibleEvents.length === 0 && (
+          <div className="text-center py-8 text-muted-foreground">មិនមានប្រវត្តិកែប្រែទេ</div>
+        )}
+
+        <div className="space-y-2">
+          {visibleEvents.map((event) => (
+            <div key={event.id} className="px-4 py-3 rounded-lg border border-border bg-card">
+              <div className="flex items-start justify-between gap-2">
+                {event.guestId ? (
+                  <button
+                    onClick={() => updateFilter("guest", event.guestId)}
+                    className="font-medium text-foreground text-left hover:text-primary"
+                  >
+                    {guestNames.get(event.guestId) ?? event.guestId}
+                    {event.giftId && <span className="ml-1 text-sm">🎁</span>}
+                  </button>
+                ) : (
+                  <span className="font-medium text-foreground">
+                    🔒 {event.detail ? DETAIL_LABELS[event.detail] ?? event.detail : "—"}
+                  </span>
+                )}
+                <span className="px-2 py-0.5 rounded-full text-xs bg-secondary text-muted-foreground whitespace-nowrap">
+                  {ACTION_LABELS[event.action]}
+                </span>
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">
+                {new Date(event.timestamp).toLocaleString("km-KH")} · {SOURCE_LABELS[event.source]}
+                {event.recorder ? ` · ${event.recorder}` : ""} · {event.deviceId}
+              </p>
+              {event.giftId && event.detail && (
+                <p className="mt-2 text-sm text-muted-foreground">
+                  ផ្ទេរពី {guestNames.get(event.detail) ?? event.detail}
+                </p>
+              )}
+              <AuditChanges
+                previous={event.previous}
+                next={event.next}
+                isGift={!!event.giftId}
+                guestNames={guestNames}
+              />
+            </div>
+          ))}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Audit;
@@ -0,0 +1,194 @@
+import { useState, useEffect, useCallback } from "react";
+import { Link } from "react-router-dom";
+import { AlertTriangle, ArrowLeft, Check } from "lucide-react";
+import { toast } from "sonner";
+import { getAllGuests, getConflicts, resolveConflict } from "@/lib/db";
+import { parseHlc } from "@/lib/hlc";
+import { FieldConflict } from "@/types/conflict";
+import { GuestRecordDB } from "@/types/sync";
+import { Button } from "@/components/ui/button";
+
+const SOURCE_LABELS: Record<FieldConflict["source"], string> = {
+  sync: "ពេលធ្វើសមកាលកម្ម",
+  import: "ពេលនាំចូលឯកសារ",
+};
+
+function formatAmount(values: Record<string, unknown>): string {
+  const amountRiel = Number(values.amountRiel ?? 0);
+  const riel = amountRiel.toLocaleString("km-KH") + "៛";
+  if (values.currency !== "USD") return riel;
+  return `$${Number(values.originalAmount ?? 0).toLocaleString("en-US")} (${riel})`;
+}
+
+function ClockInfo({ clock }: { clock: string }) {
+  const { wall, deviceId } = parseHlc(clock);
+  return (
+    <p className="text-xs text-muted-foreground">
+      {new Date(wall).toLocaleString("km-KH")} · {deviceId}
+    </p>
+  );
+}
+
+function ConflictSide({
+  label,
+  values,
+  clock,
+  applied,
+  onPick,
+}: {
+  label: string;
+  values: Record<string, unknown>;
+  clock: string;
+  applied: boolean;
+  onPick?: () => void;
+}) {
+  return (
+    <div
+      className={`flex-1 rounded-lg border px-3 py-2 space-y-1 ${
+        applied ? "border-primary bg-primary/10" : "border-border"
+      }`}
+    >
+      <span className="text-xs text-muted-foreground block">{label}</span>
+      <span className="font-bold text-foreground block">{formatAmount(values)}</span>
+      <ClockInfo clock={clock} />
+      {applied && (
+        <span className="text-xs text-primary flex items-center gap-1">
+          <Check className="h-3 w-3" />
+          កំពុងប្រើ
+        </span>
+      )}
+      {onPick && (
+        <Button variant={applied ? "default" : "outline"} size="sm" className="w-full" onClick={onPick}>
+          ជ្រើសយកមួយនេះ
+        </Button>
+      )}
+    </div>
+  );
+}
+
+const Conflicts = () => {
+  const [conflicts, setConflicts] = useState<FieldConflict[]>([]);
+  const [guestsById, setGuestsById] = useState<Map<string, GuestRecordDB>>(new Map());
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  const loadConflicts = useCallback(async () => {
+    setConflicts(await getConflicts());
+    const allGuests = await getAllGuests();
+    setGuestsById(new Map(allGuests.map((g) => [g.id, g])));
+    setIsLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    loadConflicts();
+  }, [loadConflicts]);
+
+  const handleResolve = useCallback(
+    async (id: number, pick: "local" | "remote") => {
+      try {
+        await resolveConflict(id, pick);
+        toast.success("បានដោះស្រាយការប៉ះទង្គិច ✓");
+        await loadConflicts();
+      } catch (e) {
+        console.error("[DB] Resolve conflict error:", e);
+        toast.error("កំហុសក្នុងការដោះស្រាយការប៉ះទង្គិច");
+      }
+    },
+    [loadConflicts]
+  );
+
+  const open = conflicts.filter((c) => c.resolvedAt === null);
+  const resolved = conflicts.filter((c) => c.resolvedAt !== null);
+
+  const guestName = (conflict: FieldConflict) => {
+    const guest = guestsById.get(conflict.guestId);
+    return guest ? guest.displayName || guest.name : conflict.guestId;
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 bg-card border-b border-border px-4 py-4 shadow-lg">
+        <div className="max-w-2xl mx-auto flex items-center gap-3">
+          <Button variant="ghost" size="icon" asChild>
+            <Link to="/">
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-bold text-primary flex items-center gap-2">
+            <AlertTriangle className="h-6 w-6" />
+            ការប៉ះទង្គិច
+          </h1>
+        </div>
+      </header>
+
+      <main className="max-w-2xl mx-auto px-4 py-4 space-y-6">
+        {isLoaded && open.length === 0 && (
+          <div className="text-center py-8 text-muted-foreground">គ្មានការប៉ះទង្គិចត្រូវដោះស្រាយ</div>
+        )}
+
+        {open.length > 0 && (
+          <section className="space-y-2">
+            <h2 className="text-sm text-muted-foreground font-medium">
+              ចំនួនប្រាក់ត្រូវបានកែលើឧបករណ៍ពីរ ({open.length})
+            </h2>
+            {open.map((conflict) => (
+              <div
+                key={conflict.id}
+                className="px-4 py-3 rounded-lg border border-border bg-card space-y-2"
+              >
+                <div>
+                  <span className="font-medium text-foreground block">{guestName(conflict)}</span>
+                  <span className="text-xs text-muted-foreground">
+                    រកឃើញ{SOURCE_LABELS[conflict.source]} ·{" "}
+                    {new Date(conflict.detectedAt).toLocaleString("km-KH")}
+                  </span>
+                </div>
+                <div className="flex gap-2">
+                  <ConflictSide
+                    label="ឧបករណ៍នេះ"
+                    values={conflict.local}
+                    clock={conflict.localClock}
+                    applied={conflict.applied === "local"}
+                    onPick={() => handleResolve(conflict.id!, "local")}
+                  />
+                  <ConflictSide
+                    label="ឧបករណ៍ផ្សេង"
+                    values={conflict.remote}
+                    clock={conflict.remoteClock}
+                    applied={conflict.applied === "remote"}
+                    onPick={() => handleResolve(conflict.id!, "remote")}
+                  />
+                </div>
+              </div>
+            ))}
+          </section>
+        )}
+
+        {resolved.length > 0 && (
+          <section className="space-y-2">
+            <h2 className="text-sm text-muted-foreground font-medium">
+              បានដោះស្រាយរួច ({resolved.length})
+            </h2>
+            {resolved.map((conflict) => (
+              <div
+                key={conflict.id}
+                className="flex items-center justify-between gap-2 px-4 py-3 rounded-lg border border-border bg-card"
+              >
+                <div>
+                  <span className="font-medium text-foreground block">{guestName(conflict)}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(conflict.resolvedAt!).toLocaleString("km-KH")} · {conflict.resolvedBy}
+                  </span>
+                </div>
+                <span className="text-sm text-primary font-medium">
+                  {formatAmount(conflict[conflict.applied])}
+                </span>
+              </div>
+            ))}
+          </section>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Conflicts;
@@ -0,0 +1,352 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft, Merge, Plus, Users, X } from "lucide-react";
+import { toast } from "sonner";
+import { getAllGifts, getAllGuests, getContacts, getEvents, linkGuestsToContact, saveContact } from "@/lib/db";
+import { subscribeToChanges } from "@/lib/changeFeed";
+import { CONTACT_SIDE_LABELS, KIND_LABELS, parseContactName, resolveContactId } from "@/lib/contacts";
+import { Contact, ContactFormData, ContactKind } from "@/types/contact";
+import { WeddingEvent } from "@/types/event";
+import { GiftEntryDB, GuestRecordDB } from "@/types/sync";
+import { ContactGuests } from "@/components/ContactGuests";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+
+const NO_SIDE = "none";
+
+function toForm(contact: Contact): ContactFormData {
+  const { kind, name, members, phone, address, side, relationship, note } = contact;
+  return { kind, name, members, phone, address, side, relationship, note };
+}
+
+// Details of one contact, edited until saved. Keyed by the stored version, so
+// it starts over when the contact is saved here or in another tab.
+function ContactEditor({
+  contact,
+  isSaving,
+  onSave,
+}: {
+  contact: Contact;
+  isSaving: boolean;
+  onSave: (contact: Contact) => void;
+}) {
+  const [form, setForm] = useState<ContactFormData>(() => toForm(contact));
+
+  const update = <F extends keyof ContactFormData>(field: F, value: ContactFormData[F]) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSave = () => {
+    if (!form.name.trim()) {
+      toast.error("សូមបញ្ចូលឈ្មោះ");
+      return;
+    }
+    const members = form.members
+      .map((m) => ({ name: m.name.trim(), role: m.role.trim() }))
+      .filter((m) => m.name || m.role);
+    onSave({
+      ...contact,
+      ...form,
+      name: form.name.trim(),
+      members,
+      phone: form.phone.trim(),
+      address: form.address.trim(),
+      relationship: form.relationship.trim(),
+      note: form.note.trim(),
+      updatedAt: Date.now(),
+    });
+  };
+
+  const handleReadName = () => {
+    setForm({ ...form, ...parseContactName(form.name) });
+  };
+
+  return (
+    <section className="space-y-3">
+      <div>
+        <Label className="text-sm mb-1 block">ឈ្មោះ</Label>
+        <Input
+          value={form.name}
+          onChange={(e) => update("name", e.target.value)}
+          className="bg-input border-border"
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <Label className="text-sm mb-1 block">ប្រភេទ</Label>
+          <Select value={form.kind} onValueChange={(value) => update("kind", value as ContactKind)}>
+            <SelectTrigger className="bg-input border-border">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(KIND_LABELS) as ContactKind[]).map((kind) => (
+                <SelectItem key={kind} value={kind}>
+                  {KIND_LABELS[kind]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label className="text-sm mb-1 block">ភ្ញៀវខាង</Label>
+          <Select
+            value={form.side ?? NO_SIDE}
+            onValueChange={(value) =>
+              update("side", value === NO_SIDE ? null : (value as NonNullable<Contact["side"]>))
+            }
+          >
+            <SelectTrigger className="bg-input border-border">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_SIDE}>— មិនដឹង —</SelectItem>
+              {(Object.keys(CONTACT_SIDE_LABELS) as NonNullable<Contact["side"]>[]).map((side) => (
+                <SelectItem key={side} value={side}>
+                  {CONTACT_SIDE_LABELS[side]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div>
+        <Label className="text-sm mb-1 block">ទំនាក់ទំនងជាមួយកូនកំលោះ ឬកូនក្រមុំ</Label>
+        <Input
+          value={form.relationship}
+          onChange={(e) => update("relationship", e.target.value)}
+          placeholder="ពូ, មិត្តរួមថ្នាក់, មិត្តរួមការងារ..."
+          className="bg-input border-border"
+        />
+      </div>
+
+      {/* Members */}
+      {form.kind !== "individual" && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-sm">សមាជិក</Label>
+            <Button variant="ghost" size="sm" onClick={handleReadName}>
+              អានពីឈ្មោះ
+            </Button>
+          </div>
+          {form.members.map((member, index) => (
+            <div key={index} className="flex gap-2">
+              <Input
+                value={member.name}
+                onChange={(e) =>
+                  update(
+                    "members",
+                    form.members.map((m, i) => (i === index ? { ...m, name: e.target.value } : m))
+                  )
+                }
+                placeholder="ឈ្មោះ"
+                className="bg-input border-border"
+              />
+              <Input
+                value={member.role}
+                onChange={(e) =>
+                  update(
+                    "members",
+                    form.members.map((m, i) => (i === index ? { ...m, role: e.target.value } : m))
+                  )
+                }
+                placeholder="តួនាទី (ភរិយា, កូន...)"
+                className="bg-input border-border w-40"
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => update("members", form.members.filter((_, i) => i !== index))}
+                aria-label="ដកចេញ"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => update("members", [...form.members, { name: "", role: "" }])}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            បន្ថែមសមាជិក
+          </Button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <Label className="text-sm mb-1 block">លេខទូរស័ព្ទ</Label>
+          <Input
+            type="tel"
+            value={form.phone}
+            onChange={(e) => update("phone", e.target.value)}
+            className="bg-input border-border"
+          />
+        </div>
+        <div>
+          <Label className="text-sm mb-1 block">អាសយដ្ឋាន</Label>
+          <Input
+            value={form.address}
+            onChange={(e) => update("address", e.target.value)}
+            className="bg-input border-border"
+          />
+        </div>
+      </div>
+      <div>
+        <Label className="text-sm mb-1 block">កំណត់ចំណាំ</Label>
+        <Textarea
+          value={form.note}
+          onChange={(e) => update("note", e.target.value)}
+          className="bg-input border-border"
+        />
+      </div>
+      <Button onClick={handleSave} disabled={isSaving} className="w-full">
+        រក្សាទុក
+      </Button>
+    </section>
+  );
+}
+
+const ContactDetail = () => {
+  const { id = "" } = useParams();
+  const navigate = useNavigate();
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [guests, setGuests] = useState<GuestRecordDB[]>([]);
+  const [gifts, setGifts] = useState<GiftEntryDB[]>([]);
+  const [events, setEvents] = useState<WeddingEvent[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    setContacts(await getContacts());
+    setGuests(await getAllGuests());
+    setGifts(await getAllGifts());
+    setEvents(await getEvents());
+    setIsLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    load();
+    return subscribeToChanges(() => load());
+  }, [load]);
+
+  const contactsById = useMemo(() => new Map(contacts.map((c) => [c.id, c])), [contacts]);
+  const contact = contactsById.get(id) ?? null;
+  const replacedBy = contact?.mergedInto ? contactsById.get(resolveContactId(contactsById, id)) : null;
+
+  const linked = useMemo(
+    () =>
+      guests.filter(
+        (g) => !g.deleted && g.contactId && resolveContactId(contactsById, g.contactId) === id
+      ),
+    [guests, contactsById, id]
+  );
+
+  const giftsByGuest = useMemo(() => {
+    const map = new Map<string, GiftEntryDB[]>();
+    gifts.forEach((gift) => map.set(gift.guestId, [...(map.get(gift.guestId) ?? []), gift]));
+    return map;
+  }, [gifts]);
+
+  const eventNames = useMemo(() => new Map(events.map((e) => [e.id, e.name])), [events]);
+
+  const run = async (write: () => Promise<unknown>, success: string) => {
+    setIsSaving(true);
+    try {
+      await write();
+      await load();
+      toast.success(success);
+    } catch (e) {
+      console.error("[DB] Contact error:", e);
+      toast.error("កំហុសក្នុងការរក្សាទុក");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoaded && !contact) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background px-4">
+        <div className="text-center space-y-4">
+          <p className="text-muted-foreground">រកមិនឃើញទំនាក់ទំនងនេះទេ</p>
+          <Button variant="outline" asChild>
+            <Link to="/contacts">ទៅបញ្ជីទំនាក់ទំនង</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 bg-card border-b border-border px-4 py-4 shadow-lg">
+        <div className="max-w-2xl mx-auto flex items-center gap-3">
+          <Button variant="ghost" size="icon" asChild>
+            <Link to="/contacts">
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-bold text-primary flex items-center gap-2 flex-1 min-w-0">
+            <Users className="h-6 w-6 shrink-0" />
+            <span className="truncate">{contact?.name}</span>
+          </h1>
+          {contact && !contact.mergedInto && (
+            <Button variant="ghost" size="icon" asChild aria-label="បញ្ចូលគ្នា">
+              <Link to={`/contacts?merge=${contact.id}`}>
+                <Merge className="h-5 w-5" />
+              </Link>
+            </Button>
+          )}
+        </div>
+      </header>
+
+      <main className="max-w-2xl mx-auto px-4 py-4 space-y-6">
+        {replacedBy && (
+          <div className="rounded-lg border border-border bg-card px-4 py-3 text-sm">
+            បានបញ្ចូលទៅក្នុង{" "}
+            <button className="text-primary underline" onClick={() => navigate(`/contacts/${replacedBy.id}`)}>
+              {replacedBy.name}
+            </button>
+          </div>
+        )}
+
+        {contact && !replacedBy && (
+          <ContactEditor
+            key={`${contact.id}:${contact.updatedAt}`}
+            contact={contact}
+            isSaving={isSaving}
+            onSave={(updated) => run(() => saveContact(updated), "បានរក្សាទុក ✓")}
+          />
+        )}
+
+        {contact && !replacedBy && (
+          <ContactGuests
+            linked={linked}
+            guests={guests}
+            giftsByGuest={giftsByGuest}
+            eventNames={eventNames}
+            canEdit
+            disabled={isSaving}
+            onLink={(guestId) =>
+              run(() => linkGuestsToContact([guestId], contact.id, "contacts"), "បានភ្ជាប់ភ្ញៀវ ✓")
+            }
+            onUnlink={(guestId) =>
+              run(() => linkGuestsToContact([guestId], null, "contacts"), "បានផ្តាច់ភ្ញៀវ ✓")
+            }
+          />
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default ContactDetail;
@@ -0,0 +1,181 @@
+import { useState, useEffect, useMemo } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { ArrowLeft, Merge } from "lucide-react";
+import { toast } from "sonner";
+import { getContacts, mergeContacts } from "@/lib/db";
+import {
+  CONTACT_FIELD_LABELS,
+  CONTACT_SIDE_LABELS,
+  KIND_LABELS,
+  MERGEABLE_FIELDS,
+  mergeContactFields,
+} from "@/lib/contacts";
+import { cn } from "@/lib/utils";
+import { Contact, MergeableContactField } from "@/types/contact";
+import { Button } from "@/components/ui/button";
+
+function fieldText(contact: Contact, field: MergeableContactField): string {
+  switch (field) {
+    case "kind":
+      return KIND_LABELS[contact.kind];
+    case "side":
+      return contact.side ? CONTACT_SIDE_LABELS[contact.side] : "";
+    default:
+      return contact[field];
+  }
+}
+
+function picksFor(id: string): Record<MergeableContactField, string> {
+  return Object.fromEntries(MERGEABLE_FIELDS.map((field) => [field, id])) as Record<
+    MergeableContactField,
+    string
+  >;
+}
+
+const ContactMerge = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const ids = useMemo(() => (searchParams.get("ids") ?? "").split(",").filter(Boolean), [searchParams]);
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [survivorId, setSurvivorId] = useState<string | null>(null);
+  const [picks, setPicks] = useState<Record<MergeableContactField, string> | null>(null);
+  const [isMerging, setIsMerging] = useState(false);
+
+  useEffect(() => {
+    getContacts().then((all) => {
+      // In the order they were picked, leaving out any merged since
+      const byId = new Map(all.map((c) => [c.id, c]));
+      const chosen = ids.map((id) => byId.get(id)).filter((c): c is Contact => !!c && !c.mergedInto);
+      setContacts(chosen);
+      if (chosen.length > 0) {
+        setSurvivorId(chosen[0].id);
+        setPicks(picksFor(chosen[0].id));
+      }
+      setIsLoaded(true);
+    });
+  }, [ids]);
+
+  const merged = useMemo(() => picks && mergeContactFields(contacts, picks), [contacts, picks]);
+
+  const handleMerge = async () => {
+    const survivor = contacts.find((c) => c.id === survivorId);
+    if (!survivor || !merged) return;
+    setIsMerging(true);
+    try {
+      await mergeContacts({ ...survivor, ...merged }, contacts.map((c) => c.id));
+      toast.success("បានបញ្ចូលគ្នា ✓");
+      navigate(`/contacts/${survivor.id}`, { replace: true });
+    } catch (e) {
+      console.error("[DB] Merge error:", e);
+      toast.error("កំហុសក្នុងការបញ្ចូលគ្នា");
+      setIsMerging(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 bg-card border-b border-border px-4 py-4 shadow-lg">
+        <div className="max-w-4xl mx-auto flex items-center gap-3">
+          <Button variant="ghost" size="icon" asChild>
+            <Link to="/contacts">
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-bold text-primary flex items-center gap-2">
+            <Merge className="h-6 w-6" />
+            បញ្ចូលទំនាក់ទំនងគ្នា
+          </h1>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-4 space-y-6">
+        {isLoaded && contacts.length < 2 && (
+          <div className="text-center py-8 text-muted-foreground space-y-4">
+            <p>ត្រូវការទំនាក់ទំនងយ៉ាងតិចពីរ</p>
+            <Button variant="outline" asChild>
+              <Link to="/contacts?merge=">ជ្រើសម្តងទៀត</Link>
+            </Button>
+          </div>
+        )}
+
+        {contacts.length >= 2 && picks && merged && (
+          <>
+            <p className="text-sm text-muted-foreground">
+              ចុចលើតម្លៃដែលត្រូវរក្សាទុកសម្រាប់ព័ត៌មាននីមួយៗ។ ភ្ញៀវ និងចំណងដៃដែលយើងបានជូន
+              ទាំងអស់នឹងផ្ទេរទៅទំនាក់ទំនងដែលនៅសល់។
+            </p>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm border-separate border-spacing-1">
+                <thead>
+                  <tr>
+                    <th />
+                    {contacts.map((contact) => (
+                      <th key={contact.id} className="text-left font-normal">
+                        <button
+                          onClick={() => setSurvivorId(contact.id)}
+                          className={cn(
+                            "w-full text-left rounded-md border px-3 py-2",
+                            survivorId === contact.id
+                              ? "border-primary bg-primary/10 text-primary"
+                              : "border-border text-muted-foreground"
+                          )}
+                        >
+                          {survivorId === contact.id ? "នៅសល់ ✓" : "ទុកមួយនេះ"}
+                        </button>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {MERGEABLE_FIELDS.map((field) => (
+                    <tr key={field}>
+                      <td className="text-muted-foreground pr-2 whitespace-nowrap align-top pt-2">
+                        {CONTACT_FIELD_LABELS[field]}
+                      </td>
+                      {contacts.map((contact) => (
+                        <td key={contact.id} className="align-top">
+                          <button
+                            onClick={() => setPicks({ ...picks, [field]: contact.id })}
+                            className={cn(
+                              "w-full min-h-9 text-left rounded-md border px-3 py-2 break-words",
+                              picks[field] === contact.id
+                                ? "border-primary bg-primary/10"
+                                : "border-border hover:bg-secondary"
+                            )}
+                          >
+                            {fieldText(contact, field) || (
+                              <span className="text-muted-foreground">—</span>
+                            )}
+                          </button>
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <section className="space-y-1">
+              <h2 className="text-sm text-muted-foreground font-medium">សមាជិកទាំងអស់</h2>
+              {merged.members.length === 0 && <p className="text-sm text-muted-foreground">គ្មាន</p>}
+              {merged.members.map((member, index) => (
+                <p key={index} className="text-sm">
+                  {member.name || "—"}
+                  {member.role && <span className="text-muted-foreground"> · {member.role}</span>}
+                </p>
+              ))}
+            </section>
+
+            <Button onClick={handleMerge} disabled={isMerging} className="w-full">
+              បញ្ចូលគ្នាជា «{merged.name}»
+            </Button>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default ContactMerge;
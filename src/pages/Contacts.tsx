@@ -0,0 +1,241 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { ArrowLeft, Merge, Plus, Users } from "lucide-react";
+import { toast } from "sonner";
+import { getAllGuests, getContacts, saveContact } from "@/lib/db";
+import { subscribeToChanges } from "@/lib/changeFeed";
+import {
+  CONTACT_SIDE_LABELS,
+  KIND_LABELS,
+  createContactId,
+  newContact,
+  resolveContactId,
+} from "@/lib/contacts";
+import { normalizeText } from "@/lib/search";
+import { Contact, ContactKind } from "@/types/contact";
+import { GuestRecordDB } from "@/types/sync";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const ALL_KINDS = "all";
+
+function ContactRow({
+  contact,
+  guestCount,
+  selecting,
+  selected,
+  onToggle,
+}: {
+  contact: Contact;
+  guestCount: number;
+  selecting: boolean;
+  selected: boolean;
+  onToggle: () => void;
+}) {
+  const details = [
+    KIND_LABELS[contact.kind],
+    contact.side && CONTACT_SIDE_LABELS[contact.side],
+    contact.relationship,
+    `ភ្ញៀវ ${guestCount}`,
+  ].filter(Boolean);
+
+  const body = (
+    <div className="min-w-0">
+      <span className="font-medium text-foreground block truncate">{contact.name}</span>
+      <span className="text-xs text-muted-foreground">{details.join(" · ")}</span>
+    </div>
+  );
+
+  if (selecting) {
+    return (
+      <label className="flex items-center gap-3 px-4 py-3 rounded-lg border border-border bg-card cursor-pointer">
+        <Checkbox checked={selected} onCheckedChange={onToggle} />
+        {body}
+      </label>
+    );
+  }
+  return (
+    <Link
+      to={`/contacts/${contact.id}`}
+      className="block px-4 py-3 rounded-lg border border-border bg-card hover:bg-secondary"
+    >
+      {body}
+    </Link>
+  );
+}
+
+const Contacts = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [guests, setGuests] = useState<GuestRecordDB[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [query, setQuery] = useState("");
+  const [kind, setKind] = useState<ContactKind | typeof ALL_KINDS>(ALL_KINDS);
+
+  // ?merge=<id> opens the list ready to pick what that contact merges with
+  const mergeFrom = searchParams.get("merge");
+  const selecting = mergeFrom !== null;
+  const [selected, setSelected] = useState<string[]>(() => (mergeFrom ? [mergeFrom] : []));
+
+  const load = useCallback(async () => {
+    setContacts(await getContacts());
+    setGuests(await getAllGuests());
+    setIsLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    load();
+    return subscribeToChanges(() => load());
+  }, [load]);
+
+  const guestCounts = useMemo(() => {
+    const contactsById = new Map(contacts.map((c) => [c.id, c]));
+    const counts = new Map<string, number>();
+    for (const guest of guests) {
+      if (guest.deleted || !guest.contactId) continue;
+      const id = resolveContactId(contactsById, guest.contactId);
+      counts.set(id, (counts.get(id) ?? 0) + 1);
+    }
+    return counts;
+  }, [contacts, guests]);
+
+  const visible = useMemo(() => {
+    const q = normalizeText(query).trim();
+    return contacts
+      .filter((c) => !c.mergedInto)
+      .filter((c) => kind === ALL_KINDS || c.kind === kind)
+      .filter(
+        (c) =>
+          !q ||
+          normalizeText(
+            [c.name, c.relationship, c.phone, ...c.members.map((m) => m.name)].join(" ")
+          ).includes(q)
+      )
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [contacts, kind, query]);
+
+  const toggle = (id: string) => {
+    setSelected((prev) => (prev.includes(id) ? prev.filter((s) => s !== id) : [...prev, id]));
+  };
+
+  const startMerge = () => {
+    setSelected([]);
+    setSearchParams({ merge: "" });
+  };
+
+  const cancelMerge = () => {
+    setSelected([]);
+    setSearchParams({});
+  };
+
+  const handleCreate = async () => {
+    const name = query.trim() || "ទំនាក់ទំនងថ្មី";
+    const contact = newContact(createContactId(), { name });
+    try {
+      await saveContact(contact);
+      navigate(`/contacts/${contact.id}`);
+    } catch (e) {
+      console.error("[DB] Contact error:", e);
+      toast.error("កំហុសក្នុងការរក្សាទុក");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 bg-card border-b border-border px-4 py-4 shadow-lg">
+        <div className="max-w-2xl mx-auto flex items-center gap-3">
+          <Button variant="ghost" size="icon" asChild>
+            <Link to="/">
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-bold text-primary flex items-center gap-2 flex-1">
+            <Users className="h-6 w-6" />
+            ទំនាក់ទំនង
+          </h1>
+          {!selecting && (
+            <>
+              <Button variant="ghost" size="icon" onClick={startMerge} aria-label="បញ្ចូលគ្នា">
+                <Merge className="h-5 w-5" />
+              </Button>
+              <Button size="sm" onClick={handleCreate}>
+                <Plus className="h-4 w-4 mr-1" />
+                ថ្មី
+              </Button>
+            </>
+          )}
+        </div>
+      </header>
+
+      <main className="max-w-2xl mx-auto px-4 py-4 space-y-4">
+        <div className="flex gap-2">
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="ស្វែងរកឈ្មោះ, សមាជិក, លេខទូរស័ព្ទ..."
+            className="bg-input border-border"
+          />
+          <Select value={kind} onValueChange={(value) => setKind(value as typeof kind)}>
+            <SelectTrigger className="bg-input border-border w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_KINDS}>ទាំងអស់</SelectItem>
+              {(Object.keys(KIND_LABELS) as ContactKind[]).map((k) => (
+                <SelectItem key={k} value={k}>
+                  {KIND_LABELS[k]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {selecting && (
+          <div className="flex items-center justify-between gap-2 rounded-lg border border-border bg-card px-4 py-3">
+            <span className="text-sm">ជ្រើសទំនាក់ទំនងដែលជាតែមួយ ({selected.length})</span>
+            <div className="flex gap-2">
+              <Button variant="ghost" size="sm" onClick={cancelMerge}>
+                បោះបង់
+              </Button>
+              <Button
+                size="sm"
+                disabled={selected.length < 2}
+                onClick={() => navigate(`/contacts/merge?ids=${selected.join(",")}`)}
+              >
+                បន្ទាប់
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoaded && visible.length === 0 && (
+          <div className="text-center py-8 text-muted-foreground">រកមិនឃើញទំនាក់ទំនង</div>
+        )}
+
+        <div className="space-y-2">
+          {visible.map((contact) => (
+            <ContactRow
+              key={contact.id}
+              contact={contact}
+              guestCount={guestCounts.get(contact.id) ?? 0}
+              selecting={selecting}
+              selected={selected.includes(contact.id)}
+              onToggle={() => toggle(contact.id)}
+            />
+          ))}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Contacts;
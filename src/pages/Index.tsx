@@ -1,13 +1,40 @@
-import { useState, useMemo, useCallback } from "react";
+import { useState, useMemo, useCallback, useRef } from "react";
+import { Link } from "react-router-dom";
+import { AlertTriangle, Handshake, History, Trash2, Users } from "lucide-react";
 import { useDatabase } from "@/hooks/useDatabase";
+import { useRole } from "@/hooks/useRole";
+import { usePrivacy } from "@/hooks/usePrivacy";
+import { useAppUpdate } from "@/hooks/useAppUpdate";
 import { Header } from "@/components/Header";
 import { SearchBar } from "@/components/SearchBar";
+import { FilterChips } from "@/components/FilterChips";
 import { GuestList } from "@/components/GuestList";
 import { GuestForm } from "@/components/GuestForm";
 import { GuestTabs } from "@/components/GuestTabs";
+import { InvitationImport } from "@/components/InvitationImport";
+import { DuplicateGuests } from "@/components/DuplicateGuests";
 import { SyncStatus } from "@/components/SyncStatus";
 import { BackupActions } from "@/components/BackupActions";
-import { GuestRecord, BankInfo } from "@/types/guest";
+import { UndoHistoryPanel } from "@/components/UndoHistoryPanel";
+import { UpdatePrompt } from "@/components/UpdatePrompt";
+import { Button } from "@/components/ui/button";
+import { maskAmount } from "@/lib/privacy";
+import { matchesTerms, parseQuery, withoutAmountTerms } from "@/lib/query";
+import { buildSearchIndex, search } from "@/lib/search";
+import { toast } from "sonner";
+import { GuestRecord, GiftInput } from "@/types/guest";
+
+// Amount as given, for the save toast
+function formatGiftInput(gift: GiftInput): string {
+  return gift.currency === "USD"
+    ? "$" + gift.originalAmount.toLocaleString("en-US")
+    : gift.originalAmount.toLocaleString("km-KH") + "៛";
+}
+
+// Shown name first so it wins ties, then the name as imported
+function guestSearchFields(guest: GuestRecord): string[] {
+  return [guest.displayName || guest.name, guest.name];
+}
 
 const Index = () => {
   const {
@@ -15,63 +42,192 @@ const Index = () => {
     recordedGuests,
     saveGuest,
     createGuest,
+    deleteGuest,
+    mergeGuests,
     hasExistingData,
     totals,
+    exchangeRates,
+    currentRate,
+    setExchangeRate,
     exportCSV,
     exportJSON,
     importJSON,
+    importInvitations,
+    events,
+    activeEvent,
+    switchEvent,
+    createEvent,
+    updateEvent,
     isLoaded,
     syncState,
     isOnline,
+    syncEndpoint,
+    updateSyncEndpoint,
+    syncNow,
+    verifyLedger,
+    undoHistory,
+    redoHistory,
+    undo,
+    redo,
+    undoTo,
+    conflictCount,
   } = useDatabase();
+  const { can } = useRole();
+  const { canUseAmounts } = usePrivacy();
+  const canOverwrite = can("overwriteGift");
+  const { updateReady, applyUpdate } = useAppUpdate();
 
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedGuest, setSelectedGuest] = useState<GuestRecord | null>(null);
   const [activeTab, setActiveTab] = useState<"pending" | "recorded">("pending");
+  const [isFormDirty, setIsFormDirty] = useState(false);
+  const guestListRef = useRef<HTMLDivElement>(null);
 
   // Get current tab's guests
   const currentGuests = activeTab === "pending" ? pendingGuests : recordedGuests;
 
-  // Filter guests based on search (searches across ALL guests regardless of tab)
+  // Search covers ALL guests regardless of tab, by shown name then original name
+  const allGuests = useMemo(() => [...pendingGuests, ...recordedGuests], [pendingGuests, recordedGuests]);
+  const searchIndex = useMemo(() => buildSearchIndex(allGuests, guestSearchFields), [allGuests]);
+  const parsedQuery = useMemo(() => parseQuery(searchQuery), [searchQuery]);
+  const isSearching = searchQuery.trim().length > 0;
+
+  const searchHits = useMemo(
+    () => (parsedQuery.text ? search(searchIndex, parsedQuery.text) : []),
+    [searchIndex, parsedQuery]
+  );
+
+  // Structured terms (side:, amount:, ...) narrow the name matches, or all guests
   const filteredGuests = useMemo(() => {
-    const allGuests = [...pendingGuests, ...recordedGuests];
-    if (!searchQuery.trim()) {
-      return currentGuests;
-    }
-    const query = searchQuery.toLowerCase().trim();
-    // When searching, search all guests and show results
-    return allGuests.filter((guest) => {
-      const displayName = guest.displayName || guest.name;
-      return displayName.toLowerCase().includes(query) || guest.name.toLowerCase().includes(query);
-    });
-  }, [pendingGuests, recordedGuests, currentGuests, searchQuery]);
+    if (!isSearching) return currentGuests;
+    const candidates = parsedQuery.text ? searchHits.map((hit) => hit.item) : allGuests;
+    const terms = canUseAmounts ? parsedQuery.terms : withoutAmountTerms(parsedQuery.terms);
+    return candidates.filter((guest) => matchesTerms(guest, terms));
+  }, [isSearching, currentGuests, parsedQuery, searchHits, allGuests, canUseAmounts]);
+
+  const searchHitsById = useMemo(
+    () => new Map(searchHits.map((hit) => [hit.item.id, hit])),
+    [searchHits]
+  );
 
   const handleSelectGuest = useCallback((guest: GuestRecord) => {
     setSelectedGuest(guest);
   }, []);
 
+  // The selected guest as currently stored, to spot changes made elsewhere
+  const latestSelectedGuest = useMemo(() => {
+    if (!selectedGuest) return null;
+    return allGuests.find((g) => g.id === selectedGuest.id) ?? null;
+  }, [selectedGuest, allGuests]);
+
+  const handleReloadGuest = useCallback(() => {
+    if (latestSelectedGuest) setSelectedGuest(latestSelectedGuest);
+  }, [latestSelectedGuest]);
+
   const handleCloseForm = useCallback(() => {
     setSelectedGuest(null);
   }, []);
 
+  // The open guest belongs to the event being left
+  const handleSwitchEvent = useCallback(
+    (eventId: string) => {
+      setSelectedGuest(null);
+      switchEvent(eventId);
+    },
+    [switchEvent]
+  );
+
+  // While searching, the CSV holds only the guests listed
+  const handleExportCSV = useCallback(() => {
+    exportCSV(isSearching ? filteredGuests : undefined);
+  }, [exportCSV, isSearching, filteredGuests]);
+
+  const handleUndo = useCallback(async () => {
+    if (await undo()) {
+      toast.success("បានមិនធ្វើវិញ ↩️");
+    } else {
+      toast.error("មិនអាចមិនធ្វើវិញបានទេ");
+    }
+  }, [undo]);
+
+  const handleUndoTo = useCallback(
+    async (entryId: string) => {
+      if (await undoTo(entryId)) {
+        toast.success("បានមិនធ្វើវិញ ↩️");
+      } else {
+        toast.error("មិនអាចមិនធ្វើវិញបានទេ");
+      }
+    },
+    [undoTo]
+  );
+
+  const handleRedo = useCallback(async () => {
+    if (!(await redo())) {
+      toast.error("មិនអាចធ្វើវិញបានទេ");
+    }
+  }, [redo]);
+
+  // Undo can take back any write, so it needs the right to overwrite gifts
+  const undoAction = useMemo(
+    () =>
+      canOverwrite ? { label: "↩️ មិនធ្វើវិញ", onClick: () => void handleUndo() } : undefined,
+    [canOverwrite, handleUndo]
+  );
+
   const handleSave = useCallback(
     async (
       guestId: string,
-      amountRiel: number | null,
-      paymentType: "cash" | "bank",
-      bank: BankInfo | null,
+      gift: GiftInput | null,
+      giftId: string | null,
       note: string,
       displayName: string
     ) => {
-      await saveGuest(guestId, amountRiel, paymentType, bank, note, displayName);
+      if (giftId && !canOverwrite) {
+        toast.error("គ្មានសិទ្ធិកែប្រែចំណងដៃ");
+        return;
+      }
+      const saved = await saveGuest(guestId, gift, giftId, note, displayName);
+      if (saved) {
+        const amount = gift && gift.originalAmount > 0 ? ` ${maskAmount(formatGiftInput(gift))}` : "";
+        toast.success(`បានរក្សាទុកជោគជ័យ${amount} ✓`, { action: undoAction });
+      } else {
+        toast.error("កំហុសក្នុងការរក្សាទុក");
+      }
     },
-    [saveGuest]
+    [saveGuest, undoAction, canOverwrite]
+  );
+
+  const handleDelete = useCallback(
+    async (guestId: string, reason: string, giftId?: string) => {
+      if (!can(giftId ? "overwriteGift" : "editGuests")) {
+        toast.error("គ្មានសិទ្ធិលុប");
+        return;
+      }
+      if (await deleteGuest(guestId, reason, giftId)) {
+        toast.success("បានដាក់ចូលធុងសំរាម 🗑️", { action: undoAction });
+      } else {
+        toast.error("កំហុសក្នុងការលុប");
+      }
+    },
+    [deleteGuest, undoAction, can]
+  );
+
+  const handleSetExchangeRate = useCallback(
+    async (rate: number, effectiveFrom?: number) => {
+      if (await setExchangeRate(rate, effectiveFrom)) {
+        toast.success("បានកំណត់អត្រាប្តូរប្រាក់ ✓");
+      } else {
+        toast.error("អត្រាប្តូរប្រាក់មិនត្រឹមត្រូវ");
+      }
+    },
+    [setExchangeRate]
   );
 
   const handleCreateGuest = useCallback(
     async (name: string, side: "groom" | "bride"): Promise<GuestRecord> => {
       const newGuest = await createGuest(name, side);
       if (newGuest) {
+        toast.success("បានបង្កើតភ្ញៀវថ្មី ✓", { action: undoAction });
         return newGuest;
       }
       // Fallback if creation fails
@@ -81,13 +237,16 @@ const Index = () => {
         side,
         displayName: name,
         amountRiel: null,
-        paymentType: "cash" as const,
-        bank: null,
+        gifts: [],
         note: "",
+        isCustomGuest: true,
+        group: "",
+        phone: "",
+        expectedAttendees: null,
         updatedAt: null,
       };
     },
-    [createGuest]
+    [createGuest, undoAction]
   );
 
   if (!isLoaded) {
@@ -104,26 +263,50 @@ const Index = () => {
         totalCash={totals.totalCash}
         totalBank={totals.totalBank}
         grandTotal={totals.grandTotal}
+        usdReceived={totals.usdReceived}
+        khrReceived={totals.khrReceived}
         contributorCount={totals.contributorCount}
         cashCount={totals.cashCount}
         bankCount={totals.bankCount}
         cashPercent={totals.cashPercent}
         bankPercent={totals.bankPercent}
+        exchangeRates={exchangeRates}
+        currentRate={currentRate}
+        rateComparison={totals.rateComparison}
+        onSetExchangeRate={handleSetExchangeRate}
+        onVerifyLedger={verifyLedger}
+        events={events}
+        activeEvent={activeEvent}
+        onSwitchEvent={handleSwitchEvent}
+        onCreateEvent={createEvent}
+        onUpdateEvent={updateEvent}
       />
 
       <main className="max-w-2xl mx-auto px-4 py-4">
         {/* Sync Status Indicator */}
         <div className="flex justify-center mb-4">
-          <SyncStatus syncState={syncState} isOnline={isOnline} />
+          <SyncStatus
+            syncState={syncState}
+            isOnline={isOnline}
+            syncEndpoint={syncEndpoint}
+            canConfigure={can("settings")}
+            onChangeEndpoint={updateSyncEndpoint}
+            onSyncNow={syncNow}
+          />
         </div>
 
         {/* Search */}
         <div className="mb-4">
-          <SearchBar value={searchQuery} onChange={setSearchQuery} />
+          <SearchBar
+            value={searchQuery}
+            onChange={setSearchQuery}
+            onArrowDown={() => guestListRef.current?.focus()}
+          />
+          <FilterChips query={searchQuery} onChange={setSearchQuery} ignoresAmounts={!canUseAmounts} />
         </div>
 
         {/* Tabs - only show when not searching */}
-        {!searchQuery.trim() && !selectedGuest && (
+        {!isSearching && !selectedGuest && (
           <GuestTabs
             activeTab={activeTab}
             onTabChange={setActiveTab}
@@ -136,9 +319,16 @@ const Index = () => {
         {selectedGuest && (
           <GuestForm
             guest={selectedGuest}
+            latestGuest={latestSelectedGuest}
+            onReload={handleReloadGuest}
             hasExistingData={hasExistingData(selectedGuest.id)}
+            canOverwrite={canOverwrite}
+            canEditGuest={can("editGuests")}
+            currentRate={currentRate}
             onSave={handleSave}
+            onDelete={handleDelete}
             onClose={handleCloseForm}
+            onDirtyChange={setIsFormDirty}
           />
         )}
 
@@ -148,7 +338,10 @@ const Index = () => {
             guests={filteredGuests}
             onSelect={handleSelectGuest}
             selectedId={selectedGuest?.id ?? null}
-            searchQuery={searchQuery}
+            searchQuery={parsedQuery.text}
+            isFiltered={parsedQuery.terms.length > 0}
+            searchHits={searchHitsById}
+            listRef={guestListRef}
             onCreateGuest={handleCreateGuest}
             showRecorded={activeTab === "recorded"}
           />
@@ -157,12 +350,84 @@ const Index = () => {
         {/* Backup & Export Actions */}
         <div className="mt-6 pt-4 border-t border-border">
           <BackupActions
-            onExportCSV={exportCSV}
+            canExport={can("export")}
+            canImport={can("import")}
+            onExportCSV={handleExportCSV}
+            exportCount={isSearching ? filteredGuests.length : undefined}
             onExportJSON={exportJSON}
             onImportJSON={importJSON}
+            undoAction={undoAction}
           />
+          {can("import") && (
+            <div className="mt-3">
+              <InvitationImport
+                eventId={activeEvent?.id ?? ""}
+                guests={allGuests}
+                onImport={importInvitations}
+                undoAction={undoAction}
+              />
+            </div>
+          )}
+          {can("editGuests") && (
+            <div className="mt-3">
+              <DuplicateGuests guests={allGuests} onMerge={mergeGuests} undoAction={undoAction} />
+            </div>
+          )}
+          {canOverwrite && (
+            <div className="mt-3">
+              <UndoHistoryPanel
+                undoHistory={undoHistory}
+                redoHistory={redoHistory}
+                onUndoTo={handleUndoTo}
+                onRedo={handleRedo}
+              />
+            </div>
+          )}
+          {can("reviewConflicts") && conflictCount > 0 && (
+            <Button variant="outline" asChild className="w-full h-12 mt-3 border-destructive text-destructive">
+              <Link to="/conflicts">
+                <AlertTriangle className="h-4 w-4 mr-2" />
+                ⚠️ ការប៉ះទង្គិច ({conflictCount})
+              </Link>
+            </Button>
+          )}
+          {can("viewTotals") && (
+            <Button variant="ghost" asChild className="w-full h-12 mt-3">
+              <Link to="/reciprocity">
+                <Handshake className="h-4 w-4 mr-2" />
+                🤝 ចំណងដៃតបវិញ
+              </Link>
+            </Button>
+          )}
+          {can("editGuests") && (
+            <Button variant="ghost" asChild className="w-full h-12">
+              <Link to="/contacts">
+                <Users className="h-4 w-4 mr-2" />
+                👥 ទំនាក់ទំនង
+              </Link>
+            </Button>
+          )}
+          {can("viewAudit") && (
+            <Button variant="ghost" asChild className="w-full h-12">
+              <Link to="/audit">
+                <History className="h-4 w-4 mr-2" />
+                📜 ប្រវត្តិកែប្រែ
+              </Link>
+            </Button>
+          )}
+          {can("editGuests") && (
+            <Button variant="ghost" asChild className="w-full h-12">
+              <Link to="/trash">
+                <Trash2 className="h-4 w-4 mr-2" />
+                🗑️ ធុងសំរាម
+              </Link>
+            </Button>
+          )}
         </div>
       </main>
+
+      {/* Never reloads under an open form with unsaved input */}
+      {updateReady && <UpdatePrompt blocked={isFormDirty} onUpdate={applyUpdate} />}
     </div>
   );
 };
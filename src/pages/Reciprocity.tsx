@@ -0,0 +1,618 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft, Handshake, Pencil, Plus, Settings2, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  deleteOutgoingGift,
+  getAllGifts,
+  getAllGuests,
+  getContacts,
+  getEvents,
+  getExchangeRates,
+  getOutgoingGifts,
+  linkGuestsToContact,
+  saveContact,
+  saveOutgoingGift,
+} from "@/lib/db";
+import { subscribeToChanges } from "@/lib/changeFeed";
+import { eventOf } from "@/lib/events";
+import { isActiveGift, toRiel } from "@/lib/gifts";
+import { rateAt } from "@/lib/rates";
+import { createContactId, newContact } from "@/lib/contacts";
+import {
+  contactBalances,
+  createOutgoingGiftId,
+  getReciprocityRules,
+  setReciprocityRules,
+} from "@/lib/reciprocity";
+import { normalizeText } from "@/lib/search";
+import { useRole } from "@/hooks/useRole";
+import { Contact } from "@/types/contact";
+import { WeddingEvent } from "@/types/event";
+import { Currency } from "@/types/guest";
+import { ExchangeRate } from "@/types/rate";
+import {
+  ContactBalance,
+  ExchangeTotals,
+  OutgoingGift,
+  ReciprocityRules,
+  ReturnSuggestion,
+} from "@/types/reciprocity";
+import { GiftEntryDB, GuestRecordDB } from "@/types/sync";
+import { ContactGuests } from "@/components/ContactGuests";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+function formatAmount(amount: number, currency: Currency): string {
+  return currency === "USD" ? "$" + amount.toLocaleString("en-US") : amount.toLocaleString("km-KH") + "៛";
+}
+
+function formatTotals(totals: ExchangeTotals): string {
+  const parts = [];
+  if (totals.usd > 0) parts.push(formatAmount(totals.usd, "USD"));
+  if (totals.khr > 0) parts.push(formatAmount(totals.khr, "KHR"));
+  return parts.length > 0 ? parts.join(" + ") : "—";
+}
+
+function formatSuggestion(suggestion: ReturnSuggestion): string {
+  return formatAmount(suggestion.amount, suggestion.currency);
+}
+
+function guestName(guest: GuestRecordDB): string {
+  return guest.displayName || guest.name;
+}
+
+function today(): string {
+  return new Date().toISOString().split("T")[0];
+}
+
+function BalanceCard({ balance, onOpen }: { balance: ContactBalance; onOpen: () => void }) {
+  const owed = balance.balanceRiel > 0;
+  return (
+    <button
+      onClick={onOpen}
+      className="w-full text-left px-4 py-3 rounded-lg border border-border bg-card hover:border-primary"
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium text-foreground">{balance.contact.name}</span>
+        <span className={`text-sm font-medium ${owed ? "text-amber-500" : "text-success"}`}>
+          {owed ? "ជំពាក់ " : ""}
+          {formatAmount(Math.abs(balance.balanceRiel), "KHR")}
+        </span>
+      </div>
+      <p className="text-xs text-muted-foreground mt-1">
+        ទទួល {formatTotals(balance.received)} · ឲ្យ {formatTotals(balance.given)}
+      </p>
+      {balance.suggestion && (
+        <p className="text-xs text-primary mt-1">ណែនាំតបវិញ៖ {formatSuggestion(balance.suggestion)}</p>
+      )}
+    </button>
+  );
+}
+
+function RulesDialog({
+  rules,
+  open,
+  onOpenChange,
+  onSave,
+}: {
+  rules: ReciprocityRules;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (rules: ReciprocityRules) => void;
+}) {
+  const [inflation, setInflation] = useState(String(rules.inflationPercent));
+  const [roundKHR, setRoundKHR] = useState(String(rules.roundKHR));
+  const [roundUSD, setRoundUSD] = useState(String(rules.roundUSD));
+
+  useEffect(() => {
+    if (!open) return;
+    setInflation(String(rules.inflationPercent));
+    setRoundKHR(String(rules.roundKHR));
+    setRoundUSD(String(rules.roundUSD));
+  }, [open, rules]);
+
+  const handleSave = () => {
+    const next = {
+      inflationPercent: Number(inflation),
+      roundKHR: Number(roundKHR),
+      roundUSD: Number(roundUSD),
+    };
+    if (Object.values(next).some((value) => !Number.isFinite(value) || value < 0)) {
+      toast.error("តម្លៃមិនត្រឹមត្រូវ");
+      return;
+    }
+    onSave(next);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-border max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="text-primary">⚙️ របៀបគណនាចំណងដៃតបវិញ</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div>
+            <Label className="text-sm mb-1 block">បន្ថែមក្នុងមួយឆ្នាំ (%)</Label>
+            <Input
+              type="number"
+              inputMode="decimal"
+              value={inflation}
+              onChange={(e) => setInflation(e.target.value)}
+              className="bg-input border-border"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label className="text-sm mb-1 block">បង្គត់ឡើង (៛)</Label>
+              <Input
+                type="number"
+                inputMode="numeric"
+                value={roundKHR}
+                onChange={(e) => setRoundKHR(e.target.value)}
+                className="bg-input border-border"
+              />
+            </div>
+            <div>
+              <Label className="text-sm mb-1 block">បង្គត់ឡើង ($)</Label>
+              <Input
+                type="number"
+                inputMode="numeric"
+                value={roundUSD}
+                onChange={(e) => setRoundUSD(e.target.value)}
+                className="bg-input border-border"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            ចំនួនណែនាំ គឺជាចំណងដៃដែលគ្រួសារនោះបានឲ្យនៅកម្មវិធីចុងក្រោយ បូកបន្ថែមតាមឆ្នាំ ហើយបង្គត់ឡើង
+          </p>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            បោះបង់
+          </Button>
+          <Button onClick={handleSave}>រក្សាទុក</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ContactDetail({
+  balance,
+  guests,
+  giftsByGuest,
+  given,
+  eventNames,
+  rates,
+  canEdit,
+  onChanged,
+  onClose,
+}: {
+  balance: ContactBalance;
+  guests: GuestRecordDB[];
+  giftsByGuest: Map<string, GiftEntryDB[]>;
+  given: OutgoingGift[];
+  eventNames: Map<string, string>;
+  rates: ExchangeRate[];
+  canEdit: boolean;
+  onChanged: () => Promise<void>;
+  onClose: () => void;
+}) {
+  const { contact, suggestion } = balance;
+  const [occasion, setOccasion] = useState("");
+  const [date, setDate] = useState(today);
+  const [amountInput, setAmountInput] = useState("");
+  const [currency, setCurrency] = useState<Currency>("USD");
+  const [note, setNote] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const linked = guests.filter((g) => balance.guestIds.includes(g.id));
+  const ours = given
+    .filter((g) => g.contactId === contact.id && !g.deleted)
+    .sort((a, b) => b.date.localeCompare(a.date));
+
+  const run = async (write: () => Promise<unknown>, success: string) => {
+    setIsSaving(true);
+    try {
+      await write();
+      await onChanged();
+      toast.success(success);
+      return true;
+    } catch (e) {
+      console.error("[DB] Reciprocity error:", e);
+      toast.error("កំហុសក្នុងការរក្សាទុក");
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleLink = (guestId: string) => {
+    run(() => linkGuestsToContact([guestId], contact.id), "បានភ្ជាប់ភ្ញៀវ ✓");
+  };
+
+  const handleUnlink = (guestId: string) => {
+    run(() => linkGuestsToContact([guestId], null), "បានផ្តាច់ភ្ញៀវ ✓");
+  };
+
+  const handleAddGiven = async () => {
+    const originalAmount = Number(amountInput);
+    if (!occasion.trim() || !date || !Number.isFinite(originalAmount) || originalAmount <= 0) {
+      toast.error("សូមបញ្ចូលកម្មវិធី កាលបរិច្ឆេទ និងចំនួនប្រាក់");
+      return;
+    }
+    const now = Date.now();
+    const exchangeRate = rateAt(rates, new Date(date).getTime());
+    const gift: OutgoingGift = {
+      id: createOutgoingGiftId(),
+      contactId: contact.id,
+      occasion: occasion.trim(),
+      date,
+      currency,
+      originalAmount,
+      exchangeRate,
+      amountRiel: toRiel(originalAmount, currency, exchangeRate),
+      note: note.trim(),
+      createdAt: now,
+      updatedAt: now,
+      deleted: null,
+    };
+    const saved = await run(() => saveOutgoingGift(gift), "បានកត់ចំណងដៃដែលយើងឲ្យ ✓");
+    if (saved) {
+      setOccasion("");
+      setAmountInput("");
+      setNote("");
+    }
+  };
+
+  const applySuggestion = () => {
+    if (!suggestion) return;
+    setCurrency(suggestion.currency);
+    setAmountInput(String(suggestion.amount));
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="bg-card border-border max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-primary flex items-center gap-2">
+            🤝 {contact.name}
+            <Button variant="ghost" size="icon" asChild aria-label="ព័ត៌មានលម្អិត">
+              <Link to={`/contacts/${contact.id}`}>
+                <Pencil className="h-4 w-4" />
+              </Link>
+            </Button>
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          {/* Balance */}
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            <div className="rounded-lg border border-border px-3 py-2">
+              <span className="text-xs text-muted-foreground block">យើងទទួល</span>
+              <span className="font-medium">{formatTotals(balance.received)}</span>
+            </div>
+            <div className="rounded-lg border border-border px-3 py-2">
+              <span className="text-xs text-muted-foreground block">យើងឲ្យ</span>
+              <span className="font-medium">{formatTotals(balance.given)}</span>
+            </div>
+            <div className="col-span-2 rounded-lg border border-border px-3 py-2">
+              <span className="text-xs text-muted-foreground block">សមតុល្យ (តម្លៃជារៀល)</span>
+              <span className={`font-bold ${balance.balanceRiel > 0 ? "text-amber-500" : "text-success"}`}>
+                {balance.balanceRiel > 0 ? "យើងជំពាក់ " : ""}
+                {formatAmount(Math.abs(balance.balanceRiel), "KHR")}
+              </span>
+              {suggestion && (
+                <span className="text-xs text-primary block mt-1">
+                  ណែនាំតបវិញ៖ {formatSuggestion(suggestion)} (ពី{" "}
+                  {formatAmount(suggestion.basedOn, suggestion.currency)}
+                  {suggestion.years >= 1 && `, ${Math.floor(suggestion.years)} ឆ្នាំមុន`})
+                </span>
+              )}
+            </div>
+          </div>
+
+          <ContactGuests
+            linked={linked}
+            guests={guests}
+            giftsByGuest={giftsByGuest}
+            eventNames={eventNames}
+            canEdit={canEdit}
+            disabled={isSaving}
+            onLink={handleLink}
+            onUnlink={handleUnlink}
+          />
+
+          {/* What we gave them */}
+          <section className="space-y-2">
+            <h3 className="text-sm text-muted-foreground font-medium">ចំណងដៃដែលយើងបានឲ្យ</h3>
+            {ours.length === 0 && <p className="text-sm text-muted-foreground">មិនទាន់មាន</p>}
+            {ours.map((gift) => (
+              <div key={gift.id} className="flex items-center justify-between gap-2 text-sm">
+                <div>
+                  <span className="text-foreground">
+                    {gift.occasion} · {formatAmount(gift.originalAmount, gift.currency)}
+                  </span>
+                  <span className="text-xs text-muted-foreground block">
+                    {gift.date}
+                    {gift.note && ` · ${gift.note}`}
+                  </span>
+                </div>
+                {canEdit && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => run(() => deleteOutgoingGift(gift.id, ""), "បានលុប ✓")}
+                    disabled={isSaving}
+                    aria-label="លុប"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+
+            {canEdit && (
+              <div className="rounded-lg border border-border p-3 space-y-2">
+                <div className="grid grid-cols-2 gap-2">
+                  <Input
+                    value={occasion}
+                    onChange={(e) => setOccasion(e.target.value)}
+                    placeholder="កម្មវិធី (មង្គលការកូន...)"
+                    className="bg-input border-border"
+                  />
+                  <Input
+                    type="date"
+                    value={date}
+                    onChange={(e) => setDate(e.target.value)}
+                    className="bg-input border-border"
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Input
+                    type="number"
+                    inputMode="decimal"
+                    value={amountInput}
+                    onChange={(e) => setAmountInput(e.target.value)}
+                    placeholder="ចំនួនប្រាក់"
+                    className="bg-input border-border"
+                  />
+                  <Select value={currency} onValueChange={(value) => setCurrency(value as Currency)}>
+                    <SelectTrigger className="w-24 bg-input border-border">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="USD">$</SelectItem>
+                      <SelectItem value="KHR">៛</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Input
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="កំណត់ចំណាំ"
+                  className="bg-input border-border"
+                />
+                <div className="flex gap-2">
+                  {suggestion && (
+                    <Button variant="outline" onClick={applySuggestion} className="flex-1">
+                      ប្រើចំនួនណែនាំ
+                    </Button>
+                  )}
+                  <Button onClick={handleAddGiven} disabled={isSaving} className="flex-1">
+                    <Plus className="h-4 w-4 mr-1" />
+                    កត់ចំណងដៃដែលយើងឲ្យ
+                  </Button>
+                </div>
+              </div>
+            )}
+          </section>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+const Reciprocity = () => {
+  const { can } = useRole();
+  const canEdit = can("editGuests");
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [guests, setGuests] = useState<GuestRecordDB[]>([]);
+  const [gifts, setGifts] = useState<GiftEntryDB[]>([]);
+  const [given, setGiven] = useState<OutgoingGift[]>([]);
+  const [events, setEvents] = useState<WeddingEvent[]>([]);
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [rules, setRules] = useState(getReciprocityRules);
+  const [query, setQuery] = useState("");
+  const [openContactId, setOpenContactId] = useState<string | null>(null);
+  const [isRulesOpen, setIsRulesOpen] = useState(false);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  const load = useCallback(async () => {
+    setContacts(await getContacts());
+    setGuests(await getAllGuests());
+    setGifts(await getAllGifts());
+    setGiven(await getOutgoingGifts());
+    setEvents(await getEvents());
+    setRates(await getExchangeRates());
+    setIsLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    load();
+    return subscribeToChanges(() => load());
+  }, [load]);
+
+  const balances = useMemo(
+    () => contactBalances(contacts, guests, gifts, given, rules),
+    [contacts, guests, gifts, given, rules]
+  );
+
+  const giftsByGuest = useMemo(() => {
+    const map = new Map<string, GiftEntryDB[]>();
+    gifts.forEach((gift) => map.set(gift.guestId, [...(map.get(gift.guestId) ?? []), gift]));
+    return map;
+  }, [gifts]);
+
+  const eventNames = useMemo(() => new Map(events.map((e) => [e.id, e.name])), [events]);
+
+  const visible = useMemo(() => {
+    const q = normalizeText(query).trim();
+    return q ? balances.filter((b) => normalizeText(b.contact.name).includes(q)) : balances;
+  }, [balances, query]);
+
+  // Guests who gave us something but belong to no family yet
+  const unlinked = useMemo(
+    () =>
+      guests.filter(
+        (g) => !g.deleted && !g.contactId && (giftsByGuest.get(g.id) ?? []).some(isActiveGift)
+      ),
+    [guests, giftsByGuest]
+  );
+
+  const openBalance = balances.find((b) => b.contact.id === openContactId) ?? null;
+
+  const handleCreateContact = async (
+    name: string,
+    guestIds: string[],
+    side: Contact["side"] = null
+  ) => {
+    try {
+      const contact = newContact(createContactId(), { name, side });
+      await saveContact(contact);
+      if (guestIds.length > 0) await linkGuestsToContact(guestIds, contact.id);
+      await load();
+      setOpenContactId(contact.id);
+    } catch (e) {
+      console.error("[DB] Create contact error:", e);
+      toast.error("កំហុសក្នុងការរក្សាទុក");
+    }
+  };
+
+  const handleSaveRules = (next: ReciprocityRules) => {
+    setReciprocityRules(next);
+    setRules(next);
+    toast.success("បានរក្សាទុក ✓");
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 bg-card border-b border-border px-4 py-4 shadow-lg">
+        <div className="max-w-2xl mx-auto flex items-center gap-3">
+          <Button variant="ghost" size="icon" asChild>
+            <Link to="/">
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-bold text-primary flex items-center gap-2 flex-1">
+            <Handshake className="h-6 w-6" />
+            ចំណងដៃតបវិញ
+          </h1>
+          {can("settings") && (
+            <Button variant="ghost" size="icon" onClick={() => setIsRulesOpen(true)} aria-label="ការកំណត់">
+              <Settings2 className="h-5 w-5" />
+            </Button>
+          )}
+        </div>
+      </header>
+
+      <main className="max-w-2xl mx-auto px-4 py-4 space-y-6">
+        <div className="flex gap-2">
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="ស្វែងរកគ្រួសារ..."
+            className="bg-input border-border"
+          />
+          {canEdit && (
+            <Button
+              onClick={() => query.trim() && handleCreateContact(query.trim(), [])}
+              disabled={!query.trim()}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              គ្រួសារថ្មី
+            </Button>
+          )}
+        </div>
+
+        {isLoaded && balances.length === 0 && (
+          <div className="text-center py-8 text-muted-foreground">
+            មិនទាន់មានគ្រួសារ · ភ្ជាប់ភ្ញៀវដែលបានឲ្យចំណងដៃខាងក្រោម
+          </div>
+        )}
+
+        {visible.length > 0 && (
+          <section className="space-y-2">
+            <h2 className="text-sm text-muted-foreground font-medium">គ្រួសារ ({visible.length})</h2>
+            {visible.map((balance) => (
+              <BalanceCard
+                key={balance.contact.id}
+                balance={balance}
+                onOpen={() => setOpenContactId(balance.contact.id)}
+              />
+            ))}
+          </section>
+        )}
+
+        {canEdit && unlinked.length > 0 && (
+          <section className="space-y-2">
+            <h2 className="text-sm text-muted-foreground font-medium">
+              ភ្ញៀវមិនទាន់ភ្ជាប់គ្រួសារ ({unlinked.length})
+            </h2>
+            {unlinked.map((guest) => (
+              <div
+                key={guest.id}
+                className="flex items-center justify-between gap-2 px-4 py-2 rounded-lg border border-border bg-card"
+              >
+                <div>
+                  <span className="text-foreground block">{guestName(guest)}</span>
+                  <span className="text-xs text-muted-foreground">{eventNames.get(eventOf(guest)) ?? ""}</span>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => handleCreateContact(guestName(guest), [guest.id], guest.side)}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  គ្រួសារ
+                </Button>
+              </div>
+            ))}
+          </section>
+        )}
+      </main>
+
+      {openBalance && (
+        <ContactDetail
+          key={openBalance.contact.id}
+          balance={openBalance}
+          guests={guests}
+          giftsByGuest={giftsByGuest}
+          given={given}
+          eventNames={eventNames}
+          rates={rates}
+          canEdit={canEdit}
+          onChanged={load}
+          onClose={() => setOpenContactId(null)}
+        />
+      )}
+      <RulesDialog rules={rules} open={isRulesOpen} onOpenChange={setIsRulesOpen} onSave={handleSaveRules} />
+    </div>
+  );
+};
+
+export default Reciprocity;
@@ -0,0 +1,150 @@
+import { useState, useEffect, useCallback } from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft, RotateCcw, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { getAllGuests, getTrash, restoreDeletedGuest, restoreDeletedGift } from "@/lib/db";
+import { GiftEntryDB, GuestRecordDB, Tombstone } from "@/types/sync";
+import { Button } from "@/components/ui/button";
+
+function formatKHR(amount: number): string {
+  return amount.toLocaleString("km-KH") + "៛";
+}
+
+function TombstoneInfo({ tombstone }: { tombstone: Tombstone }) {
+  return (
+    <p className="text-xs text-muted-foreground mt-1">
+      {new Date(tombstone.at).toLocaleString("km-KH")} · {tombstone.by}
+      {tombstone.reason && <span className="block">មូលហេតុ៖ {tombstone.reason}</span>}
+    </p>
+  );
+}
+
+function TrashItem({
+  guest,
+  tombstone,
+  amount,
+  onRestore,
+}: {
+  guest: GuestRecordDB;
+  tombstone: Tombstone;
+  amount: number | null;
+  onRestore: () => void;
+}) {
+  const sideLabel = guest.side === "groom" ? "ប្រុស 👦🏻" : "ស្រី 🌸";
+
+  return (
+    <div className="flex items-center justify-between gap-2 px-4 py-3 rounded-lg border border-border bg-card">
+      <div>
+        <span className="font-medium text-foreground block">{guest.displayName || guest.name}</span>
+        <span className="text-xs text-muted-foreground">ភ្ញៀវខាង{sideLabel}</span>
+        {amount !== null && amount > 0 && (
+          <span className="text-sm text-primary font-medium ml-2">{formatKHR(amount)}</span>
+        )}
+        <TombstoneInfo tombstone={tombstone} />
+      </div>
+      <Button variant="outline" size="sm" onClick={onRestore}>
+        <RotateCcw className="h-4 w-4 mr-1" />
+        ស្ដារ
+      </Button>
+    </div>
+  );
+}
+
+const Trash = () => {
+  const [guests, setGuests] = useState<GuestRecordDB[]>([]);
+  const [gifts, setGifts] = useState<GiftEntryDB[]>([]);
+  const [guestsById, setGuestsById] = useState<Map<string, GuestRecordDB>>(new Map());
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  const loadTrash = useCallback(async () => {
+    const trash = await getTrash();
+    setGuests(trash.guests);
+    setGifts(trash.gifts);
+    // Gifts only carry a guestId, look the names up
+    const allGuests = await getAllGuests();
+    setGuestsById(new Map(allGuests.map((g) => [g.id, g])));
+    setIsLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const handleRestore = useCallback(
+    async (restore: (id: string) => Promise<unknown>, id: string) => {
+      try {
+        await restore(id);
+        toast.success("បានស្ដារវិញ ✓");
+        await loadTrash();
+      } catch (e) {
+        console.error("[DB] Restore error:", e);
+        toast.error("កំហុសក្នុងការស្ដារ");
+      }
+    },
+    [loadTrash]
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 bg-card border-b border-border px-4 py-4 shadow-lg">
+        <div className="max-w-2xl mx-auto flex items-center gap-3">
+          <Button variant="ghost" size="icon" asChild>
+            <Link to="/">
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-bold text-primary flex items-center gap-2">
+            <Trash2 className="h-6 w-6" />
+            ធុងសំរាម
+          </h1>
+        </div>
+      </header>
+
+      <main className="max-w-2xl mx-auto px-4 py-4 space-y-6">
+        {isLoaded && guests.length === 0 && gifts.length === 0 && (
+          <div className="text-center py-8 text-muted-foreground">ធុងសំរាមទទេ</div>
+        )}
+
+        {guests.length > 0 && (
+          <section className="space-y-2">
+            <h2 className="text-sm text-muted-foreground font-medium">
+              ភ្ញៀវដែលបានលុប ({guests.length})
+            </h2>
+            {guests.map((guest) => (
+              <TrashItem
+                key={guest.id}
+                guest={guest}
+                tombstone={guest.deleted!}
+                amount={null}
+                onRestore={() => handleRestore(restoreDeletedGuest, guest.id)}
+              />
+            ))}
+          </section>
+        )}
+
+        {gifts.length > 0 && (
+          <section className="space-y-2">
+            <h2 className="text-sm text-muted-foreground font-medium">
+              ចំណងដៃដែលបានលុប ({gifts.length})
+            </h2>
+            {gifts.map((gift) => {
+              const guest = guestsById.get(gift.guestId);
+              if (!guest) return null;
+              return (
+                <TrashItem
+                  key={gift.id}
+                  guest={guest}
+                  tombstone={gift.deleted!}
+                  amount={gift.amountRiel}
+                  onRestore={() => handleRestore(restoreDeletedGift, gift.id)}
+                />
+              );
+            })}
+          </section>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Trash;
@@ -0,0 +1,92 @@
+import { GiftEntryDB, GuestRecordDB } from "./sync";
+
+// Append-only audit trail of every change to a guest record
+export type AuditAction =
+  | "create"
+  | "update"
+  | "delete"
+  | "restore"
+  | "import"
+  | "migration"
+  | "undo"
+  | "redo"
+  | "sync"
+  | "merge"
+  | SessionAction;
+
+// Lock screen events; they are not about any guest
+export type SessionAction = "lock" | "unlock";
+
+export type AuditSource =
+  | "GuestForm"
+  | "createCustomGuest"
+  | "importBackup"
+  | "invitationImport"
+  | "reciprocity"
+  | "contacts"
+  | "duplicateMerge"
+  | "migrateFromLocalStorage"
+  | "schemaMigration"
+  | "undoHistory"
+  | "Trash"
+  | "syncEngine"
+  | "conflictReview"
+  | "lockScreen";
+
+// Only the fields that actually changed are stored
+export type AuditValues = Partial<Omit<GuestRecordDB, "id">> & Partial<Omit<GiftEntryDB, "id">>;
+
+export interface AuditEvent {
+  id?: number; // Auto-increment key
+  guestId: string; // Empty for session events
+  giftId?: string; // Set when the change is to a gift line item
+  action: AuditAction;
+  source: AuditSource;
+  previous: AuditValues | null; // null for creations
+  next: AuditValues;
+  timestamp: number; // Unix timestamp
+  deviceId: string;
+  recorder: string; // Name of the person holding the device
+  detail?: string; // Lock reason or role that unlocked; on older merge moves of a gift, its old guest
+  // Hash chain, filled in by sealLedger() once the event is written
+  prevHash?: string;
+  hash?: string;
+  sealVersion?: number; // 2 when the hash covers digests of the values (see ledger.ts)
+  redacted?: Partial<Record<RedactedField, string>>; // Digests of values left out of a backup
+  encrypted?: string; // previous and next, while at-rest encryption is on
+}
+
+// Values an entry carries about a guest or gift
+export type RedactedField = "previous" | "next" | "detail" | "recorder";
+
+export interface AuditFilter {
+  guestId?: string;
+  action?: AuditAction;
+  source?: AuditSource;
+  from?: number;
+  to?: number;
+}
+
+export type LedgerIssueKind =
+  | "hash-mismatch" // Event contents no longer match its hash
+  | "broken-link" // Event does not point at the previous event's hash
+  | "unsealed-gap" // Unsealed event followed by sealed ones
+  | "unsealed" // Event never hashed, or its hash stripped
+  | "record-mismatch" // Guest record differs from what the ledger says
+  | "record-missing" // Guest or gift in the ledger but no longer stored
+  | "redacted"; // Entry about a record in the backup carried without its values
+
+export interface LedgerIssue {
+  kind: LedgerIssueKind;
+  eventId?: number;
+  guestId?: string;
+  message: string;
+}
+
+export interface LedgerVerification {
+  status: "verified" | "altered";
+  checkedEvents: number;
+  unsealedEvents: number; // Not hashed even after sealing ran (an issue)
+  headHash: string | null;
+  issues: LedgerIssue[];
+}
@@ -0,0 +1,43 @@
+export type Role = "recorder" | "treasurer" | "admin";
+
+// Salted PBKDF2 hash of one role's secret; the secret itself is never stored
+export interface Credential {
+  role: Role;
+  salt: string; // Base64
+  hash: string; // Base64
+  iterations: number;
+  updatedAt: number;
+  updatedBy: string;
+}
+
+// Failed attempts survive reloads so the lockout cannot be reset by one
+export interface LockoutState {
+  scope: string;
+  failedAttempts: number;
+  lockedUntil: number | null;
+  lockouts: number; // Consecutive lockouts; each one lasts longer
+}
+
+export type UnlockResult =
+  | { status: "unlocked"; role: Role }
+  | { status: "invalid"; remainingAttempts: number }
+  | { status: "locked"; lockedUntil: number };
+
+export type Permission =
+  | "record" // Record new gifts and search
+  | "overwriteGift" // Edit or delete a gift already recorded, undo/redo
+  | "viewTotals"
+  | "reviewConflicts"
+  | "viewAudit"
+  | "export"
+  | "import"
+  | "editGuests" // Rename, delete and restore guests
+  | "settings"; // Exchange rate, sync endpoint, role secrets
+
+// Why the lock screen came up
+export type LockReason = "idle" | "hidden" | "manual" | "start";
+
+export interface LockSettings {
+  idleMinutes: number; // 0 = never lock for inactivity
+  lockWhenHidden: boolean; // Lock as soon as the tab or app is switched away from
+}
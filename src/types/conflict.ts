@@ -0,0 +1,22 @@
+export type ConflictSource = "sync" | "import";
+
+// Concurrent edits of the same gift amount on two devices. The newer clock
+// wins automatically so every device converges; the queue keeps the other
+// side so the treasurer can still choose it.
+export interface FieldConflict {
+  id?: number;
+  store: "guests" | "gifts";
+  recordId: string;
+  guestId: string;
+  fields: string[]; // Fields that are reviewed together
+  local: Record<string, unknown>; // Values on this device before the merge
+  remote: Record<string, unknown>; // Incoming values
+  localClock: string;
+  remoteClock: string;
+  applied: "local" | "remote"; // Side kept by the automatic merge
+  source: ConflictSource;
+  detectedAt: number;
+  resolvedAt: number | null;
+  resolvedBy: string | null;
+  encrypted?: string; // local and remote, while at-rest encryption is on
+}
@@ -0,0 +1,37 @@
+import { FieldClocks } from "./sync";
+
+// A person, couple or household we know across events. Guests of any event
+// point at their contact (GuestRecordDB.contactId); the reciprocity ledger
+// (types/reciprocity.ts) keeps its balances per contact.
+
+export type ContactKind = "individual" | "couple" | "household";
+
+export interface ContactMember {
+  name: string; // "" when only the role is known, e.g. "& Wife"
+  role: string; // e.g. "ភរិយា", "កូន"; "" for the main person
+}
+
+export interface Contact {
+  id: string;
+  kind: ContactKind;
+  name: string; // As the family is addressed, e.g. "Lay Mengly & Wife"
+  members: ContactMember[]; // Empty for an individual
+  phone: string;
+  address: string;
+  side: "groom" | "bride" | "both" | null; // Whose guests they are
+  relationship: string; // To the groom or bride, e.g. "ពូ", "មិត្តរួមការងារ"
+  note: string;
+  mergedInto: string | null; // Set when merged into another contact, which replaces it
+  createdAt: number; // Unix timestamp
+  updatedAt: number;
+  fieldClocks?: FieldClocks; // Clock of each field's last write, for merging backups
+  encrypted?: string; // phone, address and note, while at-rest encryption is on
+}
+
+export type ContactFormData = Pick<
+  Contact,
+  "kind" | "name" | "members" | "phone" | "address" | "side" | "relationship" | "note"
+>;
+
+// Fields picked one by one on the merge screen; members are combined
+export type MergeableContactField = Exclude<keyof ContactFormData, "members">;
@@ -0,0 +1,30 @@
+import { GuestRecord } from "./guest";
+import { GuestRecordDB } from "./sync";
+
+// Why guests were put in the same cluster
+export type DuplicateReason =
+  | "name" // Names sound alike (across Khmer and Latin spelling), same side
+  | "bankRef"; // A bank transfer with the same reference
+
+// Guests of one event that are likely the same person
+export interface DuplicateCluster {
+  guests: GuestRecord[]; // Seeded guests first, then oldest edit first
+  reasons: DuplicateReason[];
+}
+
+// Guest details picked one by one on the merge screen
+export type MergeableGuestField =
+  | "displayName"
+  | "side"
+  | "note"
+  | "group"
+  | "phone"
+  | "expectedAttendees";
+
+// What a merge keeps: one guest stays, the others go to the trash pointing at it
+export interface GuestMerge {
+  keepId: string;
+  mergedIds: string[];
+  fields: Pick<GuestRecordDB, MergeableGuestField>;
+  keepGiftIds: string[]; // Gifts of any of them; the rest go to the trash
+}
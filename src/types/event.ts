@@ -0,0 +1,15 @@
+import { FieldClocks, SyncableRecord } from "./sync";
+
+// One wedding or ceremony (engagement, a sibling's wedding, ...). Guests and
+// their gifts belong to exactly one event.
+export interface WeddingEvent extends SyncableRecord {
+  name: string;
+  date: string; // YYYY-MM-DD, "" when not set
+  venue: string;
+  couple: string; // e.g. "សុខា & ដារ៉ា"
+  exchangeRate: number | null; // Riel per USD for this event's gifts; null follows the rate table
+  createdAt: number; // Unix timestamp
+  fieldClocks?: FieldClocks; // Clock of each detail's last write
+}
+
+export type EventFormData = Pick<WeddingEvent, "name" | "date" | "venue" | "couple" | "exchangeRate">;
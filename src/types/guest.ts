@@ -9,12 +9,38 @@ export interface BankInfo {
   ref: string;
 }
 
-export interface GuestRecord extends GuestBase {
-  displayName: string; // Editable name for display
-  amountRiel: number | null;
+export type Currency = "KHR" | "USD";
+
+export interface GiftEntry {
+  id: string;
+  amountRiel: number;
+  currency: Currency;
+  originalAmount: number;
+  exchangeRate: number;
+  paymentType: "cash" | "bank";
+  bank: BankInfo | null;
+  receivedAt: string;
+  recorder: string;
+}
+
+// New or edited gift line as entered in the form
+export interface GiftInput {
+  originalAmount: number;
+  currency: Currency;
+  exchangeRate: number;
   paymentType: "cash" | "bank";
   bank: BankInfo | null;
+}
+
+export interface GuestRecord extends GuestBase {
+  displayName: string; // Editable name for display
+  amountRiel: number | null; // Sum of all gifts, null if none
+  gifts: GiftEntry[]; // Oldest first
   note: string;
+  isCustomGuest: boolean; // Added at the table rather than seeded
+  group: string; // From the invitation list, "" when unknown
+  phone: string;
+  expectedAttendees: number | null;
   updatedAt: string | null;
 }
 
@@ -28,5 +54,17 @@ export interface GuestFormData {
   displayName: string;
 }
 
-// Fixed exchange rate (configurable)
-export const USD_TO_KHR_RATE = 4100;
+// How the guest list is ordered; "default" keeps the tab or search order
+export type GuestSort = "default" | "name" | "amount" | "time" | "side";
+
+export type GuestGrouping = "none" | "side" | "letter";
+
+export interface ListView {
+  sort: GuestSort;
+  grouping: GuestGrouping;
+}
+
+// One row of the (virtualized) guest list
+export type GuestListRow =
+  | { kind: "header"; label: string; count: number }
+  | { kind: "guest"; guest: GuestRecord };
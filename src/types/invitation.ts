@@ -0,0 +1,33 @@
+import { GuestBase } from "./guest";
+
+// Columns of an invitation spreadsheet the import can use
+export type InvitationField = "name" | "side" | "group" | "phone" | "expectedAttendees";
+
+// Column index for each field, null when the sheet has no such column
+export type ColumnMapping = Record<InvitationField, number | null>;
+
+// First sheet of an uploaded file, as text cells
+export interface SpreadsheetData {
+  fileName: string;
+  headers: string[];
+  rows: SpreadsheetRow[]; // Below the header, empty rows dropped
+}
+
+export interface SpreadsheetRow {
+  row: number; // As numbered in the spreadsheet, for error messages
+  cells: string[];
+}
+
+export interface InvitationGuest extends GuestBase {
+  group: string;
+  phone: string;
+  expectedAttendees: number | null;
+}
+
+// One spreadsheet row after mapping and validation
+export interface InvitationRow {
+  row: number; // As numbered in the spreadsheet
+  guest: InvitationGuest | null; // null when the row has errors
+  errors: string[];
+  duplicateOf: { id: string; name: string; inFile: boolean } | null;
+}
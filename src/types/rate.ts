@@ -0,0 +1,22 @@
+export interface ExchangeRate {
+  id?: number;
+  rate: number; // Riel per USD
+  effectiveFrom: number; // Unix timestamp the rate applies from
+  setBy: string; // Recorder name or device id
+}
+
+// USD gifts recorded at one rate
+export interface RateBucket {
+  rate: number;
+  usdAmount: number;
+  giftCount: number;
+}
+
+// Grand total valued at each gift's own rate versus today's rate
+export interface RateComparison {
+  todayRate: number;
+  historicalRiel: number;
+  todayRiel: number;
+  difference: number; // todayRiel - historicalRiel
+  buckets: RateBucket[]; // Lowest rate first
+}
@@ -0,0 +1,59 @@
+import { Contact } from "./contact";
+import { Currency } from "./guest";
+import { FieldClocks, Tombstone } from "./sync";
+
+// A gift we gave at that family's own wedding or ceremony
+export interface OutgoingGift {
+  id: string;
+  contactId: string;
+  occasion: string; // e.g. "មង្គលការកូនស្រី"
+  date: string; // YYYY-MM-DD
+  currency: Currency;
+  originalAmount: number; // Amount as given, in currency
+  exchangeRate: number; // Riel per USD when it was given
+  amountRiel: number; // Riel value at exchangeRate
+  note: string;
+  createdAt: number; // Unix timestamp
+  updatedAt: number;
+  deleted: Tombstone | null; // Kept so backups from other devices do not bring it back
+  fieldClocks?: FieldClocks; // Clock of each field's last write, for merging backups
+  encrypted?: string; // Amounts and note, while at-rest encryption is on
+}
+
+export type OutgoingGiftFormData = Pick<
+  OutgoingGift,
+  "contactId" | "occasion" | "date" | "currency" | "originalAmount" | "note"
+>;
+
+// How a return gift is worked out from what the family gave us
+export interface ReciprocityRules {
+  inflationPercent: number; // Added per year since their gift, compounded
+  roundKHR: number; // Riel suggestions are rounded up to a multiple of this
+  roundUSD: number; // Dollar suggestions likewise
+}
+
+export interface ReturnSuggestion {
+  currency: Currency;
+  amount: number;
+  basedOn: number; // What they gave at their latest event, in currency
+  years: number; // Since that gift, for the inflation
+}
+
+// Amounts kept apart per currency, plus everything in riel at the recorded rates
+export interface ExchangeTotals {
+  usd: number;
+  khr: number;
+  riel: number;
+}
+
+// What one family gave us against what we gave them
+export interface ContactBalance {
+  contact: Contact;
+  guestIds: string[]; // Their guest records, across events
+  received: ExchangeTotals;
+  given: ExchangeTotals;
+  balanceRiel: number; // received - given; above 0 means we owe them
+  lastReceivedAt: number | null; // Unix timestamp
+  lastGivenOn: string | null; // YYYY-MM-DD
+  suggestion: ReturnSuggestion | null; // null until they have given us something
+}
@@ -0,0 +1,43 @@
+import { Currency } from "./guest";
+
+// [start, end) offsets into the original text of a field
+export type HighlightRange = [number, number];
+
+export interface SearchHit<T> {
+  item: T;
+  score: number; // Lower is a closer match
+  field: number; // Index of the best matching field, as given to buildSearchIndex
+  ranges: HighlightRange[]; // Matched parts of that field
+}
+
+// Bounds on a gift amount: USD bounds apply to the amount given in dollars,
+// riel bounds to every gift's riel value
+export interface AmountRange {
+  currency: Currency;
+  min: number | null;
+  max: number | null;
+  minExclusive: boolean;
+  maxExclusive: boolean;
+}
+
+// One structured term of a search query, e.g. side:bride or amount:>=100$
+export type QueryFilter =
+  | { kind: "side"; value: "groom" | "bride" }
+  | { kind: "payment"; value: "cash" | "bank" }
+  | { kind: "bank"; value: "ABA" | "ACLEDA" }
+  | { kind: "ref"; value: string }
+  | { kind: "note"; value: string }
+  | { kind: "hasNote"; value: boolean }
+  | { kind: "amount"; value: AmountRange }
+  | { kind: "from"; value: number } // Received at or after (Unix timestamp)
+  | { kind: "to"; value: number } // Received at or before
+  | { kind: "origin"; value: "custom" | "seeded" };
+
+export type QueryTerm = QueryFilter & {
+  token: string; // As typed, so a chip can remove it from the query
+};
+
+export interface ParsedQuery {
+  text: string; // What is left for the name search
+  terms: QueryTerm[];
+}
@@ -1,3 +1,11 @@
+import { AuditEvent } from "./audit";
+import { Currency } from "./guest";
+import { ExchangeRate } from "./rate";
+import { WeddingEvent } from "./event";
+import { Contact } from "./contact";
+import { OutgoingGift } from "./reciprocity";
+import { FieldConflict } from "./conflict";
+
 // Sync status types for offline-first architecture
 export type SyncStatus = "synced" | "local" | "pending" | "error";
 
@@ -8,29 +16,82 @@ export interface SyncableRecord {
   lastSyncedAt: number | null;
 }
 
+// Soft-delete marker; travels with the record through backups and sync
+export interface Tombstone {
+  at: number; // Unix timestamp
+  reason: string;
+  by: string; // Recorder name or device id
+}
+
+// Hybrid logical clock of the last write to each field (see lib/hlc.ts)
+export type FieldClocks = Record<string, string>;
+
 export interface GuestRecordDB {
   id: string;
+  eventId: string; // Event the guest was invited to (types/event.ts)
   name: string; // Original name (read-only)
   displayName: string;
   side: "groom" | "bride";
-  amountRiel: number | null;
+  note: string;
+  updatedAt: number; // Unix timestamp
+  syncStatus: SyncStatus;
+  lastSyncedAt: number | null;
+  isCustomGuest: boolean; // true if created by user
+  deleted: Tombstone | null; // Guest is in the trash
+  // Invitation details, set by the spreadsheet import (lib/invitations.ts)
+  group?: string;
+  phone?: string;
+  expectedAttendees?: number | null;
+  contactId?: string | null; // Person, couple or household across events (types/contact.ts)
+  mergedInto?: string | null; // Set with deleted when merged into another guest (types/duplicate.ts)
+  fieldClocks?: FieldClocks; // Missing on rows not edited since clocks were added
+  encrypted?: string; // note, while at-rest encryption is on (lib/cipher.ts)
+}
+
+// One gift line item; a guest may give several (envelope + transfer, USD + riel)
+export interface GiftEntryDB {
+  id: string;
+  guestId: string;
+  eventId: string; // Same as the guest's
+  amountRiel: number; // Riel value at exchangeRate, used for totals
+  currency: Currency; // Currency the guest actually gave
+  originalAmount: number; // Amount as given, in currency
+  exchangeRate: number; // Riel per USD in effect when the gift was recorded
   paymentType: "cash" | "bank";
   bankType: "ABA" | "ACLEDA" | null;
   bankRef: string | null;
-  note: string;
+  receivedAt: number; // Unix timestamp the gift was recorded
+  recorder: string; // Recorder name or device id
   updatedAt: number; // Unix timestamp
   syncStatus: SyncStatus;
   lastSyncedAt: number | null;
-  isCustomGuest: boolean; // true if created by user
+  deleted: Tombstone | null; // Gift is in the trash
+  fieldClocks?: FieldClocks;
+  encrypted?: string; // Amounts and bank details, while at-rest encryption is on
+}
+
+// Received amounts kept apart per currency, plus everything in riel
+export interface CurrencyTotals {
+  usdReceived: number;
+  khrReceived: number;
+  grandTotalRiel: number; // Each gift converted at its own exchangeRate
 }
 
 export interface BackupData {
   version: number;
   exportedAt: string;
   guests: GuestRecordDB[];
+  gifts?: GiftEntryDB[]; // Version 3+; older backups keep the gift on the guest
+  ledger?: AuditEvent[]; // Hash-chained audit log (version 2+); other events' entries redacted (7+)
+  rates?: ExchangeRate[]; // Exchange rate history (version 4+)
+  events?: WeddingEvent[]; // The event the backup was taken of (version 5+)
+  contacts?: Contact[]; // Contacts and reciprocity ledger (version 6+); only the event's since 7
+  outgoingGifts?: OutgoingGift[];
   metadata: {
     totalRecords: number;
     pendingSync: number;
+    ledgerHead?: string | null; // Hash of the last sealed ledger entry
+    totals?: CurrencyTotals; // Version 4+
   };
 }
 
@@ -41,4 +102,43 @@ export interface SyncState {
   lastSyncTime: number | null;
   pendingCount: number;
   errorCount: number;
+  lastError: string | null; // Why the last attempt failed, cleared on success
+  nextRetryAt: number | null; // When a failed sync will be retried
+}
+
+// One push request: changed records from this device
+export interface SyncBatch {
+  deviceId: string;
+  pulledAt: number | null; // Server time of this device's last pull
+  guests: GuestRecordDB[];
+  gifts: GiftEntryDB[];
+  events: WeddingEvent[];
+}
+
+// A gift amount edited here and on another device, neither having seen the
+// other's; reported by the server as the pusher sees it
+export type PushedConflict = Omit<
+  FieldConflict,
+  "id" | "source" | "detectedAt" | "resolvedAt" | "resolvedBy"
+>;
+
+export interface PushResult {
+  accepted: string[]; // Ids stored by the server
+  rejected: { id: string; reason: string }[];
+  conflicts?: PushedConflict[]; // Missing from servers that do not report them
+  serverTime: number;
+}
+
+// Records the server received after the given server time
+export interface PullResult {
+  guests: GuestRecordDB[];
+  gifts: GiftEntryDB[];
+  events?: WeddingEvent[]; // Missing from servers that do not sync events
+  serverTime: number;
+}
+
+// Anything the sync engine can push to and pull from
+export interface SyncBackend {
+  push(batch: SyncBatch): Promise<PushResult>;
+  pull(since: number | null): Promise<PullResult>;
 }
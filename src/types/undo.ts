@@ -0,0 +1,19 @@
+import { GiftEntryDB, GuestRecordDB } from "./sync";
+
+// State of one guest and all their gifts before or after an operation
+export interface GuestSnapshot {
+  id: string;
+  record: GuestRecordDB | null; // null = did not exist
+  gifts: GiftEntryDB[];
+}
+
+export type UndoKind = "save" | "create" | "delete" | "import" | "merge";
+
+export interface UndoEntry {
+  id: string;
+  kind: UndoKind;
+  label: string;
+  timestamp: number;
+  before: GuestSnapshot[];
+  after: GuestSnapshot[];
+}
@@ -0,0 +1,21 @@
+// At-rest encryption is on while this record exists. The passphrase itself is
+// never stored: unlocking derives the key again and must open `check`.
+export interface VaultConfig {
+  id: "config";
+  salt: string; // Base64
+  iterations: number;
+  check: string; // Known text encrypted with the key
+  updatedAt: number;
+  updatedBy: string;
+}
+
+// A backup file written while encryption is on; `data` is the whole
+// BackupData JSON, encrypted with the key derived from salt and iterations
+export interface EncryptedBackup {
+  format: "wedding-backup-encrypted";
+  version: 1;
+  salt: string; // Base64
+  iterations: number;
+  exportedAt: string;
+  data: string; // Base64 of IV + ciphertext
+}
@@ -1,18 +1,59 @@
-import { defineConfig } from "vite";
+import { Plugin } from "vite";
+import { defineConfig } from "vitest/config";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import { createHash } from "crypto";
 import { componentTagger } from "lovable-tagger";
 
+// Files from public/ that the service worker precaches next to the bundle
+const PUBLIC_PRECACHE = ["/manifest.webmanifest", "/icon.svg", "/favicon.ico"];
+
+// Writes precache-manifest.js for public/sw.js: every built file plus a
+// version hash. A new build changes this file, so browsers see an update.
+function precacheManifest(): Plugin {
+  return {
+    name: "precache-manifest",
+    apply: "build",
+    generateBundle(_options, bundle) {
+      const built = Object.keys(bundle)
+        .filter((file) => !file.endsWith(".map") && file !== "index.html")
+        .map((file) => `/${file}`)
+        .sort();
+      const urls = ["/", ...built, ...PUBLIC_PRECACHE];
+
+      const hash = createHash("sha256");
+      for (const output of Object.values(bundle)) {
+        hash.update(output.type === "chunk" ? output.code : output.source);
+      }
+      const version = hash.digest("hex").slice(0, 12);
+
+      this.emitFile({
+        type: "asset",
+        fileName: "precache-manifest.js",
+        source: `self.__PRECACHE_MANIFEST = ${JSON.stringify({ version, urls })};\n`,
+      });
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
   },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  plugins: [react(), mode === "development" && componentTagger(), precacheManifest()].filter(
+    Boolean
+  ),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  // Unit tests for src/lib: a DOM for localStorage and File, and an
+  // in-memory IndexedDB
+  test: {
+    environment: "happy-dom",
+    setupFiles: ["./src/test/setup.ts"],
+  },
 }));